@@ -8,29 +8,45 @@ import { ChatRoom } from '@/components/ChatRoom';
 import { RoomList } from '@/components/RoomList';
 import { UserProfile } from '@/components/UserProfile';
 import { AdminPanel } from '@/components/AdminPanel';
+import { MessageSearchDialog } from '@/components/MessageSearchDialog';
+import { JoinRoomDialog } from '@/components/JoinRoomDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { MessageCircle, Settings, Users, Crown, LogOut, Plus } from 'lucide-react';
-import type { Room, CreateRoomInput } from '../../server/src/schema';
+import { MessageCircle, Settings, Users, Crown, LogOut, Plus, Search } from 'lucide-react';
+import type { Room, RoomWithUnread, RoomReadState, CreateRoomInput, MessageSearchResult, DirectConversation } from '../../server/src/schema';
+
+// How often the room list (and its unread counts) is reloaded
+const ROOM_REFRESH_MS = 30_000;
 
 function MainApp() {
-  const { user, logout, isAuthenticated } = useAuth();
+  const { user, logout, isAuthenticated, permissions } = useAuth();
   const [activeRoom, setActiveRoom] = useState<Room | null>(null);
-  const [rooms, setRooms] = useState<Room[]>([]);
+  const [rooms, setRooms] = useState<RoomWithUnread[]>([]);
+  const [directConversations, setDirectConversations] = useState<DirectConversation[]>([]);
   const [activeTab, setActiveTab] = useState('chat');
   const [showRegister, setShowRegister] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  // A room reached from search that the user has not joined, waiting for them to confirm
+  const [roomToJoin, setRoomToJoin] = useState<RoomWithUnread | null>(null);
+
+  // Every catalogued permission unlocks part of the admin panel
+  const canAccessAdmin = permissions.length > 0;
 
-  // Load user's rooms
+  // Load user's rooms and direct conversations
   const loadRooms = useCallback(async () => {
     if (!isAuthenticated) return;
     try {
-      const result = await trpc.getRooms.query();
-      setRooms(result);
+      const [roomList, conversations] = await Promise.all([
+        trpc.getRooms.query(),
+        trpc.getDirectConversations.query()
+      ]);
+      setRooms(roomList);
+      setDirectConversations(conversations);
     } catch (error) {
       console.error('Failed to load rooms:', error);
     }
@@ -42,10 +58,82 @@ function MainApp() {
     }
   }, [isAuthenticated, loadRooms]);
 
-  const handleRoomJoin = async (room: Room) => {
+  // Refresh unread counts for rooms the user is not looking at
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const interval = setInterval(loadRooms, ROOM_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, loadRooms]);
+
+  // Ctrl/Cmd+K opens message search
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isAuthenticated]);
+
+  const handleRoomRead = useCallback((readState: RoomReadState) => {
+    const withReadState = (room: RoomWithUnread): RoomWithUnread =>
+      room.id === readState.room_id
+        ? {
+          ...room,
+          last_read_message_id: readState.last_read_message_id,
+          unread_count: readState.unread_count,
+          unread_mention_count: readState.unread_mention_count
+        }
+        : room;
+    setRooms(prev => prev.map(withReadState));
+    setDirectConversations(prev => prev.map((conversation: DirectConversation) => ({
+      ...conversation,
+      room: withReadState(conversation.room)
+    })));
+  }, []);
+
+  // Direct conversations are titled after the other participant
+  const handleDirectConversationSelect = (conversation: DirectConversation) => {
+    setActiveRoom({
+      ...conversation.room,
+      name: conversation.other_user.display_name || conversation.other_user.username
+    });
+    setActiveTab('chat');
+  };
+
+  const handleOpenDirectConversation = async (userId: number) => {
+    try {
+      const conversation = await trpc.openDirectConversation.mutate({ user_id: userId });
+      setDirectConversations(prev => [
+        conversation,
+        ...prev.filter((existing: DirectConversation) => existing.room.id !== conversation.room.id)
+      ]);
+      handleDirectConversationSelect(conversation);
+    } catch (error) {
+      console.error('Failed to open direct conversation:', error);
+    }
+  };
+
+  // Rooms the user already belongs to open directly; others are joined first
+  const openJoinedRoom = (room: RoomWithUnread) => {
+    setRooms(prev => prev.map((candidate: RoomWithUnread) =>
+      candidate.id === room.id ? { ...candidate, participant_role: 'member' } : candidate
+    ));
+    setActiveRoom(room);
+    setActiveTab('chat');
+  };
+
+  const handleRoomJoin = async (room: RoomWithUnread) => {
     try {
       setIsLoading(true);
-      await trpc.joinRoom.mutate({ room_id: room.id });
+      if (room.participant_role === null) {
+        await trpc.joinRoom.mutate({ room_id: room.id });
+        openJoinedRoom(room);
+        return;
+      }
       setActiveRoom(room);
       setActiveTab('chat');
     } catch (error) {
@@ -55,10 +143,48 @@ function MainApp() {
     }
   };
 
+  // Open the room a search result was posted in; rooms the user has not joined ask first
+  const handleSearchResultSelect = (result: MessageSearchResult) => {
+    const room = rooms.find((candidate: RoomWithUnread) => candidate.id === result.message.room_id);
+    const conversation = directConversations.find((candidate: DirectConversation) => candidate.room.id === result.message.room_id);
+    setShowSearch(false);
+    if (room && room.participant_role === null) {
+      setRoomToJoin(room);
+    } else if (room) {
+      handleRoomJoin(room);
+    } else if (conversation) {
+      handleDirectConversationSelect(conversation);
+    }
+  };
+
+  // Private rooms the user left disappear from the list
+  const handleRoomLeft = () => {
+    setActiveRoom(null);
+    loadRooms();
+  };
+
+  // Keep the open room and the room list in step with saved changes
+  const handleRoomUpdated = (updated: Room) => {
+    setActiveRoom(updated);
+    setRooms(prev => prev.map((room: RoomWithUnread) => room.id === updated.id ? { ...room, ...updated } : room));
+  };
+
+  // Errors are left to the invite dialog, which shows why the code was rejected
+  const handleInviteAccept = async (code: string) => {
+    const participant = await trpc.acceptInvite.mutate({ code });
+    const roomList = await trpc.getRooms.query();
+    setRooms(roomList);
+    const room = roomList.find((candidate: RoomWithUnread) => candidate.id === participant.room_id);
+    if (room) {
+      setActiveRoom(room);
+      setActiveTab('chat');
+    }
+  };
+
   const handleRoomCreate = async (roomData: CreateRoomInput) => {
     try {
       const newRoom = await trpc.createRoom.mutate(roomData);
-      setRooms(prev => [...prev, newRoom]);
+      setRooms(prev => [...prev, { ...newRoom, participant_role: 'admin', last_read_message_id: null, unread_count: 0, unread_mention_count: 0 }]);
       setActiveRoom(newRoom);
       setActiveTab('chat');
     } catch (error) {
@@ -112,6 +238,22 @@ function MainApp() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <MessageSearchDialog
+        open={showSearch}
+        onOpenChange={setShowSearch}
+        rooms={rooms}
+        user={user}
+        onSelectResult={handleSearchResultSelect}
+      />
+      <JoinRoomDialog
+        room={roomToJoin}
+        onClose={() => setRoomToJoin(null)}
+        onRoomJoined={(room: RoomWithUnread) => {
+          setRoomToJoin(null);
+          openJoinedRoom(room);
+        }}
+      />
+
       {/* Header */}
       <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200 sticky top-0 z-50">
         <div className="container mx-auto px-4">
@@ -134,6 +276,17 @@ function MainApp() {
             </div>
 
             <div className="flex items-center space-x-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSearch(true)}
+                className="text-gray-500"
+              >
+                <Search className="h-4 w-4 mr-2" />
+                Search
+                <kbd className="ml-3 text-xs text-gray-400">Ctrl K</kbd>
+              </Button>
+
               <div className="flex items-center space-x-2 text-sm">
                 <Crown className="h-4 w-4 text-yellow-500" />
                 <span className="font-medium text-gray-700">{user?.gold_credits || 0}</span>
@@ -177,9 +330,12 @@ function MainApp() {
                     <TabsContent value="rooms" className="mt-4">
                       <RoomList 
                         rooms={rooms}
+                        directConversations={directConversations}
                         activeRoom={activeRoom}
                         onRoomSelect={handleRoomJoin}
+                        onDirectConversationSelect={handleDirectConversationSelect}
                         onRoomCreate={handleRoomCreate}
+                        onInviteAccept={handleInviteAccept}
                         isLoading={isLoading}
                       />
                     </TabsContent>
@@ -201,7 +357,7 @@ function MainApp() {
                   <MessageCircle className="h-4 w-4 mr-2" />
                   Chat
                 </TabsTrigger>
-                {user?.role_id === 1 && ( // Assuming role_id 1 is admin
+                {canAccessAdmin && (
                   <TabsTrigger value="admin">
                     <Settings className="h-4 w-4 mr-2" />
                     Admin
@@ -212,9 +368,18 @@ function MainApp() {
               <TabsContent value="chat">
                 {activeRoom ? (
                   <ChatRoom 
+                    key={activeRoom.id}
                     room={activeRoom} 
                     user={user}
+                    participantRole={[...rooms, ...directConversations.map((conversation: DirectConversation) => conversation.room)]
+                      .find((room: RoomWithUnread) => room.id === activeRoom.id)?.participant_role ?? null}
+                    lastReadMessageId={[...rooms, ...directConversations.map((conversation: DirectConversation) => conversation.room)]
+                      .find((room: RoomWithUnread) => room.id === activeRoom.id)?.last_read_message_id ?? null}
+                    onRoomRead={handleRoomRead}
+                    onOpenDirectConversation={handleOpenDirectConversation}
                     onLeaveRoom={() => setActiveRoom(null)}
+                    onRoomLeft={handleRoomLeft}
+                    onRoomUpdated={handleRoomUpdated}
                   />
                 ) : (
                   <Card className="shadow-sm border-0 bg-white/60 backdrop-blur-sm">
@@ -238,7 +403,7 @@ function MainApp() {
                 )}
               </TabsContent>
 
-              {user?.role_id === 1 && (
+              {canAccessAdmin && (
                 <TabsContent value="admin">
                   <AdminPanel />
                 </TabsContent>
@@ -22,17 +22,24 @@ import {
   Crown,
   UserPlus,
   Loader2,
-  AlertTriangle
+  AlertTriangle,
+  FolderTree,
+  Pencil,
+  Trash2
 } from 'lucide-react';
 import type { 
   User, 
   Role, 
   EmailTemplate, 
   SiteSetting,
+  PermissionInfo,
   CreateRoleInput,
   AssignUserRoleInput,
   CreateEmailTemplateInput,
-  UpdateSiteSettingInput
+  UpdateSiteSettingInput,
+  RoomCategory,
+  CreateRoomCategoryInput,
+  UpdateRoomCategoryInput
 } from '../../../server/src/schema';
 
 export function AdminPanel() {
@@ -40,6 +47,8 @@ export function AdminPanel() {
   const [roles, setRoles] = useState<Role[]>([]);
   const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([]);
   const [siteSettings, setSiteSettings] = useState<SiteSetting[]>([]);
+  const [roomCategories, setRoomCategories] = useState<RoomCategory[]>([]);
+  const [permissionCatalogue, setPermissionCatalogue] = useState<PermissionInfo[]>([]);
   const [, setIsLoading] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
@@ -47,17 +56,21 @@ export function AdminPanel() {
   const loadAdminData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const [usersData, rolesData, templatesData, settingsData] = await Promise.all([
+      const [usersData, rolesData, catalogueData, templatesData, settingsData, categoriesData] = await Promise.all([
         trpc.getUsers.query(),
         trpc.getRoles.query(),
+        trpc.getPermissionCatalogue.query(),
         trpc.getEmailTemplates.query(),
-        trpc.getSiteSettings.query({ publicOnly: false })
+        trpc.getSiteSettings.query({ publicOnly: false }),
+        trpc.getRoomCategories.query()
       ]);
 
       setUsers(usersData);
       setRoles(rolesData);
+      setPermissionCatalogue(catalogueData);
       setEmailTemplates(templatesData);
       setSiteSettings(settingsData);
+      setRoomCategories(categoriesData);
     } catch (error) {
       console.error('Failed to load admin data:', error);
       // Use fallback data on error
@@ -179,7 +192,7 @@ export function AdminPanel() {
       )}
 
       <Tabs defaultValue="users" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="users">
             <Users className="h-4 w-4 mr-2" />
             Users
@@ -196,6 +209,10 @@ export function AdminPanel() {
             <Settings className="h-4 w-4 mr-2" />
             Site Settings
           </TabsTrigger>
+          <TabsTrigger value="categories">
+            <FolderTree className="h-4 w-4 mr-2" />
+            Room Categories
+          </TabsTrigger>
         </TabsList>
 
         {/* Users Management */}
@@ -214,6 +231,7 @@ export function AdminPanel() {
         <TabsContent value="roles">
           <RoleManagement 
             roles={roles}
+            availablePermissions={permissionCatalogue}
             onRoleCreate={(newRole) => {
               setRoles(prev => [...prev, newRole]);
               showSuccess('Role created successfully! ✅');
@@ -242,6 +260,17 @@ export function AdminPanel() {
             }}
           />
         </TabsContent>
+
+        {/* Room Categories */}
+        <TabsContent value="categories">
+          <RoomCategoryManagement
+            categories={roomCategories}
+            onCategoriesChange={(categories) => {
+              setRoomCategories(categories);
+              showSuccess('Room categories updated successfully! ✅');
+            }}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -396,8 +425,9 @@ function UserManagement({ users, roles, onUserUpdate }: {
 }
 
 // Role Management Component
-function RoleManagement({ roles, onRoleCreate }: {
+function RoleManagement({ roles, availablePermissions, onRoleCreate }: {
   roles: Role[];
+  availablePermissions: PermissionInfo[];
   onRoleCreate: (role: Role) => void;
 }) {
   const [isCreating, setIsCreating] = useState(false);
@@ -421,8 +451,6 @@ function RoleManagement({ roles, onRoleCreate }: {
     }
   };
 
-  const availablePermissions = ['chat', 'create_room', 'admin', 'moderate', 'premium_access'];
-
   return (
     <div className="space-y-4">
       <Card>
@@ -447,8 +475,8 @@ function RoleManagement({ roles, onRoleCreate }: {
             <div className="space-y-2">
               <Label>Permissions</Label>
               <div className="grid grid-cols-2 gap-2">
-                {availablePermissions.map(permission => (
-                  <div key={permission} className="flex items-center space-x-2">
+                {availablePermissions.map(({ key: permission, description }) => (
+                  <div key={permission} className="flex items-center space-x-2" title={description}>
                     <input
                       type="checkbox"
                       id={permission}
@@ -468,8 +496,8 @@ function RoleManagement({ roles, onRoleCreate }: {
                       }}
                       disabled={isCreating}
                     />
-                    <Label htmlFor={permission} className="capitalize">
-                      {permission.replace('_', ' ')}
+                    <Label htmlFor={permission}>
+                      {permission}
                     </Label>
                   </div>
                 ))}
@@ -797,4 +825,205 @@ function SiteSettingsManagement({ settings, onSettingUpdate }: {
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+// Room Category Management Component
+function RoomCategoryManagement({ categories, onCategoriesChange }: {
+  categories: RoomCategory[];
+  onCategoriesChange: (categories: RoomCategory[]) => void;
+}) {
+  const emptyCategory: CreateRoomCategoryInput = { name: '', description: null, position: 0 };
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [categoryData, setCategoryData] = useState<CreateRoomCategoryInput>(emptyCategory);
+  const [editData, setEditData] = useState<UpdateRoomCategoryInput | null>(null);
+
+  // Categories are listed in the order the room list shows them
+  const sorted = (list: RoomCategory[]) =>
+    [...list].sort((a: RoomCategory, b: RoomCategory) => a.position - b.position || a.name.localeCompare(b.name));
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateCategory = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      const created = await trpc.createRoomCategory.mutate(categoryData);
+      onCategoriesChange(sorted([...categories, created]));
+      setCategoryData(emptyCategory);
+    }, 'Failed to create room category');
+  };
+
+  const handleSaveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editData) return;
+    runAction(async () => {
+      const updated = await trpc.updateRoomCategory.mutate(editData);
+      onCategoriesChange(sorted(categories.map((category: RoomCategory) => category.id === updated.id ? updated : category)));
+      setEditData(null);
+    }, 'Failed to update room category');
+  };
+
+  const handleDelete = (categoryId: number) => runAction(async () => {
+    await trpc.deleteRoomCategory.mutate({ category_id: categoryId });
+    onCategoriesChange(categories.filter((category: RoomCategory) => category.id !== categoryId));
+  }, 'Failed to delete room category');
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>🗂️ Create Room Category</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreateCategory} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2 col-span-2">
+                <Label>Name</Label>
+                <Input
+                  value={categoryData.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setCategoryData(prev => ({ ...prev, name: e.target.value }))
+                  }
+                  placeholder="e.g., Gaming, Music"
+                  required
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Position</Label>
+                <Input
+                  type="number"
+                  value={categoryData.position ?? 0}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setCategoryData(prev => ({ ...prev, position: parseInt(e.target.value) || 0 }))
+                  }
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                value={categoryData.description || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setCategoryData(prev => ({ ...prev, description: e.target.value || null }))
+                }
+                placeholder="Optional"
+                disabled={isSaving}
+              />
+            </div>
+
+            <Button type="submit" disabled={isSaving}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Category
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Existing Categories</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+          {categories.length === 0 ? (
+            <p className="text-sm text-gray-500">No categories yet. Rooms are listed without grouping.</p>
+          ) : (
+            <div className="space-y-3">
+              {categories.map((category: RoomCategory) => (
+                <div key={category.id} className="border rounded-lg p-4">
+                  {editData?.category_id === category.id ? (
+                    <form onSubmit={handleSaveEdit} className="flex items-center space-x-2">
+                      <Input
+                        value={editData.name ?? ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setEditData(prev => prev && { ...prev, name: e.target.value })
+                        }
+                        aria-label="Name"
+                        required
+                        disabled={isSaving}
+                      />
+                      <Input
+                        value={editData.description || ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setEditData(prev => prev && { ...prev, description: e.target.value || null })
+                        }
+                        placeholder="Description"
+                        aria-label="Description"
+                        disabled={isSaving}
+                      />
+                      <Input
+                        type="number"
+                        value={editData.position ?? 0}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setEditData(prev => prev && { ...prev, position: parseInt(e.target.value) || 0 })
+                        }
+                        className="w-20"
+                        aria-label="Position"
+                        disabled={isSaving}
+                      />
+                      <Button type="submit" size="sm" disabled={isSaving}>
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setEditData(null)} disabled={isSaving}>
+                        Cancel
+                      </Button>
+                    </form>
+                  ) : (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-medium flex items-center">
+                          {category.name}
+                          <Badge variant="outline" className="ml-2 text-xs">#{category.position}</Badge>
+                        </h4>
+                        {category.description && <p className="text-sm text-gray-600 mt-1">{category.description}</p>}
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditData({
+                            category_id: category.id,
+                            name: category.name,
+                            description: category.description,
+                            position: category.position
+                          })}
+                          aria-label="Edit category"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => handleDelete(category.id)}
+                          disabled={isSaving}
+                          aria-label="Delete category"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { trpc } from '@/utils/trpc';
-import type { User, LoginUserInput, RegisterUserInput } from '../../../server/src/schema';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { trpc, wsClient } from '@/utils/trpc';
+import { getSessionToken, setSessionToken, clearSessionToken } from '@/utils/session';
+import type { CurrentUser, LoginUserInput, RegisterUserInput } from '../../../server/src/schema';
 
 interface AuthContextType {
-  user: User | null;
+  user: CurrentUser | null;
+  permissions: string[];
+  hasPermission: (permission: string) => boolean;
   isAuthenticated: boolean;
   login: (credentials: LoginUserInput) => Promise<void>;
   register: (userData: RegisterUserInput) => Promise<void>;
@@ -18,35 +21,33 @@ interface AuthProviderProps {
 }
 
 export function AuthProvider({ children }: AuthProviderProps) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
   const isAuthenticated = user !== null;
 
+  const hasPermission = (permission: string) => permissions.includes(permission);
+
+  // Permissions come from the user's role and gate the admin features
+  const loadPermissions = useCallback(async () => {
+    try {
+      const result = await trpc.getMyPermissions.query();
+      setPermissions(result);
+    } catch (error) {
+      console.error('Failed to load permissions:', error);
+      setPermissions([]);
+    }
+  }, []);
+
   const login = async (credentials: LoginUserInput) => {
     try {
       setIsLoading(true);
-      await trpc.loginUser.mutate(credentials);
-      // Create user based on successful login
-      const userData: User = {
-        id: 1,
-        username: credentials.email.split('@')[0],
-        email: credentials.email,
-        password_hash: '', // Never store this on frontend
-        display_name: credentials.email.split('@')[0],
-        avatar_url: null,
-        gold_credits: 100,
-        role_id: 1, // Admin role for demo
-        language: 'en',
-        theme: 'light',
-        is_active: true,
-        is_verified: true,
-        last_login_at: new Date(),
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      setUser(userData);
-      localStorage.setItem('user', JSON.stringify(userData));
+      const result = await trpc.loginUser.mutate(credentials);
+      setSessionToken(result.token);
+      setUser(result.user);
+      localStorage.setItem('user', JSON.stringify(result.user));
+      await loadPermissions();
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
@@ -71,25 +72,50 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const logout = () => {
     setUser(null);
+    setPermissions([]);
     localStorage.removeItem('user');
+    clearSessionToken();
+    // Drop the realtime connection authenticated as the previous user
+    wsClient.close();
   };
 
-  // Check for stored user on app start
+  // Check for stored session on app start
   useEffect(() => {
     const storedUser = localStorage.getItem('user');
-    if (storedUser) {
-      try {
-        const parsedUser = JSON.parse(storedUser);
-        setUser(parsedUser);
-      } catch (error) {
-        console.error('Failed to parse stored user:', error);
-        localStorage.removeItem('user');
-      }
+    if (!storedUser || !getSessionToken()) {
+      localStorage.removeItem('user');
+      clearSessionToken();
+      return;
     }
-  }, []);
+
+    try {
+      const parsedUser = JSON.parse(storedUser);
+      setUser(parsedUser);
+    } catch (error) {
+      console.error('Failed to parse stored user:', error);
+      localStorage.removeItem('user');
+      return;
+    }
+
+    // Refresh the user from the server; an expired session signs the user out
+    trpc.getCurrentUser.query()
+      .then((currentUser: CurrentUser) => {
+        setUser(currentUser);
+        localStorage.setItem('user', JSON.stringify(currentUser));
+        return loadPermissions();
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to restore session:', error);
+        setUser(null);
+        localStorage.removeItem('user');
+        clearSessionToken();
+      });
+  }, [loadPermissions]);
 
   const value: AuthContextType = {
     user,
+    permissions,
+    hasPermission,
     isAuthenticated,
     login,
     register,
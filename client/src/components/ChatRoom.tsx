@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
 import { trpc } from '@/utils/trpc';
+import { formatTimestamp, isImageAttachment } from '@/utils/format';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,189 +8,551 @@ import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { Send, Users, Crown, ArrowLeft, Image, Paperclip } from 'lucide-react';
-import type { Room, User, Message, SendMessageInput } from '../../../server/src/schema';
+import { RoomPresenceBadge } from '@/components/RoomPresenceBadge';
+import { RoomInviteDialog } from '@/components/RoomInviteDialog';
+import { LeaveRoomDialog } from '@/components/LeaveRoomDialog';
+import { RoomSettingsDialog } from '@/components/RoomSettingsDialog';
+import { RoomMembersPanel } from '@/components/RoomMembersPanel';
+import { MessageThreadPanel } from '@/components/MessageThreadPanel';
+import { PinnedMessagesDrawer } from '@/components/PinnedMessagesDrawer';
+import { ScheduledMessagesDialog } from '@/components/ScheduledMessagesDialog';
+import { MessageReactions } from '@/components/MessageReactions';
+import { MessageAttachments, PendingAttachments } from '@/components/MessageAttachments';
+import { Send, Crown, ArrowLeft, Image, Paperclip, Pencil, Trash2, MessageSquare, Users, Archive, Pin, PinOff, RotateCw } from 'lucide-react';
+import type { Room, RoomWithUnread, CurrentUser, MessageWithAuthor, SendMessageInput, RoomEvent, UserSummary, ReactionSummary, Attachment, RoomReadState, PinnedMessage } from '../../../server/src/schema';
+
+// Adjust the reply count shown on a thread's root message
+const withReplyCountChange = (list: MessageWithAuthor[], rootId: number | null, delta: number) =>
+  rootId === null
+    ? list
+    : list.map(msg => msg.id === rootId ? { ...msg, reply_count: Math.max(0, msg.reply_count + delta) } : msg);
+
+// Add messages the list doesn't have yet, keeping stored messages in id order ahead of
+// those still being sent
+const withMessagesAdded = (list: MessageWithAuthor[], incoming: MessageWithAuthor[]) => {
+  const added = incoming.filter(msg => !list.some(existing => existing.id === msg.id));
+  if (added.length === 0) return list;
+  const stored = [...list.filter(msg => msg.id > 0), ...added].sort((a, b) => a.id - b.id);
+  return [...stored, ...list.filter(msg => msg.id < 0)];
+};
+
+// Emphasise "@username" wherever a message mentions the current user
+const highlightMention = (content: string, username: string) => {
+  const escaped = username.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return content.split(new RegExp(`(@${escaped})(?!\\w)`, 'gi')).map((part: string, index: number) =>
+    index % 2 === 1
+      ? <mark key={index} className="rounded bg-amber-200 px-0.5 font-medium text-gray-900">{part}</mark>
+      : part
+  );
+};
 
 interface ChatRoomProps {
   room: Room;
-  user: User | null;
+  user: CurrentUser | null;
+  // The user's role in the room, null while they are not a participant
+  participantRole: RoomWithUnread['participant_role'];
+  // Read position when the room was opened; unread messages after it get a divider
+  lastReadMessageId: number | null;
+  onRoomRead: (readState: RoomReadState) => void;
+  onOpenDirectConversation: (userId: number) => void;
   onLeaveRoom: () => void;
+  // Called once the user has left the room for good
+  onRoomLeft: () => void;
+  // Called with the saved room after changes such as an ownership transfer
+  onRoomUpdated: (room: Room) => void;
 }
 
-interface MessageWithUser extends Message {
-  user: {
-    id: number;
-    username: string;
-    display_name: string | null;
-    avatar_url: string | null;
-  };
-}
+// Messages fetched per history page
+const PAGE_SIZE = 50;
+
+// Resend "typing" this often while the user keeps typing; the server expires it after 5s
+const TYPING_REFRESH_MS = 3_000;
 
-export function ChatRoom({ room, user, onLeaveRoom }: ChatRoomProps) {
-  const [messages, setMessages] = useState<MessageWithUser[]>([]);
+export function ChatRoom({ room, user, participantRole, lastReadMessageId, onRoomRead, onOpenDirectConversation, onLeaveRoom, onRoomLeft, onRoomUpdated }: ChatRoomProps) {
+  const [messages, setMessages] = useState<MessageWithAuthor[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Why the messages could not be loaded; the list is replaced by a retry prompt
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [isSending, setIsSending] = useState(false);
+  const [threadMessageId, setThreadMessageId] = useState<number | null>(null);
+  // The members sidebar and a thread share the space beside the messages
+  const [showMembers, setShowMembers] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Why the last message was rejected, e.g. because the user is muted
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [typingUsers, setTypingUsers] = useState<UserSummary[]>([]);
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [wasRemoved, setWasRemoved] = useState(false);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Later reads update the prop; the divider stays where the room was left off
+  const [lastReadOnOpen] = useState(lastReadMessageId);
+  const [newMessagesDividerId, setNewMessagesDividerId] = useState<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom of the list to restore after older messages are prepended
+  const scrollAnchorRef = useRef<number | null>(null);
+  const lastTypingSentRef = useRef<number>(0);
+  // Newest stored message in the list, null until the first page has loaded
+  const newestMessageIdRef = useRef<number | null>(null);
+  // Whether room events are being received; events sent while not are fetched afterwards
+  const subscriptionStartedRef = useRef(false);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const scrollToBottom = (behavior: ScrollBehavior = 'smooth') => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
   };
 
+  const getScrollViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLDivElement>('[data-slot="scroll-area-viewport"]') ?? null;
+
+  // Fetch the messages posted after the given one; their events were sent while the
+  // subscription was not running yet or was reconnecting
+  const catchUpMessages = useCallback(async (afterId: number) => {
+    try {
+      let after = afterId;
+      let page: MessageWithAuthor[];
+      do {
+        page = await trpc.getRoomMessages.query({
+          roomId: room.id,
+          limit: PAGE_SIZE,
+          after
+        });
+        const missed = page;
+        setMessages(prev => missed.reduce(
+          (list, msg) => list.some(existing => existing.id === msg.id)
+            ? list
+            : withReplyCountChange(withMessagesAdded(list, [msg]), msg.reply_to_id, 1),
+          prev
+        ));
+        if (page.length > 0) {
+          after = page[page.length - 1].id;
+        }
+      } while (page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to catch up on messages:', error);
+    }
+  }, [room.id]);
+
   // Load messages for the room
   const loadMessages = useCallback(async () => {
     if (!room || !user) return;
     
     try {
       setIsLoading(true);
+      setLoadError(null);
+      // Newest page first; older pages load as the user scrolls up
       const result = await trpc.getRoomMessages.query({
         roomId: room.id,
-        limit: 50
+        limit: PAGE_SIZE
       });
       
-      // Transform messages to include user data
-      const messagesWithUsers: MessageWithUser[] = result.map((msg: Message) => ({
-        ...msg,
-        user: {
-          id: msg.user_id,
-          username: msg.user_id === user.id ? user.username : `user${msg.user_id}`,
-          display_name: msg.user_id === user.id ? user.display_name : `User ${msg.user_id}`,
-          avatar_url: msg.user_id === user.id ? user.avatar_url : null
-        }
-      }));
-      
-      setMessages(messagesWithUsers);
+      // Keep messages pushed while the page was loading
+      const newestLoaded = result.length > 0 ? result[result.length - 1].id : 0;
+      setMessages(prev => withMessagesAdded(result, prev.filter(msg => msg.id > newestLoaded)));
+      setHasOlderMessages(result.length === PAGE_SIZE);
+      newestMessageIdRef.current = Math.max(newestMessageIdRef.current ?? 0, newestLoaded);
+      // Anything posted between reading the page and the subscription starting
+      if (subscriptionStartedRef.current) {
+        catchUpMessages(newestLoaded);
+      }
+      // First unread message from someone else, as of opening the room
+      const firstUnread = lastReadOnOpen === null
+        ? undefined
+        : result.find((msg: MessageWithAuthor) => msg.id > lastReadOnOpen && msg.user_id !== user.id);
+      setNewMessagesDividerId(firstUnread?.id ?? null);
     } catch (error) {
       console.error('Failed to load messages:', error);
-      // Use fallback messages on error
-      const fallbackMessages: MessageWithUser[] = [
-        {
-          id: 1,
-          room_id: room.id,
-          user_id: 999,
-          content: `Welcome to ${room.name}! 🎉`,
-          message_type: 'system',
-          is_edited: false,
-          is_deleted: false,
-          reply_to_id: null,
-          created_at: new Date(Date.now() - 3600000),
-          updated_at: new Date(Date.now() - 3600000),
-          user: {
-            id: 999,
-            username: 'system',
-            display_name: 'ChatHub Bot',
-            avatar_url: null
-          }
-        },
-        {
-          id: 2,
-          room_id: room.id,
-          user_id: 100,
-          content: 'Hey everyone! Great to be here! 😊',
-          message_type: 'text',
-          is_edited: false,
-          is_deleted: false,
-          reply_to_id: null,
-          created_at: new Date(Date.now() - 1800000),
-          updated_at: new Date(Date.now() - 1800000),
-          user: {
-            id: 100,
-            username: 'alice_wonderland',
-            display_name: 'Alice',
-            avatar_url: null
-          }
-        },
-        {
-          id: 3,
-          room_id: room.id,
-          user_id: 101,
-          content: 'This room looks awesome! Love the features here 🚀',
-          message_type: 'text',
-          is_edited: false,
-          is_deleted: false,
-          reply_to_id: null,
-          created_at: new Date(Date.now() - 900000),
-          updated_at: new Date(Date.now() - 900000),
-          user: {
-            id: 101,
-            username: 'bob_builder',
-            display_name: 'Bob',
-            avatar_url: null
-          }
-        }
-      ];
-      setMessages(fallbackMessages);
+      setMessages([]);
+      setHasOlderMessages(false);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load messages');
     } finally {
       setIsLoading(false);
     }
-  }, [room, user]);
+  }, [room, user, lastReadOnOpen, catchUpMessages]);
 
   useEffect(() => {
     loadMessages();
   }, [loadMessages]);
 
+  // Load the page before the oldest loaded message
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = messages.find((msg: MessageWithAuthor) => msg.id > 0);
+    if (!hasOlderMessages || isLoadingOlder || !oldest) return;
+
+    try {
+      setIsLoadingOlder(true);
+      const result = await trpc.getRoomMessages.query({
+        roomId: room.id,
+        limit: PAGE_SIZE,
+        before: oldest.id
+      });
+
+      const viewport = getScrollViewport();
+      if (viewport) {
+        scrollAnchorRef.current = viewport.scrollHeight - viewport.scrollTop;
+      }
+
+      setMessages(prev => [
+        ...result.filter((msg: MessageWithAuthor) => !prev.some(existing => existing.id === msg.id)),
+        ...prev
+      ]);
+      setHasOlderMessages(result.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [messages, hasOlderMessages, isLoadingOlder, room.id]);
+
+  // Load older messages when the user scrolls near the top
   useEffect(() => {
-    scrollToBottom();
+    const viewport = getScrollViewport();
+    if (!viewport) return;
+
+    const handleScroll = () => {
+      if (viewport.scrollTop < 80) {
+        loadOlderMessages();
+      }
+    };
+
+    viewport.addEventListener('scroll', handleScroll);
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [loadOlderMessages]);
+
+  // Keep the visible messages in place after prepending an older page
+  useLayoutEffect(() => {
+    const viewport = getScrollViewport();
+    if (viewport && scrollAnchorRef.current !== null) {
+      viewport.scrollTop = viewport.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+    }
   }, [messages]);
 
+  const loadPinnedMessages = useCallback(async () => {
+    if (!user) return;
+    try {
+      setPinnedMessages(await trpc.getPinnedMessages.query({ room_id: room.id }));
+    } catch (error) {
+      console.error('Failed to load pinned messages:', error);
+    }
+  }, [room.id, user]);
+
+  useEffect(() => {
+    loadPinnedMessages();
+  }, [loadPinnedMessages]);
+
+  const updateReactions = useCallback((messageId: number, reactions: ReactionSummary[]) => {
+    setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, reactions } : msg));
+  }, []);
+
+  // Apply realtime events pushed by the server for this room
+  const handleRoomEvent = useCallback((event: RoomEvent) => {
+    switch (event.type) {
+      case 'message.created':
+        setMessages(prev =>
+          prev.some(msg => msg.id === event.message.id)
+            ? prev
+            : withReplyCountChange(withMessagesAdded(prev, [event.message]), event.message.reply_to_id, 1)
+        );
+        break;
+      case 'message.updated':
+        setMessages(prev =>
+          prev.map(msg => msg.id === event.message.id ? { ...msg, ...event.message } : msg)
+        );
+        break;
+      case 'message.deleted':
+        setMessages(prev => {
+          const deleted = prev.find(msg => msg.id === event.message_id);
+          return withReplyCountChange(
+            prev.filter(msg => msg.id !== event.message_id),
+            deleted ? deleted.reply_to_id : null,
+            -1
+          );
+        });
+        break;
+      case 'reactions.changed':
+        updateReactions(event.message_id, event.reactions);
+        break;
+      case 'pins.changed':
+        loadPinnedMessages();
+        break;
+      case 'participant.removed':
+        // Kicked or banned: the server has ended our subscription, so close the room
+        if (event.user_id === user?.id) {
+          setWasRemoved(true);
+        }
+        break;
+      case 'room.deleted':
+        // Subscriptions end with the room, so close it
+        setWasRemoved(true);
+        break;
+      case 'typing.changed':
+        setTypingUsers(event.typing_users.filter((typingUser: UserSummary) => typingUser.id !== user?.id));
+        break;
+    }
+  }, [user, updateReactions, loadPinnedMessages]);
+
+  useEffect(() => {
+    if (wasRemoved) {
+      onRoomLeft();
+    }
+  }, [wasRemoved, onRoomLeft]);
+
+  useEffect(() => {
+    if (!user) return;
+    const subscription = trpc.onRoomEvent.subscribe({ roomId: room.id }, {
+      // Also called after each reconnect
+      onStarted: () => {
+        subscriptionStartedRef.current = true;
+        if (newestMessageIdRef.current !== null) {
+          catchUpMessages(newestMessageIdRef.current);
+        }
+      },
+      onData: handleRoomEvent,
+      onError: (error: unknown) => console.error('Room event subscription failed:', error)
+    });
+    return () => {
+      subscriptionStartedRef.current = false;
+      subscription.unsubscribe();
+    };
+  }, [room.id, user, handleRoomEvent, catchUpMessages]);
+
+  useEffect(() => {
+    const stored = messages.filter(msg => msg.id > 0);
+    if (stored.length > 0) {
+      newestMessageIdRef.current = Math.max(newestMessageIdRef.current ?? 0, stored[stored.length - 1].id);
+    }
+  }, [messages]);
+
+  // Follow the conversation when a message is appended, but not when older ones are prepended
+  const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+  const previousLastMessageIdRef = useRef<number | null>(null);
+  useEffect(() => {
+    // Jump straight to the bottom on first load so the top of the list never triggers paging
+    scrollToBottom(previousLastMessageIdRef.current === null ? 'auto' : 'smooth');
+    previousLastMessageIdRef.current = lastMessageId;
+  }, [lastMessageId]);
+
+  // Everything up to the newest loaded message has been seen (optimistic ids are negative)
+  useEffect(() => {
+    if (!user || lastMessageId === null || lastMessageId < 0) return;
+    trpc.markRoomRead.mutate({ room_id: room.id, message_id: lastMessageId })
+      .then(onRoomRead)
+      .catch((error: unknown) => console.error('Failed to mark room read:', error));
+  }, [room.id, user, lastMessageId, onRoomRead]);
+
+  // Tell the room we are typing, at most once per refresh interval
+  const notifyTyping = useCallback((isTyping: boolean) => {
+    const now = Date.now();
+    if (isTyping && now - lastTypingSentRef.current < TYPING_REFRESH_MS) return;
+    if (!isTyping && lastTypingSentRef.current === 0) return;
+
+    lastTypingSentRef.current = isTyping ? now : 0;
+    trpc.setTyping.mutate({ room_id: room.id, is_typing: isTyping }).catch((error: unknown) => {
+      console.error('Failed to update typing state:', error);
+    });
+  }, [room.id]);
+
+  // Stop typing when leaving the room
+  useEffect(() => {
+    setTypingUsers([]);
+    return () => notifyTyping(false);
+  }, [notifyTyping]);
+
+  const handleMessageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setNewMessage(e.target.value);
+    if (user) {
+      notifyTyping(e.target.value.trim().length > 0);
+    }
+  };
+
+  const formatTypingUsers = (users: UserSummary[]) => {
+    const names = users.map((typingUser: UserSummary) => typingUser.display_name || typingUser.username);
+    if (names.length === 1) return `${names[0]} is typing…`;
+    if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+    return 'Several people are typing…';
+  };
+
+  // Upload picked files right away; they are attached to the next message sent
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.set('room_id', String(room.id));
+        formData.set('file', file);
+        const attachment = await trpc.uploadAttachment.mutate(formData);
+        setPendingAttachments(prev => [...prev, attachment]);
+      }
+    } catch (error) {
+      console.error('Failed to upload attachment:', error);
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const removePendingAttachment = (attachmentId: number) => {
+    setPendingAttachments(prev => prev.filter((attachment: Attachment) => attachment.id !== attachmentId));
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !user || isSending) return;
+    const attachments = pendingAttachments;
+    if ((!newMessage.trim() && attachments.length === 0) || !user || isSending || isUploading) return;
+
+    const messageType = attachments.length === 0
+      ? 'text'
+      : attachments.every(isImageAttachment) ? 'image' : 'file';
+    // Messages need some text; fall back to the file names for attachment-only messages
+    const content = newMessage.trim()
+      ? newMessage
+      : attachments.map((attachment: Attachment) => attachment.file_name).join(', ');
 
     const messageData: SendMessageInput = {
       room_id: room.id,
-      content: newMessage,
-      message_type: 'text'
+      content,
+      message_type: messageType,
+      attachment_ids: attachments.map((attachment: Attachment) => attachment.id)
     };
 
+    // Temporary ID until the server assigns one
+    const optimisticId = -Date.now();
+
     try {
       setIsSending(true);
+      setSendError(null);
       // Optimistically add the message
-      const optimisticMessage: MessageWithUser = {
-        id: Date.now(), // Temporary ID
+      const optimisticMessage: MessageWithAuthor = {
+        id: optimisticId,
         room_id: room.id,
         user_id: user.id,
-        content: newMessage,
-        message_type: 'text',
+        content,
+        message_type: messageType,
         is_edited: false,
         is_deleted: false,
         reply_to_id: null,
+        reply_count: 0,
+        reactions: [],
+        attachments,
+        mentioned_user_ids: [],
         created_at: new Date(),
         updated_at: new Date(),
-        user: {
+        author: {
           id: user.id,
           username: user.username,
           display_name: user.display_name,
-          avatar_url: user.avatar_url
+          avatar_url: user.avatar_url,
+          participant_role: null
         }
       };
 
       setMessages(prev => [...prev, optimisticMessage]);
       setNewMessage('');
+      setPendingAttachments([]);
+      // The server clears our typing indicator when the message arrives
+      lastTypingSentRef.current = 0;
 
-      // Send to server
-      await trpc.sendMessage.mutate(messageData);
-      // In real implementation, you'd replace the optimistic message with the server response
+      // Send to server and swap in the stored message; the realtime event may have delivered it already
+      const saved = await trpc.sendMessage.mutate(messageData);
+      setMessages(prev =>
+        prev.some(msg => msg.id === saved.id)
+          ? prev.filter(msg => msg.id !== optimisticId)
+          : prev.map(msg => msg.id === optimisticId ? { ...optimisticMessage, ...saved } : msg)
+      );
     } catch (error) {
       console.error('Failed to send message:', error);
-      // Remove optimistic message on error
-      setMessages(prev => prev.filter(msg => msg.id !== Date.now()));
+      // Remove optimistic message on error and keep the uploads for another try
+      setMessages(prev => prev.filter(msg => msg.id !== optimisticId));
+      setPendingAttachments(attachments);
+      setSendError(error instanceof Error ? error.message : 'Failed to send message');
     } finally {
       setIsSending(false);
     }
   };
 
-  const formatTimestamp = (date: Date) => {
-    const now = new Date();
-    const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
-    
-    if (diffInMinutes < 1) return 'now';
-    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
-    if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
-    return date.toLocaleDateString();
+  const startEditing = (message: MessageWithAuthor) => {
+    setEditingMessageId(message.id);
+    setEditContent(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditContent('');
+  };
+
+  const handleEditMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingMessageId === null || !editContent.trim()) return;
+
+    try {
+      const updated = await trpc.editMessage.mutate({ message_id: editingMessageId, content: editContent });
+      setMessages(prev => prev.map(msg => msg.id === updated.id ? { ...msg, ...updated } : msg));
+      cancelEditing();
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+    }
+  };
+
+  const handleDeleteMessage = async (messageId: number) => {
+    try {
+      await trpc.deleteMessage.mutate({ message_id: messageId });
+      handleRoomEvent({ type: 'message.deleted', room_id: room.id, message_id: messageId });
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+    }
+  };
+
+  const handleTogglePin = async (messageId: number) => {
+    try {
+      const pins = isPinned(messageId)
+        ? await trpc.unpinMessage.mutate({ message_id: messageId })
+        : await trpc.pinMessage.mutate({ message_id: messageId });
+      setPinnedMessages(pins);
+    } catch (error) {
+      console.error('Failed to update pinned messages:', error);
+    }
+  };
+
+  const closeThread = useCallback(() => setThreadMessageId(null), []);
+
+  const openThread = (messageId: number) => {
+    setShowMembers(false);
+    setThreadMessageId(messageId);
   };
 
-  const isConsecutiveMessage = (currentMsg: MessageWithUser, index: number) => {
+  const toggleMembers = () => {
+    setThreadMessageId(null);
+    setShowMembers((prev: boolean) => !prev);
+  };
+
+  // Moderators and admins pin messages of active rooms
+  const canPin = !!user && room.is_active && (participantRole === 'moderator' || participantRole === 'admin');
+
+  const isPinned = (messageId: number) =>
+    pinnedMessages.some((pin: PinnedMessage) => pin.message.id === messageId);
+
+  const isMentioningMe = (message: MessageWithAuthor) =>
+    user !== null && message.mentioned_user_ids.includes(user.id);
+
+  // Saved messages the current user wrote; optimistic ones have negative ids
+  // Archived rooms are read-only, so their messages cannot be edited or deleted
+  const isOwnMessage = (message: MessageWithAuthor) =>
+    !!user && room.is_active && message.user_id === user.id && message.id > 0 && message.message_type !== 'system';
+
+  const isConsecutiveMessage = (currentMsg: MessageWithAuthor, index: number) => {
     if (index === 0) return false;
     const prevMsg = messages[index - 1];
     return (
@@ -198,8 +561,6 @@ export function ChatRoom({ room, user, onLeaveRoom }: ChatRoomProps) {
     );
   };
 
-  const onlineUsers = 5 + Math.floor(Math.random() * 15); // Simulated online count
-
   return (
     <Card className="h-[600px] flex flex-col shadow-sm border-0 bg-white/60 backdrop-blur-sm">
       {/* Header */}
@@ -225,10 +586,27 @@ export function ChatRoom({ room, user, onLeaveRoom }: ChatRoomProps) {
             </div>
           </div>
           <div className="flex items-center space-x-4">
-            <Badge variant="outline" className="text-xs">
-              <Users className="h-3 w-3 mr-1" />
-              {onlineUsers} online
-            </Badge>
+            {user && <RoomPresenceBadge roomId={room.id} />}
+            {user && !room.is_direct && (
+              <Button variant={showMembers ? 'secondary' : 'outline'} size="sm" className="text-xs" onClick={toggleMembers}>
+                <Users className="h-3 w-3 mr-1" />
+                Members
+              </Button>
+            )}
+            {user && !room.is_direct && (
+              <PinnedMessagesDrawer
+                pins={pinnedMessages}
+                canManage={canPin}
+                onUnpin={handleTogglePin}
+              />
+            )}
+            {user && !room.is_direct && room.is_active && (participantRole === 'moderator' || participantRole === 'admin') && (
+              <RoomInviteDialog roomId={room.id} />
+            )}
+            {user && !room.is_direct && (room.owner_id === user.id || participantRole === 'admin') && (
+              <RoomSettingsDialog room={room} onRoomUpdated={onRoomUpdated} onRoomDeleted={onRoomLeft} />
+            )}
+            {user && !room.is_direct && room.is_active && <LeaveRoomDialog room={room} user={user} onRoomLeft={onRoomLeft} />}
             {room.room_type === 'premium' && room.gold_cost && (
               <Badge className="text-xs bg-gradient-to-r from-yellow-400 to-yellow-600">
                 <Crown className="h-3 w-3 mr-1" />
@@ -240,8 +618,8 @@ export function ChatRoom({ room, user, onLeaveRoom }: ChatRoomProps) {
       </CardHeader>
 
       {/* Messages */}
-      <CardContent className="flex-1 p-0 overflow-hidden">
-        <ScrollArea className="h-full px-4 py-4">
+      <CardContent className="flex-1 p-0 overflow-hidden flex">
+        <ScrollArea ref={scrollAreaRef} className="h-full flex-1 min-w-0 px-4 py-4">
           {isLoading ? (
             <div className="flex items-center justify-center py-8">
               <div className="text-center">
@@ -249,31 +627,69 @@ export function ChatRoom({ room, user, onLeaveRoom }: ChatRoomProps) {
                 <p className="text-sm text-gray-600">Loading messages...</p>
               </div>
             </div>
+          ) : loadError ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-center">
+                <p className="text-sm text-red-600 mb-2">Couldn't load messages: {loadError}</p>
+                <Button variant="outline" size="sm" onClick={() => loadMessages()}>
+                  <RotateCw className="h-4 w-4 mr-2" />
+                  Try again
+                </Button>
+              </div>
+            </div>
           ) : (
             <div className="space-y-4">
-              {messages.map((message: MessageWithUser, index: number) => (
+              {isLoadingOlder && (
+                <div className="flex justify-center py-2">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-indigo-600"></div>
+                </div>
+              )}
+              {messages.map((message: MessageWithAuthor, index: number) => (
                 <div key={message.id} className="group">
+                  {message.id === newMessagesDividerId && (
+                    <div className="flex items-center my-2 text-xs font-medium text-red-500">
+                      <div className="flex-1 border-t border-red-200" />
+                      <span className="px-2">New messages</span>
+                      <div className="flex-1 border-t border-red-200" />
+                    </div>
+                  )}
                   {!isConsecutiveMessage(message, index) && (
                     <div className="flex items-start space-x-3 mb-1">
                       <Avatar className="h-8 w-8 ring-2 ring-white shadow-sm">
-                        <AvatarImage src={message.user.avatar_url || undefined} />
+                        <AvatarImage src={message.author.avatar_url || undefined} />
                         <AvatarFallback className={`text-xs font-medium ${
                           message.message_type === 'system' 
                             ? 'bg-indigo-100 text-indigo-700' 
                             : 'bg-gray-100 text-gray-700'
                         }`}>
-                          {message.user.display_name?.charAt(0) || message.user.username.charAt(0)}
+                          {message.author.display_name?.charAt(0) || message.author.username.charAt(0)}
                         </AvatarFallback>
                       </Avatar>
                       <div className="flex items-center space-x-2">
-                        <span className="font-medium text-sm text-gray-900">
-                          {message.user.display_name || message.user.username}
-                        </span>
+                        {message.message_type === 'system' || message.user_id === user?.id || room.is_direct ? (
+                          <span className="font-medium text-sm text-gray-900">
+                            {message.author.display_name || message.author.username}
+                          </span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => onOpenDirectConversation(message.author.id)}
+                            title="Send a direct message"
+                            className="font-medium text-sm text-gray-900 hover:text-indigo-600 hover:underline"
+                          >
+                            {message.author.display_name || message.author.username}
+                          </button>
+                        )}
                         {message.message_type === 'system' && (
                           <Badge variant="secondary" className="text-xs px-1.5 py-0">
                             Bot
                           </Badge>
                         )}
+                        {(message.author.participant_role === 'admin' || message.author.participant_role === 'moderator') && (
+                          <Badge variant="outline" className="text-xs px-1.5 py-0 capitalize">
+                            {message.author.participant_role}
+                          </Badge>
+                        )}
                         <span className="text-xs text-gray-500">
                           {formatTimestamp(message.created_at)}
                         </span>
@@ -282,17 +698,113 @@ export function ChatRoom({ room, user, onLeaveRoom }: ChatRoomProps) {
                   )}
                   
                   <div className={`${!isConsecutiveMessage(message, index) ? 'ml-11' : 'ml-11'} `}>
-                    <div className={`inline-block max-w-full ${
-                      message.message_type === 'system'
-                        ? 'bg-indigo-50 text-indigo-700 px-3 py-2 rounded-lg text-sm font-medium'
-                        : 'bg-gray-50 text-gray-900 px-3 py-2 rounded-lg'
-                    } group-hover:bg-opacity-80 transition-colors`}>
-                      <p className="text-sm whitespace-pre-wrap break-words">
-                        {message.content}
-                      </p>
-                    </div>
-                    {message.is_edited && (
-                      <span className="text-xs text-gray-400 ml-2">(edited)</span>
+                    {editingMessageId === message.id ? (
+                      <form onSubmit={handleEditMessage} className="flex items-center space-x-2">
+                        <Input
+                          value={editContent}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditContent(e.target.value)}
+                          onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => e.key === 'Escape' && cancelEditing()}
+                          className="h-8 text-sm"
+                          autoFocus
+                        />
+                        <Button type="submit" size="sm" className="h-8" disabled={!editContent.trim()}>
+                          Save
+                        </Button>
+                        <Button type="button" variant="ghost" size="sm" className="h-8" onClick={cancelEditing}>
+                          Cancel
+                        </Button>
+                      </form>
+                    ) : (
+                      <>
+                        <div className={`inline-block max-w-full ${
+                          message.message_type === 'system'
+                            ? 'bg-indigo-50 text-indigo-700 px-3 py-2 rounded-lg text-sm font-medium'
+                            : isMentioningMe(message)
+                              ? 'bg-amber-50 text-gray-900 px-3 py-2 rounded-lg ring-1 ring-amber-300'
+                              : 'bg-gray-50 text-gray-900 px-3 py-2 rounded-lg'
+                        } group-hover:bg-opacity-80 transition-colors`}>
+                          {message.reply_to_id !== null && (
+                            <p className="text-xs text-gray-500 mb-0.5">↳ replied in a thread</p>
+                          )}
+                          <p className="text-sm whitespace-pre-wrap break-words">
+                            {isMentioningMe(message) && user
+                              ? highlightMention(message.content, user.username)
+                              : message.content}
+                          </p>
+                          <MessageAttachments attachments={message.attachments} />
+                        </div>
+                        {message.is_edited && (
+                          <span className="text-xs text-gray-400 ml-2">(edited)</span>
+                        )}
+                        {isPinned(message.id) && (
+                          <Pin className="inline h-3 w-3 ml-2 text-indigo-400" aria-label="Pinned" />
+                        )}
+                        {message.id > 0 && message.message_type !== 'system' && (
+                          <span className="ml-2 inline-flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
+                              onClick={() => openThread(message.reply_to_id ?? message.id)}
+                            >
+                              <MessageSquare className="h-3 w-3" />
+                            </Button>
+                            {canPin && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
+                                onClick={() => handleTogglePin(message.id)}
+                                title={isPinned(message.id) ? 'Unpin' : 'Pin'}
+                              >
+                                {isPinned(message.id) ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                              </Button>
+                            )}
+                          </span>
+                        )}
+                        {isOwnMessage(message) && (
+                          <span className="ml-1 inline-flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
+                              onClick={() => startEditing(message)}
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0 text-gray-400 hover:text-red-600"
+                              onClick={() => handleDeleteMessage(message.id)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </span>
+                        )}
+                        {user && room.is_active && message.id > 0 && message.message_type !== 'system' && (
+                          <MessageReactions
+                            message={message}
+                            currentUserId={user.id}
+                            onReactionsChange={updateReactions}
+                          />
+                        )}
+                        {message.reply_count > 0 && (
+                          <div>
+                            <button
+                              type="button"
+                              className="text-xs font-medium text-indigo-600 hover:underline mt-1"
+                              onClick={() => openThread(message.id)}
+                            >
+                              {message.reply_count} {message.reply_count === 1 ? 'reply' : 'replies'}
+                            </button>
+                          </div>
+                        )}
+                      </>
                     )}
                   </div>
                 </div>
@@ -301,53 +813,99 @@ export function ChatRoom({ room, user, onLeaveRoom }: ChatRoomProps) {
             </div>
           )}
         </ScrollArea>
+        {threadMessageId !== null && (
+          <MessageThreadPanel
+            key={threadMessageId}
+            roomId={room.id}
+            messageId={threadMessageId}
+            readOnly={!room.is_active}
+            onClose={closeThread}
+          />
+        )}
+        {showMembers && user && (
+          <RoomMembersPanel
+            roomId={room.id}
+            user={user}
+            readOnly={!room.is_active}
+            onClose={() => setShowMembers(false)}
+            onRoomUpdated={onRoomUpdated}
+          />
+        )}
       </CardContent>
 
+      {/* Typing indicator */}
+      <div className="h-5 px-4 text-xs text-gray-500 italic">
+        {typingUsers.length > 0 && formatTypingUsers(typingUsers)}
+      </div>
+
       <Separator />
 
       {/* Message Input */}
-      <div className="p-4 bg-white/80">
-        <form onSubmit={handleSendMessage} className="flex items-center space-x-2">
-          <div className="flex-1 relative">
-            <Input
-              value={newMessage}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewMessage(e.target.value)}
-              placeholder={`Message ${room.name}...`}
-              className="pr-20 bg-white border-gray-200 focus:border-indigo-300 focus:ring-indigo-200"
-              disabled={isSending}
-            />
-            <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex space-x-1">
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
-              >
-                <Image className="h-4 w-4" />
-              </Button>
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
-              >
-                <Paperclip className="h-4 w-4" />
-              </Button>
+      {!room.is_active ? (
+        <div className="p-4 bg-white/80 flex items-center text-sm text-gray-500">
+          <Archive className="h-4 w-4 mr-2" />
+          This room is archived. Its history is read-only.
+        </div>
+      ) : (
+        <div className="p-4 bg-white/80">
+          <PendingAttachments attachments={pendingAttachments} onRemove={removePendingAttachment} />
+          {uploadError && <p className="text-xs text-red-600 mb-2">{uploadError}</p>}
+          {sendError && <p className="text-xs text-red-600 mb-2">{sendError}</p>}
+          <input ref={imageInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFilesSelected} />
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFilesSelected} />
+          <form onSubmit={handleSendMessage} className="flex items-center space-x-2">
+            <div className="flex-1 relative">
+              <Input
+                value={newMessage}
+                onChange={handleMessageChange}
+                placeholder={`Message ${room.name}...`}
+                className="pr-28 bg-white border-gray-200 focus:border-indigo-300 focus:ring-indigo-200"
+                disabled={isSending}
+              />
+              <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
+                  onClick={() => imageInputRef.current?.click()}
+                  disabled={isUploading}
+                >
+                  <Image className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
+                {user && (
+                  <ScheduledMessagesDialog
+                    roomId={room.id}
+                    draft={newMessage}
+                    onScheduled={() => setNewMessage('')}
+                  />
+                )}
+              </div>
             </div>
-          </div>
-          <Button 
-            type="submit" 
-            disabled={!newMessage.trim() || isSending}
-            className="bg-indigo-600 hover:bg-indigo-700 px-3"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </form>
+            <Button 
+              type="submit" 
+              disabled={(!newMessage.trim() && pendingAttachments.length === 0) || isSending || isUploading}
+              className="bg-indigo-600 hover:bg-indigo-700 px-3"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
         
-        <p className="text-xs text-gray-500 mt-2 flex items-center">
-          💡 <span className="ml-1">Press Enter to send, Shift+Enter for new line</span>
-        </p>
-      </div>
+          <p className="text-xs text-gray-500 mt-2 flex items-center">
+            💡 <span className="ml-1">Press Enter to send, Shift+Enter for new line</span>
+          </p>
+        </div>
+      )}
     </Card>
   );
 }
\ No newline at end of file
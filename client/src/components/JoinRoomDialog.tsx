@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import type { RoomWithUnread } from '../../../server/src/schema';
+
+interface JoinRoomDialogProps {
+  // The room to confirm joining; the dialog is closed while this is null
+  room: RoomWithUnread | null;
+  onClose: () => void;
+  onRoomJoined: (room: RoomWithUnread) => void;
+}
+
+// Asks before joining a room the user reached without choosing to join it, e.g. from a
+// search result, since joining a premium room costs gold
+export function JoinRoomDialog({ room, onClose, onRoomJoined }: JoinRoomDialogProps) {
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setError(null);
+      onClose();
+    }
+  };
+
+  const handleJoin = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the server has answered
+    e.preventDefault();
+    if (!room) return;
+    try {
+      setIsJoining(true);
+      setError(null);
+      await trpc.joinRoom.mutate({ room_id: room.id });
+      onRoomJoined(room);
+    } catch (error) {
+      console.error('Failed to join room:', error);
+      setError(error instanceof Error ? error.message : 'Failed to join room');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={room !== null} onOpenChange={handleOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Join {room?.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {room?.room_type === 'premium' && room.gold_cost
+              ? `You are not a member of this room. Joining costs ${room.gold_cost} gold credits.`
+              : 'You are not a member of this room. Join it to read and post messages.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isJoining}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleJoin} disabled={isJoining}>
+            {isJoining ? 'Joining...' : 'Join room'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { LogOut } from 'lucide-react';
+import type { Room, CurrentUser } from '../../../server/src/schema';
+
+interface LeaveRoomDialogProps {
+  room: Room;
+  user: CurrentUser;
+  onRoomLeft: () => void;
+}
+
+export function LeaveRoomDialog({ room, user, onRoomLeft }: LeaveRoomDialogProps) {
+  const [isLeaving, setIsLeaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = room.owner_id === user.id;
+
+  const handleLeave = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the server has answered
+    e.preventDefault();
+    try {
+      setIsLeaving(true);
+      setError(null);
+      await trpc.leaveRoom.mutate({ room_id: room.id });
+      onRoomLeft();
+    } catch (error) {
+      console.error('Failed to leave room:', error);
+      setError(error instanceof Error ? error.message : 'Failed to leave room');
+      setIsLeaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog onOpenChange={() => setError(null)}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs text-gray-600">
+          <LogOut className="h-3 w-3 mr-1" />
+          Leave
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Leave {room.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {isOwner
+              ? 'You own this room. Transfer ownership to another member before leaving.'
+              : room.room_type === 'private'
+                ? 'You will need a new invite to join again.'
+                : room.room_type === 'premium'
+                  ? 'Joining again will cost gold credits again.'
+                  : 'You can join again later from the room list.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLeaving}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleLeave} disabled={isOwner || isLeaving}>
+            {isLeaving ? 'Leaving...' : 'Leave room'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -108,14 +108,6 @@ export function LoginForm({ onSwitchToRegister }: LoginFormProps) {
           </button>
         </p>
       </div>
-
-      {/* Demo credentials hint */}
-      <div className="bg-blue-50 border border-blue-200 rounded-md p-3 mt-4">
-        <p className="text-xs text-blue-700 font-medium">💡 Demo Mode</p>
-        <p className="text-xs text-blue-600 mt-1">
-          Use any email/password combination to sign in and explore the chat features!
-        </p>
-      </div>
     </form>
   );
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Paperclip, X } from 'lucide-react';
+import type { Attachment } from '../../../server/src/schema';
+import { attachmentUrl, formatFileSize, isImageAttachment } from '@/utils/format';
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[];
+}
+
+// Inline previews for images, download links for everything else
+export function MessageAttachments({ attachments }: MessageAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {attachments.map((attachment: Attachment) =>
+        isImageAttachment(attachment) ? (
+          <a key={attachment.id} href={attachmentUrl(attachment)} target="_blank" rel="noreferrer" className="block">
+            <img
+              src={attachmentUrl(attachment)}
+              alt={attachment.file_name}
+              loading="lazy"
+              className="max-h-60 max-w-full rounded-md border border-gray-200"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.id}
+            href={attachmentUrl(attachment)}
+            download={attachment.file_name}
+            className="flex items-center space-x-2 rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-indigo-700 hover:bg-gray-50"
+          >
+            <Paperclip className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{attachment.file_name}</span>
+            <span className="text-xs text-gray-500 flex-shrink-0">{formatFileSize(attachment.size_bytes)}</span>
+          </a>
+        )
+      )}
+    </div>
+  );
+}
+
+interface PendingAttachmentsProps {
+  attachments: Attachment[];
+  onRemove: (attachmentId: number) => void;
+}
+
+// Uploaded files waiting to be sent with the next message
+export function PendingAttachments({ attachments, onRemove }: PendingAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {attachments.map((attachment: Attachment) => (
+        <span
+          key={attachment.id}
+          className="inline-flex items-center space-x-1 rounded-full border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700"
+        >
+          <Paperclip className="h-3 w-3" />
+          <span className="max-w-40 truncate">{attachment.file_name}</span>
+          <button
+            type="button"
+            onClick={() => onRemove(attachment.id)}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SmilePlus } from 'lucide-react';
+import type { MessageWithAuthor, ReactionSummary } from '../../../server/src/schema';
+
+interface MessageReactionsProps {
+  message: MessageWithAuthor;
+  currentUserId: number;
+  onReactionsChange: (messageId: number, reactions: ReactionSummary[]) => void;
+}
+
+const PICKER_EMOJI = ['👍', '❤️', '😂', '🎉', '😮', '😢', '🔥', '👀'];
+
+export function MessageReactions({ message, currentUserId, onReactionsChange }: MessageReactionsProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const toggleReaction = async (emoji: string) => {
+    const hasReacted = message.reactions.some(
+      (reaction: ReactionSummary) => reaction.emoji === emoji && reaction.user_ids.includes(currentUserId)
+    );
+
+    try {
+      const input = { message_id: message.id, emoji };
+      const reactions = hasReacted
+        ? await trpc.removeReaction.mutate(input)
+        : await trpc.addReaction.mutate(input);
+      onReactionsChange(message.id, reactions);
+    } catch (error) {
+      console.error('Failed to update reaction:', error);
+    }
+  };
+
+  const handlePick = (emoji: string) => {
+    setIsPickerOpen(false);
+    toggleReaction(emoji);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {message.reactions.map((reaction: ReactionSummary) => {
+        const hasReacted = reaction.user_ids.includes(currentUserId);
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            onClick={() => toggleReaction(reaction.emoji)}
+            className={`inline-flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+              hasReacted
+                ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+                : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.count}</span>
+          </button>
+        );
+      })}
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className={`h-6 w-6 p-0 text-gray-400 hover:text-gray-600 ${
+              message.reactions.length === 0 ? 'opacity-0 group-hover:opacity-100 transition-opacity' : ''
+            }`}
+          >
+            <SmilePlus className="h-3 w-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-2" align="start">
+          <div className="grid grid-cols-4 gap-1">
+            {PICKER_EMOJI.map((emoji: string) => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => handlePick(emoji)}
+                className="h-8 w-8 rounded hover:bg-gray-100 text-lg"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
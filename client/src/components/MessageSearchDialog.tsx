@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { trpc } from '@/utils/trpc';
+import { formatTimestamp } from '@/utils/format';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import type { MessageSearchResult, HighlightSegment, Room, CurrentUser, UserSummary } from '../../../server/src/schema';
+
+interface MessageSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rooms: Room[];
+  user: CurrentUser | null;
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const ANY = 'any';
+
+export function MessageSearchDialog({ open, onOpenChange, rooms, user, onSelectResult }: MessageSearchDialogProps) {
+  const [query, setQuery] = useState('');
+  const [roomFilter, setRoomFilter] = useState(ANY);
+  const [authorFilter, setAuthorFilter] = useState(ANY);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  // Authors seen in earlier results stay selectable while their filter is active
+  const [knownAuthors, setKnownAuthors] = useState<UserSummary[]>([]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!open || !trimmed) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        setIsSearching(true);
+        const found = await trpc.searchMessages.query({
+          query: trimmed,
+          room_id: roomFilter === ANY ? undefined : Number(roomFilter),
+          author_id: authorFilter === ANY ? undefined : Number(authorFilter),
+          from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+          to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined
+        });
+        if (cancelled) return;
+        setResults(found);
+        setKnownAuthors(prev => {
+          const authors = [...prev];
+          for (const result of found) {
+            if (!authors.some((author: UserSummary) => author.id === result.message.author.id)) {
+              authors.push(result.message.author);
+            }
+          }
+          return authors;
+        });
+      } catch (error) {
+        console.error('Message search failed:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    // A request cancelled mid-flight never reaches its finally, so stop the spinner here;
+    // the next search turns it back on when it starts
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      setIsSearching(false);
+    };
+  }, [open, query, roomFilter, authorFilter, fromDate, toDate]);
+
+  const authorOptions = knownAuthors.filter((author: UserSummary) => author.id !== user?.id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-2xl">
+        <DialogHeader className="sr-only">
+          <DialogTitle>Search messages</DialogTitle>
+        </DialogHeader>
+        {/* Results come from the server already matched, so cmdk must not filter them again */}
+        <Command shouldFilter={false} className="[&_[cmdk-input]]:h-12">
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search messages..." />
+          <div className="flex flex-wrap items-center gap-2 border-b p-2">
+            <Select value={roomFilter} onValueChange={setRoomFilter}>
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue placeholder="Any room" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any room</SelectItem>
+                {rooms.map((room: Room) => (
+                  <SelectItem key={room.id} value={String(room.id)}>{room.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={authorFilter} onValueChange={setAuthorFilter}>
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue placeholder="Anyone" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Anyone</SelectItem>
+                {user && <SelectItem value={String(user.id)}>Me</SelectItem>}
+                {authorOptions.map((author: UserSummary) => (
+                  <SelectItem key={author.id} value={String(author.id)}>
+                    {author.display_name || author.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFromDate(e.target.value)}
+              className="h-8 w-36 text-xs"
+              aria-label="From date"
+            />
+            <span className="text-xs text-gray-500">to</span>
+            <Input
+              type="date"
+              value={toDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setToDate(e.target.value)}
+              className="h-8 w-36 text-xs"
+              aria-label="To date"
+            />
+            {isSearching && <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />}
+          </div>
+          <CommandList className="max-h-96">
+            {query.trim() && !isSearching && <CommandEmpty>No messages found.</CommandEmpty>}
+            {results.map((result: MessageSearchResult) => (
+              <CommandItem
+                key={result.message.id}
+                value={String(result.message.id)}
+                onSelect={() => onSelectResult(result)}
+                className="flex flex-col items-start gap-1"
+              >
+                <div className="flex w-full items-center justify-between text-xs text-gray-500">
+                  <span>
+                    <span className="font-medium text-gray-700">
+                      {result.message.author.display_name || result.message.author.username}
+                    </span>
+                    {' in '}
+                    <span className="font-medium text-gray-700">{result.room_name}</span>
+                  </span>
+                  <span>{formatTimestamp(result.message.created_at)}</span>
+                </div>
+                <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">
+                  {result.snippet.map((segment: HighlightSegment, index: number) =>
+                    segment.highlighted
+                      ? <mark key={index} className="rounded bg-yellow-200 px-0.5">{segment.text}</mark>
+                      : <span key={index}>{segment.text}</span>
+                  )}
+                </p>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { formatTimestamp } from '@/utils/format';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { Send, X } from 'lucide-react';
+import type { MessageThread, MessageWithAuthor, RoomEvent } from '../../../server/src/schema';
+
+interface MessageThreadPanelProps {
+  roomId: number;
+  messageId: number;
+  onClose: () => void;
+  // Archived rooms show their threads without a reply box
+  readOnly?: boolean;
+}
+
+function ThreadMessage({ message }: { message: MessageWithAuthor }) {
+  return (
+    <div className="flex items-start space-x-2">
+      <Avatar className="h-7 w-7">
+        <AvatarImage src={message.author.avatar_url || undefined} />
+        <AvatarFallback className="text-xs bg-gray-100 text-gray-700">
+          {message.author.display_name?.charAt(0) || message.author.username.charAt(0)}
+        </AvatarFallback>
+      </Avatar>
+      <div className="min-w-0">
+        <div className="flex items-center space-x-2">
+          <span className="font-medium text-sm text-gray-900">
+            {message.author.display_name || message.author.username}
+          </span>
+          <span className="text-xs text-gray-500">{formatTimestamp(message.created_at)}</span>
+        </div>
+        <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">
+          {message.content}
+          {message.is_edited && <span className="text-xs text-gray-400 ml-2">(edited)</span>}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export function MessageThreadPanel({ roomId, messageId, onClose, readOnly = false }: MessageThreadPanelProps) {
+  const [thread, setThread] = useState<MessageThread | null>(null);
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const loadThread = useCallback(async () => {
+    try {
+      const result = await trpc.getMessageThread.query({ messageId });
+      setThread(result);
+    } catch (error) {
+      console.error('Failed to load thread:', error);
+      setThread(null);
+    }
+  }, [messageId]);
+
+  useEffect(() => {
+    loadThread();
+  }, [loadThread]);
+
+  // Keep the thread in sync with replies, edits and deletions from other participants
+  const handleRoomEvent = useCallback((event: RoomEvent) => {
+    setThread((prev: MessageThread | null) => {
+      if (!prev) return prev;
+      switch (event.type) {
+        case 'message.created':
+          if (event.message.reply_to_id !== prev.root.id || prev.replies.some(r => r.id === event.message.id)) {
+            return prev;
+          }
+          return { ...prev, replies: [...prev.replies, event.message], reply_count: prev.reply_count + 1 };
+        case 'message.updated':
+          return {
+            ...prev,
+            root: prev.root.id === event.message.id ? { ...prev.root, ...event.message } : prev.root,
+            replies: prev.replies.map(r => r.id === event.message.id ? { ...r, ...event.message } : r)
+          };
+        case 'message.deleted': {
+          const replies = prev.replies.filter(r => r.id !== event.message_id);
+          return { ...prev, replies, reply_count: replies.length };
+        }
+        default:
+          return prev;
+      }
+    });
+    if (event.type === 'message.deleted' && event.message_id === messageId) {
+      onClose();
+    }
+  }, [messageId, onClose]);
+
+  useEffect(() => {
+    const subscription = trpc.onRoomEvent.subscribe({ roomId }, {
+      onData: handleRoomEvent,
+      onError: (error: unknown) => console.error('Thread event subscription failed:', error)
+    });
+    return () => subscription.unsubscribe();
+  }, [roomId, handleRoomEvent]);
+
+  const handleSendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim() || isSending) return;
+
+    try {
+      setIsSending(true);
+      const saved = await trpc.sendMessage.mutate({
+        room_id: roomId,
+        content: reply,
+        message_type: 'text',
+        reply_to_id: messageId
+      });
+      setReply('');
+      // The realtime event may have delivered the reply already
+      handleRoomEvent({ type: 'message.created', message: saved });
+    } catch (error) {
+      console.error('Failed to send reply:', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="w-80 flex flex-col border-l bg-white/80">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <div>
+          <p className="font-medium text-sm text-gray-900">Thread</p>
+          {thread && (
+            <p className="text-xs text-gray-500">
+              {thread.reply_count} {thread.reply_count === 1 ? 'reply' : 'replies'}
+            </p>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0 px-4 py-3">
+        {!thread ? (
+          <p className="text-sm text-gray-500">Loading thread...</p>
+        ) : (
+          <div className="space-y-3">
+            <ThreadMessage message={thread.root} />
+            <Separator />
+            {thread.replies.map((message: MessageWithAuthor) => (
+              <ThreadMessage key={message.id} message={message} />
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      {!readOnly && (
+        <form onSubmit={handleSendReply} className="flex items-center space-x-2 p-3 border-t">
+          <Input
+            value={reply}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReply(e.target.value)}
+            placeholder="Reply in thread..."
+            className="h-8 text-sm"
+            disabled={isSending}
+          />
+          <Button type="submit" size="sm" className="h-8 bg-indigo-600 hover:bg-indigo-700" disabled={!reply.trim() || isSending}>
+            <Send className="h-3 w-3" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
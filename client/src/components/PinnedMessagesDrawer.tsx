@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { formatTimestamp } from '@/utils/format';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Pin, PinOff } from 'lucide-react';
+import type { PinnedMessage } from '../../../server/src/schema';
+
+interface PinnedMessagesDrawerProps {
+  pins: PinnedMessage[];
+  // Room moderators and admins may unpin; everyone else only reads
+  canManage: boolean;
+  onUnpin: (messageId: number) => Promise<void>;
+}
+
+export function PinnedMessagesDrawer({ pins, canManage, onUnpin }: PinnedMessagesDrawerProps) {
+  const [open, setOpen] = useState(false);
+  const [unpinningId, setUnpinningId] = useState<number | null>(null);
+
+  const handleUnpin = async (messageId: number) => {
+    try {
+      setUnpinningId(messageId);
+      await onUnpin(messageId);
+    } finally {
+      setUnpinningId(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs">
+          <Pin className="h-3 w-3 mr-1" />
+          Pinned
+          {pins.length > 0 && (
+            <Badge variant="secondary" className="ml-1 h-4 px-1 text-xs">{pins.length}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>📌 Pinned messages</SheetTitle>
+          <SheetDescription>
+            Important messages pinned by the room's moderators.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 min-h-0 px-4 pb-4">
+          {pins.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing is pinned in this room yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {pins.map((pin: PinnedMessage) => (
+                <div key={pin.id} className="rounded-lg border p-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <Avatar className="h-6 w-6">
+                        <AvatarImage src={pin.message.author.avatar_url || undefined} />
+                        <AvatarFallback className="text-xs bg-gray-100 text-gray-700">
+                          {pin.message.author.display_name?.charAt(0) || pin.message.author.username.charAt(0)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="font-medium text-sm text-gray-900 truncate">
+                        {pin.message.author.display_name || pin.message.author.username}
+                      </span>
+                      <span className="text-xs text-gray-500">{formatTimestamp(pin.message.created_at)}</span>
+                    </div>
+                    {canManage && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
+                        onClick={() => handleUnpin(pin.message.id)}
+                        disabled={unpinningId === pin.message.id}
+                        title="Unpin"
+                      >
+                        <PinOff className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="mt-1 text-sm text-gray-900 whitespace-pre-wrap break-words">{pin.message.content}</p>
+                  <p className="mt-1 text-xs text-gray-400">
+                    Pinned by {pin.pinned_by.display_name || pin.pinned_by.username} · {formatTimestamp(pin.pinned_at)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserPlus, Copy, Check, X, Loader2 } from 'lucide-react';
+import type { RoomInviteWithInvitee } from '../../../server/src/schema';
+
+interface RoomInviteDialogProps {
+  roomId: number;
+}
+
+const UNLIMITED = 'unlimited';
+const NEVER = 'never';
+
+const MAX_USE_OPTIONS = ['1', '5', '25', UNLIMITED];
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 hour' },
+  { value: '24', label: '1 day' },
+  { value: '168', label: '7 days' },
+  { value: NEVER, label: 'Never expires' }
+];
+
+export function RoomInviteDialog({ roomId }: RoomInviteDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [invites, setInvites] = useState<RoomInviteWithInvitee[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [username, setUsername] = useState('');
+  const [maxUses, setMaxUses] = useState('1');
+  const [expiresInHours, setExpiresInHours] = useState('24');
+  const [copiedInviteId, setCopiedInviteId] = useState<number | null>(null);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setInvites(await trpc.getRoomInvites.query({ room_id: roomId }));
+    } catch (error) {
+      console.error('Failed to load invites:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load invites');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    if (open) {
+      loadInvites();
+    }
+  }, [open, loadInvites]);
+
+  const createInvite = async (input: { invitee_username?: string; max_uses?: number; expires_in_hours?: number }) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await trpc.createInvite.mutate({ room_id: roomId, ...input });
+      await loadInvites();
+      return true;
+    } catch (error) {
+      console.error('Failed to create invite:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create invite');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInviteUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invitee = username.trim().replace(/^@/, '');
+    if (invitee && await createInvite({ invitee_username: invitee })) {
+      setUsername('');
+    }
+  };
+
+  const handleCreateCode = () => createInvite({
+    max_uses: maxUses === UNLIMITED ? undefined : Number(maxUses),
+    expires_in_hours: expiresInHours === NEVER ? undefined : Number(expiresInHours)
+  });
+
+  const handleRevoke = async (inviteId: number) => {
+    try {
+      setError(null);
+      await trpc.revokeInvite.mutate({ invite_id: inviteId });
+      setInvites((prev: RoomInviteWithInvitee[]) => prev.filter((invite: RoomInviteWithInvitee) => invite.id !== inviteId));
+    } catch (error) {
+      console.error('Failed to revoke invite:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke invite');
+    }
+  };
+
+  const handleCopy = async (invite: RoomInviteWithInvitee) => {
+    try {
+      await navigator.clipboard.writeText(invite.code);
+      setCopiedInviteId(invite.id);
+    } catch (error) {
+      console.error('Failed to copy invite code:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs">
+          <UserPlus className="h-3 w-3 mr-1" />
+          Invite
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite people</DialogTitle>
+          <DialogDescription>
+            Private rooms can only be joined with an invite.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleInviteUser} className="space-y-2">
+          <Label htmlFor="inviteUsername">Invite a user</Label>
+          <div className="flex space-x-2">
+            <Input
+              id="inviteUsername"
+              placeholder="Username"
+              value={username}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
+              disabled={isSaving}
+            />
+            <Button type="submit" disabled={isSaving || !username.trim()}>
+              Invite
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          <Label>Or share an invite code</Label>
+          <div className="flex items-center space-x-2">
+            <Select value={maxUses} onValueChange={setMaxUses} disabled={isSaving}>
+              <SelectTrigger className="w-32" aria-label="Maximum uses">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAX_USE_OPTIONS.map((option: string) => (
+                  <SelectItem key={option} value={option}>
+                    {option === UNLIMITED ? 'Unlimited uses' : option === '1' ? '1 use' : `${option} uses`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={expiresInHours} onValueChange={setExpiresInHours} disabled={isSaving}>
+              <SelectTrigger className="w-32" aria-label="Expires after">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option: { value: string; label: string }) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="outline" onClick={handleCreateCode} disabled={isSaving}>
+              Create code
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-800">Active invites</h4>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />
+            </div>
+          ) : invites.length === 0 ? (
+            <p className="text-sm text-gray-500">No active invites.</p>
+          ) : (
+            <ul className="max-h-60 space-y-2 overflow-y-auto">
+              {invites.map((invite: RoomInviteWithInvitee) => (
+                <li key={invite.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                  <div className="min-w-0 space-y-1">
+                    {invite.invitee ? (
+                      <p className="font-medium">
+                        For {invite.invitee.display_name || invite.invitee.username}
+                      </p>
+                    ) : (
+                      <p className="font-mono">{invite.code}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {!invite.invitee && (
+                        <Badge variant="outline" className="text-xs">
+                          {invite.max_uses === null
+                            ? `${invite.use_count} uses`
+                            : `${invite.use_count}/${invite.max_uses} uses`}
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className="text-xs">
+                        {invite.expires_at ? `Expires ${invite.expires_at.toLocaleString()}` : 'No expiry'}
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="flex items-center">
+                    {!invite.invitee && (
+                      <Button variant="ghost" size="sm" onClick={() => handleCopy(invite)} aria-label="Copy invite code">
+                        {copiedInviteId === invite.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite.id)} aria-label="Revoke invite">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
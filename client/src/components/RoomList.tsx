@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { trpc } from '@/utils/trpc';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,40 +9,216 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Plus, Users, Crown, Lock, Globe, Loader2 } from 'lucide-react';
-import type { Room, CreateRoomInput } from '../../../server/src/schema';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Plus, Users, Crown, Lock, Globe, Loader2, MessageCircle, Ticket, Search, ChevronDown, ChevronRight } from 'lucide-react';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import type {
+  Room,
+  RoomWithUnread,
+  RoomCategory,
+  CreateRoomInput,
+  DirectConversation,
+  DiscoveredRoom,
+  DiscoverRoomsInput,
+  RoomDiscoveryPage
+} from '../../../server/src/schema';
 
 interface RoomListProps {
-  rooms: Room[];
+  rooms: RoomWithUnread[];
+  directConversations: DirectConversation[];
   activeRoom: Room | null;
-  onRoomSelect: (room: Room) => void;
+  onRoomSelect: (room: RoomWithUnread) => void;
+  onDirectConversationSelect: (conversation: DirectConversation) => void;
   onRoomCreate: (roomData: CreateRoomInput) => void;
+  // Rejects with the server's reason when the code cannot be used
+  onInviteAccept: (code: string) => Promise<void>;
   isLoading: boolean;
 }
 
-export function RoomList({ rooms, activeRoom, onRoomSelect, onRoomCreate, isLoading }: RoomListProps) {
+type RoomType = Room['room_type'];
+type RoomSort = NonNullable<DiscoverRoomsInput['sort']>;
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const TYPE_FILTERS: { type: RoomType; label: string }[] = [
+  { type: 'public', label: 'Public' },
+  { type: 'premium', label: 'Premium' },
+  { type: 'private', label: 'Private' }
+];
+
+const GOLD_FILTERS: { key: string; label: string; min_gold_cost?: number; max_gold_cost?: number }[] = [
+  { key: 'free', label: 'Free', max_gold_cost: 0 },
+  { key: 'low', label: '1–50 gold', min_gold_cost: 1, max_gold_cost: 50 },
+  { key: 'high', label: '50+ gold', min_gold_cost: 51 }
+];
+
+const SORT_OPTIONS: { value: RoomSort; label: string }[] = [
+  { value: 'activity', label: 'Most active' },
+  { value: 'members', label: 'Most members' },
+  { value: 'newest', label: 'Newest' }
+];
+
+// Rooms without a category (or whose category was deleted) are listed last
+const UNCATEGORISED = 'uncategorised';
+
+// Tags are typed comma-separated; the server normalises them
+const parseTags = (value: string) =>
+  value.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag !== '');
+
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant={active ? 'secondary' : 'outline'}
+      className={`h-6 rounded-full px-2 text-xs ${active ? 'ring-1 ring-indigo-500' : ''}`}
+      onClick={onClick}
+      aria-pressed={active}
+    >
+      {children}
+    </Button>
+  );
+}
+
+// Unread mentions and messages of a room the user is not looking at
+function UnreadBadges({ room }: { room: RoomWithUnread }) {
+  return (
+    <div className="ml-2 flex items-center space-x-1">
+      {room.unread_mention_count > 0 && (
+        <Badge
+          className="h-5 min-w-5 rounded-full bg-amber-500 px-1.5 text-xs"
+          title={`${room.unread_mention_count} unread mention${room.unread_mention_count === 1 ? '' : 's'}`}
+        >
+          @{room.unread_mention_count > 9 ? '9+' : room.unread_mention_count}
+        </Badge>
+      )}
+      {room.unread_count > 0 && (
+        <Badge className="h-5 min-w-5 rounded-full bg-indigo-600 px-1.5 text-xs">
+          {room.unread_count > 99 ? '99+' : room.unread_count}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+export function RoomList({
+  rooms,
+  directConversations,
+  activeRoom,
+  onRoomSelect,
+  onDirectConversationSelect,
+  onRoomCreate,
+  onInviteAccept,
+  isLoading
+}: RoomListProps) {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [inviteCode, setInviteCode] = useState('');
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [isAcceptingInvite, setIsAcceptingInvite] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<RoomType | null>(null);
+  const [goldFilter, setGoldFilter] = useState<string | null>(null);
+  const [freeSlotsOnly, setFreeSlotsOnly] = useState(false);
+  const [sort, setSort] = useState<RoomSort>('activity');
+  const [discovered, setDiscovered] = useState<RoomDiscoveryPage | null>(null);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [categories, setCategories] = useState<RoomCategory[]>([]);
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const [tagsText, setTagsText] = useState('');
   const [formData, setFormData] = useState<CreateRoomInput>({
     name: '',
     description: null,
     room_type: 'public',
     max_participants: undefined,
-    gold_cost: undefined
+    gold_cost: undefined,
+    category_id: null
   });
 
+  useEffect(() => {
+    trpc.getRoomCategories.query()
+      .then(setCategories)
+      .catch((error: unknown) => console.error('Failed to load room categories:', error));
+  }, []);
+
+  // The joined-room list is replaced by discovery results while searching, filtering or sorting
+  const isFiltering = searchQuery.trim() !== '' || typeFilter !== null || goldFilter !== null || freeSlotsOnly || sort !== 'activity';
+
+  const discoveryInput = useMemo((): DiscoverRoomsInput => {
+    const gold = GOLD_FILTERS.find((filter: { key: string }) => filter.key === goldFilter);
+    return {
+      query: searchQuery.trim() || undefined,
+      room_type: typeFilter ?? undefined,
+      min_gold_cost: gold?.min_gold_cost,
+      max_gold_cost: gold?.max_gold_cost,
+      has_free_slots: freeSlotsOnly || undefined,
+      sort
+    };
+  }, [searchQuery, typeFilter, goldFilter, freeSlotsOnly, sort]);
+
+  useEffect(() => {
+    if (!isFiltering) {
+      setDiscovered(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        setIsDiscovering(true);
+        const page = await trpc.discoverRooms.query(discoveryInput);
+        if (!cancelled) setDiscovered(page);
+      } catch (error) {
+        console.error('Room discovery failed:', error);
+        if (!cancelled) setDiscovered({ rooms: [], total: 0 });
+      } finally {
+        if (!cancelled) setIsDiscovering(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isFiltering, discoveryInput]);
+
+  const handleLoadMore = async () => {
+    if (!discovered) return;
+    try {
+      setIsDiscovering(true);
+      const page = await trpc.discoverRooms.query({ ...discoveryInput, offset: discovered.rooms.length });
+      setDiscovered((prev: RoomDiscoveryPage | null) => prev && { rooms: [...prev.rooms, ...page.rooms], total: page.total });
+    } catch (error) {
+      console.error('Failed to load more rooms:', error);
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setTypeFilter(null);
+    setGoldFilter(null);
+    setFreeSlotsOnly(false);
+    setSort('activity');
+  };
+
   const handleCreateRoom = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
       setIsCreating(true);
-      await onRoomCreate(formData);
+      await onRoomCreate({ ...formData, tags: parseTags(tagsText) });
       setFormData({
         name: '',
         description: null,
         room_type: 'public',
         max_participants: undefined,
-        gold_cost: undefined
+        gold_cost: undefined,
+        category_id: null
       });
+      setTagsText('');
       setShowCreateDialog(false);
     } catch (error) {
       console.error('Failed to create room:', error);
@@ -50,6 +227,22 @@ export function RoomList({ rooms, activeRoom, onRoomSelect, onRoomCreate, isLoad
     }
   };
 
+  const handleAcceptInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsAcceptingInvite(true);
+      setInviteError(null);
+      await onInviteAccept(inviteCode.trim());
+      setInviteCode('');
+      setShowInviteDialog(false);
+    } catch (error) {
+      console.error('Failed to accept invite:', error);
+      setInviteError(error instanceof Error ? error.message : 'Failed to accept invite');
+    } finally {
+      setIsAcceptingInvite(false);
+    }
+  };
+
   const getRoomIcon = (roomType: string) => {
     switch (roomType) {
       case 'premium':
@@ -73,7 +266,7 @@ export function RoomList({ rooms, activeRoom, onRoomSelect, onRoomCreate, isLoad
   };
 
   // Additional rooms for demonstration
-  const sampleRooms: Room[] = [
+  const sampleRooms: RoomWithUnread[] = [
     {
       id: 1,
       name: '🌟 Welcome Lounge',
@@ -82,9 +275,16 @@ export function RoomList({ rooms, activeRoom, onRoomSelect, onRoomCreate, isLoad
       max_participants: null,
       gold_cost: null,
       owner_id: 1,
+      category_id: null,
+      tags: [],
       is_active: true,
+      is_direct: false,
       created_at: new Date(),
-      updated_at: new Date()
+      updated_at: new Date(),
+      participant_role: null,
+      last_read_message_id: null,
+      unread_count: 0,
+      unread_mention_count: 0
     },
     {
       id: 2,
@@ -94,9 +294,16 @@ export function RoomList({ rooms, activeRoom, onRoomSelect, onRoomCreate, isLoad
       max_participants: 20,
       gold_cost: 50,
       owner_id: 1,
+      category_id: null,
+      tags: [],
       is_active: true,
+      is_direct: false,
       created_at: new Date(),
-      updated_at: new Date()
+      updated_at: new Date(),
+      participant_role: null,
+      last_read_message_id: null,
+      unread_count: 0,
+      unread_mention_count: 0
     },
     {
       id: 3,
@@ -106,9 +313,16 @@ export function RoomList({ rooms, activeRoom, onRoomSelect, onRoomCreate, isLoad
       max_participants: null,
       gold_cost: null,
       owner_id: 1,
+      category_id: null,
+      tags: [],
       is_active: true,
+      is_direct: false,
       created_at: new Date(),
-      updated_at: new Date()
+      updated_at: new Date(),
+      participant_role: null,
+      last_read_message_id: null,
+      unread_count: 0,
+      unread_mention_count: 0
     },
     {
       id: 4,
@@ -118,14 +332,113 @@ export function RoomList({ rooms, activeRoom, onRoomSelect, onRoomCreate, isLoad
       max_participants: 10,
       gold_cost: null,
       owner_id: 1,
+      category_id: null,
+      tags: [],
       is_active: true,
+      is_direct: false,
       created_at: new Date(),
-      updated_at: new Date()
+      updated_at: new Date(),
+      participant_role: null,
+      last_read_message_id: null,
+      unread_count: 0,
+      unread_mention_count: 0
     }
   ];
 
   const allRooms = [...rooms, ...sampleRooms];
 
+  // Joined rooms grouped by category in the admins' order; empty sections are hidden
+  const knownCategoryIds = new Set(categories.map((category: RoomCategory) => category.id));
+  const sections = [
+    ...categories.map((category: RoomCategory) => ({
+      key: String(category.id),
+      label: category.name,
+      rooms: allRooms.filter((room: RoomWithUnread) => room.category_id === category.id)
+    })),
+    {
+      key: UNCATEGORISED,
+      label: categories.length > 0 ? 'Other rooms' : 'All rooms',
+      rooms: allRooms.filter((room: RoomWithUnread) => room.category_id === null || !knownCategoryIds.has(room.category_id))
+    }
+  ].filter((section: { rooms: RoomWithUnread[] }) => section.rooms.length > 0);
+
+  const toggleSection = (key: string) =>
+    setCollapsedSections((prev: Set<string>) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  // Prefer the listed copy of a discovered room, which knows whether it was joined since the search ran
+  const selectRoom = (room: RoomWithUnread) =>
+    onRoomSelect(rooms.find((candidate: RoomWithUnread) => candidate.id === room.id) ?? room);
+
+  const renderRoom = (room: RoomWithUnread, participantCount?: number) => (
+    <Card
+      key={room.id}
+      className={`cursor-pointer transition-all hover:shadow-sm ${
+        activeRoom?.id === room.id
+          ? 'ring-2 ring-indigo-500 bg-indigo-50'
+          : 'hover:bg-gray-50'
+      }`}
+      onClick={() => selectRoom(room)}
+    >
+      <CardContent className="p-3">
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center space-x-2 mb-1">
+              {getRoomIcon(room.room_type)}
+              <span className={`text-sm text-gray-900 truncate ${
+                room.unread_count > 0 ? 'font-semibold' : 'font-medium'
+              }`}>
+                {room.name}
+              </span>
+            </div>
+            {room.description && (
+              <p className="text-xs text-gray-600 mb-2 line-clamp-2">
+                {room.description}
+              </p>
+            )}
+            <div className="flex items-center space-x-2">
+              <Badge variant={getRoomBadgeVariant(room.room_type)} className="text-xs">
+                {room.room_type}
+              </Badge>
+              {room.gold_cost && (
+                <Badge variant="outline" className="text-xs">
+                  <Crown className="h-3 w-3 mr-1 text-yellow-500" />
+                  {room.gold_cost}
+                </Badge>
+              )}
+              {participantCount !== undefined && (
+                <Badge variant="outline" className="text-xs" title="Members">
+                  <Users className="h-3 w-3 mr-1" />
+                  {participantCount}
+                </Badge>
+              )}
+              {!room.is_active && (
+                <Badge variant="outline" className="text-xs text-gray-500">
+                  Archived
+                </Badge>
+              )}
+            </div>
+            {room.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {room.tags.map((tag: string) => (
+                  <span key={tag} className="text-xs text-indigo-600">#{tag}</span>
+                ))}
+              </div>
+            )}
+          </div>
+          {activeRoom?.id !== room.id && <UnreadBadges room={room} />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -133,171 +446,348 @@ export function RoomList({ rooms, activeRoom, onRoomSelect, onRoomCreate, isLoad
           <Users className="h-4 w-4 mr-2" />
           Chat Rooms
         </h3>
-        <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-          <DialogTrigger asChild>
-            <Button size="sm" variant="outline" className="text-xs">
-              <Plus className="h-3 w-3 mr-1" />
-              New
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>🚀 Create New Room</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleCreateRoom} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="roomName">Room Name</Label>
-                <Input
-                  id="roomName"
-                  placeholder="Enter room name"
-                  value={formData.name}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData((prev: CreateRoomInput) => ({ ...prev, name: e.target.value }))
-                  }
-                  required
-                  disabled={isCreating}
-                />
-              </div>
+        <div className="flex items-center space-x-2">
+          <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+            <DialogTrigger asChild>
+              <Button size="sm" variant="outline" className="text-xs">
+                <Ticket className="h-3 w-3 mr-1" />
+                Join
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>🎟️ Join with an Invite Code</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleAcceptInvite} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="inviteCode">Invite Code</Label>
+                  <Input
+                    id="inviteCode"
+                    placeholder="Paste the code you were given"
+                    value={inviteCode}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setInviteCode(e.target.value)}
+                    required
+                    disabled={isAcceptingInvite}
+                  />
+                  {inviteError && <p className="text-sm text-red-600">{inviteError}</p>}
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="roomDescription">Description (Optional)</Label>
-                <Textarea
-                  id="roomDescription"
-                  placeholder="Describe your room..."
-                  value={formData.description || ''}
-                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                    setFormData((prev: CreateRoomInput) => ({ 
-                      ...prev, 
-                      description: e.target.value || null 
-                    }))
-                  }
-                  disabled={isCreating}
-                />
-              </div>
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setShowInviteDialog(false)} disabled={isAcceptingInvite}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isAcceptingInvite || !inviteCode.trim()}>
+                    {isAcceptingInvite ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Joining...
+                      </>
+                    ) : (
+                      'Join Room'
+                    )}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+          <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+            <DialogTrigger asChild>
+              <Button size="sm" variant="outline" className="text-xs">
+                <Plus className="h-3 w-3 mr-1" />
+                New
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>🚀 Create New Room</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleCreateRoom} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="roomName">Room Name</Label>
+                  <Input
+                    id="roomName"
+                    placeholder="Enter room name"
+                    value={formData.name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateRoomInput) => ({ ...prev, name: e.target.value }))
+                    }
+                    required
+                    disabled={isCreating}
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="roomType">Room Type</Label>
-                <Select
-                  value={formData.room_type}
-                  onValueChange={(value: 'public' | 'private' | 'premium') =>
-                    setFormData((prev: CreateRoomInput) => ({ ...prev, room_type: value }))
-                  }
-                  disabled={isCreating}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select room type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="public">🌍 Public - Anyone can join</SelectItem>
-                    <SelectItem value="private">🔒 Private - Invite only</SelectItem>
-                    <SelectItem value="premium">👑 Premium - Costs gold credits</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="roomDescription">Description (Optional)</Label>
+                  <Textarea
+                    id="roomDescription"
+                    placeholder="Describe your room..."
+                    value={formData.description || ''}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setFormData((prev: CreateRoomInput) => ({ 
+                        ...prev, 
+                        description: e.target.value || null 
+                      }))
+                    }
+                    disabled={isCreating}
+                  />
+                </div>
 
-              {formData.room_type === 'premium' && (
                 <div className="space-y-2">
-                  <Label htmlFor="goldCost">Gold Cost</Label>
+                  <Label htmlFor="roomType">Room Type</Label>
+                  <Select
+                    value={formData.room_type}
+                    onValueChange={(value: 'public' | 'private' | 'premium') =>
+                      setFormData((prev: CreateRoomInput) => ({ ...prev, room_type: value }))
+                    }
+                    disabled={isCreating}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select room type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="public">🌍 Public - Anyone can join</SelectItem>
+                      <SelectItem value="private">🔒 Private - Invite only</SelectItem>
+                      <SelectItem value="premium">👑 Premium - Costs gold credits</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.room_type === 'premium' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="goldCost">Gold Cost</Label>
+                    <Input
+                      id="goldCost"
+                      type="number"
+                      placeholder="Cost in gold credits"
+                      value={formData.gold_cost || ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateRoomInput) => ({ 
+                          ...prev, 
+                          gold_cost: parseInt(e.target.value) || undefined 
+                        }))
+                      }
+                      min="1"
+                      disabled={isCreating}
+                    />
+                  </div>
+                )}
+
+                {categories.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="roomCategory">Category</Label>
+                    <Select
+                      value={formData.category_id ? String(formData.category_id) : UNCATEGORISED}
+                      onValueChange={(value: string) =>
+                        setFormData((prev: CreateRoomInput) => ({
+                          ...prev,
+                          category_id: value === UNCATEGORISED ? null : Number(value)
+                        }))
+                      }
+                      disabled={isCreating}
+                    >
+                      <SelectTrigger id="roomCategory">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNCATEGORISED}>No category</SelectItem>
+                        {categories.map((category: RoomCategory) => (
+                          <SelectItem key={category.id} value={String(category.id)}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="roomTags">Tags (Optional)</Label>
                   <Input
-                    id="goldCost"
+                    id="roomTags"
+                    placeholder="e.g. rpg, co-op, weekend"
+                    value={tagsText}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTagsText(e.target.value)}
+                    disabled={isCreating}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="maxParticipants">Max Participants (Optional)</Label>
+                  <Input
+                    id="maxParticipants"
                     type="number"
-                    placeholder="Cost in gold credits"
-                    value={formData.gold_cost || ''}
+                    placeholder="Leave empty for unlimited"
+                    value={formData.max_participants || ''}
                     onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
                       setFormData((prev: CreateRoomInput) => ({ 
                         ...prev, 
-                        gold_cost: parseInt(e.target.value) || undefined 
+                        max_participants: parseInt(e.target.value) || undefined 
                       }))
                     }
-                    min="1"
+                    min="2"
                     disabled={isCreating}
                   />
                 </div>
-              )}
 
-              <div className="space-y-2">
-                <Label htmlFor="maxParticipants">Max Participants (Optional)</Label>
-                <Input
-                  id="maxParticipants"
-                  type="number"
-                  placeholder="Leave empty for unlimited"
-                  value={formData.max_participants || ''}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData((prev: CreateRoomInput) => ({ 
-                      ...prev, 
-                      max_participants: parseInt(e.target.value) || undefined 
-                    }))
-                  }
-                  min="2"
-                  disabled={isCreating}
-                />
-              </div>
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)} disabled={isCreating}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isCreating}>
+                    {isCreating ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Creating...
+                      </>
+                    ) : (
+                      'Create Room'
+                    )}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
 
-              <div className="flex justify-end space-x-2">
-                <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)} disabled={isCreating}>
-                  Cancel
-                </Button>
-                <Button type="submit" disabled={isCreating}>
-                  {isCreating ? (
-                    <>
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Creating...
-                    </>
-                  ) : (
-                    'Create Room'
-                  )}
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            placeholder="Search rooms..."
+            value={searchQuery}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
+            className="h-8 pl-8 text-sm"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {TYPE_FILTERS.map((filter: { type: RoomType; label: string }) => (
+            <FilterChip
+              key={filter.type}
+              active={typeFilter === filter.type}
+              onClick={() => setTypeFilter(typeFilter === filter.type ? null : filter.type)}
+            >
+              {filter.label}
+            </FilterChip>
+          ))}
+          {GOLD_FILTERS.map((filter: { key: string; label: string }) => (
+            <FilterChip
+              key={filter.key}
+              active={goldFilter === filter.key}
+              onClick={() => setGoldFilter(goldFilter === filter.key ? null : filter.key)}
+            >
+              {filter.label}
+            </FilterChip>
+          ))}
+          <FilterChip active={freeSlotsOnly} onClick={() => setFreeSlotsOnly(!freeSlotsOnly)}>
+            Has space
+          </FilterChip>
+        </div>
+        <div className="flex items-center justify-between">
+          <Select value={sort} onValueChange={(value: RoomSort) => setSort(value)}>
+            <SelectTrigger className="h-7 w-36 text-xs" aria-label="Sort rooms">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option: { value: RoomSort; label: string }) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isFiltering && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearFilters}>
+              {discovered ? `${discovered.total} found · Clear` : 'Clear'}
+            </Button>
+          )}
+        </div>
       </div>
 
       <ScrollArea className="h-96">
         <div className="space-y-2">
-          {allRooms.map((room: Room) => (
-            <Card
-              key={room.id}
-              className={`cursor-pointer transition-all hover:shadow-sm ${
-                activeRoom?.id === room.id
-                  ? 'ring-2 ring-indigo-500 bg-indigo-50'
-                  : 'hover:bg-gray-50'
-              }`}
-              onClick={() => onRoomSelect(room)}
-            >
-              <CardContent className="p-3">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center space-x-2 mb-1">
-                      {getRoomIcon(room.room_type)}
-                      <span className="font-medium text-sm text-gray-900 truncate">
-                        {room.name}
-                      </span>
-                    </div>
-                    {room.description && (
-                      <p className="text-xs text-gray-600 mb-2 line-clamp-2">
-                        {room.description}
-                      </p>
-                    )}
-                    <div className="flex items-center space-x-2">
-                      <Badge variant={getRoomBadgeVariant(room.room_type)} className="text-xs">
-                        {room.room_type}
-                      </Badge>
-                      {room.gold_cost && (
-                        <Badge variant="outline" className="text-xs">
-                          <Crown className="h-3 w-3 mr-1 text-yellow-500" />
-                          {room.gold_cost}
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+          {isFiltering ? (
+            discovered === null ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />
+              </div>
+            ) : discovered.rooms.length === 0 ? (
+              <p className="py-4 text-center text-sm text-gray-500">No rooms match your search.</p>
+            ) : (
+              <>
+                {discovered.rooms.map((room: DiscoveredRoom) => renderRoom(room, room.participant_count))}
+                {discovered.rooms.length < discovered.total && (
+                  <Button variant="ghost" size="sm" className="w-full text-xs" onClick={handleLoadMore} disabled={isDiscovering}>
+                    {isDiscovering ? <Loader2 className="h-3 w-3 animate-spin" /> : `Show more (${discovered.total - discovered.rooms.length})`}
+                  </Button>
+                )}
+              </>
+            )
+          ) : (
+            sections.map((section: { key: string; label: string; rooms: RoomWithUnread[] }) => (
+              <Collapsible
+                key={section.key}
+                open={!collapsedSections.has(section.key)}
+                onOpenChange={() => toggleSection(section.key)}
+              >
+                <CollapsibleTrigger className="flex w-full items-center py-1 text-xs font-semibold uppercase tracking-wide text-gray-500 hover:text-gray-700">
+                  {collapsedSections.has(section.key)
+                    ? <ChevronRight className="h-3 w-3 mr-1" />
+                    : <ChevronDown className="h-3 w-3 mr-1" />}
+                  {section.label}
+                  <span className="ml-1 font-normal">({section.rooms.length})</span>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="space-y-2">
+                  {section.rooms.map((room: RoomWithUnread) => renderRoom(room))}
+                </CollapsibleContent>
+              </Collapsible>
+            ))
+          )}
         </div>
       </ScrollArea>
 
+      <div className="space-y-2">
+        <h3 className="font-semibold text-gray-800 flex items-center">
+          <MessageCircle className="h-4 w-4 mr-2" />
+          Direct messages
+        </h3>
+        {directConversations.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            Click someone's name in a room to start a conversation.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {directConversations.map((conversation: DirectConversation) => (
+              <button
+                key={conversation.room.id}
+                type="button"
+                onClick={() => onDirectConversationSelect(conversation)}
+                className={`w-full flex items-center justify-between rounded-md px-2 py-1.5 text-left transition-colors ${
+                  activeRoom?.id === conversation.room.id
+                    ? 'bg-indigo-50 ring-1 ring-indigo-500'
+                    : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={conversation.other_user.avatar_url || undefined} />
+                    <AvatarFallback className="text-xs bg-gray-100 text-gray-700">
+                      {(conversation.other_user.display_name || conversation.other_user.username).charAt(0)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className={`text-sm text-gray-900 truncate ${
+                    conversation.room.unread_count > 0 ? 'font-semibold' : 'font-medium'
+                  }`}>
+                    {conversation.other_user.display_name || conversation.other_user.username}
+                  </span>
+                </div>
+                {activeRoom?.id !== conversation.room.id && <UnreadBadges room={conversation.room} />}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       {isLoading && (
         <div className="flex items-center justify-center py-4">
           <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
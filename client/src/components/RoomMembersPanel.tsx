@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Crown, MicOff, MoreHorizontal, X } from 'lucide-react';
+import type { Room, RoomEvent, RoomMember, CurrentUser } from '../../../server/src/schema';
+
+interface RoomMembersPanelProps {
+  roomId: number;
+  user: CurrentUser;
+  // Archived rooms keep their members as they are, so no actions are offered
+  readOnly: boolean;
+  onClose: () => void;
+  onRoomUpdated: (room: Room) => void;
+}
+
+type ParticipantRole = RoomMember['participant_role'];
+
+const ROLE_GROUPS: { role: ParticipantRole; label: string }[] = [
+  { role: 'admin', label: 'Admins' },
+  { role: 'moderator', label: 'Moderators' },
+  { role: 'member', label: 'Members' }
+];
+
+// Same ranking the server applies: moderators act on members, admins also on
+// moderators, and only the owner on admins
+const ROLE_RANK: Record<ParticipantRole, number> = { member: 0, moderator: 1, admin: 2 };
+const rankOf = (member: RoomMember) => member.is_owner ? 3 : ROLE_RANK[member.participant_role];
+
+const MUTE_OPTIONS = [
+  { label: 'Mute for 15 minutes', minutes: 15 },
+  { label: 'Mute for 1 hour', minutes: 60 },
+  { label: 'Mute until unmuted', minutes: undefined }
+];
+
+export function RoomMembersPanel({ roomId, user, readOnly, onClose, onRoomUpdated }: RoomMembersPanelProps) {
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await trpc.getRoomParticipants.query({ room_id: roomId }));
+    } catch (error) {
+      console.error('Failed to load room members:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  // Leaving, moderation and role changes are all announced with system messages
+  useEffect(() => {
+    const subscription = trpc.onRoomEvent.subscribe({ roomId }, {
+      onData: (event: RoomEvent) => {
+        if (event.type === 'message.created' && event.message.message_type === 'system') {
+          loadMembers();
+        }
+      },
+      onError: (error: unknown) => console.error('Member list event subscription failed:', error)
+    });
+    return () => subscription.unsubscribe();
+  }, [roomId, loadMembers]);
+
+  const me = members.find((member: RoomMember) => member.user.id === user.id);
+  const myRank = me ? rankOf(me) : -1;
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await action();
+      await loadMembers();
+    } catch (error) {
+      console.error('Member action failed:', error);
+      setError(error instanceof Error ? error.message : 'Action failed');
+    }
+  };
+
+  const handleTransferOwnership = (member: RoomMember) => runAction(async () => {
+    const room = await trpc.transferRoomOwnership.mutate({ room_id: roomId, new_owner_id: member.user.id });
+    onRoomUpdated(room);
+  });
+
+  const renderActions = (member: RoomMember) => {
+    if (readOnly) return null;
+    const canModerate = member.user.id !== user.id && myRank >= ROLE_RANK.moderator && rankOf(member) < myRank;
+    const canChangeRole = canModerate && me?.participant_role === 'admin';
+    const canTransfer = !!me?.is_owner && member.user.id !== user.id;
+    if (!canModerate && !canTransfer) return null;
+
+    const target = { room_id: roomId, user_id: member.user.id };
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label="Member actions">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {canChangeRole && ROLE_GROUPS
+            .filter(({ role }) => role !== member.participant_role)
+            .map(({ role }) => (
+              <DropdownMenuItem
+                key={role}
+                onSelect={() => runAction(() => trpc.setParticipantRole.mutate({ ...target, participant_role: role }))}
+              >
+                Make {role}
+              </DropdownMenuItem>
+            ))}
+          {canChangeRole && <DropdownMenuSeparator />}
+          {canModerate && (member.is_muted ? (
+            <DropdownMenuItem onSelect={() => runAction(() => trpc.unmuteParticipant.mutate(target))}>
+              Unmute
+            </DropdownMenuItem>
+          ) : MUTE_OPTIONS.map((option: { label: string; minutes: number | undefined }) => (
+            <DropdownMenuItem
+              key={option.label}
+              onSelect={() => runAction(() => trpc.muteParticipant.mutate({ ...target, duration_minutes: option.minutes }))}
+            >
+              {option.label}
+            </DropdownMenuItem>
+          )))}
+          {canModerate && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem variant="destructive" onSelect={() => runAction(() => trpc.kickParticipant.mutate(target))}>
+                Remove from room
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                variant="destructive"
+                onSelect={() => runAction(() => trpc.banUser.mutate({ ...target, duration_minutes: 60 * 24 }))}
+              >
+                Ban for 1 day
+              </DropdownMenuItem>
+              <DropdownMenuItem variant="destructive" onSelect={() => runAction(() => trpc.banUser.mutate(target))}>
+                Ban permanently
+              </DropdownMenuItem>
+            </>
+          )}
+          {canTransfer && (
+            <>
+              {canModerate && <DropdownMenuSeparator />}
+              <DropdownMenuItem onSelect={() => handleTransferOwnership(member)}>
+                Transfer ownership
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  return (
+    <div className="w-72 flex flex-col border-l bg-white/80">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <div>
+          <p className="font-medium text-sm text-gray-900">Members</p>
+          {!isLoading && <p className="text-xs text-gray-500">{members.length} in this room</p>}
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && <p className="px-4 pt-2 text-xs text-red-600">{error}</p>}
+
+      <ScrollArea className="flex-1 min-h-0 px-4 py-3">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading members...</p>
+        ) : (
+          <div className="space-y-4">
+            {ROLE_GROUPS.map(({ role, label }) => {
+              const group = members.filter((member: RoomMember) => member.participant_role === role);
+              if (group.length === 0) return null;
+              return (
+                <div key={role}>
+                  <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    {label} — {group.length}
+                  </p>
+                  <div className="space-y-2">
+                    {group.map((member: RoomMember) => (
+                      <div key={member.user.id} className="flex items-center justify-between">
+                        <div className="flex min-w-0 items-center space-x-2">
+                          <Avatar className="h-7 w-7">
+                            <AvatarImage src={member.user.avatar_url || undefined} />
+                            <AvatarFallback className="text-xs bg-gray-100 text-gray-700">
+                              {member.user.display_name?.charAt(0) || member.user.username.charAt(0)}
+                            </AvatarFallback>
+                          </Avatar>
+                          <span className="truncate text-sm text-gray-900">
+                            {member.user.display_name || member.user.username}
+                          </span>
+                          {member.is_owner && <Crown className="h-3 w-3 shrink-0 text-yellow-500" aria-label="Owner" />}
+                          {member.is_muted && (
+                            <Badge variant="outline" className="px-1 py-0 text-xs" title={
+                              member.muted_until ? `Muted until ${member.muted_until.toLocaleString()}` : 'Muted'
+                            }>
+                              <MicOff className="h-3 w-3" />
+                            </Badge>
+                          )}
+                        </div>
+                        {renderActions(member)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
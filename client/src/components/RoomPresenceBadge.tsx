@@ -0,0 +1,82 @@
+import { useState, useEffect, useRef } from 'react';
+import { trpc } from '@/utils/trpc';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Users } from 'lucide-react';
+import type { RoomPresence, RoomPresenceInput } from '../../../server/src/schema';
+
+interface RoomPresenceBadgeProps {
+  roomId: number;
+}
+
+// Must stay well below the server's presence timeout (45s)
+const HEARTBEAT_INTERVAL_MS = 20_000;
+
+// Identifies this browser tab, so several tabs of one user are tracked separately
+const createSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export function RoomPresenceBadge({ roomId }: RoomPresenceBadgeProps) {
+  const [presence, setPresence] = useState<RoomPresence | null>(null);
+  const sessionIdRef = useRef<string>(createSessionId());
+
+  useEffect(() => {
+    const input: RoomPresenceInput = { room_id: roomId, session_id: sessionIdRef.current };
+
+    const sendHeartbeat = () => {
+      trpc.heartbeatPresence.mutate(input).catch((error: unknown) => {
+        console.error('Presence heartbeat failed:', error);
+      });
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+    const subscription = trpc.onRoomPresence.subscribe({ roomId }, {
+      onData: (data: RoomPresence) => setPresence(data),
+      onError: (error: unknown) => console.error('Presence subscription failed:', error)
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.unsubscribe();
+      trpc.leaveRoomPresence.mutate(input).catch((error: unknown) => {
+        console.error('Failed to leave room presence:', error);
+      });
+    };
+  }, [roomId]);
+
+  return (
+    <HoverCard>
+      <HoverCardTrigger asChild>
+        <Badge variant="outline" className="text-xs cursor-default">
+          <span className="h-2 w-2 rounded-full bg-green-500 mr-1.5" />
+          <Users className="h-3 w-3 mr-1" />
+          {presence?.online_count ?? 0} online
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-56 p-3">
+        <p className="text-xs font-medium text-gray-500 mb-2">Online now</p>
+        {!presence || presence.users.length === 0 ? (
+          <p className="text-sm text-gray-500">Nobody is online</p>
+        ) : (
+          <div className="space-y-2">
+            {presence.users.map((onlineUser) => (
+              <div key={onlineUser.id} className="flex items-center space-x-2">
+                <Avatar className="h-6 w-6">
+                  <AvatarImage src={onlineUser.avatar_url || undefined} />
+                  <AvatarFallback className="text-xs bg-gray-100 text-gray-700">
+                    {onlineUser.display_name?.charAt(0) || onlineUser.username.charAt(0)}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm text-gray-900 truncate">
+                  {onlineUser.display_name || onlineUser.username}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
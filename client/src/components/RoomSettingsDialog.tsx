@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Settings, Archive, Trash2, Loader2 } from 'lucide-react';
+import type { Room, UpdateRoomInput } from '../../../server/src/schema';
+
+interface RoomSettingsDialogProps {
+  room: Room;
+  onRoomUpdated: (room: Room) => void;
+  // Called once the room is gone for good
+  onRoomDeleted: () => void;
+}
+
+const settingsOf = (room: Room): UpdateRoomInput => ({
+  room_id: room.id,
+  name: room.name,
+  description: room.description,
+  room_type: room.room_type,
+  max_participants: room.max_participants,
+  gold_cost: room.gold_cost
+});
+
+export function RoomSettingsDialog({ room, onRoomUpdated, onRoomDeleted }: RoomSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [formData, setFormData] = useState<UpdateRoomInput>(() => settingsOf(room));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved settings every time the dialog opens
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setFormData(settingsOf(room));
+      setError(null);
+    }
+    setOpen(isOpen);
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      setOpen(false);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      onRoomUpdated(await trpc.updateRoom.mutate({
+        ...formData,
+        gold_cost: formData.room_type === 'premium' ? formData.gold_cost : null
+      }));
+    }, 'Failed to update room');
+  };
+
+  const handleArchive = () => runAction(async () => {
+    onRoomUpdated(await trpc.archiveRoom.mutate({ room_id: room.id }));
+  }, 'Failed to archive room');
+
+  const handleDelete = () => runAction(async () => {
+    await trpc.deleteRoom.mutate({ room_id: room.id });
+    onRoomDeleted();
+  }, 'Failed to delete room');
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs">
+          <Settings className="h-3 w-3 mr-1" />
+          Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Room settings</DialogTitle>
+          <DialogDescription>
+            {room.is_active
+              ? 'Changes apply to everyone in the room.'
+              : 'This room is archived. Its history stays readable but can no longer change.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {room.is_active && (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="settingsName">Room Name</Label>
+              <Input
+                id="settingsName"
+                value={formData.name ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: UpdateRoomInput) => ({ ...prev, name: e.target.value }))
+                }
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settingsDescription">Description</Label>
+              <Textarea
+                id="settingsDescription"
+                value={formData.description || ''}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                  setFormData((prev: UpdateRoomInput) => ({ ...prev, description: e.target.value || null }))
+                }
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settingsType">Room Type</Label>
+              <Select
+                value={formData.room_type ?? room.room_type}
+                onValueChange={(value: 'public' | 'private' | 'premium') =>
+                  setFormData((prev: UpdateRoomInput) => ({ ...prev, room_type: value }))
+                }
+                disabled={isSaving}
+              >
+                <SelectTrigger id="settingsType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="public">🌍 Public - Anyone can join</SelectItem>
+                  <SelectItem value="private">🔒 Private - Invite only</SelectItem>
+                  <SelectItem value="premium">👑 Premium - Costs gold credits</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.room_type === 'premium' && (
+              <div className="space-y-2">
+                <Label htmlFor="settingsGoldCost">Gold Cost</Label>
+                <Input
+                  id="settingsGoldCost"
+                  type="number"
+                  placeholder="Cost in gold credits"
+                  value={formData.gold_cost ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: UpdateRoomInput) => ({ ...prev, gold_cost: parseInt(e.target.value) || null }))
+                  }
+                  min="1"
+                  required
+                  disabled={isSaving}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="settingsMaxParticipants">Max Participants</Label>
+              <Input
+                id="settingsMaxParticipants"
+                type="number"
+                placeholder="Leave empty for unlimited"
+                value={formData.max_participants ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: UpdateRoomInput) => ({ ...prev, max_participants: parseInt(e.target.value) || null }))
+                }
+                min="2"
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSaving || !formData.name?.trim()}>
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save changes'}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <Separator />
+
+        <div className="flex justify-end space-x-2">
+          {room.is_active && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" disabled={isSaving}>
+                  <Archive className="h-4 w-4 mr-1" />
+                  Archive
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Archive {room.name}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Members keep access to the history, but nobody can post, edit or react any more.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleArchive}>Archive room</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={isSaving}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {room.name}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  All messages, attachments and members are removed permanently. This cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                  Delete room
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
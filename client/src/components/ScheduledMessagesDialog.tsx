@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { formatTimestamp } from '@/utils/format';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Clock, X, Loader2 } from 'lucide-react';
+import type { ScheduledMessage } from '../../../server/src/schema';
+
+interface ScheduledMessagesDialogProps {
+  roomId: number;
+  // The message being composed, used as the starting text
+  draft: string;
+  // Called once the draft has been scheduled so the composer can be cleared
+  onScheduled: () => void;
+}
+
+// <input type="datetime-local"> wants local time without seconds or a zone
+const toLocalInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+};
+
+// New messages default to an hour from now
+const DEFAULT_DELAY_MS = 60 * 60 * 1000;
+
+export function ScheduledMessagesDialog({ roomId, draft, onScheduled }: ScheduledMessagesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [scheduled, setScheduled] = useState<ScheduledMessage[]>([]);
+  const [content, setContent] = useState('');
+  const [sendAt, setSendAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadScheduled = useCallback(async () => {
+    try {
+      setScheduled(await trpc.getMyScheduledMessages.query({ room_id: roomId }));
+    } catch (error) {
+      console.error('Failed to load scheduled messages:', error);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    if (open) {
+      loadScheduled();
+    }
+  }, [open, loadScheduled]);
+
+  // The draft is copied when the dialog opens
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setContent(draft);
+      setSendAt(toLocalInputValue(new Date(Date.now() + DEFAULT_DELAY_MS)));
+      setError(null);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setError(null);
+      const message = await trpc.scheduleMessage.mutate({
+        room_id: roomId,
+        content,
+        send_at: new Date(sendAt)
+      });
+      setScheduled((prev: ScheduledMessage[]) =>
+        [...prev, message].sort((a: ScheduledMessage, b: ScheduledMessage) => a.send_at.getTime() - b.send_at.getTime())
+      );
+      setContent('');
+      onScheduled();
+    } catch (error) {
+      console.error('Failed to schedule message:', error);
+      setError(error instanceof Error ? error.message : 'Failed to schedule message');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (scheduledMessageId: number) => {
+    try {
+      setError(null);
+      await trpc.cancelScheduledMessage.mutate({ scheduled_message_id: scheduledMessageId });
+      setScheduled((prev: ScheduledMessage[]) => prev.filter((message: ScheduledMessage) => message.id !== scheduledMessageId));
+    } catch (error) {
+      console.error('Failed to cancel scheduled message:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cancel scheduled message');
+      loadScheduled();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
+          title="Schedule message"
+        >
+          <Clock className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>⏰ Schedule a message</DialogTitle>
+          <DialogDescription>
+            The message is sent at the chosen time, as long as you can still post in this room then.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSchedule} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scheduledContent">Message</Label>
+            <Textarea
+              id="scheduledContent"
+              value={content}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setContent(e.target.value)}
+              placeholder="What do you want to say?"
+              required
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scheduledSendAt">Send at</Label>
+            <Input
+              id="scheduledSendAt"
+              type="datetime-local"
+              value={sendAt}
+              min={toLocalInputValue(new Date())}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSendAt(e.target.value)}
+              required
+              disabled={isSaving}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving || !content.trim() || !sendAt}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Clock className="h-4 w-4 mr-2" />}
+              Schedule
+            </Button>
+          </div>
+        </form>
+
+        {scheduled.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Your scheduled messages</h4>
+              {scheduled.map((message: ScheduledMessage) => (
+                <div key={message.id} className="flex items-start justify-between rounded-md border p-2">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{message.content}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatTimestamp(message.send_at)}
+                      {message.status === 'failed' && (
+                        <Badge variant="destructive" className="ml-2 text-xs">
+                          Not sent{message.failure_reason ? `: ${message.failure_reason}` : ''}
+                        </Badge>
+                      )}
+                      {message.status === 'sending' && (
+                        <Badge variant="secondary" className="ml-2 text-xs">Sending…</Badge>
+                      )}
+                    </p>
+                  </div>
+                  {message.status === 'pending' && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-gray-400 hover:text-red-600"
+                      onClick={() => handleCancel(message.id)}
+                      title="Cancel"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
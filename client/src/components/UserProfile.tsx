@@ -22,10 +22,10 @@ import {
   Coins,
   Loader2 
 } from 'lucide-react';
-import type { User as UserType, UpdateUserProfileInput, PurchaseGoldInput } from '../../../server/src/schema';
+import type { CurrentUser, UpdateUserProfileInput, PurchaseGoldInput } from '../../../server/src/schema';
 
 interface UserProfileProps {
-  user: UserType | null;
+  user: CurrentUser | null;
 }
 
 export function UserProfile({ user }: UserProfileProps) {
@@ -0,0 +1,24 @@
+import type { Attachment } from '../../../server/src/schema';
+
+// Short relative timestamps for chat messages ("now", "5m ago", "3h ago", then the date)
+export const formatTimestamp = (date: Date) => {
+  const now = new Date();
+  const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
+  
+  if (diffInMinutes < 1) return 'now';
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+  if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
+  return date.toLocaleDateString();
+};
+
+// Attachment links are relative to the API root, which the client reaches through /api
+export const attachmentUrl = (attachment: Attachment) => `/api${attachment.download_path}`;
+
+export const isImageAttachment = (attachment: Attachment) =>
+  attachment.mime_type.startsWith('image/') && attachment.mime_type !== 'image/svg+xml';
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
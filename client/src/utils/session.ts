@@ -0,0 +1,12 @@
+// Session token issued by loginUser, persisted across reloads
+const SESSION_TOKEN_KEY = 'session_token';
+
+export const getSessionToken = (): string | null => localStorage.getItem(SESSION_TOKEN_KEY);
+
+export const setSessionToken = (token: string) => {
+  localStorage.setItem(SESSION_TOKEN_KEY, token);
+};
+
+export const clearSessionToken = () => {
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+};
@@ -1,10 +1,44 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, createWSClient, httpBatchLink, httpLink, isNonJsonSerializable, loggerLink, splitLink, wsLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
+import { getSessionToken } from './session';
+
+// Subscriptions travel over a WebSocket to the same /api endpoint as queries
+export const wsClient = createWSClient({
+  url: `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/api`,
+  connectionParams() {
+    const token = getSessionToken();
+    return token ? { token } : {};
+  },
+  // Only hold a connection open while something is subscribed
+  lazy: { enabled: true, closeMs: 10_000 },
+});
+
+const authHeaders = () => {
+  const token = getSessionToken();
+  return token ? { authorization: `Bearer ${token}` } : {};
+};
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: wsLink({ client: wsClient, transformer: superjson }),
+      // File uploads (FormData) cannot be batched as JSON, so they get their own request
+      false: splitLink({
+        condition: (op) => isNonJsonSerializable(op.input),
+        true: httpLink({
+          url: '/api',
+          transformer: superjson,
+          headers: authHeaders,
+        }),
+        false: httpBatchLink({
+          url: '/api',
+          transformer: superjson,
+          headers: authHeaders,
+        }),
+      }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -14,6 +14,8 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:2022',
         changeOrigin: true,
+        // Forward WebSocket upgrades used by tRPC subscriptions
+        ws: true,
         rewrite: (path) => path.replace(/^\/api/, ''),
       },
     },
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+
+// Legacy hashes are stored as "<salt>:<scrypt hex digest>"; Bun hashes are PHC strings starting with "$"
+const isLegacyScryptHash = (hash: string): boolean => {
+  return !hash.startsWith('$') && hash.includes(':');
+};
+
+const verifyLegacyScryptHash = (password: string, hash: string): boolean => {
+  const [salt, storedHash] = hash.split(':');
+  if (!salt || !storedHash) {
+    return false;
+  }
+
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = crypto.scryptSync(password, salt, 64);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Hash a password with the preferred algorithm (Bun's default, argon2id)
+export const hashPassword = async (password: string): Promise<string> => {
+  return Bun.password.hash(password);
+};
+
+// Verify a password against either a current or a legacy scrypt hash
+export const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
+  if (isLegacyScryptHash(hash)) {
+    return verifyLegacyScryptHash(password, hash);
+  }
+
+  try {
+    return await Bun.password.verify(password, hash);
+  } catch {
+    // Unrecognised hash formats never match
+    return false;
+  }
+};
+
+// Whether a stored hash should be replaced with one from hashPassword after a successful login
+export const needsRehash = (hash: string): boolean => {
+  return isLegacyScryptHash(hash);
+};
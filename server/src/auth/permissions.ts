@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { rolesTable, usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Permission catalogue: every permission a role may grant via roles.permissions.
+// Procedures guarded with requirePermission() reject callers whose role lacks the key.
+export const PERMISSION_CATALOGUE = {
+  'roles:manage': 'Create roles, view the role list and assign roles to users',
+  'users:read': 'View the list of user accounts',
+  'settings:manage': 'Change site settings and read non-public ones',
+  'email_templates:manage': 'Create and view email templates',
+  'room_categories:manage': 'Create, edit and delete room categories',
+} as const;
+
+export type Permission = keyof typeof PERMISSION_CATALOGUE;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_CATALOGUE) as Permission[];
+
+// Roles seeded on startup so a fresh install has an administrator role and a default role
+export const DEFAULT_ROLES = [
+  { name: 'admin', permissions: ALL_PERMISSIONS, is_default: false },
+  { name: 'member', permissions: [] as Permission[], is_default: true },
+];
+
+export const ADMIN_ROLE_NAME = 'admin';
+
+// Load the permissions granted by a user's role
+export const getUserPermissions = async (userId: number): Promise<string[]> => {
+  const results = await db.select({ permissions: rolesTable.permissions })
+    .from(usersTable)
+    .innerJoin(rolesTable, eq(usersTable.role_id, rolesTable.id))
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (results.length === 0) {
+    return [];
+  }
+
+  return results[0].permissions;
+};
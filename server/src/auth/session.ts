@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Sessions stay valid for 7 days after login
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Without a configured secret, fall back to a per-process one (sessions end on restart).
+// The secret also signs attachment download links.
+const fallbackSecret = crypto.randomBytes(32).toString('hex');
+
+export const getSessionSecret = (): string => {
+  const secret = process.env['SESSION_SECRET'];
+  if (!secret) {
+    return fallbackSecret;
+  }
+  return secret;
+};
+
+interface SessionPayload {
+  sub: number;
+  exp: number;
+}
+
+const sign = (data: string): string => {
+  return crypto.createHmac('sha256', getSessionSecret()).update(data).digest('base64url');
+};
+
+export const createSessionToken = (userId: number): { token: string; expires_at: Date } => {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  const payload: SessionPayload = { sub: userId, exp: expiresAt.getTime() };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return {
+    token: `${encodedPayload}.${sign(encodedPayload)}`,
+    expires_at: expiresAt
+  };
+};
+
+// Returns the user id carried by a valid, unexpired token, or null otherwise
+export const verifySessionToken = (token: string): number | null => {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()) as SessionPayload;
+    if (typeof payload.sub !== 'number' || typeof payload.exp !== 'number' || payload.exp < Date.now()) {
+      return null;
+    }
+    return payload.sub;
+  } catch {
+    return null;
+  }
+};
+
+// Extracts the token from an "Authorization: Bearer <token>" header value
+export const parseAuthorizationHeader = (header: string | undefined): string | null => {
+  if (!header) {
+    return null;
+  }
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+  return token;
+};
+
+// Resolves a session token into the active user it belongs to
+export const getSessionUser = async (token: string | null): Promise<User | null> => {
+  if (!token) {
+    return null;
+  }
+
+  const userId = verifySessionToken(token);
+  if (userId === null) {
+    return null;
+  }
+
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0 || !users[0].is_active) {
+    return null;
+  }
+
+  return users[0];
+};
@@ -1,5 +1,10 @@
-import { serial, text, pgTable, timestamp, integer, boolean, json, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, integer, boolean, json, pgEnum, uniqueIndex, index, customType } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+
+// PostgreSQL full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType: () => 'tsvector',
+});
 
 // Enums for type safety
 export const roomTypeEnum = pgEnum('room_type', ['public', 'private', 'premium']);
@@ -7,6 +12,7 @@ export const messageTypeEnum = pgEnum('message_type', ['text', 'image', 'file',
 export const participantRoleEnum = pgEnum('participant_role', ['member', 'moderator', 'admin']);
 export const settingTypeEnum = pgEnum('setting_type', ['string', 'number', 'boolean', 'json']);
 export const transactionTypeEnum = pgEnum('transaction_type', ['purchase', 'spend', 'refund', 'bonus']);
+export const scheduledMessageStatusEnum = pgEnum('scheduled_message_status', ['pending', 'sending', 'sent', 'failed', 'cancelled']);
 
 // Roles table for access control
 export const rolesTable = pgTable('roles', {
@@ -37,6 +43,16 @@ export const usersTable = pgTable('users', {
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Admin-managed groups for the room list, shown in position order
+export const roomCategoriesTable = pgTable('room_categories', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  description: text('description'),
+  position: integer('position').notNull().default(0),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Chat rooms table
 export const roomsTable = pgTable('rooms', {
   id: serial('id').primaryKey(),
@@ -46,7 +62,14 @@ export const roomsTable = pgTable('rooms', {
   max_participants: integer('max_participants'),
   gold_cost: integer('gold_cost'),
   owner_id: integer('owner_id').notNull().references(() => usersTable.id),
+  // Uncategorised rooms have no category; tags are free-form, stored lowercase
+  category_id: integer('category_id').references(() => roomCategoriesTable.id),
+  tags: text('tags').array().notNull().default(sql`'{}'::text[]`),
   is_active: boolean('is_active').notNull().default(true),
+  // Direct conversations are private two-person rooms kept out of room listings;
+  // direct_key ("<lower user id>:<higher user id>") keeps one per pair of users
+  is_direct: boolean('is_direct').notNull().default(false),
+  direct_key: text('direct_key').unique(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -63,8 +86,113 @@ export const messagesTable = pgTable('messages', {
   reply_to_id: integer('reply_to_id'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
+  // Full-text search document, kept in sync with content by PostgreSQL
+  search_vector: tsvector('search_vector').generatedAlwaysAs(sql`to_tsvector('english', "content")`),
+}, (table) => [
+  index('messages_search_vector_idx').using('gin', table.search_vector),
+]);
+
+// Previous contents of edited messages, kept for moderation
+export const messageRevisionsTable = pgTable('message_revisions', {
+  id: serial('id').primaryKey(),
+  message_id: integer('message_id').notNull().references(() => messagesTable.id),
+  content: text('content').notNull(),
+  edited_by: integer('edited_by').notNull().references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Emoji reactions; each user can react to a message with a given emoji once
+export const messageReactionsTable = pgTable('message_reactions', {
+  id: serial('id').primaryKey(),
+  message_id: integer('message_id').notNull().references(() => messagesTable.id),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  emoji: text('emoji').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('message_reactions_message_user_emoji_idx').on(table.message_id, table.user_id, table.emoji),
+]);
+
+// Uploaded files; message_id stays null until the upload is sent with a message
+export const attachmentsTable = pgTable('attachments', {
+  id: serial('id').primaryKey(),
+  message_id: integer('message_id').references(() => messagesTable.id),
+  room_id: integer('room_id').notNull().references(() => roomsTable.id),
+  uploader_id: integer('uploader_id').notNull().references(() => usersTable.id),
+  file_name: text('file_name').notNull(),
+  mime_type: text('mime_type').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  storage_key: text('storage_key').notNull().unique(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Users mentioned with @username in a message; a mention is unread until the
+// participant's read position passes the message
+export const messageMentionsTable = pgTable('message_mentions', {
+  id: serial('id').primaryKey(),
+  message_id: integer('message_id').notNull().references(() => messagesTable.id),
+  room_id: integer('room_id').notNull().references(() => roomsTable.id),
+  mentioned_user_id: integer('mentioned_user_id').notNull().references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('message_mentions_message_user_idx').on(table.message_id, table.mentioned_user_id),
+]);
+
+// Messages pinned by room moderators; a message is pinned at most once
+export const roomPinsTable = pgTable('room_pins', {
+  id: serial('id').primaryKey(),
+  room_id: integer('room_id').notNull().references(() => roomsTable.id),
+  message_id: integer('message_id').notNull().references(() => messagesTable.id),
+  pinned_by: integer('pinned_by').notNull().references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('room_pins_message_idx').on(table.message_id),
+]);
+
+// Messages composed now and delivered at send_at by the scheduler; message_id is the
+// delivered message, failure_reason why delivery was refused (e.g. the author was muted)
+export const scheduledMessagesTable = pgTable('scheduled_messages', {
+  id: serial('id').primaryKey(),
+  room_id: integer('room_id').notNull().references(() => roomsTable.id),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  content: text('content').notNull(),
+  send_at: timestamp('send_at').notNull(),
+  status: scheduledMessageStatusEnum('status').notNull().default('pending'),
+  message_id: integer('message_id').references(() => messagesTable.id),
+  failure_reason: text('failure_reason'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('scheduled_messages_status_send_at_idx').on(table.status, table.send_at),
+]);
+
+// Invites into rooms: either addressed to one user or a shareable code with optional expiry and use limit
+export const roomInvitesTable = pgTable('room_invites', {
+  id: serial('id').primaryKey(),
+  room_id: integer('room_id').notNull().references(() => roomsTable.id),
+  created_by: integer('created_by').notNull().references(() => usersTable.id),
+  // Set for per-user invites; null for codes anyone holding them may use
+  invitee_id: integer('invitee_id').references(() => usersTable.id),
+  code: text('code').notNull().unique(),
+  max_uses: integer('max_uses'), // Null means unlimited
+  use_count: integer('use_count').notNull().default(0),
+  expires_at: timestamp('expires_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Users banned from a room; a ban without an expiry lasts until it is lifted
+export const roomBansTable = pgTable('room_bans', {
+  id: serial('id').primaryKey(),
+  room_id: integer('room_id').notNull().references(() => roomsTable.id),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  banned_by: integer('banned_by').notNull().references(() => usersTable.id),
+  reason: text('reason'),
+  expires_at: timestamp('expires_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('room_bans_room_user_idx').on(table.room_id, table.user_id),
+]);
+
 // Room participants table for managing room members
 export const roomParticipantsTable = pgTable('room_participants', {
   id: serial('id').primaryKey(),
@@ -73,7 +201,14 @@ export const roomParticipantsTable = pgTable('room_participants', {
   participant_role: participantRoleEnum('participant_role').notNull().default('member'),
   joined_at: timestamp('joined_at').defaultNow().notNull(),
   last_seen_at: timestamp('last_seen_at'),
-});
+  // Newest message the participant has read; later messages from others count as unread
+  last_read_message_id: integer('last_read_message_id'),
+  // Muted participants cannot send messages; without muted_until the mute lasts until lifted
+  is_muted: boolean('is_muted').notNull().default(false),
+  muted_until: timestamp('muted_until'),
+}, (table) => [
+  uniqueIndex('room_participants_room_user_idx').on(table.room_id, table.user_id),
+]);
 
 // Email templates table for system communications
 export const emailTemplatesTable = pgTable('email_templates', {
@@ -126,13 +261,25 @@ export const usersRelations = relations(usersTable, ({ one, many }) => ({
   goldTransactions: many(goldTransactionsTable),
 }));
 
+export const roomCategoriesRelations = relations(roomCategoriesTable, ({ many }) => ({
+  rooms: many(roomsTable),
+}));
+
 export const roomsRelations = relations(roomsTable, ({ one, many }) => ({
   owner: one(usersTable, {
     fields: [roomsTable.owner_id],
     references: [usersTable.id],
   }),
+  category: one(roomCategoriesTable, {
+    fields: [roomsTable.category_id],
+    references: [roomCategoriesTable.id],
+  }),
   messages: many(messagesTable),
   participants: many(roomParticipantsTable),
+  invites: many(roomInvitesTable),
+  bans: many(roomBansTable),
+  pins: many(roomPinsTable),
+  scheduledMessages: many(scheduledMessagesTable),
 }));
 
 export const messagesRelations = relations(messagesTable, ({ one, many }) => ({
@@ -152,6 +299,122 @@ export const messagesRelations = relations(messagesTable, ({ one, many }) => ({
   replies: many(messagesTable, {
     relationName: 'messageReply'
   }),
+  revisions: many(messageRevisionsTable),
+  reactions: many(messageReactionsTable),
+  attachments: many(attachmentsTable),
+  mentions: many(messageMentionsTable),
+}));
+
+export const messageRevisionsRelations = relations(messageRevisionsTable, ({ one }) => ({
+  message: one(messagesTable, {
+    fields: [messageRevisionsTable.message_id],
+    references: [messagesTable.id],
+  }),
+  editor: one(usersTable, {
+    fields: [messageRevisionsTable.edited_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const messageReactionsRelations = relations(messageReactionsTable, ({ one }) => ({
+  message: one(messagesTable, {
+    fields: [messageReactionsTable.message_id],
+    references: [messagesTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [messageReactionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const messageMentionsRelations = relations(messageMentionsTable, ({ one }) => ({
+  message: one(messagesTable, {
+    fields: [messageMentionsTable.message_id],
+    references: [messagesTable.id],
+  }),
+  room: one(roomsTable, {
+    fields: [messageMentionsTable.room_id],
+    references: [roomsTable.id],
+  }),
+  mentionedUser: one(usersTable, {
+    fields: [messageMentionsTable.mentioned_user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const attachmentsRelations = relations(attachmentsTable, ({ one }) => ({
+  message: one(messagesTable, {
+    fields: [attachmentsTable.message_id],
+    references: [messagesTable.id],
+  }),
+  room: one(roomsTable, {
+    fields: [attachmentsTable.room_id],
+    references: [roomsTable.id],
+  }),
+  uploader: one(usersTable, {
+    fields: [attachmentsTable.uploader_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const roomPinsRelations = relations(roomPinsTable, ({ one }) => ({
+  room: one(roomsTable, {
+    fields: [roomPinsTable.room_id],
+    references: [roomsTable.id],
+  }),
+  message: one(messagesTable, {
+    fields: [roomPinsTable.message_id],
+    references: [messagesTable.id],
+  }),
+  pinnedBy: one(usersTable, {
+    fields: [roomPinsTable.pinned_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const scheduledMessagesRelations = relations(scheduledMessagesTable, ({ one }) => ({
+  room: one(roomsTable, {
+    fields: [scheduledMessagesTable.room_id],
+    references: [roomsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [scheduledMessagesTable.user_id],
+    references: [usersTable.id],
+  }),
+  message: one(messagesTable, {
+    fields: [scheduledMessagesTable.message_id],
+    references: [messagesTable.id],
+  }),
+}));
+
+export const roomInvitesRelations = relations(roomInvitesTable, ({ one }) => ({
+  room: one(roomsTable, {
+    fields: [roomInvitesTable.room_id],
+    references: [roomsTable.id],
+  }),
+  creator: one(usersTable, {
+    fields: [roomInvitesTable.created_by],
+    references: [usersTable.id],
+  }),
+  invitee: one(usersTable, {
+    fields: [roomInvitesTable.invitee_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const roomBansRelations = relations(roomBansTable, ({ one }) => ({
+  room: one(roomsTable, {
+    fields: [roomBansTable.room_id],
+    references: [roomsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [roomBansTable.user_id],
+    references: [usersTable.id],
+  }),
+  bannedBy: one(usersTable, {
+    fields: [roomBansTable.banned_by],
+    references: [usersTable.id],
+  }),
 }));
 
 export const roomParticipantsRelations = relations(roomParticipantsTable, ({ one }) => ({
@@ -177,10 +440,28 @@ export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 export type Role = typeof rolesTable.$inferSelect;
 export type NewRole = typeof rolesTable.$inferInsert;
+export type RoomCategory = typeof roomCategoriesTable.$inferSelect;
+export type NewRoomCategory = typeof roomCategoriesTable.$inferInsert;
 export type Room = typeof roomsTable.$inferSelect;
 export type NewRoom = typeof roomsTable.$inferInsert;
 export type Message = typeof messagesTable.$inferSelect;
 export type NewMessage = typeof messagesTable.$inferInsert;
+export type MessageRevision = typeof messageRevisionsTable.$inferSelect;
+export type NewMessageRevision = typeof messageRevisionsTable.$inferInsert;
+export type MessageReaction = typeof messageReactionsTable.$inferSelect;
+export type NewMessageReaction = typeof messageReactionsTable.$inferInsert;
+export type Attachment = typeof attachmentsTable.$inferSelect;
+export type NewAttachment = typeof attachmentsTable.$inferInsert;
+export type MessageMention = typeof messageMentionsTable.$inferSelect;
+export type NewMessageMention = typeof messageMentionsTable.$inferInsert;
+export type RoomPin = typeof roomPinsTable.$inferSelect;
+export type NewRoomPin = typeof roomPinsTable.$inferInsert;
+export type ScheduledMessage = typeof scheduledMessagesTable.$inferSelect;
+export type NewScheduledMessage = typeof scheduledMessagesTable.$inferInsert;
+export type RoomInvite = typeof roomInvitesTable.$inferSelect;
+export type NewRoomInvite = typeof roomInvitesTable.$inferInsert;
+export type RoomBan = typeof roomBansTable.$inferSelect;
+export type NewRoomBan = typeof roomBansTable.$inferInsert;
 export type RoomParticipant = typeof roomParticipantsTable.$inferSelect;
 export type NewRoomParticipant = typeof roomParticipantsTable.$inferInsert;
 export type EmailTemplate = typeof emailTemplatesTable.$inferSelect;
@@ -194,8 +475,17 @@ export type NewGoldTransaction = typeof goldTransactionsTable.$inferInsert;
 export const tables = {
   roles: rolesTable,
   users: usersTable,
+  roomCategories: roomCategoriesTable,
   rooms: roomsTable,
   messages: messagesTable,
+  messageRevisions: messageRevisionsTable,
+  messageReactions: messageReactionsTable,
+  attachments: attachmentsTable,
+  messageMentions: messageMentionsTable,
+  roomPins: roomPinsTable,
+  scheduledMessages: scheduledMessagesTable,
+  roomInvites: roomInvitesTable,
+  roomBans: roomBansTable,
   roomParticipants: roomParticipantsTable,
   emailTemplates: emailTemplatesTable,
   siteSettings: siteSettingsTable,
@@ -205,8 +495,17 @@ export const tables = {
 export const tableRelations = {
   rolesRelations,
   usersRelations,
+  roomCategoriesRelations,
   roomsRelations,
   messagesRelations,
+  messageRevisionsRelations,
+  messageReactionsRelations,
+  attachmentsRelations,
+  messageMentionsRelations,
+  roomPinsRelations,
+  scheduledMessagesRelations,
+  roomInvitesRelations,
+  roomBansRelations,
   roomParticipantsRelations,
   goldTransactionsRelations,
 };
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { db } from '.';
+import { rolesTable } from './schema';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_ROLES } from '../auth/permissions';
+
+// Create the built-in roles if they are missing. Existing built-in roles keep their
+// settings but gain any permissions added to the catalogue since they were created,
+// so the admin role always holds every permission
+export const seedDefaultRoles = async (): Promise<void> => {
+  const existingDefault = await db.select()
+    .from(rolesTable)
+    .where(eq(rolesTable.is_default, true))
+    .execute();
+
+  for (const role of DEFAULT_ROLES) {
+    await db.insert(rolesTable)
+      .values({
+        name: role.name,
+        permissions: role.permissions,
+        // Only claim the default flag when no other role already holds it
+        is_default: role.is_default && existingDefault.length === 0
+      })
+      .onConflictDoNothing({ target: rolesTable.name })
+      .execute();
+
+    const [saved] = await db.select()
+      .from(rolesTable)
+      .where(eq(rolesTable.name, role.name))
+      .execute();
+
+    const missing = role.permissions.filter(permission => !saved.permissions.includes(permission));
+    if (missing.length > 0) {
+      await db.update(rolesTable)
+        .set({
+          permissions: [...saved.permissions, ...missing],
+          updated_at: new Date()
+        })
+        .where(eq(rolesTable.id, saved.id))
+        .execute();
+    }
+  }
+};
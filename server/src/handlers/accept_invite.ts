@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { roomInvitesTable } from '../db/schema';
+import { type AcceptInviteInput, type RoomParticipant } from '../schema';
+import { isUsableInvite } from '../lib/invites';
+import { joinRoom } from './join_room';
+import { eq, and } from 'drizzle-orm';
+
+// Join the room an invite code belongs to
+export async function acceptInvite(input: AcceptInviteInput, userId: number): Promise<RoomParticipant> {
+  try {
+    const invites = await db.select()
+      .from(roomInvitesTable)
+      .where(and(
+        eq(roomInvitesTable.code, input.code),
+        isUsableInvite()
+      ))
+      .limit(1)
+      .execute();
+
+    // Codes addressed to someone else look the same as unknown ones
+    const invite = invites[0];
+    if (!invite || (invite.invitee_id !== null && invite.invitee_id !== userId)) {
+      throw new Error('Invite not found or no longer valid');
+    }
+
+    return await joinRoom({ room_id: invite.room_id, invite_code: input.code }, userId);
+  } catch (error) {
+    console.error('Invite acceptance failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { messagesTable, messageReactionsTable } from '../db/schema';
+import { type ReactionInput, type ReactionSummary } from '../schema';
+import { publishRoomEvent } from '../realtime/room_events';
+import { requireActiveRoom, requireRoomParticipant } from '../lib/room_access';
+import { getReactionSummaries } from '../lib/messages';
+import { isMuted } from '../lib/moderation';
+import { eq, and } from 'drizzle-orm';
+
+export async function addReaction(input: ReactionInput, userId: number): Promise<ReactionSummary[]> {
+  try {
+    const messages = await db.select()
+      .from(messagesTable)
+      .where(and(
+        eq(messagesTable.id, input.message_id),
+        eq(messagesTable.is_deleted, false)
+      ))
+      .limit(1)
+      .execute();
+
+    if (messages.length === 0) {
+      throw new Error('Message not found or deleted');
+    }
+
+    const message = messages[0];
+    await requireActiveRoom(message.room_id);
+    const participant = await requireRoomParticipant(message.room_id, userId);
+    if (isMuted(participant)) {
+      throw new Error('You are muted in this room');
+    }
+
+    // Reacting twice with the same emoji is a no-op
+    const inserted = await db.insert(messageReactionsTable)
+      .values({
+        message_id: message.id,
+        user_id: userId,
+        emoji: input.emoji
+      })
+      .onConflictDoNothing()
+      .returning()
+      .execute();
+
+    const reactions = (await getReactionSummaries([message.id])).get(message.id) ?? [];
+
+    if (inserted.length > 0) {
+      publishRoomEvent(message.room_id, {
+        type: 'reactions.changed',
+        room_id: message.room_id,
+        message_id: message.id,
+        reactions
+      });
+    }
+
+    return reactions;
+  } catch (error) {
+    console.error('Adding reaction failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { roomsTable } from '../db/schema';
+import { type ArchiveRoomInput, type Room } from '../schema';
+import { requireRoomManager } from '../lib/room_access';
+import { postSystemMessage } from '../lib/messages';
+import { getDisplayName, getUserSummaries } from '../lib/users';
+import { eq } from 'drizzle-orm';
+
+// Archived rooms stay listed for their participants with their history, but no one can
+// join, post, edit or react in them any more
+export async function archiveRoom(input: ArchiveRoomInput, userId: number): Promise<Room> {
+  try {
+    const room = await requireRoomManager(input.room_id, userId);
+
+    if (!room.is_active) {
+      return room;
+    }
+
+    // Announce it while the room still accepts messages
+    const [user] = await getUserSummaries([userId]);
+    await postSystemMessage(input.room_id, userId, `${getDisplayName(user)} archived the room`);
+
+    const result = await db.update(roomsTable)
+      .set({
+        is_active: false,
+        updated_at: new Date()
+      })
+      .where(eq(roomsTable.id, input.room_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Room archiving failed:', error);
+    throw error;
+  }
+}
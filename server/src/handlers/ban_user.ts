@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { roomBansTable, roomParticipantsTable } from '../db/schema';
+import { type BanUserInput, type RoomBan } from '../schema';
+import { requireModerationRights, getModerationNames, describeDuration } from '../lib/moderation';
+import { postSystemMessage } from '../lib/messages';
+import { disconnectParticipant } from '../realtime/participants';
+import { eq } from 'drizzle-orm';
+
+// Ban a user from the room, removing them if they are a participant. Banning someone
+// who is already banned replaces the earlier ban.
+export async function banUser(input: BanUserInput, userId: number): Promise<RoomBan> {
+  try {
+    const { target } = await requireModerationRights(input.room_id, userId, input.user_id);
+    const names = await getModerationNames(userId, input.user_id);
+
+    const ban = {
+      banned_by: userId,
+      reason: input.reason || null,
+      expires_at: input.duration_minutes !== undefined
+        ? new Date(Date.now() + input.duration_minutes * 60 * 1000)
+        : null,
+      created_at: new Date()
+    };
+
+    const result = await db.transaction(async (tx) => {
+      const saved = await tx.insert(roomBansTable)
+        .values({ room_id: input.room_id, user_id: input.user_id, ...ban })
+        .onConflictDoUpdate({
+          target: [roomBansTable.room_id, roomBansTable.user_id],
+          set: ban
+        })
+        .returning()
+        .execute();
+
+      if (target) {
+        await tx.delete(roomParticipantsTable)
+          .where(eq(roomParticipantsTable.id, target.id))
+          .execute();
+      }
+
+      return saved[0];
+    });
+
+    if (target) {
+      await disconnectParticipant(input.room_id, input.user_id);
+    }
+
+    const duration = input.duration_minutes !== undefined ? ` ${describeDuration(input.duration_minutes)}` : '';
+    const reason = ban.reason ? `: ${ban.reason}` : '';
+    await postSystemMessage(input.room_id, userId, `${names.target} was banned by ${names.moderator}${duration}${reason}`);
+
+    return result;
+  } catch (error) {
+    console.error('Ban user failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { scheduledMessagesTable } from '../db/schema';
+import { type CancelScheduledMessageInput, type ScheduledMessage } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+export async function cancelScheduledMessage(input: CancelScheduledMessageInput, userId: number): Promise<ScheduledMessage> {
+  try {
+    // Only the author sees their scheduled messages, so others get "not found"
+    const existing = await db.select()
+      .from(scheduledMessagesTable)
+      .where(and(
+        eq(scheduledMessagesTable.id, input.scheduled_message_id),
+        eq(scheduledMessagesTable.user_id, userId)
+      ))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Scheduled message not found');
+    }
+
+    // The status check is repeated in the update in case the scheduler gets there first
+    const result = await db.update(scheduledMessagesTable)
+      .set({ status: 'cancelled', updated_at: new Date() })
+      .where(and(
+        eq(scheduledMessagesTable.id, existing[0].id),
+        eq(scheduledMessagesTable.status, 'pending')
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Only messages that are still waiting to be sent can be cancelled');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Cancelling scheduled message failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { roomsTable, roomInvitesTable, usersTable } from '../db/schema';
+import { type CreateInviteInput, type RoomInvite } from '../schema';
+import { getRoomParticipant, isRoomModerator } from '../lib/room_access';
+import { generateInviteCode } from '../lib/invites';
+import { eq, and, sql } from 'drizzle-orm';
+
+// Room moderators and admins invite a specific user, or create a shareable code
+export async function createInvite(input: CreateInviteInput, userId: number): Promise<RoomInvite> {
+  try {
+    const rooms = await db.select()
+      .from(roomsTable)
+      .where(and(
+        eq(roomsTable.id, input.room_id),
+        eq(roomsTable.is_active, true)
+      ))
+      .limit(1)
+      .execute();
+
+    if (rooms.length === 0) {
+      throw new Error('Room not found or inactive');
+    }
+
+    if (rooms[0].is_direct) {
+      throw new Error('Direct conversations cannot have invites');
+    }
+
+    if (!isRoomModerator(await getRoomParticipant(input.room_id, userId))) {
+      throw new Error('Only room moderators and admins can create invites');
+    }
+
+    let inviteeId: number | null = null;
+    if (input.invitee_username !== undefined) {
+      const invitees = await db.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(and(
+          eq(sql`lower(${usersTable.username})`, input.invitee_username.toLowerCase()),
+          eq(usersTable.is_active, true)
+        ))
+        .limit(1)
+        .execute();
+
+      if (invitees.length === 0) {
+        throw new Error('User not found');
+      }
+
+      inviteeId = invitees[0].id;
+      if (await getRoomParticipant(input.room_id, inviteeId)) {
+        throw new Error('User is already a participant in this room');
+      }
+    }
+
+    const result = await db.insert(roomInvitesTable)
+      .values({
+        room_id: input.room_id,
+        created_by: userId,
+        invitee_id: inviteeId,
+        code: generateInviteCode(),
+        // An invite addressed to one user lets them join once
+        max_uses: inviteeId !== null ? 1 : input.max_uses ?? null,
+        expires_at: input.expires_in_hours !== undefined
+          ? new Date(Date.now() + input.expires_in_hours * 60 * 60 * 1000)
+          : null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Invite creation failed:', error);
+    throw error;
+  }
+}
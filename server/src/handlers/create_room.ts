@@ -1,10 +1,15 @@
 import { db } from '../db';
 import { roomsTable, roomParticipantsTable, usersTable, goldTransactionsTable } from '../db/schema';
 import { type CreateRoomInput, type Room } from '../schema';
+import { requireRoomCategory } from '../lib/room_categories';
 import { eq, sql } from 'drizzle-orm';
 
 export const createRoom = async (input: CreateRoomInput, userId: number): Promise<Room> => {
   try {
+    if (input.category_id) {
+      await requireRoomCategory(input.category_id);
+    }
+
     // Start a database transaction for consistency
     const result = await db.transaction(async (tx) => {
       // Verify user exists
@@ -57,7 +62,9 @@ export const createRoom = async (input: CreateRoomInput, userId: number): Promis
           room_type: input.room_type,
           max_participants: input.max_participants || null,
           gold_cost: input.gold_cost !== undefined ? input.gold_cost : null,
-          owner_id: userId
+          owner_id: userId,
+          category_id: input.category_id ?? null,
+          tags: input.tags ?? []
         })
         .returning()
         .execute();
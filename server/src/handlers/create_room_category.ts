@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { roomCategoriesTable } from '../db/schema';
+import { type CreateRoomCategoryInput, type RoomCategory } from '../schema';
+import { requireUniqueCategoryName } from '../lib/room_categories';
+
+export const createRoomCategory = async (input: CreateRoomCategoryInput): Promise<RoomCategory> => {
+  try {
+    await requireUniqueCategoryName(input.name);
+
+    const result = await db.insert(roomCategoriesTable)
+      .values({
+        name: input.name,
+        description: input.description || null,
+        position: input.position ?? 0
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Room category creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { messagesTable } from '../db/schema';
+import { type DeleteMessageInput } from '../schema';
+import { publishRoomEvent } from '../realtime/room_events';
+import { getRoomParticipant, isRoomModerator, requireActiveRoom } from '../lib/room_access';
+import { eq, and } from 'drizzle-orm';
+
+export async function deleteMessage(input: DeleteMessageInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    const existing = await db.select()
+      .from(messagesTable)
+      .where(and(
+        eq(messagesTable.id, input.message_id),
+        eq(messagesTable.is_deleted, false)
+      ))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Message not found or deleted');
+    }
+
+    const message = existing[0];
+    await requireActiveRoom(message.room_id);
+
+    // Authors may delete their own messages; room moderators and admins may delete any
+    const participant = await getRoomParticipant(message.room_id, userId);
+    if (!participant) {
+      throw new Error('User is not a participant in this room');
+    }
+
+    if (message.user_id !== userId && !isRoomModerator(participant)) {
+      throw new Error('Only the author or a room moderator can delete this message');
+    }
+
+    // Soft delete: the content and its revisions stay available for moderation
+    await db.update(messagesTable)
+      .set({
+        is_deleted: true,
+        updated_at: new Date()
+      })
+      .where(eq(messagesTable.id, message.id))
+      .execute();
+
+    publishRoomEvent(message.room_id, { type: 'message.deleted', room_id: message.room_id, message_id: message.id });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Message deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,68 @@
+import { db } from '../db';
+import {
+  roomsTable,
+  roomParticipantsTable,
+  roomInvitesTable,
+  roomBansTable,
+  messagesTable,
+  messageRevisionsTable,
+  messageReactionsTable,
+  messageMentionsTable,
+  roomPinsTable,
+  scheduledMessagesTable,
+  attachmentsTable
+} from '../db/schema';
+import { type DeleteRoomInput } from '../schema';
+import { requireRoomManager } from '../lib/room_access';
+import { getStorageDriver } from '../storage/driver';
+import { publishRoomEvent } from '../realtime/room_events';
+import { eq, inArray } from 'drizzle-orm';
+
+// Permanently delete a room with everything in it. Rows referencing the room's messages go
+// first so foreign keys hold at every step, all in one transaction; stored attachment files
+// are removed only once the rows are gone.
+export async function deleteRoom(input: DeleteRoomInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    await requireRoomManager(input.room_id, userId);
+
+    const storageKeys = await db.transaction(async (tx) => {
+      const roomMessageIds = tx.select({ id: messagesTable.id })
+        .from(messagesTable)
+        .where(eq(messagesTable.room_id, input.room_id));
+
+      await tx.delete(roomPinsTable).where(eq(roomPinsTable.room_id, input.room_id)).execute();
+      await tx.delete(scheduledMessagesTable).where(eq(scheduledMessagesTable.room_id, input.room_id)).execute();
+      await tx.delete(messageRevisionsTable).where(inArray(messageRevisionsTable.message_id, roomMessageIds)).execute();
+      await tx.delete(messageReactionsTable).where(inArray(messageReactionsTable.message_id, roomMessageIds)).execute();
+      await tx.delete(messageMentionsTable).where(eq(messageMentionsTable.room_id, input.room_id)).execute();
+      const attachments = await tx.delete(attachmentsTable)
+        .where(eq(attachmentsTable.room_id, input.room_id))
+        .returning({ storage_key: attachmentsTable.storage_key })
+        .execute();
+      await tx.delete(messagesTable).where(eq(messagesTable.room_id, input.room_id)).execute();
+
+      await tx.delete(roomInvitesTable).where(eq(roomInvitesTable.room_id, input.room_id)).execute();
+      await tx.delete(roomBansTable).where(eq(roomBansTable.room_id, input.room_id)).execute();
+      await tx.delete(roomParticipantsTable).where(eq(roomParticipantsTable.room_id, input.room_id)).execute();
+      await tx.delete(roomsTable).where(eq(roomsTable.id, input.room_id)).execute();
+
+      return attachments.map(attachment => attachment.storage_key);
+    });
+
+    // Close the room for everyone who has it open
+    publishRoomEvent(input.room_id, { type: 'room.deleted', room_id: input.room_id });
+
+    // A file left behind is only wasted space, so failures here do not fail the deletion
+    const storage = getStorageDriver();
+    for (const key of storageKeys) {
+      await storage.delete(key).catch((error: unknown) => {
+        console.error(`Failed to delete stored attachment ${key}:`, error);
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Room deletion failed:', error);
+    throw error;
+  }
+}
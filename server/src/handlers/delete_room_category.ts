@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { roomCategoriesTable, roomsTable } from '../db/schema';
+import { type DeleteRoomCategoryInput } from '../schema';
+import { requireRoomCategory } from '../lib/room_categories';
+import { eq } from 'drizzle-orm';
+
+export const deleteRoomCategory = async (input: DeleteRoomCategoryInput): Promise<{ success: boolean }> => {
+  try {
+    await requireRoomCategory(input.category_id);
+
+    // The category's rooms stay, just without a category
+    await db.transaction(async (tx) => {
+      await tx.update(roomsTable)
+        .set({ category_id: null })
+        .where(eq(roomsTable.category_id, input.category_id))
+        .execute();
+
+      await tx.delete(roomCategoriesTable)
+        .where(eq(roomCategoriesTable.id, input.category_id))
+        .execute();
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Room category deletion failed:', error);
+    throw error;
+  }
+};
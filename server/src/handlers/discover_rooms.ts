@@ -0,0 +1,108 @@
+import { db } from '../db';
+import { roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { type DiscoverRoomsInput, type RoomDiscoveryPage } from '../schema';
+import { getRoomMemberships, withReadState, withoutReadState } from '../lib/room_listing';
+import { and, count, desc, eq, gte, inArray, isNull, lte, max, or, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+
+// The query is matched literally: % and _ typed by the user are not wildcards
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+const containsText = (column: AnyColumn, pattern: string): SQL =>
+  sql`${column} ilike ${pattern} escape '\\'`;
+
+export const discoverRooms = async (input: DiscoverRoomsInput, userId?: number): Promise<RoomDiscoveryPage> => {
+  try {
+    const memberships = userId ? await getRoomMemberships(userId) : null;
+    const privateRoomIds = memberships
+      ? [...memberships.participations.keys(), ...memberships.invitedRoomIds]
+      : [];
+
+    const participantCounts = db.select({
+      room_id: roomParticipantsTable.room_id,
+      participant_count: count().as('participant_count')
+    })
+      .from(roomParticipantsTable)
+      .groupBy(roomParticipantsTable.room_id)
+      .as('participant_counts');
+
+    const lastMessages = db.select({
+      room_id: messagesTable.room_id,
+      last_message_at: max(messagesTable.created_at).as('last_message_at')
+    })
+      .from(messagesTable)
+      .where(eq(messagesTable.is_deleted, false))
+      .groupBy(messagesTable.room_id)
+      .as('last_messages');
+
+    const participantCount = sql<number>`coalesce(${participantCounts.participant_count}, 0)`.mapWith(Number);
+    const goldCost = sql<number>`coalesce(${roomsTable.gold_cost}, 0)`;
+    const searchPattern = input.query ? `%${escapeLikePattern(input.query)}%` : null;
+
+    // Active rooms the user could join: public ones for visitors; premium ones and private
+    // ones they belong to or are invited to for signed-in users
+    const conditions: (SQL | undefined)[] = [
+      eq(roomsTable.is_active, true),
+      eq(roomsTable.is_direct, false),
+      memberships
+        ? or(
+          eq(roomsTable.room_type, 'public'),
+          eq(roomsTable.room_type, 'premium'),
+          privateRoomIds.length > 0
+            ? and(eq(roomsTable.room_type, 'private'), inArray(roomsTable.id, privateRoomIds))
+            : undefined
+        )
+        : eq(roomsTable.room_type, 'public'),
+      searchPattern ? or(containsText(roomsTable.name, searchPattern), containsText(roomsTable.description, searchPattern)) : undefined,
+      input.room_type ? eq(roomsTable.room_type, input.room_type) : undefined,
+      input.min_gold_cost !== undefined ? gte(goldCost, input.min_gold_cost) : undefined,
+      input.max_gold_cost !== undefined ? lte(goldCost, input.max_gold_cost) : undefined,
+      input.has_free_slots
+        ? or(isNull(roomsTable.max_participants), sql`${participantCount} < ${roomsTable.max_participants}`)
+        : undefined
+    ];
+    const where = and(...conditions);
+
+    const orderBy = input.sort === 'members'
+      ? [desc(participantCount)]
+      : input.sort === 'newest'
+        ? [desc(roomsTable.created_at)]
+        : [desc(sql`coalesce(${lastMessages.last_message_at}, ${roomsTable.created_at})`)];
+
+    const results = await db.select({
+      room: roomsTable,
+      participant_count: participantCount,
+      last_message_at: lastMessages.last_message_at
+    })
+      .from(roomsTable)
+      .leftJoin(participantCounts, eq(participantCounts.room_id, roomsTable.id))
+      .leftJoin(lastMessages, eq(lastMessages.room_id, roomsTable.id))
+      .where(where)
+      // The id keeps pages stable when the sort values tie
+      .orderBy(...orderBy, desc(roomsTable.id))
+      .limit(input.limit ?? 20)
+      .offset(input.offset ?? 0)
+      .execute();
+
+    const totals = await db.select({ total: count() })
+      .from(roomsTable)
+      .leftJoin(participantCounts, eq(participantCounts.room_id, roomsTable.id))
+      .where(where)
+      .execute();
+
+    const rooms = results.map(result => ({
+      ...result.room,
+      participant_count: result.participant_count,
+      last_message_at: result.last_message_at === null ? null : new Date(result.last_message_at)
+    }));
+
+    return {
+      rooms: memberships && userId
+        ? await withReadState(rooms, userId, memberships.participations)
+        : rooms.map(withoutReadState),
+      total: totals[0].total
+    };
+  } catch (error) {
+    console.error('Room discovery failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { attachmentsTable, type Attachment } from '../db/schema';
+import { verifyDownloadSignature } from '../storage/download_urls';
+import { getStorageDriver } from '../storage/driver';
+import { eq } from 'drizzle-orm';
+
+// Resolve a signed download link into the attachment and its bytes
+export async function downloadAttachment(
+  attachmentId: number,
+  expires: number,
+  signature: string
+): Promise<{ attachment: Attachment; data: Uint8Array }> {
+  try {
+    if (!verifyDownloadSignature(attachmentId, expires, signature)) {
+      throw new Error('Invalid or expired download link');
+    }
+
+    const attachments = await db.select()
+      .from(attachmentsTable)
+      .where(eq(attachmentsTable.id, attachmentId))
+      .limit(1)
+      .execute();
+
+    if (attachments.length === 0) {
+      throw new Error('Attachment not found');
+    }
+
+    const data = await getStorageDriver().get(attachments[0].storage_key);
+    if (!data) {
+      throw new Error('Attachment not found');
+    }
+
+    return { attachment: attachments[0], data };
+  } catch (error) {
+    console.error('Attachment download failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { messagesTable, messageRevisionsTable } from '../db/schema';
+import { type EditMessageInput, type MessageWithAuthor } from '../schema';
+import { publishRoomEvent } from '../realtime/room_events';
+import { requireActiveRoom, requireRoomParticipant } from '../lib/room_access';
+import { getMessageWithAuthor } from '../lib/messages';
+import { isMuted } from '../lib/moderation';
+import { eq, and } from 'drizzle-orm';
+
+export async function editMessage(input: EditMessageInput, userId: number): Promise<MessageWithAuthor> {
+  try {
+    const existing = await db.select()
+      .from(messagesTable)
+      .where(and(
+        eq(messagesTable.id, input.message_id),
+        eq(messagesTable.is_deleted, false)
+      ))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Message not found or deleted');
+    }
+
+    const original = existing[0];
+
+    // Only the author may change what a message says, and only while still in the room
+    if (original.user_id !== userId) {
+      throw new Error('Only the author can edit this message');
+    }
+
+    if (original.message_type === 'system') {
+      throw new Error('System messages cannot be edited');
+    }
+
+    await requireActiveRoom(original.room_id);
+    const participant = await requireRoomParticipant(original.room_id, userId);
+    if (isMuted(participant)) {
+      throw new Error('You are muted in this room');
+    }
+
+    // Keep the previous content before overwriting it
+    await db.transaction(async (tx) => {
+      await tx.insert(messageRevisionsTable)
+        .values({
+          message_id: original.id,
+          content: original.content,
+          edited_by: userId
+        })
+        .execute();
+
+      await tx.update(messagesTable)
+        .set({
+          content: input.content,
+          is_edited: true,
+          updated_at: new Date()
+        })
+        .where(eq(messagesTable.id, original.id))
+        .execute();
+    });
+
+    const message = await getMessageWithAuthor(original.id);
+
+    publishRoomEvent(message.room_id, { type: 'message.updated', message });
+
+    return message;
+  } catch (error) {
+    console.error('Message editing failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { roomsTable, roomParticipantsTable } from '../db/schema';
+import { type DirectConversation } from '../schema';
+import { describeDirectConversations } from '../lib/direct_conversations';
+import { and, desc, eq } from 'drizzle-orm';
+
+// The caller's direct conversations, most recently opened first
+export async function getDirectConversations(userId: number): Promise<DirectConversation[]> {
+  try {
+    const rooms = await db.select({ room: roomsTable })
+      .from(roomsTable)
+      .innerJoin(roomParticipantsTable, and(
+        eq(roomParticipantsTable.room_id, roomsTable.id),
+        eq(roomParticipantsTable.user_id, userId)
+      ))
+      .where(and(
+        eq(roomsTable.is_direct, true),
+        eq(roomsTable.is_active, true)
+      ))
+      .orderBy(desc(roomsTable.id))
+      .execute();
+
+    return describeDirectConversations(rooms.map(({ room }) => room), userId);
+  } catch (error) {
+    console.error('Failed to fetch direct conversations:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { messagesTable, messageRevisionsTable } from '../db/schema';
+import { type MessageRevision } from '../schema';
+import { getRoomParticipant, isRoomModerator } from '../lib/room_access';
+import { eq, asc } from 'drizzle-orm';
+
+export async function getMessageRevisions(messageId: number, userId: number): Promise<MessageRevision[]> {
+  try {
+    // Deleted messages are included so moderators can review what was removed
+    const messages = await db.select()
+      .from(messagesTable)
+      .where(eq(messagesTable.id, messageId))
+      .limit(1)
+      .execute();
+
+    if (messages.length === 0) {
+      throw new Error('Message not found');
+    }
+
+    const participant = await getRoomParticipant(messages[0].room_id, userId);
+    if (!isRoomModerator(participant)) {
+      throw new Error('Only room moderators can view edit history');
+    }
+
+    // Oldest revision first, i.e. the original content leads
+    return db.select()
+      .from(messageRevisionsTable)
+      .where(eq(messageRevisionsTable.message_id, messageId))
+      .orderBy(asc(messageRevisionsTable.created_at), asc(messageRevisionsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch message revisions:', error);
+    throw error;
+  }
+}
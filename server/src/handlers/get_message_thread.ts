@@ -0,0 +1,40 @@
+import { messagesTable } from '../db/schema';
+import { type MessageThread } from '../schema';
+import { findMessagesWithAuthors } from '../lib/messages';
+import { requireRoomReadAccess } from '../lib/room_access';
+import { eq, and, asc } from 'drizzle-orm';
+
+export async function getMessageThread(messageId: number, userId: number): Promise<MessageThread> {
+  try {
+    const [root] = await findMessagesWithAuthors({
+      where: and(
+        eq(messagesTable.id, messageId),
+        eq(messagesTable.is_deleted, false)
+      )
+    });
+
+    if (!root) {
+      throw new Error('Message not found or deleted');
+    }
+
+    // Threads follow the same access rules as the room history
+    await requireRoomReadAccess(root.room_id, userId);
+
+    const replies = await findMessagesWithAuthors({
+      where: and(
+        eq(messagesTable.reply_to_id, root.id),
+        eq(messagesTable.is_deleted, false)
+      ),
+      orderBy: [asc(messagesTable.id)]
+    });
+
+    return {
+      root,
+      replies,
+      reply_count: replies.length
+    };
+  } catch (error) {
+    console.error('Failed to fetch message thread:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { messageMentionsTable, messagesTable, roomsTable, roomParticipantsTable } from '../db/schema';
+import { type GetMyMentionsInput, type Mention } from '../schema';
+import { findMessagesWithAuthors } from '../lib/messages';
+import { isUnreadMessage } from '../lib/read_state';
+import { and, desc, eq, inArray, isNotNull, lt, ne, or, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+
+export async function getMyMentions(input: GetMyMentionsInput, userId: number): Promise<Mention[]> {
+  try {
+    const conditions: (SQL<unknown> | undefined)[] = [];
+    conditions.push(eq(messageMentionsTable.mentioned_user_id, userId));
+    conditions.push(eq(messagesTable.is_deleted, false));
+    // Mentions in private rooms the user has since left are no longer readable
+    conditions.push(or(
+      ne(roomsTable.room_type, 'private'),
+      isNotNull(roomParticipantsTable.id)
+    ));
+
+    if (input.before !== undefined) {
+      conditions.push(lt(messageMentionsTable.id, input.before));
+    }
+    if (input.unread_only) {
+      conditions.push(isUnreadMessage());
+    }
+
+    const mentions = await db.select({
+      id: messageMentionsTable.id,
+      message_id: messageMentionsTable.message_id,
+      room_name: roomsTable.name,
+      // Without a participation (the user left the room) nothing counts as unread
+      is_unread: sql<boolean>`coalesce(${isUnreadMessage()}, false)`,
+      created_at: messageMentionsTable.created_at
+    })
+      .from(messageMentionsTable)
+      .innerJoin(messagesTable, eq(messageMentionsTable.message_id, messagesTable.id))
+      .innerJoin(roomsTable, eq(messageMentionsTable.room_id, roomsTable.id))
+      .leftJoin(roomParticipantsTable, and(
+        eq(roomParticipantsTable.room_id, messageMentionsTable.room_id),
+        eq(roomParticipantsTable.user_id, userId)
+      ))
+      .where(and(...conditions))
+      .orderBy(desc(messageMentionsTable.id))
+      .limit(input.limit ?? 20)
+      .execute();
+
+    if (mentions.length === 0) {
+      return [];
+    }
+
+    const messages = await findMessagesWithAuthors({
+      where: inArray(messagesTable.id, mentions.map(mention => mention.message_id))
+    });
+    const messagesById = new Map(messages.map(message => [message.id, message]));
+
+    // Messages deleted between the two queries are left out
+    return mentions.flatMap(mention => {
+      const message = messagesById.get(mention.message_id);
+      if (!message) {
+        return [];
+      }
+      return [{
+        id: mention.id,
+        message,
+        room_name: mention.room_name,
+        is_read: !mention.is_unread,
+        created_at: mention.created_at
+      }];
+    });
+  } catch (error) {
+    console.error('Failed to fetch mentions:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { scheduledMessagesTable } from '../db/schema';
+import { type GetMyScheduledMessagesInput, type ScheduledMessage } from '../schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+// The user's messages still waiting to be sent and those whose delivery was refused,
+// soonest first; sent and cancelled ones are left out
+export async function getMyScheduledMessages(input: GetMyScheduledMessagesInput, userId: number): Promise<ScheduledMessage[]> {
+  try {
+    return await db.select()
+      .from(scheduledMessagesTable)
+      .where(and(
+        eq(scheduledMessagesTable.user_id, userId),
+        inArray(scheduledMessagesTable.status, ['pending', 'sending', 'failed']),
+        input.room_id !== undefined ? eq(scheduledMessagesTable.room_id, input.room_id) : undefined
+      ))
+      .orderBy(asc(scheduledMessagesTable.send_at), asc(scheduledMessagesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch scheduled messages:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,15 @@
+import { type GetPinnedMessagesInput, type PinnedMessage } from '../schema';
+import { findPinnedMessages } from '../lib/pins';
+import { requireRoomReadAccess } from '../lib/room_access';
+
+export async function getPinnedMessages(input: GetPinnedMessagesInput, userId: number): Promise<PinnedMessage[]> {
+  try {
+    // Pins follow the same access rules as the room history
+    await requireRoomReadAccess(input.room_id, userId);
+
+    return await findPinnedMessages(input.room_id);
+  } catch (error) {
+    console.error('Failed to fetch pinned messages:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { roomCategoriesTable } from '../db/schema';
+import { type RoomCategory } from '../schema';
+import { asc } from 'drizzle-orm';
+
+// Categories in the order the room list shows them
+export const getRoomCategories = async (): Promise<RoomCategory[]> => {
+  try {
+    return await db.select()
+      .from(roomCategoriesTable)
+      .orderBy(asc(roomCategoriesTable.position), asc(roomCategoriesTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch room categories:', error);
+    throw error;
+  }
+};
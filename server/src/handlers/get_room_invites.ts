@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { roomInvitesTable } from '../db/schema';
+import { type RoomInviteWithInvitee } from '../schema';
+import { getRoomParticipant, isRoomModerator } from '../lib/room_access';
+import { isUsableInvite } from '../lib/invites';
+import { getUserSummaries } from '../lib/users';
+import { and, desc, eq } from 'drizzle-orm';
+
+// A room's invites that can still be used, newest first, for its moderators
+export async function getRoomInvites(roomId: number, userId: number): Promise<RoomInviteWithInvitee[]> {
+  try {
+    if (!isRoomModerator(await getRoomParticipant(roomId, userId))) {
+      throw new Error('Only room moderators and admins can view invites');
+    }
+
+    const invites = await db.select()
+      .from(roomInvitesTable)
+      .where(and(
+        eq(roomInvitesTable.room_id, roomId),
+        isUsableInvite()
+      ))
+      .orderBy(desc(roomInvitesTable.id))
+      .execute();
+
+    const invitees = await getUserSummaries(
+      invites.flatMap(invite => invite.invitee_id === null ? [] : [invite.invitee_id])
+    );
+
+    return invites.map(invite => ({
+      ...invite,
+      invitee: invitees.find(invitee => invitee.id === invite.invitee_id) ?? null
+    }));
+  } catch (error) {
+    console.error('Failed to fetch room invites:', error);
+    throw error;
+  }
+}
@@ -1,48 +1,43 @@
-import { db } from '../db';
-import { messagesTable, roomParticipantsTable, roomsTable } from '../db/schema';
-import { type Message } from '../schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { messagesTable } from '../db/schema';
+import { type MessageWithAuthor, type MessagePageInput } from '../schema';
+import { findMessagesWithAuthors } from '../lib/messages';
+import { requireRoomReadAccess } from '../lib/room_access';
+import { eq, and, asc, desc, gt, lt } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
 
-export async function getRoomMessages(roomId: number, userId: number, limit: number = 50, offset: number = 0): Promise<Message[]> {
+export async function getRoomMessages(roomId: number, userId: number, page: MessagePageInput = {}): Promise<MessageWithAuthor[]> {
   try {
-    // First, verify that the user has access to this room
-    // Check if user is a participant in the room or if it's a public room
-    const roomAccess = await db.select({
-      room_type: roomsTable.room_type,
-      participant_id: roomParticipantsTable.id
-    })
-      .from(roomsTable)
-      .leftJoin(roomParticipantsTable, and(
-        eq(roomParticipantsTable.room_id, roomsTable.id),
-        eq(roomParticipantsTable.user_id, userId)
-      ))
-      .where(eq(roomsTable.id, roomId))
-      .execute();
-
-    if (roomAccess.length === 0) {
-      throw new Error('Room not found');
-    }
-
-    const roomData = roomAccess[0];
-    
-    // Check access permissions
-    if (roomData.room_type === 'private' && !roomData.participant_id) {
-      throw new Error('Access denied: User is not a member of this private room');
-    }
+    // Public rooms are readable by anyone, private rooms only by participants
+    await requireRoomReadAccess(roomId, userId);
 
     // Build the query to fetch messages
     const conditions: SQL<unknown>[] = [];
     conditions.push(eq(messagesTable.room_id, roomId));
     conditions.push(eq(messagesTable.is_deleted, false));
 
-    const results = await db.select()
-      .from(messagesTable)
-      .where(and(...conditions))
-      .orderBy(messagesTable.created_at) // Oldest first (chronological order)
-      .limit(limit)
-      .offset(offset)
-      .execute();
+    if (page.before !== undefined) {
+      conditions.push(lt(messagesTable.id, page.before));
+    }
+    if (page.after !== undefined) {
+      conditions.push(gt(messagesTable.id, page.after));
+    }
+
+    const limit = page.limit ?? 50;
+
+    // Ids grow with insertion order, so they double as a stable cursor. Paging forward
+    // from "after" reads upwards; otherwise read the newest matching messages downwards.
+    const pagingForward = page.after !== undefined && page.before === undefined;
+
+    const results = await findMessagesWithAuthors({
+      where: and(...conditions),
+      orderBy: [pagingForward ? asc(messagesTable.id) : desc(messagesTable.id)],
+      limit
+    });
+
+    // Pages are always returned oldest first (chronological order)
+    if (!pagingForward) {
+      results.reverse();
+    }
 
     return results;
   } catch (error) {
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { roomsTable, roomParticipantsTable, usersTable } from '../db/schema';
+import { type RoomMember } from '../schema';
+import { requireRoomReadAccess } from '../lib/room_access';
+import { isMuted } from '../lib/moderation';
+import { asc, eq } from 'drizzle-orm';
+
+const ROLE_ORDER = { admin: 0, moderator: 1, member: 2 } as const;
+
+// A room's participants, admins first, then moderators and members, each by username.
+// Anyone who can read the room can see who is in it.
+export async function getRoomParticipants(roomId: number, userId: number): Promise<RoomMember[]> {
+  try {
+    await requireRoomReadAccess(roomId, userId);
+
+    const rows = await db.select({
+      participant: roomParticipantsTable,
+      owner_id: roomsTable.owner_id,
+      user: {
+        id: usersTable.id,
+        username: usersTable.username,
+        display_name: usersTable.display_name,
+        avatar_url: usersTable.avatar_url
+      }
+    })
+      .from(roomParticipantsTable)
+      .innerJoin(roomsTable, eq(roomsTable.id, roomParticipantsTable.room_id))
+      .innerJoin(usersTable, eq(usersTable.id, roomParticipantsTable.user_id))
+      .where(eq(roomParticipantsTable.room_id, roomId))
+      .orderBy(asc(usersTable.username))
+      .execute();
+
+    return rows
+      .map(({ participant, owner_id, user }) => {
+        const muted = isMuted(participant);
+        return {
+          user,
+          participant_role: participant.participant_role,
+          is_owner: participant.user_id === owner_id,
+          is_muted: muted,
+          muted_until: muted ? participant.muted_until : null,
+          joined_at: participant.joined_at,
+          last_seen_at: participant.last_seen_at
+        };
+      })
+      // Array sort is stable, so each role keeps the username order
+      .sort((a, b) => ROLE_ORDER[a.participant_role] - ROLE_ORDER[b.participant_role]);
+  } catch (error) {
+    console.error('Failed to fetch room participants:', error);
+    throw error;
+  }
+}
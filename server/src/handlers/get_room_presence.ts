@@ -0,0 +1,22 @@
+import { type RoomPresence } from '../schema';
+import { getOnlineUserIds } from '../realtime/presence';
+import { requireRoomParticipant } from '../lib/room_access';
+import { getUserSummaries } from '../lib/users';
+
+export async function getRoomPresence(roomId: number, userId: number): Promise<RoomPresence> {
+  try {
+    // Presence is only visible to participants of the room
+    await requireRoomParticipant(roomId, userId);
+
+    const users = await getUserSummaries(getOnlineUserIds(roomId));
+
+    return {
+      room_id: roomId,
+      online_count: users.length,
+      users
+    };
+  } catch (error) {
+    console.error('Failed to fetch room presence:', error);
+    throw error;
+  }
+}
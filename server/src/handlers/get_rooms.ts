@@ -1,58 +1,50 @@
 import { db } from '../db';
-import { roomsTable, roomParticipantsTable } from '../db/schema';
-import { type Room } from '../schema';
+import { roomsTable } from '../db/schema';
+import { type RoomWithUnread } from '../schema';
+import { getRoomMemberships, withReadState, withoutReadState } from '../lib/room_listing';
 import { eq, and, or, inArray } from 'drizzle-orm';
 
-export const getRooms = async (userId?: number): Promise<Room[]> => {
+export const getRooms = async (userId?: number): Promise<RoomWithUnread[]> => {
   try {
     if (userId) {
       // For authenticated users: get rooms they can access
-      
-      // First, get room IDs where user is a participant
-      const participantRooms = await db.select({ room_id: roomParticipantsTable.room_id })
-        .from(roomParticipantsTable)
-        .where(eq(roomParticipantsTable.user_id, userId))
-        .execute();
-      
-      const participantRoomIds = participantRooms.map(p => p.room_id);
+      const { participations, invitedRoomIds } = await getRoomMemberships(userId);
+      const joinedRoomIds = [...participations.keys()];
+      const privateRoomIds = [...joinedRoomIds, ...invitedRoomIds];
 
-      if (participantRoomIds.length > 0) {
-        // Show public, premium rooms AND private rooms user participates in
-        const results = await db.select()
-          .from(roomsTable)
-          .where(
-            and(
-              eq(roomsTable.is_active, true),
-              or(
-                eq(roomsTable.room_type, 'public'),
-                eq(roomsTable.room_type, 'premium'),
-                and(
-                  eq(roomsTable.room_type, 'private'),
-                  inArray(roomsTable.id, participantRoomIds)
+      // Show active public and premium rooms, active private rooms the user participates in
+      // or is invited to, and archived rooms they participate in (read-only)
+      const results = await db.select()
+        .from(roomsTable)
+        .where(
+          and(
+            eq(roomsTable.is_direct, false),
+            or(
+              and(
+                eq(roomsTable.is_active, true),
+                or(
+                  eq(roomsTable.room_type, 'public'),
+                  eq(roomsTable.room_type, 'premium'),
+                  privateRoomIds.length > 0
+                    ? and(
+                      eq(roomsTable.room_type, 'private'),
+                      inArray(roomsTable.id, privateRoomIds)
+                    )
+                    : undefined
                 )
-              )
-            )
-          )
-          .execute();
-
-        return results;
-      } else {
-        // User doesn't participate in any private rooms, show only public and premium
-        const results = await db.select()
-          .from(roomsTable)
-          .where(
-            and(
-              eq(roomsTable.is_active, true),
-              or(
-                eq(roomsTable.room_type, 'public'),
-                eq(roomsTable.room_type, 'premium')
-              )
+              ),
+              joinedRoomIds.length > 0
+                ? and(
+                  eq(roomsTable.is_active, false),
+                  inArray(roomsTable.id, joinedRoomIds)
+                )
+                : undefined
             )
           )
-          .execute();
+        )
+        .execute();
 
-        return results;
-      }
+      return withReadState(results, userId, participations);
     } else {
       // For unauthenticated users: show only public rooms
       const results = await db.select()
@@ -60,12 +52,13 @@ export const getRooms = async (userId?: number): Promise<Room[]> => {
         .where(
           and(
             eq(roomsTable.is_active, true),
+            eq(roomsTable.is_direct, false),
             eq(roomsTable.room_type, 'public')
           )
         )
         .execute();
 
-      return results;
+      return results.map(withoutReadState);
     }
 
   } catch (error) {
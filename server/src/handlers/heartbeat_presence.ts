@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { roomParticipantsTable } from '../db/schema';
+import { type RoomPresenceInput, type RoomParticipant } from '../schema';
+import { touchPresence, publishPresenceChange } from '../realtime/presence';
+import { requireRoomParticipant } from '../lib/room_access';
+import { eq } from 'drizzle-orm';
+
+export async function heartbeatPresence(input: RoomPresenceInput, userId: number): Promise<RoomParticipant> {
+  try {
+    const participant = await requireRoomParticipant(input.room_id, userId);
+
+    // Keep the session online and persist when the user was last seen
+    const cameOnline = touchPresence(input.room_id, userId, input.session_id);
+
+    const result = await db.update(roomParticipantsTable)
+      .set({ last_seen_at: new Date() })
+      .where(eq(roomParticipantsTable.id, participant.id))
+      .returning()
+      .execute();
+
+    if (cameOnline) {
+      publishPresenceChange(input.room_id);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Presence heartbeat failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,9 @@
 import { db } from '../db';
 import { roomsTable, roomParticipantsTable, usersTable, goldTransactionsTable } from '../db/schema';
 import { type JoinRoomInput, type RoomParticipant } from '../schema';
-import { eq, and, count } from 'drizzle-orm';
+import { findUsableInvite, claimInvite } from '../lib/invites';
+import { getActiveBan } from '../lib/moderation';
+import { eq, and, count, gte, sql } from 'drizzle-orm';
 
 export async function joinRoom(input: JoinRoomInput, userId: number): Promise<RoomParticipant> {
   try {
@@ -22,6 +24,11 @@ export async function joinRoom(input: JoinRoomInput, userId: number): Promise<Ro
       throw new Error('Room is not active');
     }
 
+    // Direct conversations only ever have their two participants
+    if (room.is_direct) {
+      throw new Error('Direct conversations cannot be joined');
+    }
+
     // Check if user is already a participant
     const existingParticipants = await db.select()
       .from(roomParticipantsTable)
@@ -35,6 +42,13 @@ export async function joinRoom(input: JoinRoomInput, userId: number): Promise<Ro
       throw new Error('User is already a participant in this room');
     }
 
+    const ban = await getActiveBan(room.id, userId);
+    if (ban) {
+      throw new Error(ban.expires_at
+        ? `You are banned from this room until ${ban.expires_at.toISOString()}`
+        : 'You are banned from this room');
+    }
+
     // Check max participants limit if set
     if (room.max_participants !== null) {
       const participantCount = await db.select({ count: count() })
@@ -47,54 +61,63 @@ export async function joinRoom(input: JoinRoomInput, userId: number): Promise<Ro
       }
     }
 
-    // Handle gold cost for premium rooms
-    if (room.room_type === 'premium' && room.gold_cost !== null && room.gold_cost > 0) {
-      // Get user's current gold credits
-      const users = await db.select()
-        .from(usersTable)
-        .where(eq(usersTable.id, userId))
-        .execute();
+    // Private rooms need an invite addressed to the user or a valid invite code
+    const invite = room.room_type === 'private'
+      ? await findUsableInvite(room.id, userId, input.invite_code)
+      : null;
+    if (room.room_type === 'private' && !invite) {
+      throw new Error('An invite is required to join this private room');
+    }
 
-      if (users.length === 0) {
-        throw new Error('User not found');
+    // The invite use, the gold and the membership go together: a failed join (e.g. a
+    // concurrent one hitting the unique participant index) spends neither
+    const result = await db.transaction(async (tx) => {
+      if (invite) {
+        await claimInvite(invite.id, tx);
       }
 
-      const user = users[0];
-
-      if (user.gold_credits < room.gold_cost) {
-        throw new Error('Insufficient gold credits');
+      // Handle gold cost for premium rooms
+      if (room.room_type === 'premium' && room.gold_cost !== null && room.gold_cost > 0) {
+        // Deduct gold credits from user; the balance check is part of the update so
+        // concurrent joins cannot overdraw it
+        const charged = await tx.update(usersTable)
+          .set({
+            gold_credits: sql`${usersTable.gold_credits} - ${room.gold_cost}`,
+            updated_at: new Date()
+          })
+          .where(and(
+            eq(usersTable.id, userId),
+            gte(usersTable.gold_credits, room.gold_cost)
+          ))
+          .returning({ id: usersTable.id })
+          .execute();
+
+        if (charged.length === 0) {
+          throw new Error('Insufficient gold credits');
+        }
+
+        // Record gold transaction
+        await tx.insert(goldTransactionsTable)
+          .values({
+            user_id: userId,
+            amount: -room.gold_cost,
+            transaction_type: 'spend',
+            description: `Joined premium room: ${room.name}`,
+            reference_id: `room_join_${room.id}`
+          })
+          .execute();
       }
 
-      // Deduct gold credits from user
-      await db.update(usersTable)
-        .set({ 
-          gold_credits: user.gold_credits - room.gold_cost,
-          updated_at: new Date()
-        })
-        .where(eq(usersTable.id, userId))
-        .execute();
-
-      // Record gold transaction
-      await db.insert(goldTransactionsTable)
+      // Add user as participant
+      return tx.insert(roomParticipantsTable)
         .values({
+          room_id: input.room_id,
           user_id: userId,
-          amount: -room.gold_cost,
-          transaction_type: 'spend',
-          description: `Joined premium room: ${room.name}`,
-          reference_id: `room_join_${room.id}`
+          participant_role: 'member'
         })
+        .returning()
         .execute();
-    }
-
-    // Add user as participant
-    const result = await db.insert(roomParticipantsTable)
-      .values({
-        room_id: input.room_id,
-        user_id: userId,
-        participant_role: 'member'
-      })
-      .returning()
-      .execute();
+    });
 
     return result[0];
   } catch (error) {
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { roomParticipantsTable } from '../db/schema';
+import { type KickParticipantInput } from '../schema';
+import { requireModerationRights, getModerationNames } from '../lib/moderation';
+import { postSystemMessage } from '../lib/messages';
+import { disconnectParticipant } from '../realtime/participants';
+import { eq } from 'drizzle-orm';
+
+// Remove a participant from the room; unlike a ban, they may join again
+export async function kickParticipant(input: KickParticipantInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    const { target } = await requireModerationRights(input.room_id, userId, input.user_id);
+    if (!target) {
+      throw new Error('User is not a participant in this room');
+    }
+
+    const names = await getModerationNames(userId, input.user_id);
+
+    await db.delete(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.id, target.id))
+      .execute();
+
+    await disconnectParticipant(input.room_id, input.user_id);
+    await postSystemMessage(input.room_id, userId, `${names.target} was removed from the room by ${names.moderator}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Kick participant failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { roomParticipantsTable } from '../db/schema';
+import { type LeaveRoomInput } from '../schema';
+import { requireActiveRoom, requireRoomParticipant } from '../lib/room_access';
+import { postSystemMessage } from '../lib/messages';
+import { getDisplayName, getUserSummaries } from '../lib/users';
+import { disconnectParticipant } from '../realtime/participants';
+import { eq } from 'drizzle-orm';
+
+export async function leaveRoom(input: LeaveRoomInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    // Archived rooms keep their participants as they were
+    const room = await requireActiveRoom(input.room_id);
+
+    // Direct conversations only ever have their two participants
+    if (room.is_direct) {
+      throw new Error('Direct conversations cannot be left');
+    }
+
+    const participant = await requireRoomParticipant(input.room_id, userId);
+
+    // A room always has an owner among its participants
+    if (room.owner_id === userId) {
+      throw new Error('The room owner must transfer ownership before leaving');
+    }
+
+    await db.delete(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.id, participant.id))
+      .execute();
+
+    await disconnectParticipant(input.room_id, userId);
+
+    const [user] = await getUserSummaries([userId]);
+    await postSystemMessage(input.room_id, userId, `${getDisplayName(user)} left the room`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Leave room failed:', error);
+    throw error;
+  }
+}
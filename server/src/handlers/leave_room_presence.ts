@@ -0,0 +1,18 @@
+import { type RoomPresenceInput } from '../schema';
+import { removePresence, publishPresenceChange } from '../realtime/presence';
+
+export async function leaveRoomPresence(input: RoomPresenceInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    // Only the session's own user can end it; unknown sessions are ignored
+    const wentOffline = removePresence(input.room_id, userId, input.session_id);
+
+    if (wentOffline) {
+      publishPresenceChange(input.room_id);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Leaving room presence failed:', error);
+    throw error;
+  }
+}
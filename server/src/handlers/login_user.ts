@@ -1,10 +1,12 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
-import { type LoginUserInput, type User } from '../schema';
+import { type LoginUserInput, type LoginResult } from '../schema';
+import { createSessionToken } from '../auth/session';
+import { toCurrentUser } from '../lib/users';
+import { verifyPassword, needsRehash, hashPassword } from '../auth/password';
 import { eq } from 'drizzle-orm';
-import crypto from 'crypto';
 
-export const loginUser = async (input: LoginUserInput): Promise<User> => {
+export const loginUser = async (input: LoginUserInput): Promise<LoginResult> => {
   try {
     // Find user by email
     const users = await db.select()
@@ -23,30 +25,38 @@ export const loginUser = async (input: LoginUserInput): Promise<User> => {
       throw new Error('Account is deactivated');
     }
 
-    // Verify password using crypto.scrypt for password hashing
-    const [salt, storedHash] = user.password_hash.split(':');
-    const hash = crypto.scryptSync(input.password, salt, 64).toString('hex');
-    if (hash !== storedHash) {
+    // Verify password against either the current or the legacy hash format
+    const isValidPassword = await verifyPassword(input.password, user.password_hash);
+    if (!isValidPassword) {
       throw new Error('Invalid email or password');
     }
 
+    const updateData: Partial<typeof usersTable.$inferInsert> = {
+      last_login_at: new Date(),
+      updated_at: new Date()
+    };
+
+    // Transparently upgrade legacy hashes now that we know the plain password
+    if (needsRehash(user.password_hash)) {
+      updateData.password_hash = await hashPassword(input.password);
+    }
+
     // Update last login timestamp
     const updatedUsers = await db.update(usersTable)
-      .set({ 
-        last_login_at: new Date(),
-        updated_at: new Date()
-      })
+      .set(updateData)
       .where(eq(usersTable.id, user.id))
       .returning()
       .execute();
 
     const updatedUser = updatedUsers[0];
 
+    // Issue a signed session token for the authenticated user
+    const session = createSessionToken(updatedUser.id);
+
     return {
-      ...updatedUser,
-      last_login_at: updatedUser.last_login_at || null,
-      created_at: updatedUser.created_at,
-      updated_at: updatedUser.updated_at
+      user: toCurrentUser(updatedUser),
+      token: session.token,
+      expires_at: session.expires_at
     };
   } catch (error) {
     console.error('Login failed:', error);
@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { messagesTable, roomParticipantsTable } from '../db/schema';
+import { type MarkRoomReadInput, type RoomReadState } from '../schema';
+import { requireRoomParticipant } from '../lib/room_access';
+import { getUnreadCounts, getUnreadMentionCounts } from '../lib/read_state';
+import { and, desc, eq, sql } from 'drizzle-orm';
+
+export async function markRoomRead(input: MarkRoomReadInput, userId: number): Promise<RoomReadState> {
+  try {
+    const participant = await requireRoomParticipant(input.room_id, userId);
+
+    let messageId: number | null;
+    if (input.message_id !== undefined) {
+      const message = await db.select({ id: messagesTable.id })
+        .from(messagesTable)
+        .where(and(
+          eq(messagesTable.id, input.message_id),
+          eq(messagesTable.room_id, input.room_id)
+        ))
+        .limit(1)
+        .execute();
+
+      if (message.length === 0) {
+        throw new Error('Message not found in this room');
+      }
+      messageId = message[0].id;
+    } else {
+      const newest = await db.select({ id: messagesTable.id })
+        .from(messagesTable)
+        .where(eq(messagesTable.room_id, input.room_id))
+        .orderBy(desc(messagesTable.id))
+        .limit(1)
+        .execute();
+      messageId = newest[0]?.id ?? null;
+    }
+
+    // Reading an older message (e.g. in another tab) never moves the marker backwards;
+    // GREATEST skips nulls, so a first read or an empty room is handled too
+    const result = await db.update(roomParticipantsTable)
+      .set({
+        last_read_message_id: sql`GREATEST(${roomParticipantsTable.last_read_message_id}, ${messageId})`,
+        last_seen_at: new Date()
+      })
+      .where(eq(roomParticipantsTable.id, participant.id))
+      .returning()
+      .execute();
+
+    const unreadCounts = await getUnreadCounts(userId, [input.room_id]);
+    const unreadMentionCounts = await getUnreadMentionCounts(userId, [input.room_id]);
+
+    return {
+      room_id: input.room_id,
+      last_read_message_id: result[0].last_read_message_id,
+      unread_count: unreadCounts.get(input.room_id) ?? 0,
+      unread_mention_count: unreadMentionCounts.get(input.room_id) ?? 0
+    };
+  } catch (error) {
+    console.error('Mark room read failed:', error);
+    throw error;
+  }
+}
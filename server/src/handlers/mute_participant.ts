@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { roomParticipantsTable } from '../db/schema';
+import { type MuteParticipantInput, type RoomParticipant } from '../schema';
+import { requireModerationRights, getModerationNames, describeDuration } from '../lib/moderation';
+import { postSystemMessage } from '../lib/messages';
+import { stopTyping, publishTypingChange } from '../realtime/typing';
+import { eq } from 'drizzle-orm';
+
+// Stop a participant from sending, editing or reacting to messages, for a while or until unmuted
+export async function muteParticipant(input: MuteParticipantInput, userId: number): Promise<RoomParticipant> {
+  try {
+    const { target } = await requireModerationRights(input.room_id, userId, input.user_id);
+    if (!target) {
+      throw new Error('User is not a participant in this room');
+    }
+
+    const names = await getModerationNames(userId, input.user_id);
+
+    const result = await db.update(roomParticipantsTable)
+      .set({
+        is_muted: true,
+        muted_until: input.duration_minutes !== undefined
+          ? new Date(Date.now() + input.duration_minutes * 60 * 1000)
+          : null
+      })
+      .where(eq(roomParticipantsTable.id, target.id))
+      .returning()
+      .execute();
+
+    // Muted users cannot type, so clear any indicator they were showing
+    if (stopTyping(input.room_id, input.user_id)) {
+      await publishTypingChange(input.room_id);
+    }
+
+    const duration = input.duration_minutes !== undefined ? ` ${describeDuration(input.duration_minutes)}` : '';
+    await postSystemMessage(input.room_id, userId, `${names.target} was muted by ${names.moderator}${duration}`);
+
+    return result[0];
+  } catch (error) {
+    console.error('Mute participant failed:', error);
+    throw error;
+  }
+}
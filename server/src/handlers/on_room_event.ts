@@ -0,0 +1,26 @@
+import { type RoomEvent } from '../schema';
+import { listenToRoom } from '../realtime/room_events';
+import { requireRoomParticipant } from '../lib/room_access';
+
+export async function* onRoomEvent(roomId: number, userId: number, signal?: AbortSignal): AsyncGenerator<RoomEvent> {
+  try {
+    // Only participants of the room receive its events
+    await requireRoomParticipant(roomId, userId);
+
+    for await (const event of listenToRoom(roomId, signal)) {
+      yield event;
+
+      // Removed users are told so, then hear nothing more from the room
+      if (event.type === 'participant.removed' && event.user_id === userId) {
+        return;
+      }
+
+      if (event.type === 'room.deleted') {
+        return;
+      }
+    }
+  } catch (error) {
+    console.error('Room event subscription failed:', error);
+    throw error;
+  }
+}
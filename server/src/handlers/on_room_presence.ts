@@ -0,0 +1,36 @@
+import { type RoomPresence } from '../schema';
+import { listenToRoom } from '../realtime/room_events';
+import { getOnlineUserIds } from '../realtime/presence';
+import { requireRoomParticipant } from '../lib/room_access';
+import { getUserSummaries } from '../lib/users';
+
+const buildPresence = async (roomId: number): Promise<RoomPresence> => {
+  const users = await getUserSummaries(getOnlineUserIds(roomId));
+  return { room_id: roomId, online_count: users.length, users };
+};
+
+export async function* onRoomPresence(roomId: number, userId: number, signal?: AbortSignal): AsyncGenerator<RoomPresence> {
+  try {
+    await requireRoomParticipant(roomId, userId);
+
+    // Listen before taking the snapshot so a change in between is not lost
+    const events = listenToRoom(roomId, signal);
+
+    // Start with the current snapshot, then a fresh one after every change
+    yield await buildPresence(roomId);
+
+    for await (const event of events) {
+      if (event.type === 'presence.changed') {
+        yield await buildPresence(roomId);
+      }
+
+      // Users removed from the room stop following who is online, as does everyone once it is deleted
+      if ((event.type === 'participant.removed' && event.user_id === userId) || event.type === 'room.deleted') {
+        return;
+      }
+    }
+  } catch (error) {
+    console.error('Room presence subscription failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { roomsTable, roomParticipantsTable, usersTable } from '../db/schema';
+import { type OpenDirectConversationInput, type DirectConversation } from '../schema';
+import { describeDirectConversations, getDirectKey } from '../lib/direct_conversations';
+import { eq, inArray } from 'drizzle-orm';
+
+export async function openDirectConversation(input: OpenDirectConversationInput, userId: number): Promise<DirectConversation> {
+  try {
+    if (input.user_id === userId) {
+      throw new Error('Cannot open a direct conversation with yourself');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(inArray(usersTable.id, [userId, input.user_id]))
+      .execute();
+
+    const user = users.find(candidate => candidate.id === userId);
+    const otherUser = users.find(candidate => candidate.id === input.user_id);
+    if (!user || !otherUser || !otherUser.is_active) {
+      throw new Error('User not found');
+    }
+
+    const directKey = getDirectKey(userId, otherUser.id);
+
+    const room = await db.transaction(async (tx) => {
+      // The unique direct_key makes concurrent opens of the same pair agree on one room
+      const created = await tx.insert(roomsTable)
+        .values({
+          name: `${user.username} & ${otherUser.username}`,
+          room_type: 'private',
+          max_participants: 2,
+          owner_id: userId,
+          is_direct: true,
+          direct_key: directKey
+        })
+        .onConflictDoNothing({ target: roomsTable.direct_key })
+        .returning()
+        .execute();
+
+      const directRoom = created[0] ?? (await tx.select()
+        .from(roomsTable)
+        .where(eq(roomsTable.direct_key, directKey))
+        .execute())[0];
+
+      // Both users always belong to their conversation; the unique (room_id, user_id)
+      // index keeps concurrent opens from adding either of them twice
+      await tx.insert(roomParticipantsTable)
+        .values([userId, otherUser.id].map(id => ({ room_id: directRoom.id, user_id: id, participant_role: 'member' as const })))
+        .onConflictDoNothing({ target: [roomParticipantsTable.room_id, roomParticipantsTable.user_id] })
+        .execute();
+
+      return directRoom;
+    });
+
+    const [conversation] = await describeDirectConversations([room], userId);
+    return conversation;
+  } catch (error) {
+    console.error('Opening direct conversation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { messagesTable, roomPinsTable } from '../db/schema';
+import { type PinMessageInput, type PinnedMessage } from '../schema';
+import { getRoomParticipant, isRoomModerator, requireActiveRoom } from '../lib/room_access';
+import { findPinnedMessages, publishPinsChanged } from '../lib/pins';
+import { eq, and } from 'drizzle-orm';
+
+export async function pinMessage(input: PinMessageInput, userId: number): Promise<PinnedMessage[]> {
+  try {
+    const messages = await db.select()
+      .from(messagesTable)
+      .where(and(
+        eq(messagesTable.id, input.message_id),
+        eq(messagesTable.is_deleted, false)
+      ))
+      .limit(1)
+      .execute();
+
+    if (messages.length === 0) {
+      throw new Error('Message not found or deleted');
+    }
+
+    const message = messages[0];
+    await requireActiveRoom(message.room_id);
+
+    const participant = await getRoomParticipant(message.room_id, userId);
+    if (!isRoomModerator(participant)) {
+      throw new Error('Only room moderators can pin messages');
+    }
+
+    // Pinning a pinned message is a no-op
+    const inserted = await db.insert(roomPinsTable)
+      .values({
+        room_id: message.room_id,
+        message_id: message.id,
+        pinned_by: userId
+      })
+      .onConflictDoNothing()
+      .returning()
+      .execute();
+
+    const pinned = await findPinnedMessages(message.room_id);
+
+    if (inserted.length > 0) {
+      publishPinsChanged(message.room_id, pinned);
+    }
+
+    return pinned;
+  } catch (error) {
+    console.error('Pinning message failed:', error);
+    throw error;
+  }
+}
@@ -1,12 +1,15 @@
 import { db } from '../db';
 import { usersTable, rolesTable } from '../db/schema';
-import { type RegisterUserInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { type RegisterUserInput, type CurrentUser } from '../schema';
+import { eq, count } from 'drizzle-orm';
+import { hashPassword } from '../auth/password';
+import { ADMIN_ROLE_NAME } from '../auth/permissions';
+import { toCurrentUser } from '../lib/users';
 
-export const registerUser = async (input: RegisterUserInput): Promise<User> => {
+export const registerUser = async (input: RegisterUserInput): Promise<CurrentUser> => {
   try {
-    // Hash the password using Bun's built-in password hashing
-    const password_hash = await Bun.password.hash(input.password);
+    // Hash the password with the shared password module
+    const password_hash = await hashPassword(input.password);
 
     // Find the default role
     const defaultRoles = await db.select()
@@ -18,7 +21,23 @@ export const registerUser = async (input: RegisterUserInput): Promise<User> => {
       throw new Error('No default role configured');
     }
 
-    const defaultRole = defaultRoles[0];
+    let roleId = defaultRoles[0].id;
+
+    // Bootstrap: the very first account gets the admin role so the site can be administered
+    const userCount = await db.select({ count: count() })
+      .from(usersTable)
+      .execute();
+
+    if (userCount[0].count === 0) {
+      const adminRoles = await db.select()
+        .from(rolesTable)
+        .where(eq(rolesTable.name, ADMIN_ROLE_NAME))
+        .execute();
+
+      if (adminRoles.length > 0) {
+        roleId = adminRoles[0].id;
+      }
+    }
 
     // Insert the new user
     const result = await db.insert(usersTable)
@@ -27,7 +46,7 @@ export const registerUser = async (input: RegisterUserInput): Promise<User> => {
         email: input.email,
         password_hash,
         display_name: input.display_name || null,
-        role_id: defaultRole.id,
+        role_id: roleId,
         language: input.language || 'en',
         theme: input.theme || 'light',
         gold_credits: 100, // Welcome bonus
@@ -39,7 +58,7 @@ export const registerUser = async (input: RegisterUserInput): Promise<User> => {
       .returning()
       .execute();
 
-    return result[0];
+    return toCurrentUser(result[0]);
   } catch (error) {
     console.error('User registration failed:', error);
     throw error;
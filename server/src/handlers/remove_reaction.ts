@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { messagesTable, messageReactionsTable } from '../db/schema';
+import { type ReactionInput, type ReactionSummary } from '../schema';
+import { publishRoomEvent } from '../realtime/room_events';
+import { requireActiveRoom, requireRoomParticipant } from '../lib/room_access';
+import { getReactionSummaries } from '../lib/messages';
+import { eq, and } from 'drizzle-orm';
+
+export async function removeReaction(input: ReactionInput, userId: number): Promise<ReactionSummary[]> {
+  try {
+    const messages = await db.select()
+      .from(messagesTable)
+      .where(and(
+        eq(messagesTable.id, input.message_id),
+        eq(messagesTable.is_deleted, false)
+      ))
+      .limit(1)
+      .execute();
+
+    if (messages.length === 0) {
+      throw new Error('Message not found or deleted');
+    }
+
+    const message = messages[0];
+    await requireActiveRoom(message.room_id);
+    await requireRoomParticipant(message.room_id, userId);
+
+    // Users can only take back their own reactions
+    const removed = await db.delete(messageReactionsTable)
+      .where(and(
+        eq(messageReactionsTable.message_id, message.id),
+        eq(messageReactionsTable.user_id, userId),
+        eq(messageReactionsTable.emoji, input.emoji)
+      ))
+      .returning()
+      .execute();
+
+    const reactions = (await getReactionSummaries([message.id])).get(message.id) ?? [];
+
+    if (removed.length > 0) {
+      publishRoomEvent(message.room_id, {
+        type: 'reactions.changed',
+        room_id: message.room_id,
+        message_id: message.id,
+        reactions
+      });
+    }
+
+    return reactions;
+  } catch (error) {
+    console.error('Removing reaction failed:', error);
+    throw error;
+  }
+}
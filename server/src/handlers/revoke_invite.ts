@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { roomInvitesTable } from '../db/schema';
+import { type RevokeInviteInput, type RoomInvite } from '../schema';
+import { getRoomParticipant, isRoomModerator } from '../lib/room_access';
+import { eq } from 'drizzle-orm';
+
+// The invite's creator or any room moderator may revoke it; revoking twice keeps the first time
+export async function revokeInvite(input: RevokeInviteInput, userId: number): Promise<RoomInvite> {
+  try {
+    const invites = await db.select()
+      .from(roomInvitesTable)
+      .where(eq(roomInvitesTable.id, input.invite_id))
+      .limit(1)
+      .execute();
+
+    if (invites.length === 0) {
+      throw new Error('Invite not found');
+    }
+
+    const invite = invites[0];
+    if (invite.created_by !== userId && !isRoomModerator(await getRoomParticipant(invite.room_id, userId))) {
+      throw new Error('Only the invite creator or room moderators can revoke invites');
+    }
+
+    if (invite.revoked_at !== null) {
+      return invite;
+    }
+
+    const result = await db.update(roomInvitesTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(roomInvitesTable.id, input.invite_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Invite revocation failed:', error);
+    throw error;
+  }
+}
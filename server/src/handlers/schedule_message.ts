@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { scheduledMessagesTable } from '../db/schema';
+import { type ScheduleMessageInput, type ScheduledMessage } from '../schema';
+import { requireActiveRoom, requireRoomParticipant } from '../lib/room_access';
+
+// How far ahead messages may be scheduled
+const MAX_SCHEDULE_AHEAD_DAYS = 30;
+
+// The room and membership are checked now to catch mistakes early; delivery checks them
+// again, along with mutes, when the message is sent
+export async function scheduleMessage(input: ScheduleMessageInput, userId: number): Promise<ScheduledMessage> {
+  try {
+    const now = Date.now();
+    if (input.send_at.getTime() <= now) {
+      throw new Error('Scheduled time must be in the future');
+    }
+
+    if (input.send_at.getTime() > now + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new Error(`Messages can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`);
+    }
+
+    await requireActiveRoom(input.room_id);
+    await requireRoomParticipant(input.room_id, userId);
+
+    const result = await db.insert(scheduledMessagesTable)
+      .values({
+        room_id: input.room_id,
+        user_id: userId,
+        content: input.content,
+        send_at: input.send_at
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Message scheduling failed:', error);
+    throw error;
+  }
+}
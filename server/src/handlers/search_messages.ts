@@ -0,0 +1,106 @@
+import { db } from '../db';
+import { messagesTable, roomsTable, roomParticipantsTable } from '../db/schema';
+import { type SearchMessagesInput, type MessageSearchResult, type HighlightSegment } from '../schema';
+import { findMessagesWithAuthors } from '../lib/messages';
+import { requireRoomReadAccess } from '../lib/room_access';
+import { and, desc, eq, gte, inArray, isNotNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+
+// ts_headline marks matches with these control characters, which never appear in
+// chat text, so snippets can be split into segments without escaping
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=35, MinWords=15`;
+
+const toHighlightSegments = (headline: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  for (const part of headline.split(HIGHLIGHT_START)) {
+    const [highlighted, rest] = part.includes(HIGHLIGHT_STOP)
+      ? part.split(HIGHLIGHT_STOP, 2)
+      : [null, part];
+    if (highlighted) {
+      segments.push({ text: highlighted, highlighted: true });
+    }
+    if (rest) {
+      segments.push({ text: rest, highlighted: false });
+    }
+  }
+  return segments;
+};
+
+export async function searchMessages(input: SearchMessagesInput, userId: number): Promise<MessageSearchResult[]> {
+  try {
+    // Same access rules as getRoomMessages: an explicitly requested room must be readable
+    if (input.room_id !== undefined) {
+      await requireRoomReadAccess(input.room_id, userId);
+    }
+
+    const tsQuery = sql`websearch_to_tsquery('english', ${input.query})`;
+
+    const conditions: (SQL<unknown> | undefined)[] = [];
+    conditions.push(sql`${messagesTable.search_vector} @@ ${tsQuery}`);
+    conditions.push(eq(messagesTable.is_deleted, false));
+    // Public and premium rooms are readable by anyone, private rooms only by participants
+    conditions.push(or(
+      ne(roomsTable.room_type, 'private'),
+      isNotNull(roomParticipantsTable.id)
+    ));
+
+    if (input.room_id !== undefined) {
+      conditions.push(eq(messagesTable.room_id, input.room_id));
+    }
+    if (input.author_id !== undefined) {
+      conditions.push(eq(messagesTable.user_id, input.author_id));
+    }
+    if (input.from !== undefined) {
+      conditions.push(gte(messagesTable.created_at, input.from));
+    }
+    if (input.to !== undefined) {
+      conditions.push(lte(messagesTable.created_at, input.to));
+    }
+    if (input.before !== undefined) {
+      conditions.push(lt(messagesTable.id, input.before));
+    }
+
+    const matches = await db.select({
+      id: messagesTable.id,
+      room_name: roomsTable.name,
+      headline: sql<string>`ts_headline('english', ${messagesTable.content}, ${tsQuery}, ${HEADLINE_OPTIONS})`
+    })
+      .from(messagesTable)
+      .innerJoin(roomsTable, eq(messagesTable.room_id, roomsTable.id))
+      .leftJoin(roomParticipantsTable, and(
+        eq(roomParticipantsTable.room_id, messagesTable.room_id),
+        eq(roomParticipantsTable.user_id, userId)
+      ))
+      .where(and(...conditions))
+      .orderBy(desc(messagesTable.id))
+      .limit(input.limit ?? 20)
+      .execute();
+
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const messages = await findMessagesWithAuthors({
+      where: inArray(messagesTable.id, matches.map(match => match.id))
+    });
+    const messagesById = new Map(messages.map(message => [message.id, message]));
+
+    // Messages deleted between the two queries are left out
+    return matches.flatMap(match => {
+      const message = messagesById.get(match.id);
+      if (!message) {
+        return [];
+      }
+      return [{
+        message,
+        room_name: match.room_name,
+        snippet: toHighlightSegments(match.headline)
+      }];
+    });
+  } catch (error) {
+    console.error('Message search failed:', error);
+    throw error;
+  }
+}
@@ -1,9 +1,14 @@
 import { db } from '../db';
-import { messagesTable, roomsTable, roomParticipantsTable, usersTable } from '../db/schema';
-import { type SendMessageInput, type Message } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { messagesTable, roomsTable, roomParticipantsTable, usersTable, attachmentsTable, messageMentionsTable } from '../db/schema';
+import { type SendMessageInput, type MessageWithAuthor } from '../schema';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+import { publishRoomEvent } from '../realtime/room_events';
+import { getMessageWithAuthor } from '../lib/messages';
+import { findMentionedParticipantIds } from '../lib/mentions';
+import { isMuted } from '../lib/moderation';
+import { stopTyping, publishTypingChange } from '../realtime/typing';
 
-export async function sendMessage(input: SendMessageInput, userId: number): Promise<Message> {
+export async function sendMessage(input: SendMessageInput, userId: number): Promise<MessageWithAuthor> {
   try {
     // Validate that the room exists and is active
     const room = await db.select()
@@ -33,6 +38,10 @@ export async function sendMessage(input: SendMessageInput, userId: number): Prom
       throw new Error('User is not a participant in this room');
     }
 
+    if (isMuted(participation[0])) {
+      throw new Error('You are muted in this room');
+    }
+
     // If replying to a message, validate that the replied message exists and is in the same room
     if (input.reply_to_id) {
       const replyToMessage = await db.select()
@@ -50,24 +59,63 @@ export async function sendMessage(input: SendMessageInput, userId: number): Prom
       }
     }
 
-    // Insert the new message
-    const result = await db.insert(messagesTable)
-      .values({
-        room_id: input.room_id,
-        user_id: userId,
-        content: input.content,
-        message_type: input.message_type || 'text',
-        reply_to_id: input.reply_to_id || null
-      })
-      .returning()
-      .execute();
+    const attachmentIds = [...new Set(input.attachment_ids ?? [])];
+
+    // Only participants of the room can be mentioned
+    const mentionedUserIds = await findMentionedParticipantIds(input.room_id, input.content, userId);
+
+    const messageId = await db.transaction(async (tx) => {
+      // Insert the new message
+      const result = await tx.insert(messagesTable)
+        .values({
+          room_id: input.room_id,
+          user_id: userId,
+          content: input.content,
+          message_type: input.message_type || 'text',
+          reply_to_id: input.reply_to_id || null
+        })
+        .returning()
+        .execute();
+
+      // Attachments must be the sender's own, unsent uploads to this room. Claiming only
+      // unsent rows means two messages racing for the same upload can't both get it.
+      if (attachmentIds.length > 0) {
+        const claimed = await tx.update(attachmentsTable)
+          .set({ message_id: result[0].id })
+          .where(and(
+            inArray(attachmentsTable.id, attachmentIds),
+            eq(attachmentsTable.room_id, input.room_id),
+            eq(attachmentsTable.uploader_id, userId),
+            isNull(attachmentsTable.message_id)
+          ))
+          .returning({ id: attachmentsTable.id })
+          .execute();
 
-    const message = result[0];
+        if (claimed.length !== attachmentIds.length) {
+          throw new Error('Attachment not found or already sent');
+        }
+      }
+
+      if (mentionedUserIds.length > 0) {
+        await tx.insert(messageMentionsTable)
+          .values(mentionedUserIds.map(mentionedUserId => ({
+            message_id: result[0].id,
+            room_id: input.room_id,
+            mentioned_user_id: mentionedUserId
+          })))
+          .execute();
+      }
+
+      return result[0].id;
+    });
 
-    // Update user's last_seen_at in room participation
+    const message = await getMessageWithAuthor(messageId);
+
+    // Update user's last_seen_at in room participation; posting also marks the room read
     await db.update(roomParticipantsTable)
       .set({
-        last_seen_at: new Date()
+        last_seen_at: new Date(),
+        last_read_message_id: message.id
       })
       .where(and(
         eq(roomParticipantsTable.room_id, input.room_id),
@@ -75,6 +123,14 @@ export async function sendMessage(input: SendMessageInput, userId: number): Prom
       ))
       .execute();
 
+    // Push the new message to everyone subscribed to the room
+    publishRoomEvent(message.room_id, { type: 'message.created', message });
+
+    // Sending ends the author's typing indicator
+    if (stopTyping(message.room_id, userId)) {
+      await publishTypingChange(message.room_id);
+    }
+
     return message;
   } catch (error) {
     console.error('Message sending failed:', error);
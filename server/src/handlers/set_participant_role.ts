@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { roomParticipantsTable } from '../db/schema';
+import { type SetParticipantRoleInput, type RoomParticipant } from '../schema';
+import { getRoomParticipant } from '../lib/room_access';
+import { requireModerationRights, getModerationNames } from '../lib/moderation';
+import { postSystemMessage } from '../lib/messages';
+import { eq } from 'drizzle-orm';
+
+const ROLE_NAMES = { member: 'a member', moderator: 'a moderator', admin: 'an admin' } as const;
+
+// Room admins promote and demote other participants; only the owner can change another admin's role
+export async function setParticipantRole(input: SetParticipantRoleInput, userId: number): Promise<RoomParticipant> {
+  try {
+    const actor = await getRoomParticipant(input.room_id, userId);
+    if (!actor || actor.participant_role !== 'admin') {
+      throw new Error('Only room admins can change participant roles');
+    }
+
+    const { target } = await requireModerationRights(input.room_id, userId, input.user_id);
+    if (!target) {
+      throw new Error('User is not a participant in this room');
+    }
+
+    if (target.participant_role === input.participant_role) {
+      return target;
+    }
+
+    const names = await getModerationNames(userId, input.user_id);
+
+    const result = await db.update(roomParticipantsTable)
+      .set({ participant_role: input.participant_role })
+      .where(eq(roomParticipantsTable.id, target.id))
+      .returning()
+      .execute();
+
+    await postSystemMessage(input.room_id, userId, `${names.moderator} made ${names.target} ${ROLE_NAMES[input.participant_role]}`);
+
+    return result[0];
+  } catch (error) {
+    console.error('Set participant role failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { roomsTable } from '../db/schema';
+import { type SetTypingInput } from '../schema';
+import { startTyping, stopTyping, publishTypingChange } from '../realtime/typing';
+import { requireRoomParticipant } from '../lib/room_access';
+import { isMuted } from '../lib/moderation';
+import { eq, and } from 'drizzle-orm';
+
+export async function setTyping(input: SetTypingInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    // Same rules as sending a message: the room must be active and the user a participant
+    const room = await db.select()
+      .from(roomsTable)
+      .where(and(
+        eq(roomsTable.id, input.room_id),
+        eq(roomsTable.is_active, true)
+      ))
+      .limit(1)
+      .execute();
+
+    if (room.length === 0) {
+      throw new Error('Room not found or inactive');
+    }
+
+    const participant = await requireRoomParticipant(input.room_id, userId);
+
+    // Muted users cannot post, so they cannot appear to be typing either; stopping is always allowed
+    if (input.is_typing && isMuted(participant)) {
+      throw new Error('You are muted in this room');
+    }
+
+    // Only broadcast when the user starts or stops typing, not on every refresh
+    const changed = input.is_typing
+      ? startTyping(input.room_id, userId)
+      : stopTyping(input.room_id, userId);
+
+    if (changed) {
+      await publishTypingChange(input.room_id);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Setting typing state failed:', error);
+    throw error;
+  }
+}
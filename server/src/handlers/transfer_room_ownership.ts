@@ -0,0 +1,68 @@
+import { db } from '../db';
+import { roomsTable, roomParticipantsTable } from '../db/schema';
+import { type TransferRoomOwnershipInput, type Room } from '../schema';
+import { getRoomParticipant, requireActiveRoom } from '../lib/room_access';
+import { postSystemMessage } from '../lib/messages';
+import { getDisplayName, getUserSummaries } from '../lib/users';
+import { eq, and } from 'drizzle-orm';
+
+// Only the current owner can hand an active room over; the new owner must already be a participant
+export async function transferRoomOwnership(input: TransferRoomOwnershipInput, userId: number): Promise<Room> {
+  try {
+    const room = await requireActiveRoom(input.room_id);
+
+    if (room.is_direct) {
+      throw new Error('Direct conversations have no owner to transfer');
+    }
+
+    if (room.owner_id !== userId) {
+      throw new Error('Only the room owner can transfer ownership');
+    }
+
+    if (input.new_owner_id === userId) {
+      throw new Error('You already own this room');
+    }
+
+    if (!await getRoomParticipant(input.room_id, input.new_owner_id)) {
+      throw new Error('The new owner must be a participant in this room');
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const result = await tx.update(roomsTable)
+        .set({
+          owner_id: input.new_owner_id,
+          updated_at: new Date()
+        })
+        .where(eq(roomsTable.id, input.room_id))
+        .returning()
+        .execute();
+
+      await tx.update(roomParticipantsTable)
+        .set({ participant_role: 'admin' })
+        .where(and(
+          eq(roomParticipantsTable.room_id, input.room_id),
+          eq(roomParticipantsTable.user_id, input.new_owner_id)
+        ))
+        .execute();
+
+      return result[0];
+    });
+
+    const users = await getUserSummaries([userId, input.new_owner_id]);
+    const previousOwner = users.find(user => user.id === userId);
+    const newOwner = users.find(user => user.id === input.new_owner_id);
+    if (!previousOwner || !newOwner) {
+      throw new Error('User not found');
+    }
+    await postSystemMessage(
+      input.room_id,
+      userId,
+      `${getDisplayName(previousOwner)} transferred ownership to ${getDisplayName(newOwner)}`
+    );
+
+    return updated;
+  } catch (error) {
+    console.error('Room ownership transfer failed:', error);
+    throw error;
+  }
+}
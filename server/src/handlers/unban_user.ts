@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { roomBansTable } from '../db/schema';
+import { type UnbanUserInput } from '../schema';
+import { requireModerationRights, getModerationNames } from '../lib/moderation';
+import { postSystemMessage } from '../lib/messages';
+import { and, eq } from 'drizzle-orm';
+
+// Lift a ban before it expires
+export async function unbanUser(input: UnbanUserInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    await requireModerationRights(input.room_id, userId, input.user_id);
+
+    const removed = await db.delete(roomBansTable)
+      .where(and(
+        eq(roomBansTable.room_id, input.room_id),
+        eq(roomBansTable.user_id, input.user_id)
+      ))
+      .returning()
+      .execute();
+
+    if (removed.length === 0) {
+      throw new Error('User is not banned from this room');
+    }
+
+    const names = await getModerationNames(userId, input.user_id);
+    await postSystemMessage(input.room_id, userId, `${names.target} was unbanned by ${names.moderator}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Unban user failed:', error);
+    throw error;
+  }
+}
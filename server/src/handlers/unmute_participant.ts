@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { roomParticipantsTable } from '../db/schema';
+import { type UnmuteParticipantInput, type RoomParticipant } from '../schema';
+import { requireModerationRights, getModerationNames, isMuted } from '../lib/moderation';
+import { postSystemMessage } from '../lib/messages';
+import { eq } from 'drizzle-orm';
+
+export async function unmuteParticipant(input: UnmuteParticipantInput, userId: number): Promise<RoomParticipant> {
+  try {
+    const { target } = await requireModerationRights(input.room_id, userId, input.user_id);
+    if (!target) {
+      throw new Error('User is not a participant in this room');
+    }
+
+    if (!isMuted(target)) {
+      throw new Error('Participant is not muted');
+    }
+
+    const names = await getModerationNames(userId, input.user_id);
+
+    const result = await db.update(roomParticipantsTable)
+      .set({
+        is_muted: false,
+        muted_until: null
+      })
+      .where(eq(roomParticipantsTable.id, target.id))
+      .returning()
+      .execute();
+
+    await postSystemMessage(input.room_id, userId, `${names.target} was unmuted by ${names.moderator}`);
+
+    return result[0];
+  } catch (error) {
+    console.error('Unmute participant failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { roomPinsTable } from '../db/schema';
+import { type PinMessageInput, type PinnedMessage } from '../schema';
+import { getRoomParticipant, isRoomModerator, requireActiveRoom } from '../lib/room_access';
+import { findPinnedMessages, publishPinsChanged } from '../lib/pins';
+import { eq } from 'drizzle-orm';
+
+export async function unpinMessage(input: PinMessageInput, userId: number): Promise<PinnedMessage[]> {
+  try {
+    const pins = await db.select()
+      .from(roomPinsTable)
+      .where(eq(roomPinsTable.message_id, input.message_id))
+      .limit(1)
+      .execute();
+
+    if (pins.length === 0) {
+      throw new Error('Message is not pinned');
+    }
+
+    const pin = pins[0];
+    await requireActiveRoom(pin.room_id);
+
+    const participant = await getRoomParticipant(pin.room_id, userId);
+    if (!isRoomModerator(participant)) {
+      throw new Error('Only room moderators can unpin messages');
+    }
+
+    await db.delete(roomPinsTable)
+      .where(eq(roomPinsTable.id, pin.id))
+      .execute();
+
+    const pinned = await findPinnedMessages(pin.room_id);
+    publishPinsChanged(pin.room_id, pinned);
+
+    return pinned;
+  } catch (error) {
+    console.error('Unpinning message failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { roomsTable, roomParticipantsTable } from '../db/schema';
+import { type UpdateRoomInput, type Room } from '../schema';
+import { requireRoomManager } from '../lib/room_access';
+import { requireRoomCategory } from '../lib/room_categories';
+import { eq, count } from 'drizzle-orm';
+
+export async function updateRoom(input: UpdateRoomInput, userId: number): Promise<Room> {
+  try {
+    const room = await requireRoomManager(input.room_id, userId);
+
+    if (!room.is_active) {
+      throw new Error('Room is archived and read-only');
+    }
+
+    const roomType = input.room_type ?? room.room_type;
+    let goldCost = input.gold_cost !== undefined ? input.gold_cost : room.gold_cost;
+    if (roomType !== 'premium') {
+      if (input.gold_cost) {
+        throw new Error('Only premium rooms can have a gold cost');
+      }
+      goldCost = null;
+    } else if ((input.room_type !== undefined || input.gold_cost !== undefined) && (goldCost === null || goldCost <= 0)) {
+      // Premium rooms charge to join, so setting the type or price needs a positive cost.
+      // Other changes leave free premium rooms created earlier alone.
+      throw new Error('Premium rooms need a positive gold cost');
+    }
+
+    if (input.category_id) {
+      await requireRoomCategory(input.category_id);
+    }
+
+    // The limit cannot drop below the people already in the room
+    if (input.max_participants) {
+      const participants = await db.select({ count: count() })
+        .from(roomParticipantsTable)
+        .where(eq(roomParticipantsTable.room_id, input.room_id))
+        .execute();
+
+      if (participants[0].count > input.max_participants) {
+        throw new Error(`Room already has ${participants[0].count} participants`);
+      }
+    }
+
+    const result = await db.update(roomsTable)
+      .set({
+        name: input.name,
+        description: input.description !== undefined ? input.description || null : undefined,
+        room_type: roomType,
+        max_participants: input.max_participants,
+        gold_cost: goldCost,
+        category_id: input.category_id,
+        tags: input.tags,
+        updated_at: new Date()
+      })
+      .where(eq(roomsTable.id, input.room_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Room update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { roomCategoriesTable } from '../db/schema';
+import { type UpdateRoomCategoryInput, type RoomCategory } from '../schema';
+import { requireRoomCategory, requireUniqueCategoryName } from '../lib/room_categories';
+import { eq } from 'drizzle-orm';
+
+export const updateRoomCategory = async (input: UpdateRoomCategoryInput): Promise<RoomCategory> => {
+  try {
+    await requireRoomCategory(input.category_id);
+
+    if (input.name !== undefined) {
+      await requireUniqueCategoryName(input.name, input.category_id);
+    }
+
+    const result = await db.update(roomCategoriesTable)
+      .set({
+        name: input.name,
+        description: input.description !== undefined ? input.description || null : undefined,
+        position: input.position,
+        updated_at: new Date()
+      })
+      .where(eq(roomCategoriesTable.id, input.category_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Room category update failed:', error);
+    throw error;
+  }
+};
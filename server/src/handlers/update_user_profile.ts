@@ -1,9 +1,10 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
-import { type UpdateUserProfileInput, type User } from '../schema';
+import { type UpdateUserProfileInput, type CurrentUser } from '../schema';
+import { toCurrentUser } from '../lib/users';
 import { eq } from 'drizzle-orm';
 
-export const updateUserProfile = async (input: UpdateUserProfileInput, userId: number): Promise<User> => {
+export const updateUserProfile = async (input: UpdateUserProfileInput, userId: number): Promise<CurrentUser> => {
   try {
     // Build update object with only provided fields
     const updateData: Partial<typeof usersTable.$inferInsert> = {
@@ -37,7 +38,7 @@ export const updateUserProfile = async (input: UpdateUserProfileInput, userId: n
       throw new Error('User not found');
     }
 
-    return result[0];
+    return toCurrentUser(result[0]);
   } catch (error) {
     console.error('User profile update failed:', error);
     throw error;
@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { attachmentsTable, roomsTable } from '../db/schema';
+import { type Attachment } from '../schema';
+import { requireRoomParticipant } from '../lib/room_access';
+import { getAttachmentLimits, isMimeTypeAllowed, toAttachment } from '../lib/attachments';
+import { getStorageDriver } from '../storage/driver';
+import { eq, and } from 'drizzle-orm';
+
+// Expects multipart form data with a "room_id" field and a "file" field
+export async function uploadAttachment(formData: FormData, userId: number): Promise<Attachment> {
+  try {
+    const roomId = Number(formData.get('room_id'));
+    const file = formData.get('file');
+
+    if (!Number.isInteger(roomId) || roomId <= 0) {
+      throw new Error('A room_id is required');
+    }
+
+    if (!(file instanceof File)) {
+      throw new Error('No file uploaded');
+    }
+
+    // Same rules as sending a message: the room must be active and the user a participant
+    const room = await db.select()
+      .from(roomsTable)
+      .where(and(
+        eq(roomsTable.id, roomId),
+        eq(roomsTable.is_active, true)
+      ))
+      .limit(1)
+      .execute();
+
+    if (room.length === 0) {
+      throw new Error('Room not found or inactive');
+    }
+
+    await requireRoomParticipant(roomId, userId);
+
+    const limits = await getAttachmentLimits();
+    // Browsers may add parameters such as "; charset=utf-8"; limits match on the bare type
+    const mimeType = file.type.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+
+    if (file.size > limits.max_size_bytes) {
+      throw new Error(`File exceeds the maximum size of ${limits.max_size_bytes} bytes`);
+    }
+
+    if (!isMimeTypeAllowed(mimeType, limits.allowed_mime_types)) {
+      throw new Error(`File type ${mimeType} is not allowed`);
+    }
+
+    // Store the bytes before recording the attachment so rows never point at missing files
+    const storageKey = `${roomId}/${crypto.randomUUID()}`;
+    await getStorageDriver().put(storageKey, new Uint8Array(await file.arrayBuffer()), mimeType);
+
+    const result = await db.insert(attachmentsTable)
+      .values({
+        room_id: roomId,
+        uploader_id: userId,
+        file_name: file.name || 'file',
+        mime_type: mimeType,
+        size_bytes: file.size,
+        storage_key: storageKey
+      })
+      .returning()
+      .execute();
+
+    return toAttachment(result[0]);
+  } catch (error) {
+    console.error('Attachment upload failed:', error);
+    throw error;
+  }
+}
@@ -1,9 +1,17 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { applyWSSHandler } from '@trpc/server/adapters/ws';
+import { WebSocketServer } from 'ws';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, publicProcedure, protectedProcedure, requirePermission, uploadProcedure, createContext } from './trpc';
+import { PERMISSION_CATALOGUE, getUserPermissions } from './auth/permissions';
+import { seedDefaultRoles } from './db/seed';
+import { toCurrentUser } from './lib/users';
+import { handleAttachmentDownload } from './storage/http';
+import { startMessageScheduler } from './scheduler/scheduled_messages';
+import { startAttachmentCleanup } from './scheduler/attachment_cleanup';
 
 // Import schema validation
 import {
@@ -11,13 +19,50 @@ import {
   loginUserInputSchema,
   createRoomInputSchema,
   sendMessageInputSchema,
+  scheduleMessageInputSchema,
+  cancelScheduledMessageInputSchema,
+  getMyScheduledMessagesInputSchema,
+  getRoomMessagesInputSchema,
+  searchMessagesInputSchema,
+  getMyMentionsInputSchema,
+  editMessageInputSchema,
+  deleteMessageInputSchema,
+  reactionInputSchema,
+  pinMessageInputSchema,
+  getPinnedMessagesInputSchema,
   joinRoomInputSchema,
+  discoverRoomsInputSchema,
+  leaveRoomInputSchema,
+  transferRoomOwnershipInputSchema,
+  updateRoomInputSchema,
+  archiveRoomInputSchema,
+  deleteRoomInputSchema,
+  getRoomParticipantsInputSchema,
+  setParticipantRoleInputSchema,
+  kickParticipantInputSchema,
+  banUserInputSchema,
+  unbanUserInputSchema,
+  muteParticipantInputSchema,
+  unmuteParticipantInputSchema,
+  createInviteInputSchema,
+  acceptInviteInputSchema,
+  revokeInviteInputSchema,
+  getRoomInvitesInputSchema,
+  markRoomReadInputSchema,
+  openDirectConversationInputSchema,
   updateUserProfileInputSchema,
   createRoleInputSchema,
   assignUserRoleInputSchema,
   createEmailTemplateInputSchema,
   updateSiteSettingInputSchema,
-  purchaseGoldInputSchema
+  createRoomCategoryInputSchema,
+  updateRoomCategoryInputSchema,
+  deleteRoomCategoryInputSchema,
+  purchaseGoldInputSchema,
+  roomEventSubscriptionInputSchema,
+  roomPresenceInputSchema,
+  setTypingInputSchema,
+  type PermissionInfo
 } from './schema';
 
 // Import handlers
@@ -25,9 +70,51 @@ import { registerUser } from './handlers/register_user';
 import { loginUser } from './handlers/login_user';
 import { createRoom } from './handlers/create_room';
 import { getRooms } from './handlers/get_rooms';
+import { discoverRooms } from './handlers/discover_rooms';
 import { joinRoom } from './handlers/join_room';
+import { leaveRoom } from './handlers/leave_room';
+import { transferRoomOwnership } from './handlers/transfer_room_ownership';
+import { updateRoom } from './handlers/update_room';
+import { archiveRoom } from './handlers/archive_room';
+import { deleteRoom } from './handlers/delete_room';
+import { getRoomParticipants } from './handlers/get_room_participants';
+import { setParticipantRole } from './handlers/set_participant_role';
+import { kickParticipant } from './handlers/kick_participant';
+import { banUser } from './handlers/ban_user';
+import { unbanUser } from './handlers/unban_user';
+import { muteParticipant } from './handlers/mute_participant';
+import { unmuteParticipant } from './handlers/unmute_participant';
+import { createInvite } from './handlers/create_invite';
+import { acceptInvite } from './handlers/accept_invite';
+import { revokeInvite } from './handlers/revoke_invite';
+import { getRoomInvites } from './handlers/get_room_invites';
+import { markRoomRead } from './handlers/mark_room_read';
+import { openDirectConversation } from './handlers/open_direct_conversation';
+import { getDirectConversations } from './handlers/get_direct_conversations';
 import { sendMessage } from './handlers/send_message';
 import { getRoomMessages } from './handlers/get_room_messages';
+import { editMessage } from './handlers/edit_message';
+import { deleteMessage } from './handlers/delete_message';
+import { getMessageRevisions } from './handlers/get_message_revisions';
+import { getMessageThread } from './handlers/get_message_thread';
+import { searchMessages } from './handlers/search_messages';
+import { getMyMentions } from './handlers/get_my_mentions';
+import { addReaction } from './handlers/add_reaction';
+import { removeReaction } from './handlers/remove_reaction';
+import { pinMessage } from './handlers/pin_message';
+import { unpinMessage } from './handlers/unpin_message';
+import { getPinnedMessages } from './handlers/get_pinned_messages';
+import { scheduleMessage } from './handlers/schedule_message';
+import { cancelScheduledMessage } from './handlers/cancel_scheduled_message';
+import { getMyScheduledMessages } from './handlers/get_my_scheduled_messages';
+import { uploadAttachment } from './handlers/upload_attachment';
+import { onRoomEvent } from './handlers/on_room_event';
+import { getRoomPresence } from './handlers/get_room_presence';
+import { heartbeatPresence } from './handlers/heartbeat_presence';
+import { leaveRoomPresence } from './handlers/leave_room_presence';
+import { onRoomPresence } from './handlers/on_room_presence';
+import { startPresenceSweeper } from './realtime/presence';
+import { setTyping } from './handlers/set_typing';
 import { updateUserProfile } from './handlers/update_user_profile';
 import { purchaseGold } from './handlers/purchase_gold';
 import { getUserTransactions } from './handlers/get_user_transactions';
@@ -39,13 +126,10 @@ import { createEmailTemplate } from './handlers/create_email_template';
 import { getEmailTemplates } from './handlers/get_email_templates';
 import { updateSiteSetting } from './handlers/update_site_setting';
 import { getSiteSettings } from './handlers/get_site_settings';
-
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
+import { getRoomCategories } from './handlers/get_room_categories';
+import { createRoomCategory } from './handlers/create_room_category';
+import { updateRoomCategory } from './handlers/update_room_category';
+import { deleteRoomCategory } from './handlers/delete_room_category';
 
 const appRouter = router({
   // Health check
@@ -62,101 +146,248 @@ const appRouter = router({
     .input(loginUserInputSchema)
     .mutation(({ input }) => loginUser(input)),
 
+  getCurrentUser: protectedProcedure
+    .query(({ ctx }) => toCurrentUser(ctx.user)),
+
+  getMyPermissions: protectedProcedure
+    .query(({ ctx }) => getUserPermissions(ctx.user.id)),
+
   // User profile management
-  updateUserProfile: publicProcedure
+  updateUserProfile: protectedProcedure
     .input(updateUserProfileInputSchema)
-    .mutation(({ input }) => {
-      // In real implementation, get userId from authentication context
-      const userId = 1; // Placeholder
-      return updateUserProfile(input, userId);
-    }),
+    .mutation(({ input, ctx }) => updateUserProfile(input, ctx.user.id)),
 
   // Room management
-  createRoom: publicProcedure
+  createRoom: protectedProcedure
     .input(createRoomInputSchema)
-    .mutation(({ input }) => {
-      // In real implementation, get userId from authentication context
-      const userId = 1; // Placeholder
-      return createRoom(input, userId);
-    }),
+    .mutation(({ input, ctx }) => createRoom(input, ctx.user.id)),
 
   getRooms: publicProcedure
-    .query(() => {
-      // In real implementation, get userId from authentication context if needed
-      const userId = 1; // Placeholder
-      return getRooms(userId);
-    }),
+    .query(({ ctx }) => getRooms(ctx.user?.id)),
+
+  discoverRooms: publicProcedure
+    .input(discoverRoomsInputSchema)
+    .query(({ input, ctx }) => discoverRooms(input, ctx.user?.id)),
 
-  joinRoom: publicProcedure
+  joinRoom: protectedProcedure
     .input(joinRoomInputSchema)
-    .mutation(({ input }) => {
-      // In real implementation, get userId from authentication context
-      const userId = 1; // Placeholder
-      return joinRoom(input, userId);
-    }),
+    .mutation(({ input, ctx }) => joinRoom(input, ctx.user.id)),
+
+  leaveRoom: protectedProcedure
+    .input(leaveRoomInputSchema)
+    .mutation(({ input, ctx }) => leaveRoom(input, ctx.user.id)),
+
+  transferRoomOwnership: protectedProcedure
+    .input(transferRoomOwnershipInputSchema)
+    .mutation(({ input, ctx }) => transferRoomOwnership(input, ctx.user.id)),
+
+  updateRoom: protectedProcedure
+    .input(updateRoomInputSchema)
+    .mutation(({ input, ctx }) => updateRoom(input, ctx.user.id)),
+
+  archiveRoom: protectedProcedure
+    .input(archiveRoomInputSchema)
+    .mutation(({ input, ctx }) => archiveRoom(input, ctx.user.id)),
+
+  deleteRoom: protectedProcedure
+    .input(deleteRoomInputSchema)
+    .mutation(({ input, ctx }) => deleteRoom(input, ctx.user.id)),
+
+  getRoomParticipants: protectedProcedure
+    .input(getRoomParticipantsInputSchema)
+    .query(({ input, ctx }) => getRoomParticipants(input.room_id, ctx.user.id)),
+
+  setParticipantRole: protectedProcedure
+    .input(setParticipantRoleInputSchema)
+    .mutation(({ input, ctx }) => setParticipantRole(input, ctx.user.id)),
+
+  // Room moderation
+  kickParticipant: protectedProcedure
+    .input(kickParticipantInputSchema)
+    .mutation(({ input, ctx }) => kickParticipant(input, ctx.user.id)),
+
+  banUser: protectedProcedure
+    .input(banUserInputSchema)
+    .mutation(({ input, ctx }) => banUser(input, ctx.user.id)),
+
+  unbanUser: protectedProcedure
+    .input(unbanUserInputSchema)
+    .mutation(({ input, ctx }) => unbanUser(input, ctx.user.id)),
+
+  muteParticipant: protectedProcedure
+    .input(muteParticipantInputSchema)
+    .mutation(({ input, ctx }) => muteParticipant(input, ctx.user.id)),
+
+  unmuteParticipant: protectedProcedure
+    .input(unmuteParticipantInputSchema)
+    .mutation(({ input, ctx }) => unmuteParticipant(input, ctx.user.id)),
+
+  markRoomRead: protectedProcedure
+    .input(markRoomReadInputSchema)
+    .mutation(({ input, ctx }) => markRoomRead(input, ctx.user.id)),
+
+  // Room invites
+  createInvite: protectedProcedure
+    .input(createInviteInputSchema)
+    .mutation(({ input, ctx }) => createInvite(input, ctx.user.id)),
+
+  acceptInvite: protectedProcedure
+    .input(acceptInviteInputSchema)
+    .mutation(({ input, ctx }) => acceptInvite(input, ctx.user.id)),
+
+  revokeInvite: protectedProcedure
+    .input(revokeInviteInputSchema)
+    .mutation(({ input, ctx }) => revokeInvite(input, ctx.user.id)),
+
+  getRoomInvites: protectedProcedure
+    .input(getRoomInvitesInputSchema)
+    .query(({ input, ctx }) => getRoomInvites(input.room_id, ctx.user.id)),
+
+  // Direct messages
+  openDirectConversation: protectedProcedure
+    .input(openDirectConversationInputSchema)
+    .mutation(({ input, ctx }) => openDirectConversation(input, ctx.user.id)),
+
+  getDirectConversations: protectedProcedure
+    .query(({ ctx }) => getDirectConversations(ctx.user.id)),
 
   // Messaging
-  sendMessage: publicProcedure
+  sendMessage: protectedProcedure
     .input(sendMessageInputSchema)
-    .mutation(({ input }) => {
-      // In real implementation, get userId from authentication context
-      const userId = 1; // Placeholder
-      return sendMessage(input, userId);
-    }),
+    .mutation(({ input, ctx }) => sendMessage(input, ctx.user.id)),
 
-  getRoomMessages: publicProcedure
-    .input(z.object({
-      roomId: z.number(),
-      limit: z.number().optional(),
-      offset: z.number().optional()
-    }))
-    .query(({ input }) => {
-      // In real implementation, get userId from authentication context
-      const userId = 1; // Placeholder
-      return getRoomMessages(input.roomId, userId, input.limit, input.offset);
-    }),
+  // Scheduled messages (delivered through sendMessage once due)
+  scheduleMessage: protectedProcedure
+    .input(scheduleMessageInputSchema)
+    .mutation(({ input, ctx }) => scheduleMessage(input, ctx.user.id)),
+
+  cancelScheduledMessage: protectedProcedure
+    .input(cancelScheduledMessageInputSchema)
+    .mutation(({ input, ctx }) => cancelScheduledMessage(input, ctx.user.id)),
+
+  getMyScheduledMessages: protectedProcedure
+    .input(getMyScheduledMessagesInputSchema)
+    .query(({ input, ctx }) => getMyScheduledMessages(input, ctx.user.id)),
+
+  getRoomMessages: protectedProcedure
+    .input(getRoomMessagesInputSchema)
+    .query(({ input: { roomId, ...page }, ctx }) => getRoomMessages(roomId, ctx.user.id, page)),
+
+  getMessageThread: protectedProcedure
+    .input(z.object({ messageId: z.number() }))
+    .query(({ input, ctx }) => getMessageThread(input.messageId, ctx.user.id)),
+
+  searchMessages: protectedProcedure
+    .input(searchMessagesInputSchema)
+    .query(({ input, ctx }) => searchMessages(input, ctx.user.id)),
+
+  getMyMentions: protectedProcedure
+    .input(getMyMentionsInputSchema)
+    .query(({ input, ctx }) => getMyMentions(input, ctx.user.id)),
+
+  editMessage: protectedProcedure
+    .input(editMessageInputSchema)
+    .mutation(({ input, ctx }) => editMessage(input, ctx.user.id)),
+
+  deleteMessage: protectedProcedure
+    .input(deleteMessageInputSchema)
+    .mutation(({ input, ctx }) => deleteMessage(input, ctx.user.id)),
+
+  getMessageRevisions: protectedProcedure
+    .input(z.object({ messageId: z.number() }))
+    .query(({ input, ctx }) => getMessageRevisions(input.messageId, ctx.user.id)),
+
+  // Attachments: multipart form data with "room_id" and "file"; send the returned id with sendMessage.
+  // Uploads not sent within a day are deleted
+  uploadAttachment: uploadProcedure
+    .input(z.instanceof(FormData))
+    .mutation(({ input, ctx }) => uploadAttachment(input, ctx.user.id)),
+
+  // Reactions
+  addReaction: protectedProcedure
+    .input(reactionInputSchema)
+    .mutation(({ input, ctx }) => addReaction(input, ctx.user.id)),
+
+  removeReaction: protectedProcedure
+    .input(reactionInputSchema)
+    .mutation(({ input, ctx }) => removeReaction(input, ctx.user.id)),
+
+  // Pinned messages (pinned and unpinned by room moderators)
+  pinMessage: protectedProcedure
+    .input(pinMessageInputSchema)
+    .mutation(({ input, ctx }) => pinMessage(input, ctx.user.id)),
+
+  unpinMessage: protectedProcedure
+    .input(pinMessageInputSchema)
+    .mutation(({ input, ctx }) => unpinMessage(input, ctx.user.id)),
+
+  getPinnedMessages: protectedProcedure
+    .input(getPinnedMessagesInputSchema)
+    .query(({ input, ctx }) => getPinnedMessages(input, ctx.user.id)),
+
+  // Realtime events (served over WebSocket)
+  onRoomEvent: protectedProcedure
+    .input(roomEventSubscriptionInputSchema)
+    .subscription(({ input, ctx, signal }) => onRoomEvent(input.roomId, ctx.user.id, signal)),
+
+  // Presence
+  heartbeatPresence: protectedProcedure
+    .input(roomPresenceInputSchema)
+    .mutation(({ input, ctx }) => heartbeatPresence(input, ctx.user.id)),
+
+  leaveRoomPresence: protectedProcedure
+    .input(roomPresenceInputSchema)
+    .mutation(({ input, ctx }) => leaveRoomPresence(input, ctx.user.id)),
+
+  getRoomPresence: protectedProcedure
+    .input(roomEventSubscriptionInputSchema)
+    .query(({ input, ctx }) => getRoomPresence(input.roomId, ctx.user.id)),
+
+  onRoomPresence: protectedProcedure
+    .input(roomEventSubscriptionInputSchema)
+    .subscription(({ input, ctx, signal }) => onRoomPresence(input.roomId, ctx.user.id, signal)),
+
+  // Typing indicators (broadcast only, never stored)
+  setTyping: protectedProcedure
+    .input(setTypingInputSchema)
+    .mutation(({ input, ctx }) => setTyping(input, ctx.user.id)),
 
   // Gold/Credit system
-  purchaseGold: publicProcedure
+  purchaseGold: protectedProcedure
     .input(purchaseGoldInputSchema)
-    .mutation(({ input }) => {
-      // In real implementation, get userId from authentication context
-      const userId = 1; // Placeholder
-      return purchaseGold(input, userId);
-    }),
+    .mutation(({ input, ctx }) => purchaseGold(input, ctx.user.id)),
 
-  getUserTransactions: publicProcedure
-    .query(() => {
-      // In real implementation, get userId from authentication context
-      const userId = 1; // Placeholder
-      return getUserTransactions(userId);
-    }),
+  getUserTransactions: protectedProcedure
+    .query(({ ctx }) => getUserTransactions(ctx.user.id)),
 
   // Administrative routes (role management)
-  createRole: publicProcedure
+  createRole: requirePermission('roles:manage')
     .input(createRoleInputSchema)
     .mutation(({ input }) => createRole(input)),
 
-  getRoles: publicProcedure
+  getRoles: requirePermission('roles:manage')
     .query(() => getRoles()),
 
-  assignUserRole: publicProcedure
+  getPermissionCatalogue: requirePermission('roles:manage')
+    .query((): PermissionInfo[] => Object.entries(PERMISSION_CATALOGUE).map(([key, description]) => ({ key, description }))),
+
+  assignUserRole: requirePermission('roles:manage')
     .input(assignUserRoleInputSchema)
     .mutation(({ input }) => assignUserRole(input)),
 
-  getUsers: publicProcedure
+  getUsers: requirePermission('users:read')
     .query(() => getUsers()),
 
   // Email template management
-  createEmailTemplate: publicProcedure
+  createEmailTemplate: requirePermission('email_templates:manage')
     .input(createEmailTemplateInputSchema)
     .mutation(({ input }) => createEmailTemplate(input)),
 
-  getEmailTemplates: publicProcedure
+  getEmailTemplates: requirePermission('email_templates:manage')
     .query(() => getEmailTemplates()),
 
   // Site settings management
-  updateSiteSetting: publicProcedure
+  updateSiteSetting: requirePermission('settings:manage')
     .input(updateSiteSettingInputSchema)
     .mutation(({ input }) => updateSiteSetting(input)),
 
@@ -164,32 +395,91 @@ const appRouter = router({
     .input(z.object({
       publicOnly: z.boolean().optional()
     }))
-    .query(({ input }) => getSiteSettings(input?.publicOnly)),
+    .query(async ({ input, ctx }) => {
+      // Non-public settings are only visible to settings managers
+      if (!input?.publicOnly) {
+        const permissions = ctx.user ? await getUserPermissions(ctx.user.id) : [];
+        if (!permissions.includes('settings:manage')) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Missing permission: settings:manage' });
+        }
+      }
+      return getSiteSettings(input?.publicOnly);
+    }),
+
+  // Room categories (listed for everyone, managed by admins)
+  getRoomCategories: publicProcedure
+    .query(() => getRoomCategories()),
+
+  createRoomCategory: requirePermission('room_categories:manage')
+    .input(createRoomCategoryInputSchema)
+    .mutation(({ input }) => createRoomCategory(input)),
+
+  updateRoomCategory: requirePermission('room_categories:manage')
+    .input(updateRoomCategoryInputSchema)
+    .mutation(({ input }) => updateRoomCategory(input)),
+
+  deleteRoomCategory: requirePermission('room_categories:manage')
+    .input(deleteRoomCategoryInputSchema)
+    .mutation(({ input }) => deleteRoomCategory(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  await seedDefaultRoles();
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        // Signed attachment downloads are plain GET requests outside tRPC
+        handleAttachmentDownload(req, res)
+          .then((handled) => {
+            if (!handled) next();
+          })
+          .catch(next);
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
+  });
+
+  // Subscriptions share the HTTP port through a WebSocket upgrade
+  const wss = new WebSocketServer({ server });
+  applyWSSHandler({
+    wss,
+    router: appRouter,
+    createContext,
+    keepAlive: { enabled: true },
   });
+
+  startPresenceSweeper();
+  await startMessageScheduler();
+  startAttachmentCleanup();
+
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
   console.log('Available routes:');
-  console.log('- Authentication: registerUser, loginUser');
+  console.log('- Authentication: registerUser, loginUser, getCurrentUser, getMyPermissions');
   console.log('- User Management: updateUserProfile, getUsers, assignUserRole');
-  console.log('- Room Management: createRoom, getRooms, joinRoom');
-  console.log('- Messaging: sendMessage, getRoomMessages');
+  console.log('- Room Management: createRoom, getRooms, discoverRooms, joinRoom, leaveRoom, transferRoomOwnership, markRoomRead');
+  console.log('- Room Settings: updateRoom, archiveRoom, deleteRoom');
+  console.log('- Room Members: getRoomParticipants, setParticipantRole');
+  console.log('- Room Moderation: kickParticipant, banUser, unbanUser, muteParticipant, unmuteParticipant');
+  console.log('- Room Invites: createInvite, acceptInvite, revokeInvite, getRoomInvites');
+  console.log('- Direct Messages: openDirectConversation, getDirectConversations');
+  console.log('- Messaging: sendMessage, getRoomMessages, getMessageThread, searchMessages, getMyMentions, editMessage, deleteMessage, getMessageRevisions');
+  console.log('- Scheduled Messages: scheduleMessage, cancelScheduledMessage, getMyScheduledMessages');
+  console.log('- Reactions: addReaction, removeReaction');
+  console.log('- Pinned Messages: pinMessage, unpinMessage, getPinnedMessages');
+  console.log('- Attachments: uploadAttachment, GET /attachments/:id (signed links)');
+  console.log('- Presence: heartbeatPresence, leaveRoomPresence, getRoomPresence');
+  console.log('- Typing: setTyping');
+  console.log('- Realtime (WebSocket): onRoomEvent, onRoomPresence');
   console.log('- Gold System: purchaseGold, getUserTransactions');
-  console.log('- Administration: createRole, getRoles, createEmailTemplate, getEmailTemplates');
+  console.log('- Administration: createRole, getRoles, getPermissionCatalogue, createEmailTemplate, getEmailTemplates');
   console.log('- Site Settings: updateSiteSetting, getSiteSettings');
+  console.log('- Room Categories: getRoomCategories, createRoomCategory, updateRoomCategory, deleteRoomCategory');
 }
 
 start();
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { attachmentsTable, type Attachment as AttachmentRow } from '../db/schema';
+import { type Attachment } from '../schema';
+import { getSiteSettingValue } from './site_settings';
+import { createDownloadPath } from '../storage/download_urls';
+import { asc, inArray } from 'drizzle-orm';
+
+// Upload limits, overridable through site settings
+export const MAX_ATTACHMENT_SIZE_SETTING = 'max_attachment_size_bytes';
+export const ALLOWED_ATTACHMENT_TYPES_SETTING = 'allowed_attachment_types';
+
+export const DEFAULT_MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_ALLOWED_ATTACHMENT_TYPES = ['image/*', 'application/pdf', 'text/plain', 'application/zip'];
+
+// Allowance on top of the file size for the multipart boundaries, part headers and the
+// room_id field when judging an upload by its Content-Length
+export const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// Largest request body the reverse proxy accepts; keep in step with request_body max_size
+// in client/Caddyfile. The size setting is capped below it so the app, not the proxy,
+// turns away oversized files.
+export const MAX_UPLOAD_REQUEST_BYTES = 100 * 1024 * 1024;
+
+export const getAttachmentLimits = async (): Promise<{ max_size_bytes: number; allowed_mime_types: string[] }> => {
+  const maxSize = await getSiteSettingValue(MAX_ATTACHMENT_SIZE_SETTING, DEFAULT_MAX_ATTACHMENT_SIZE_BYTES);
+  return {
+    max_size_bytes: Math.min(maxSize, MAX_UPLOAD_REQUEST_BYTES - MULTIPART_OVERHEAD_BYTES),
+    allowed_mime_types: await getSiteSettingValue(ALLOWED_ATTACHMENT_TYPES_SETTING, DEFAULT_ALLOWED_ATTACHMENT_TYPES)
+  };
+};
+
+// Allowed types are exact MIME types or "type/*" wildcards
+export const isMimeTypeAllowed = (mimeType: string, allowed: string[]): boolean => {
+  return allowed.some(pattern => pattern.endsWith('/*')
+    ? mimeType.startsWith(pattern.slice(0, -1))
+    : mimeType === pattern);
+};
+
+// Public shape of a stored attachment; the storage key never leaves the server
+export const toAttachment = ({ storage_key: _storageKey, ...row }: AttachmentRow): Attachment => ({
+  ...row,
+  download_path: createDownloadPath(row.id)
+});
+
+// Attachments of each message, in upload order
+export const getAttachmentsForMessages = async (messageIds: number[]): Promise<Map<number, Attachment[]>> => {
+  const attachments = new Map<number, Attachment[]>();
+  if (messageIds.length === 0) {
+    return attachments;
+  }
+
+  const rows = await db.select()
+    .from(attachmentsTable)
+    .where(inArray(attachmentsTable.message_id, messageIds))
+    .orderBy(asc(attachmentsTable.id))
+    .execute();
+
+  for (const row of rows) {
+    if (row.message_id === null) continue;
+    attachments.set(row.message_id, [...(attachments.get(row.message_id) ?? []), toAttachment(row)]);
+  }
+
+  return attachments;
+};
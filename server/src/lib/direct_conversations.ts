@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { roomParticipantsTable } from '../db/schema';
+import { type DirectConversation, type Room } from '../schema';
+import { getUserSummaries } from './users';
+import { getUnreadCounts, getUnreadMentionCounts } from './read_state';
+import { inArray } from 'drizzle-orm';
+
+// One direct conversation per pair of users, whoever opened it
+export const getDirectKey = (userId: number, otherUserId: number): string =>
+  `${Math.min(userId, otherUserId)}:${Math.max(userId, otherUserId)}`;
+
+// Describe direct conversation rooms from one participant's point of view: the other
+// participant, plus the read position and unread counts of the viewer
+export const describeDirectConversations = async (rooms: Room[], userId: number): Promise<DirectConversation[]> => {
+  if (rooms.length === 0) {
+    return [];
+  }
+
+  const roomIds = rooms.map(room => room.id);
+  const participants = await db.select()
+    .from(roomParticipantsTable)
+    .where(inArray(roomParticipantsTable.room_id, roomIds))
+    .execute();
+
+  const others = await getUserSummaries(
+    participants.filter(participant => participant.user_id !== userId).map(participant => participant.user_id)
+  );
+  const unreadCounts = await getUnreadCounts(userId, roomIds);
+  const unreadMentionCounts = await getUnreadMentionCounts(userId, roomIds);
+
+  return rooms.flatMap(room => {
+    const own = participants.find(participant => participant.room_id === room.id && participant.user_id === userId);
+    const other = others.find(summary => participants.some(participant =>
+      participant.room_id === room.id && participant.user_id === summary.id
+    ));
+    if (!other) {
+      return [];
+    }
+
+    return [{
+      room: {
+        ...room,
+        participant_role: own?.participant_role ?? null,
+        last_read_message_id: own?.last_read_message_id ?? null,
+        unread_count: unreadCounts.get(room.id) ?? 0,
+        unread_mention_count: unreadMentionCounts.get(room.id) ?? 0
+      },
+      other_user: other
+    }];
+  });
+};
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { roomInvitesTable } from '../db/schema';
+import { type RoomInvite } from '../schema';
+import { and, desc, eq, gt, isNull, lt, or, sql, type SQL } from 'drizzle-orm';
+
+// Short, URL-safe codes that are still impractical to guess
+export const generateInviteCode = (): string => crypto.randomBytes(9).toString('base64url');
+
+// Invites that are neither revoked, expired nor used up
+export const isUsableInvite = (): SQL => {
+  const usable = and(
+    isNull(roomInvitesTable.revoked_at),
+    or(isNull(roomInvitesTable.expires_at), gt(roomInvitesTable.expires_at, new Date())),
+    or(isNull(roomInvitesTable.max_uses), lt(roomInvitesTable.use_count, roomInvitesTable.max_uses))
+  );
+  if (!usable) {
+    throw new Error('Invite usability condition is empty');
+  }
+  return usable;
+};
+
+// A usable invite letting the user into the room: one addressed to them, or the given code
+export const findUsableInvite = async (roomId: number, userId: number, code?: string): Promise<RoomInvite | null> => {
+  const invites = await db.select()
+    .from(roomInvitesTable)
+    .where(and(
+      eq(roomInvitesTable.room_id, roomId),
+      isUsableInvite(),
+      or(
+        eq(roomInvitesTable.invitee_id, userId),
+        code === undefined ? undefined : and(isNull(roomInvitesTable.invitee_id), eq(roomInvitesTable.code, code))
+      )
+    ))
+    // Prefer the user's own invite so shared codes keep their remaining uses
+    .orderBy(sql`${roomInvitesTable.invitee_id} IS NULL`, desc(roomInvitesTable.id))
+    .limit(1)
+    .execute();
+
+  return invites[0] ?? null;
+};
+
+// Count one use of an invite; the usability check is repeated in the update so
+// concurrent joins cannot exceed max_uses. Pass the join's transaction so the use is
+// given back when the join fails.
+export const claimInvite = async (inviteId: number, executor: Pick<typeof db, 'update'> = db): Promise<void> => {
+  const claimed = await executor.update(roomInvitesTable)
+    .set({ use_count: sql`${roomInvitesTable.use_count} + 1` })
+    .where(and(
+      eq(roomInvitesTable.id, inviteId),
+      isUsableInvite()
+    ))
+    .returning({ id: roomInvitesTable.id })
+    .execute();
+
+  if (claimed.length === 0) {
+    throw new Error('Invite is no longer valid');
+  }
+};
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { messageMentionsTable, roomParticipantsTable, usersTable } from '../db/schema';
+import { and, asc, eq, inArray, ne, sql } from 'drizzle-orm';
+
+// "@name" not preceded by a word character (so e-mail addresses are not mentions);
+// trailing dots and dashes belong to the sentence, not the username
+const MENTION_PATTERN = /(?<![\w@])@(\w[\w.-]*)/g;
+
+// Usernames mentioned in a message, lower-cased and without duplicates
+export const parseMentionedUsernames = (content: string): string[] => {
+  const usernames = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[1].replace(/[.-]+$/, '').toLowerCase());
+  }
+  return [...usernames];
+};
+
+// Ids of the room participants a message mentions; authors never mention themselves
+// and names that are not participants are plain text
+export const findMentionedParticipantIds = async (roomId: number, content: string, authorId: number): Promise<number[]> => {
+  const usernames = parseMentionedUsernames(content);
+  if (usernames.length === 0) {
+    return [];
+  }
+
+  const participants = await db.select({ user_id: roomParticipantsTable.user_id })
+    .from(roomParticipantsTable)
+    .innerJoin(usersTable, eq(roomParticipantsTable.user_id, usersTable.id))
+    .where(and(
+      eq(roomParticipantsTable.room_id, roomId),
+      ne(roomParticipantsTable.user_id, authorId),
+      inArray(sql`lower(${usersTable.username})`, usernames)
+    ))
+    .execute();
+
+  return participants.map(participant => participant.user_id);
+};
+
+// Users mentioned in each message
+export const getMentionedUserIds = async (messageIds: number[]): Promise<Map<number, number[]>> => {
+  const mentioned = new Map<number, number[]>();
+  if (messageIds.length === 0) {
+    return mentioned;
+  }
+
+  const mentions = await db.select({
+    message_id: messageMentionsTable.message_id,
+    mentioned_user_id: messageMentionsTable.mentioned_user_id
+  })
+    .from(messageMentionsTable)
+    .where(inArray(messageMentionsTable.message_id, messageIds))
+    .orderBy(asc(messageMentionsTable.id))
+    .execute();
+
+  for (const mention of mentions) {
+    mentioned.set(mention.message_id, [...(mentioned.get(mention.message_id) ?? []), mention.mentioned_user_id]);
+  }
+
+  return mentioned;
+};
@@ -0,0 +1,139 @@
+import { db } from '../db';
+import { messagesTable, messageReactionsTable, roomParticipantsTable } from '../db/schema';
+import { type MessageWithAuthor, type ReactionSummary } from '../schema';
+import { getAttachmentsForMessages } from './attachments';
+import { getMentionedUserIds } from './mentions';
+import { publishRoomEvent } from '../realtime/room_events';
+import { and, asc, count, eq, inArray, type SQL } from 'drizzle-orm';
+
+// Group the reactions to each message by emoji, in the order each emoji was first used
+export const getReactionSummaries = async (messageIds: number[]): Promise<Map<number, ReactionSummary[]>> => {
+  const summaries = new Map<number, ReactionSummary[]>();
+  if (messageIds.length === 0) {
+    return summaries;
+  }
+
+  const reactions = await db.select()
+    .from(messageReactionsTable)
+    .where(inArray(messageReactionsTable.message_id, messageIds))
+    .orderBy(asc(messageReactionsTable.id))
+    .execute();
+
+  for (const reaction of reactions) {
+    const messageSummaries = summaries.get(reaction.message_id) ?? [];
+    const summary = messageSummaries.find(existing => existing.emoji === reaction.emoji);
+    if (summary) {
+      summary.count++;
+      summary.user_ids.push(reaction.user_id);
+    } else {
+      messageSummaries.push({ emoji: reaction.emoji, count: 1, user_ids: [reaction.user_id] });
+    }
+    summaries.set(reaction.message_id, messageSummaries);
+  }
+
+  return summaries;
+};
+
+interface MessageQuery {
+  where?: SQL;
+  orderBy?: SQL[];
+  limit?: number;
+}
+
+// Load messages with their author's profile (through messagesRelations.user), the
+// author's role in the message's room (none once they have left it), the number of
+// non-deleted replies to each message, its reactions, attachments and mentioned users
+export const findMessagesWithAuthors = async ({ where, orderBy, limit }: MessageQuery): Promise<MessageWithAuthor[]> => {
+  const messages = await db.query.messagesTable.findMany({
+    where,
+    orderBy,
+    limit,
+    // The search document is internal to full-text search
+    columns: { search_vector: false },
+    with: {
+      user: {
+        columns: { id: true, username: true, display_name: true, avatar_url: true }
+      }
+    }
+  });
+
+  if (messages.length === 0) {
+    return [];
+  }
+
+  const roomIds = [...new Set(messages.map(message => message.room_id))];
+  const userIds = [...new Set(messages.map(message => message.user_id))];
+
+  const participants = await db.select({
+    room_id: roomParticipantsTable.room_id,
+    user_id: roomParticipantsTable.user_id,
+    participant_role: roomParticipantsTable.participant_role
+  })
+    .from(roomParticipantsTable)
+    .where(and(
+      inArray(roomParticipantsTable.room_id, roomIds),
+      inArray(roomParticipantsTable.user_id, userIds)
+    ))
+    .execute();
+
+  const replyCounts = await db.select({
+    reply_to_id: messagesTable.reply_to_id,
+    count: count()
+  })
+    .from(messagesTable)
+    .where(and(
+      inArray(messagesTable.reply_to_id, messages.map(message => message.id)),
+      eq(messagesTable.is_deleted, false)
+    ))
+    .groupBy(messagesTable.reply_to_id)
+    .execute();
+
+  const repliesByMessage = new Map(replyCounts.map(row => [row.reply_to_id, row.count]));
+  const reactionsByMessage = await getReactionSummaries(messages.map(message => message.id));
+  const attachmentsByMessage = await getAttachmentsForMessages(messages.map(message => message.id));
+  const mentionsByMessage = await getMentionedUserIds(messages.map(message => message.id));
+
+  const roles = new Map(participants.map(participant => [
+    `${participant.room_id}:${participant.user_id}`,
+    participant.participant_role
+  ]));
+
+  return messages.map(({ user, ...message }) => ({
+    ...message,
+    author: {
+      ...user,
+      participant_role: roles.get(`${message.room_id}:${message.user_id}`) ?? null
+    },
+    reply_count: repliesByMessage.get(message.id) ?? 0,
+    reactions: reactionsByMessage.get(message.id) ?? [],
+    attachments: attachmentsByMessage.get(message.id) ?? [],
+    mentioned_user_ids: mentionsByMessage.get(message.id) ?? []
+  }));
+};
+
+// Load a single message with its author
+export const getMessageWithAuthor = async (messageId: number): Promise<MessageWithAuthor> => {
+  const [message] = await findMessagesWithAuthors({ where: eq(messagesTable.id, messageId) });
+  if (!message) {
+    throw new Error('Message not found');
+  }
+  return message;
+};
+
+// Record a room event (someone leaving, a change of owner, ...) as a system message
+// attributed to the user who caused it, and push it to the room's subscribers
+export const postSystemMessage = async (roomId: number, userId: number, content: string): Promise<MessageWithAuthor> => {
+  const result = await db.insert(messagesTable)
+    .values({
+      room_id: roomId,
+      user_id: userId,
+      content,
+      message_type: 'system'
+    })
+    .returning()
+    .execute();
+
+  const message = await getMessageWithAuthor(result[0].id);
+  publishRoomEvent(roomId, { type: 'message.created', message });
+  return message;
+};
@@ -0,0 +1,91 @@
+import { db } from '../db';
+import { roomBansTable } from '../db/schema';
+import { type Room, type RoomBan, type RoomParticipant } from '../schema';
+import { getRoomParticipant, requireActiveRoom } from './room_access';
+import { getDisplayName, getUserSummaries } from './users';
+import { and, eq, gt, isNull, or } from 'drizzle-orm';
+
+// Higher ranks may moderate lower ones; the owner outranks every participant
+const ROLE_RANK = { member: 0, moderator: 1, admin: 2 } as const;
+const OWNER_RANK = 3;
+
+const rankOf = (room: Room, participant: RoomParticipant | null): number => {
+  if (participant === null) {
+    return ROLE_RANK.member;
+  }
+  return room.owner_id === participant.user_id ? OWNER_RANK : ROLE_RANK[participant.participant_role];
+};
+
+export interface ModerationContext {
+  room: Room;
+  moderator: RoomParticipant;
+  // Null when the target is not (or no longer) a participant
+  target: RoomParticipant | null;
+}
+
+// Moderators act on members, admins also on moderators, and only the owner on admins
+export const requireModerationRights = async (roomId: number, moderatorId: number, targetUserId: number): Promise<ModerationContext> => {
+  // Archived rooms are read-only, membership and roles included
+  const room = await requireActiveRoom(roomId);
+  if (room.is_direct) {
+    throw new Error('Direct conversations cannot be moderated');
+  }
+
+  const moderator = await getRoomParticipant(roomId, moderatorId);
+  if (!moderator || rankOf(room, moderator) < ROLE_RANK.moderator) {
+    throw new Error('Only room moderators and admins can moderate participants');
+  }
+
+  if (targetUserId === moderatorId) {
+    throw new Error('You cannot moderate yourself');
+  }
+
+  const target = await getRoomParticipant(roomId, targetUserId);
+  if (room.owner_id === targetUserId || rankOf(room, target) >= rankOf(room, moderator)) {
+    throw new Error('You cannot moderate a participant with an equal or higher role');
+  }
+
+  return { room, moderator, target };
+};
+
+// Mutes without muted_until last until lifted
+export const isMuted = (participant: RoomParticipant, now: Date = new Date()): boolean =>
+  participant.is_muted && (participant.muted_until === null || participant.muted_until > now);
+
+// The user's ban from the room, unless it has expired
+export const getActiveBan = async (roomId: number, userId: number): Promise<RoomBan | null> => {
+  const bans = await db.select()
+    .from(roomBansTable)
+    .where(and(
+      eq(roomBansTable.room_id, roomId),
+      eq(roomBansTable.user_id, userId),
+      or(isNull(roomBansTable.expires_at), gt(roomBansTable.expires_at, new Date()))
+    ))
+    .limit(1)
+    .execute();
+
+  return bans[0] ?? null;
+};
+
+// The moderator's and target's display names, for system messages
+export const getModerationNames = async (moderatorId: number, targetUserId: number): Promise<{ moderator: string; target: string }> => {
+  const users = await getUserSummaries([moderatorId, targetUserId]);
+  const nameOf = (userId: number) => {
+    const user = users.find(candidate => candidate.id === userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return getDisplayName(user);
+  };
+  return { moderator: nameOf(moderatorId), target: nameOf(targetUserId) };
+};
+
+// "for 30 minutes", "for 2 hours", "for 1 day"; durations are rounded down to the largest whole unit
+export const describeDuration = (minutes: number): string => {
+  const [amount, unit] = minutes >= 60 * 24
+    ? [Math.floor(minutes / (60 * 24)), 'day']
+    : minutes >= 60
+      ? [Math.floor(minutes / 60), 'hour']
+      : [minutes, 'minute'];
+  return `for ${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { roomPinsTable, messagesTable } from '../db/schema';
+import { type PinnedMessage } from '../schema';
+import { findMessagesWithAuthors } from './messages';
+import { getUserSummaries } from './users';
+import { publishRoomEvent } from '../realtime/room_events';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+
+// The room's pinned messages, most recently pinned first; pins of deleted messages are hidden
+export const findPinnedMessages = async (roomId: number): Promise<PinnedMessage[]> => {
+  const pins = await db.select({
+    id: roomPinsTable.id,
+    room_id: roomPinsTable.room_id,
+    message_id: roomPinsTable.message_id,
+    pinned_by: roomPinsTable.pinned_by,
+    pinned_at: roomPinsTable.created_at
+  })
+    .from(roomPinsTable)
+    .innerJoin(messagesTable, eq(roomPinsTable.message_id, messagesTable.id))
+    .where(and(
+      eq(roomPinsTable.room_id, roomId),
+      eq(messagesTable.is_deleted, false)
+    ))
+    .orderBy(desc(roomPinsTable.id))
+    .execute();
+
+  if (pins.length === 0) {
+    return [];
+  }
+
+  const messages = await findMessagesWithAuthors({
+    where: inArray(messagesTable.id, pins.map(pin => pin.message_id))
+  });
+  const messagesById = new Map(messages.map(message => [message.id, message]));
+  const pinners = await getUserSummaries([...new Set(pins.map(pin => pin.pinned_by))]);
+  const pinnersById = new Map(pinners.map(user => [user.id, user]));
+
+  // Pins whose message or pinner is gone by the second query are left out
+  return pins.flatMap(pin => {
+    const message = messagesById.get(pin.message_id);
+    const pinnedBy = pinnersById.get(pin.pinned_by);
+    if (!message || !pinnedBy) {
+      return [];
+    }
+    return [{
+      id: pin.id,
+      room_id: pin.room_id,
+      message,
+      pinned_by: pinnedBy,
+      pinned_at: pin.pinned_at
+    }];
+  });
+};
+
+// Tell the room's subscribers which messages are pinned now
+export const publishPinsChanged = (roomId: number, pinned: PinnedMessage[]): void => {
+  publishRoomEvent(roomId, {
+    type: 'pins.changed',
+    room_id: roomId,
+    pinned_message_ids: pinned.map(pin => pin.message.id)
+  });
+};
@@ -0,0 +1,87 @@
+import { db } from '../db';
+import { messageMentionsTable, messagesTable, roomParticipantsTable } from '../db/schema';
+import { and, count, eq, gt, gte, inArray, isNull, ne, or, type SQL } from 'drizzle-orm';
+
+// Whether a message is past the participant's read position (both tables must be in the
+// query). Before their first read, messages posted since they joined count as unread.
+export const isUnreadMessage = (): SQL => {
+  const unread = and(
+    eq(messagesTable.room_id, roomParticipantsTable.room_id),
+    eq(messagesTable.is_deleted, false),
+    or(
+      gt(messagesTable.id, roomParticipantsTable.last_read_message_id),
+      and(
+        isNull(roomParticipantsTable.last_read_message_id),
+        gte(messagesTable.created_at, roomParticipantsTable.joined_at)
+      )
+    )
+  );
+  if (!unread) {
+    throw new Error('Unread message condition is empty');
+  }
+  return unread;
+};
+
+// Count the messages from others a user has not read in each of the given rooms they participate in
+export const getUnreadCounts = async (userId: number, roomIds: number[]): Promise<Map<number, number>> => {
+  const counts = new Map<number, number>();
+  if (roomIds.length === 0) {
+    return counts;
+  }
+
+  const results = await db.select({
+    room_id: roomParticipantsTable.room_id,
+    unread_count: count(messagesTable.id)
+  })
+    .from(roomParticipantsTable)
+    .leftJoin(messagesTable, and(
+      isUnreadMessage(),
+      ne(messagesTable.user_id, userId)
+    ))
+    .where(and(
+      eq(roomParticipantsTable.user_id, userId),
+      inArray(roomParticipantsTable.room_id, roomIds)
+    ))
+    .groupBy(roomParticipantsTable.room_id)
+    .execute();
+
+  for (const result of results) {
+    counts.set(result.room_id, result.unread_count);
+  }
+
+  return counts;
+};
+
+// Count the unread messages mentioning a user in each of the given rooms they participate in
+export const getUnreadMentionCounts = async (userId: number, roomIds: number[]): Promise<Map<number, number>> => {
+  const counts = new Map<number, number>();
+  if (roomIds.length === 0) {
+    return counts;
+  }
+
+  const results = await db.select({
+    room_id: roomParticipantsTable.room_id,
+    unread_mention_count: count(messagesTable.id)
+  })
+    .from(roomParticipantsTable)
+    .leftJoin(messageMentionsTable, and(
+      eq(messageMentionsTable.room_id, roomParticipantsTable.room_id),
+      eq(messageMentionsTable.mentioned_user_id, roomParticipantsTable.user_id)
+    ))
+    .leftJoin(messagesTable, and(
+      eq(messagesTable.id, messageMentionsTable.message_id),
+      isUnreadMessage()
+    ))
+    .where(and(
+      eq(roomParticipantsTable.user_id, userId),
+      inArray(roomParticipantsTable.room_id, roomIds)
+    ))
+    .groupBy(roomParticipantsTable.room_id)
+    .execute();
+
+  for (const result of results) {
+    counts.set(result.room_id, result.unread_mention_count);
+  }
+
+  return counts;
+};
@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { roomsTable, roomParticipantsTable } from '../db/schema';
+import { type Room, type RoomParticipant } from '../schema';
+import { eq, and } from 'drizzle-orm';
+
+// Look up a user's participation in a room
+export const getRoomParticipant = async (roomId: number, userId: number): Promise<RoomParticipant | null> => {
+  const participation = await db.select()
+    .from(roomParticipantsTable)
+    .where(and(
+      eq(roomParticipantsTable.room_id, roomId),
+      eq(roomParticipantsTable.user_id, userId)
+    ))
+    .limit(1)
+    .execute();
+
+  return participation[0] ?? null;
+};
+
+// Same as getRoomParticipant, but non-participants are rejected
+export const requireRoomParticipant = async (roomId: number, userId: number): Promise<RoomParticipant> => {
+  const participant = await getRoomParticipant(roomId, userId);
+  if (!participant) {
+    throw new Error('User is not a participant in this room');
+  }
+  return participant;
+};
+
+// Room moderators and admins may moderate other participants' messages
+export const isRoomModerator = (participant: RoomParticipant | null): boolean => {
+  return participant !== null && (participant.participant_role === 'moderator' || participant.participant_role === 'admin');
+};
+
+// Archived rooms keep their history but nothing in them can change any more
+export const requireActiveRoom = async (roomId: number): Promise<Room> => {
+  const rooms = await db.select()
+    .from(roomsTable)
+    .where(eq(roomsTable.id, roomId))
+    .limit(1)
+    .execute();
+
+  if (rooms.length === 0) {
+    throw new Error('Room not found');
+  }
+
+  if (!rooms[0].is_active) {
+    throw new Error('Room is archived and read-only');
+  }
+
+  return rooms[0];
+};
+
+// The room's owner and its admins manage the room itself (settings, archiving, deletion)
+export const requireRoomManager = async (roomId: number, userId: number): Promise<Room> => {
+  const rooms = await db.select()
+    .from(roomsTable)
+    .where(eq(roomsTable.id, roomId))
+    .limit(1)
+    .execute();
+
+  if (rooms.length === 0) {
+    throw new Error('Room not found');
+  }
+
+  const room = rooms[0];
+  if (room.is_direct) {
+    throw new Error('Direct conversations cannot be managed');
+  }
+
+  const participant = await getRoomParticipant(roomId, userId);
+  if (room.owner_id !== userId && participant?.participant_role !== 'admin') {
+    throw new Error('Only the room owner or room admins can manage this room');
+  }
+
+  return room;
+};
+
+// Anyone may read public and premium rooms; private rooms only their participants
+export const requireRoomReadAccess = async (roomId: number, userId: number): Promise<void> => {
+  const roomAccess = await db.select({
+    room_type: roomsTable.room_type,
+    participant_id: roomParticipantsTable.id
+  })
+    .from(roomsTable)
+    .leftJoin(roomParticipantsTable, and(
+      eq(roomParticipantsTable.room_id, roomsTable.id),
+      eq(roomParticipantsTable.user_id, userId)
+    ))
+    .where(eq(roomsTable.id, roomId))
+    .execute();
+
+  if (roomAccess.length === 0) {
+    throw new Error('Room not found');
+  }
+
+  if (roomAccess[0].room_type === 'private' && !roomAccess[0].participant_id) {
+    throw new Error('Access denied: User is not a member of this private room');
+  }
+};
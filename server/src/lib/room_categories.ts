@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { roomCategoriesTable } from '../db/schema';
+import { type RoomCategory } from '../schema';
+import { and, eq, ne, sql } from 'drizzle-orm';
+
+// Rooms may only be filed under categories that exist
+export const requireRoomCategory = async (categoryId: number): Promise<RoomCategory> => {
+  const categories = await db.select()
+    .from(roomCategoriesTable)
+    .where(eq(roomCategoriesTable.id, categoryId))
+    .limit(1)
+    .execute();
+
+  if (categories.length === 0) {
+    throw new Error('Room category not found');
+  }
+
+  return categories[0];
+};
+
+// Category names are unique regardless of case; exceptId skips the category being renamed
+export const requireUniqueCategoryName = async (name: string, exceptId?: number): Promise<void> => {
+  const existing = await db.select({ id: roomCategoriesTable.id })
+    .from(roomCategoriesTable)
+    .where(and(
+      eq(sql`lower(${roomCategoriesTable.name})`, name.toLowerCase()),
+      exceptId === undefined ? undefined : ne(roomCategoriesTable.id, exceptId)
+    ))
+    .limit(1)
+    .execute();
+
+  if (existing.length > 0) {
+    throw new Error('A room category with this name already exists');
+  }
+};
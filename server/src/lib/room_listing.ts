@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { roomParticipantsTable, roomInvitesTable } from '../db/schema';
+import { type Room, type RoomParticipant, type RoomWithUnread } from '../schema';
+import { getUnreadCounts, getUnreadMentionCounts } from './read_state';
+import { isUsableInvite } from './invites';
+import { and, eq } from 'drizzle-orm';
+
+export type Participation = Pick<RoomParticipant, 'last_read_message_id' | 'participant_role'>;
+
+export interface RoomMemberships {
+  // Keyed by room id
+  participations: Map<number, Participation>;
+  // Private rooms the user has a pending invite to, so they can find and join them
+  invitedRoomIds: number[];
+}
+
+// What room listings need to know about the user: where they participate and where they are invited
+export const getRoomMemberships = async (userId: number): Promise<RoomMemberships> => {
+  const participantRooms = await db.select({
+    room_id: roomParticipantsTable.room_id,
+    last_read_message_id: roomParticipantsTable.last_read_message_id,
+    participant_role: roomParticipantsTable.participant_role
+  })
+    .from(roomParticipantsTable)
+    .where(eq(roomParticipantsTable.user_id, userId))
+    .execute();
+
+  const invitedRooms = await db.select({ room_id: roomInvitesTable.room_id })
+    .from(roomInvitesTable)
+    .where(and(
+      eq(roomInvitesTable.invitee_id, userId),
+      isUsableInvite()
+    ))
+    .execute();
+
+  return {
+    participations: new Map(participantRooms.map(({ room_id, ...participation }) => [room_id, participation])),
+    invitedRoomIds: invitedRooms.map(invite => invite.room_id)
+  };
+};
+
+// Attach the user's role, read position, unread count and unread mentions of each room they participate in
+export const withReadState = async <T extends Room>(rooms: T[], userId: number, participations: Map<number, Participation>): Promise<(T & RoomWithUnread)[]> => {
+  const joinedRoomIds = rooms.filter(room => participations.has(room.id)).map(room => room.id);
+  const unreadCounts = await getUnreadCounts(userId, joinedRoomIds);
+  const unreadMentionCounts = await getUnreadMentionCounts(userId, joinedRoomIds);
+
+  return rooms.map(room => ({
+    ...room,
+    participant_role: participations.get(room.id)?.participant_role ?? null,
+    last_read_message_id: participations.get(room.id)?.last_read_message_id ?? null,
+    unread_count: unreadCounts.get(room.id) ?? 0,
+    unread_mention_count: unreadMentionCounts.get(room.id) ?? 0
+  }));
+};
+
+// Visitors and rooms the user has not joined have no read state
+export const withoutReadState = <T extends Room>(room: T): T & RoomWithUnread => ({
+  ...room,
+  participant_role: null,
+  last_read_message_id: null,
+  unread_count: 0,
+  unread_mention_count: 0
+});
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { siteSettingsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Read a site setting converted according to its setting_type; missing or
+// unparseable settings yield the fallback
+export const getSiteSettingValue = async <T>(key: string, fallback: T): Promise<T> => {
+  const results = await db.select()
+    .from(siteSettingsTable)
+    .where(eq(siteSettingsTable.setting_key, key))
+    .limit(1)
+    .execute();
+
+  if (results.length === 0) {
+    return fallback;
+  }
+
+  const { setting_value, setting_type } = results[0];
+  try {
+    switch (setting_type) {
+      case 'number': {
+        const value = Number(setting_value);
+        return (Number.isFinite(value) ? value : fallback) as T;
+      }
+      case 'boolean':
+        return (setting_value === 'true') as T;
+      case 'json':
+        return JSON.parse(setting_value) as T;
+      default:
+        return setting_value as T;
+    }
+  } catch {
+    return fallback;
+  }
+};
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type CurrentUser, type User, type UserSummary } from '../schema';
+import { inArray, asc } from 'drizzle-orm';
+
+// Load the public profiles of the given users, ordered by username
+export const getUserSummaries = async (userIds: number[]): Promise<UserSummary[]> => {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  return db.select({
+    id: usersTable.id,
+    username: usersTable.username,
+    display_name: usersTable.display_name,
+    avatar_url: usersTable.avatar_url
+  })
+    .from(usersTable)
+    .where(inArray(usersTable.id, userIds))
+    .orderBy(asc(usersTable.username))
+    .execute();
+};
+
+// Drop the columns that must never reach a client
+export const toCurrentUser = ({ password_hash: _passwordHash, ...user }: User): CurrentUser => user;
+
+// How a user is named in generated text such as system messages
+export const getDisplayName = (user: Pick<UserSummary, 'username' | 'display_name'>): string =>
+  user.display_name || user.username;
@@ -0,0 +1,17 @@
+import { publishRoomEvent } from './room_events';
+import { removeUserPresence, publishPresenceChange } from './presence';
+import { stopTyping, publishTypingChange } from './typing';
+
+// Cut a user who is no longer a participant off from the room's realtime channels: their
+// open subscriptions end, they drop off the online list and their typing indicator clears
+export const disconnectParticipant = async (roomId: number, userId: number): Promise<void> => {
+  publishRoomEvent(roomId, { type: 'participant.removed', room_id: roomId, user_id: userId });
+
+  if (removeUserPresence(roomId, userId)) {
+    publishPresenceChange(roomId);
+  }
+
+  if (stopTyping(roomId, userId)) {
+    await publishTypingChange(roomId);
+  }
+};
@@ -0,0 +1,94 @@
+import { publishRoomEvent } from './room_events';
+
+// In-memory presence registry: which sessions are currently viewing which rooms.
+// Clients send a heartbeat per session; sessions that stop heartbeating time out.
+
+// A session counts as online for this long after its last heartbeat
+export const PRESENCE_TIMEOUT_MS = 45_000;
+
+// How often expired sessions are swept
+const PRESENCE_SWEEP_INTERVAL_MS = 15_000;
+
+interface PresenceSession {
+  roomId: number;
+  userId: number;
+  lastHeartbeatAt: number;
+}
+
+const sessions = new Map<string, PresenceSession>();
+
+const sessionKey = (roomId: number, sessionId: string): string => `${roomId}:${sessionId}`;
+
+export const getOnlineUserIds = (roomId: number): number[] => {
+  const userIds = new Set<number>();
+  for (const session of sessions.values()) {
+    if (session.roomId === roomId) {
+      userIds.add(session.userId);
+    }
+  }
+  return [...userIds];
+};
+
+// Record a heartbeat; returns true when the user just came online in the room
+export const touchPresence = (roomId: number, userId: number, sessionId: string, now: number = Date.now()): boolean => {
+  const wasOnline = getOnlineUserIds(roomId).includes(userId);
+  sessions.set(sessionKey(roomId, sessionId), { roomId, userId, lastHeartbeatAt: now });
+  return !wasOnline;
+};
+
+// Drop a session; returns true when its user has no other session left in the room
+export const removePresence = (roomId: number, userId: number, sessionId: string): boolean => {
+  const key = sessionKey(roomId, sessionId);
+  const session = sessions.get(key);
+  if (!session || session.userId !== userId) {
+    return false;
+  }
+  sessions.delete(key);
+  return !getOnlineUserIds(roomId).includes(userId);
+};
+
+// Drop every session of a user who is no longer a participant; returns true when they were online
+export const removeUserPresence = (roomId: number, userId: number): boolean => {
+  let removed = false;
+  for (const [key, session] of sessions) {
+    if (session.roomId === roomId && session.userId === userId) {
+      sessions.delete(key);
+      removed = true;
+    }
+  }
+  return removed;
+};
+
+// Expire stale sessions; returns the rooms whose online users changed
+export const sweepExpiredPresence = (now: number = Date.now()): number[] => {
+  const changedRooms = new Set<number>();
+  for (const [key, session] of sessions) {
+    if (now - session.lastHeartbeatAt > PRESENCE_TIMEOUT_MS) {
+      sessions.delete(key);
+      if (!getOnlineUserIds(session.roomId).includes(session.userId)) {
+        changedRooms.add(session.roomId);
+      }
+    }
+  }
+  return [...changedRooms];
+};
+
+// Forget every session (tests start from a clean registry)
+export const clearPresence = (): void => {
+  sessions.clear();
+};
+
+// Tell room subscribers who is online now
+export const publishPresenceChange = (roomId: number): void => {
+  publishRoomEvent(roomId, {
+    type: 'presence.changed',
+    room_id: roomId,
+    online_user_ids: getOnlineUserIds(roomId)
+  });
+};
+
+export const startPresenceSweeper = (): ReturnType<typeof setInterval> => {
+  return setInterval(() => {
+    sweepExpiredPresence().forEach(publishPresenceChange);
+  }, PRESENCE_SWEEP_INTERVAL_MS);
+};
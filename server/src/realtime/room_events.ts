@@ -0,0 +1,39 @@
+import { EventEmitter, on } from 'events';
+import { type RoomEvent } from '../schema';
+
+// In-process bus carrying realtime events to the subscribers of each room
+const emitter = new EventEmitter();
+
+// Every open subscription adds a listener; there is no meaningful upper bound
+emitter.setMaxListeners(0);
+
+const roomChannel = (roomId: number): string => `room:${roomId}`;
+
+export const publishRoomEvent = (roomId: number, event: RoomEvent): void => {
+  emitter.emit(roomChannel(roomId), event);
+};
+
+// Yields events published to a room until the signal aborts. The listener is attached as
+// soon as this is called, not on the first next(), so a caller can read a snapshot after
+// subscribing without missing the events published in between; those are buffered
+export function listenToRoom(roomId: number, signal?: AbortSignal): AsyncGenerator<RoomEvent> {
+  const events = signal?.aborted ? null : on(emitter, roomChannel(roomId), { signal });
+
+  return (async function* () {
+    if (!events) {
+      return;
+    }
+
+    try {
+      for await (const [event] of events) {
+        yield event as RoomEvent;
+      }
+    } catch (error) {
+      // Aborting the signal is how subscribers stop listening
+      if (signal?.aborted) {
+        return;
+      }
+      throw error;
+    }
+  })();
+}
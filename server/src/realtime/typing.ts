@@ -0,0 +1,67 @@
+import { publishRoomEvent } from './room_events';
+import { getUserSummaries } from '../lib/users';
+
+// In-memory typing registry. Typing state is ephemeral: it is broadcast to room
+// subscribers but never stored, and expires unless the client keeps refreshing it.
+
+// A user stops counting as typing this long after their last setTyping call
+export const TYPING_TIMEOUT_MS = 5_000;
+
+// Pending expiry timer per "<roomId>:<userId>"
+const typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const typingKey = (roomId: number, userId: number): string => `${roomId}:${userId}`;
+
+export const getTypingUserIds = (roomId: number): number[] => {
+  const prefix = `${roomId}:`;
+  return [...typingTimers.keys()]
+    .filter(key => key.startsWith(prefix))
+    .map(key => Number(key.slice(prefix.length)));
+};
+
+// Tell room subscribers who is typing now
+export const publishTypingChange = async (roomId: number): Promise<void> => {
+  const users = await getUserSummaries(getTypingUserIds(roomId));
+  publishRoomEvent(roomId, {
+    type: 'typing.changed',
+    room_id: roomId,
+    typing_users: users
+  });
+};
+
+// Mark a user as typing, or refresh their expiry; returns true when they just started.
+// Repeated calls while already typing only push the expiry back, so keystrokes are not rebroadcast.
+export const startTyping = (roomId: number, userId: number, timeoutMs: number = TYPING_TIMEOUT_MS): boolean => {
+  const key = typingKey(roomId, userId);
+  const existing = typingTimers.get(key);
+  if (existing) {
+    clearTimeout(existing);
+  }
+
+  typingTimers.set(key, setTimeout(() => {
+    typingTimers.delete(key);
+    publishTypingChange(roomId).catch((error) => {
+      console.error('Typing expiry broadcast failed:', error);
+    });
+  }, timeoutMs));
+
+  return !existing;
+};
+
+// Clear a user's typing state; returns true when they were typing
+export const stopTyping = (roomId: number, userId: number): boolean => {
+  const key = typingKey(roomId, userId);
+  const existing = typingTimers.get(key);
+  if (!existing) {
+    return false;
+  }
+  clearTimeout(existing);
+  typingTimers.delete(key);
+  return true;
+};
+
+// Forget all typing state (tests start from a clean registry)
+export const clearTyping = (): void => {
+  typingTimers.forEach(timer => clearTimeout(timer));
+  typingTimers.clear();
+};
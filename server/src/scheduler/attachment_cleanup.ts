@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { attachmentsTable } from '../db/schema';
+import { getStorageDriver } from '../storage/driver';
+import { and, asc, eq, isNull, lt } from 'drizzle-orm';
+
+// Uploads are sent with a message shortly after; those still unsent after this long were
+// abandoned (the composer was cleared, the tab closed, ...)
+export const UNSENT_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How often abandoned uploads are looked for
+export const ATTACHMENT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Uploads removed per pass
+const CLEANUP_BATCH_SIZE = 100;
+
+// Delete uploads that were never sent with a message, rows first so no attachment ever
+// points at missing bytes. Returns the number of uploads removed.
+export const deleteAbandonedUploads = async (now: Date = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - UNSENT_UPLOAD_TTL_MS);
+
+  const abandoned = await db.select({ id: attachmentsTable.id })
+    .from(attachmentsTable)
+    .where(and(
+      isNull(attachmentsTable.message_id),
+      lt(attachmentsTable.created_at, cutoff)
+    ))
+    .orderBy(asc(attachmentsTable.id))
+    .limit(CLEANUP_BATCH_SIZE)
+    .execute();
+
+  const storage = getStorageDriver();
+  let removed = 0;
+  for (const { id } of abandoned) {
+    // Skipped when it was sent with a message since it was selected
+    const deleted = await db.delete(attachmentsTable)
+      .where(and(
+        eq(attachmentsTable.id, id),
+        isNull(attachmentsTable.message_id)
+      ))
+      .returning()
+      .execute();
+
+    if (deleted.length === 0) {
+      continue;
+    }
+
+    await storage.delete(deleted[0].storage_key);
+    removed++;
+  }
+
+  return removed;
+};
+
+export const startAttachmentCleanup = (): ReturnType<typeof setInterval> => {
+  const cleanup = async () => {
+    try {
+      await deleteAbandonedUploads();
+    } catch (error) {
+      console.error('Abandoned upload cleanup failed:', error);
+    }
+  };
+
+  cleanup();
+  return setInterval(cleanup, ATTACHMENT_CLEANUP_INTERVAL_MS);
+};
@@ -0,0 +1,98 @@
+import { db } from '../db';
+import { scheduledMessagesTable } from '../db/schema';
+import { sendMessage } from '../handlers/send_message';
+import { and, asc, eq, lte } from 'drizzle-orm';
+
+// How often the scheduler looks for messages that have fallen due
+export const SCHEDULER_INTERVAL_MS = 5_000;
+
+// Messages delivered per pass, so a backlog after downtime is worked off in batches
+const DELIVERY_BATCH_SIZE = 50;
+
+// Deliver pending messages due by `now` through sendMessage, so they pass the same checks as
+// messages sent live (active room, membership, mutes). Each message is claimed before it is
+// sent so it is delivered once; refused deliveries are kept as failed with the reason.
+// Returns the number of messages handled.
+export const deliverDueScheduledMessages = async (now: Date = new Date()): Promise<number> => {
+  const due = await db.select({ id: scheduledMessagesTable.id })
+    .from(scheduledMessagesTable)
+    .where(and(
+      eq(scheduledMessagesTable.status, 'pending'),
+      lte(scheduledMessagesTable.send_at, now)
+    ))
+    .orderBy(asc(scheduledMessagesTable.send_at), asc(scheduledMessagesTable.id))
+    .limit(DELIVERY_BATCH_SIZE)
+    .execute();
+
+  let handled = 0;
+  for (const { id } of due) {
+    const claimed = await db.update(scheduledMessagesTable)
+      .set({ status: 'sending', updated_at: new Date() })
+      .where(and(
+        eq(scheduledMessagesTable.id, id),
+        eq(scheduledMessagesTable.status, 'pending')
+      ))
+      .returning()
+      .execute();
+
+    // Cancelled since it was selected
+    if (claimed.length === 0) {
+      continue;
+    }
+
+    const scheduled = claimed[0];
+    try {
+      const message = await sendMessage({ room_id: scheduled.room_id, content: scheduled.content }, scheduled.user_id);
+      await db.update(scheduledMessagesTable)
+        .set({ status: 'sent', message_id: message.id, updated_at: new Date() })
+        .where(eq(scheduledMessagesTable.id, scheduled.id))
+        .execute();
+    } catch (error) {
+      await db.update(scheduledMessagesTable)
+        .set({
+          status: 'failed',
+          failure_reason: error instanceof Error ? error.message : 'Delivery failed',
+          updated_at: new Date()
+        })
+        .where(eq(scheduledMessagesTable.id, scheduled.id))
+        .execute();
+    }
+    handled++;
+  }
+
+  return handled;
+};
+
+// Deliveries cut off by a restart go back to the queue and are retried
+export const requeueInterruptedDeliveries = async (): Promise<number> => {
+  const requeued = await db.update(scheduledMessagesTable)
+    .set({ status: 'pending', updated_at: new Date() })
+    .where(eq(scheduledMessagesTable.status, 'sending'))
+    .returning({ id: scheduledMessagesTable.id })
+    .execute();
+
+  return requeued.length;
+};
+
+// Scheduled messages live in the database, so on startup the scheduler picks up where it
+// left off, first delivering whatever fell due while the server was down
+export const startMessageScheduler = async (): Promise<ReturnType<typeof setInterval>> => {
+  await requeueInterruptedDeliveries();
+
+  let isDelivering = false;
+  const deliver = async () => {
+    // A slow pass must not overlap the next one
+    if (isDelivering) return;
+    isDelivering = true;
+    try {
+      await deliverDueScheduledMessages();
+    } catch (error) {
+      console.error('Scheduled message delivery failed:', error);
+    } finally {
+      isDelivering = false;
+    }
+  };
+
+  deliver();
+  return setInterval(deliver, SCHEDULER_INTERVAL_MS);
+};
@@ -21,6 +21,21 @@ export const userSchema = z.object({
 
 export type User = z.infer<typeof userSchema>;
 
+// The signed-in user's own account as sent to the client; the password hash stays on the server
+export const currentUserSchema = userSchema.omit({ password_hash: true });
+
+export type CurrentUser = z.infer<typeof currentUserSchema>;
+
+// Public profile fields of a user, safe to show to other users
+export const userSummarySchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  display_name: z.string().nullable(),
+  avatar_url: z.string().nullable()
+});
+
+export type UserSummary = z.infer<typeof userSummarySchema>;
+
 // Role schema for access control
 export const roleSchema = z.object({
   id: z.number(),
@@ -33,6 +48,26 @@ export const roleSchema = z.object({
 
 export type Role = z.infer<typeof roleSchema>;
 
+// Permission catalogue entry that roles can grant
+export const permissionInfoSchema = z.object({
+  key: z.string(),
+  description: z.string()
+});
+
+export type PermissionInfo = z.infer<typeof permissionInfoSchema>;
+
+// Room category schema
+export const roomCategorySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  position: z.number().int(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type RoomCategory = z.infer<typeof roomCategorySchema>;
+
 // Chat room schema
 export const roomSchema = z.object({
   id: z.number(),
@@ -42,13 +77,53 @@ export const roomSchema = z.object({
   max_participants: z.number().int().nullable(),
   gold_cost: z.number().int().nonnegative().nullable(),
   owner_id: z.number(),
+  category_id: z.number().nullable(),
+  tags: z.array(z.string()),
   is_active: z.boolean(),
+  is_direct: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Room = z.infer<typeof roomSchema>;
 
+// Rooms as listed for a user, with their role in the room, read position (null until
+// they read the room), unread count and unread mentions of the user; all stay empty for
+// rooms the user has not joined
+export const roomWithUnreadSchema = roomSchema.extend({
+  participant_role: z.enum(['member', 'moderator', 'admin']).nullable(),
+  last_read_message_id: z.number().nullable(),
+  unread_count: z.number().int().nonnegative(),
+  unread_mention_count: z.number().int().nonnegative()
+});
+
+export type RoomWithUnread = z.infer<typeof roomWithUnreadSchema>;
+
+// Rooms found through discovery, with how many people are in them and when the last
+// message was posted (null for rooms without messages)
+export const discoveredRoomSchema = roomWithUnreadSchema.extend({
+  participant_count: z.number().int().nonnegative(),
+  last_message_at: z.coerce.date().nullable()
+});
+
+export type DiscoveredRoom = z.infer<typeof discoveredRoomSchema>;
+
+// One page of discovery results; total counts every matching room
+export const roomDiscoveryPageSchema = z.object({
+  rooms: z.array(discoveredRoomSchema),
+  total: z.number().int().nonnegative()
+});
+
+export type RoomDiscoveryPage = z.infer<typeof roomDiscoveryPageSchema>;
+
+// A direct conversation as listed for one of its two participants
+export const directConversationSchema = z.object({
+  room: roomWithUnreadSchema,
+  other_user: userSummarySchema
+});
+
+export type DirectConversation = z.infer<typeof directConversationSchema>;
+
 // Message schema for real-time messaging
 export const messageSchema = z.object({
   id: z.number(),
@@ -65,6 +140,176 @@ export const messageSchema = z.object({
 
 export type Message = z.infer<typeof messageSchema>;
 
+// A message together with its author's public profile, role in the room
+// (null once the author has left the room), number of replies, reactions, attachments
+// and the users it mentions
+export const messageAuthorSchema = userSummarySchema.extend({
+  participant_role: z.enum(['member', 'moderator', 'admin']).nullable()
+});
+
+export type MessageAuthor = z.infer<typeof messageAuthorSchema>;
+
+// Reactions to a message grouped by emoji
+export const reactionSummarySchema = z.object({
+  emoji: z.string(),
+  count: z.number().int().positive(),
+  user_ids: z.array(z.number())
+});
+
+export type ReactionSummary = z.infer<typeof reactionSummarySchema>;
+
+// A file uploaded to a room; download_path is relative to the API root and signed,
+// so it works without a session header (e.g. in <img src>) until it expires
+export const attachmentSchema = z.object({
+  id: z.number(),
+  message_id: z.number().nullable(),
+  room_id: z.number(),
+  uploader_id: z.number(),
+  file_name: z.string(),
+  mime_type: z.string(),
+  size_bytes: z.number().int(),
+  download_path: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Attachment = z.infer<typeof attachmentSchema>;
+
+export const messageWithAuthorSchema = messageSchema.extend({
+  author: messageAuthorSchema,
+  reply_count: z.number().int().nonnegative(),
+  reactions: z.array(reactionSummarySchema),
+  attachments: z.array(attachmentSchema),
+  mentioned_user_ids: z.array(z.number())
+});
+
+export type MessageWithAuthor = z.infer<typeof messageWithAuthorSchema>;
+
+// A message and its direct replies, oldest reply first
+export const messageThreadSchema = z.object({
+  root: messageWithAuthorSchema,
+  replies: z.array(messageWithAuthorSchema),
+  reply_count: z.number().int().nonnegative()
+});
+
+export type MessageThread = z.infer<typeof messageThreadSchema>;
+
+// A message that mentioned the current user; read once their read position in the room passes it
+export const mentionSchema = z.object({
+  id: z.number(),
+  message: messageWithAuthorSchema,
+  room_name: z.string(),
+  is_read: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type Mention = z.infer<typeof mentionSchema>;
+
+// Part of a search result snippet; highlighted parts matched the search terms
+export const highlightSegmentSchema = z.object({
+  text: z.string(),
+  highlighted: z.boolean()
+});
+
+export type HighlightSegment = z.infer<typeof highlightSegmentSchema>;
+
+// A message matching a full-text search, with the room it was posted in
+export const messageSearchResultSchema = z.object({
+  message: messageWithAuthorSchema,
+  room_name: z.string(),
+  snippet: z.array(highlightSegmentSchema)
+});
+
+export type MessageSearchResult = z.infer<typeof messageSearchResultSchema>;
+
+// Previous content of an edited message
+export const messageRevisionSchema = z.object({
+  id: z.number(),
+  message_id: z.number(),
+  content: z.string(),
+  edited_by: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type MessageRevision = z.infer<typeof messageRevisionSchema>;
+
+// A message pinned in its room, with the moderator who pinned it
+export const pinnedMessageSchema = z.object({
+  id: z.number(),
+  room_id: z.number(),
+  message: messageWithAuthorSchema,
+  pinned_by: userSummarySchema,
+  pinned_at: z.coerce.date()
+});
+
+export type PinnedMessage = z.infer<typeof pinnedMessageSchema>;
+
+// A message waiting to be delivered at send_at, or the outcome of its delivery
+export const scheduledMessageSchema = z.object({
+  id: z.number(),
+  room_id: z.number(),
+  user_id: z.number(),
+  content: z.string(),
+  send_at: z.coerce.date(),
+  status: z.enum(['pending', 'sending', 'sent', 'failed', 'cancelled']),
+  message_id: z.number().nullable(),
+  failure_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ScheduledMessage = z.infer<typeof scheduledMessageSchema>;
+
+// Realtime events pushed to the subscribers of a room
+export const roomEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('message.created'),
+    message: messageWithAuthorSchema
+  }),
+  z.object({
+    type: z.literal('message.updated'),
+    message: messageWithAuthorSchema
+  }),
+  z.object({
+    type: z.literal('message.deleted'),
+    room_id: z.number(),
+    message_id: z.number()
+  }),
+  z.object({
+    type: z.literal('reactions.changed'),
+    room_id: z.number(),
+    message_id: z.number(),
+    reactions: z.array(reactionSummarySchema)
+  }),
+  z.object({
+    // The user left or was kicked or banned; their own subscriptions end with this event
+    type: z.literal('participant.removed'),
+    room_id: z.number(),
+    user_id: z.number()
+  }),
+  z.object({
+    // The room no longer exists; every subscription to it ends with this event
+    type: z.literal('room.deleted'),
+    room_id: z.number()
+  }),
+  z.object({
+    type: z.literal('pins.changed'),
+    room_id: z.number(),
+    pinned_message_ids: z.array(z.number())
+  }),
+  z.object({
+    type: z.literal('presence.changed'),
+    room_id: z.number(),
+    online_user_ids: z.array(z.number())
+  }),
+  z.object({
+    type: z.literal('typing.changed'),
+    room_id: z.number(),
+    typing_users: z.array(userSummarySchema)
+  })
+]);
+
+export type RoomEvent = z.infer<typeof roomEventSchema>;
+
 // Room participant schema for managing room members
 export const roomParticipantSchema = z.object({
   id: z.number(),
@@ -72,11 +317,83 @@ export const roomParticipantSchema = z.object({
   user_id: z.number(),
   participant_role: z.enum(['member', 'moderator', 'admin']),
   joined_at: z.coerce.date(),
-  last_seen_at: z.coerce.date().nullable()
+  last_seen_at: z.coerce.date().nullable(),
+  last_read_message_id: z.number().nullable(),
+  is_muted: z.boolean(),
+  muted_until: z.coerce.date().nullable()
 });
 
 export type RoomParticipant = z.infer<typeof roomParticipantSchema>;
 
+// A participant as listed in a room's member list, with their public profile
+export const roomMemberSchema = z.object({
+  user: userSummarySchema,
+  participant_role: z.enum(['member', 'moderator', 'admin']),
+  is_owner: z.boolean(),
+  is_muted: z.boolean(),
+  muted_until: z.coerce.date().nullable(),
+  joined_at: z.coerce.date(),
+  last_seen_at: z.coerce.date().nullable()
+});
+
+export type RoomMember = z.infer<typeof roomMemberSchema>;
+
+// Room ban schema; bans without expires_at last until lifted
+export const roomBanSchema = z.object({
+  id: z.number(),
+  room_id: z.number(),
+  user_id: z.number(),
+  banned_by: z.number(),
+  reason: z.string().nullable(),
+  expires_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type RoomBan = z.infer<typeof roomBanSchema>;
+
+// Room invite schema; invites with an invitee_id are only usable by that user
+export const roomInviteSchema = z.object({
+  id: z.number(),
+  room_id: z.number(),
+  created_by: z.number(),
+  invitee_id: z.number().nullable(),
+  code: z.string(),
+  max_uses: z.number().int().nullable(),
+  use_count: z.number().int(),
+  expires_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type RoomInvite = z.infer<typeof roomInviteSchema>;
+
+// Invite as listed for room moderators, with the invited user's profile
+export const roomInviteWithInviteeSchema = roomInviteSchema.extend({
+  invitee: userSummarySchema.nullable()
+});
+
+export type RoomInviteWithInvitee = z.infer<typeof roomInviteWithInviteeSchema>;
+
+// A participant's read position in a room and how many messages from others (and
+// mentions of the participant) follow it
+export const roomReadStateSchema = z.object({
+  room_id: z.number(),
+  last_read_message_id: z.number().nullable(),
+  unread_count: z.number().int().nonnegative(),
+  unread_mention_count: z.number().int().nonnegative()
+});
+
+export type RoomReadState = z.infer<typeof roomReadStateSchema>;
+
+// Users currently online in a room
+export const roomPresenceSchema = z.object({
+  room_id: z.number(),
+  online_count: z.number().int().nonnegative(),
+  users: z.array(userSummarySchema)
+});
+
+export type RoomPresence = z.infer<typeof roomPresenceSchema>;
+
 // Email template schema for system communications
 export const emailTemplateSchema = z.object({
   id: z.number(),
@@ -138,34 +455,335 @@ export const loginUserInputSchema = z.object({
 
 export type LoginUserInput = z.infer<typeof loginUserInputSchema>;
 
+// Login result carrying the signed session token for subsequent requests
+export const loginResultSchema = z.object({
+  user: currentUserSchema,
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type LoginResult = z.infer<typeof loginResultSchema>;
+
+// Tags are short lowercase words (letters, digits, dashes); duplicates are dropped
+const roomTagsSchema = z.array(
+  z.string().trim().toLowerCase().regex(/^[\p{L}\p{N}-]{1,30}$/u, 'Tags may only contain letters, digits and dashes (up to 30 characters)')
+)
+  .max(10)
+  .transform(tags => [...new Set(tags)]);
+
 // Input schemas for room creation
 export const createRoomInputSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().nullable().optional(),
   room_type: z.enum(['public', 'private', 'premium']),
   max_participants: z.number().int().positive().optional(),
-  gold_cost: z.number().int().nonnegative().optional()
+  gold_cost: z.number().int().nonnegative().optional(),
+  category_id: z.number().nullable().optional(),
+  tags: roomTagsSchema.optional()
 });
 
 export type CreateRoomInput = z.infer<typeof createRoomInputSchema>;
 
+// Change a room's settings; omitted fields keep their value. A null max_participants
+// removes the limit. Only premium rooms have a gold cost, which moving to another type clears.
+export const updateRoomInputSchema = z.object({
+  room_id: z.number(),
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().nullable().optional(),
+  room_type: z.enum(['public', 'private', 'premium']).optional(),
+  max_participants: z.number().int().min(2).nullable().optional(),
+  gold_cost: z.number().int().nonnegative().nullable().optional(),
+  category_id: z.number().nullable().optional(),
+  tags: roomTagsSchema.optional()
+});
+
+export type UpdateRoomInput = z.infer<typeof updateRoomInputSchema>;
+
+// Archiving keeps a room's history readable but stops all changes to it
+export const archiveRoomInputSchema = z.object({
+  room_id: z.number()
+});
+
+export type ArchiveRoomInput = z.infer<typeof archiveRoomInputSchema>;
+
+export const deleteRoomInputSchema = z.object({
+  room_id: z.number()
+});
+
+export type DeleteRoomInput = z.infer<typeof deleteRoomInputSchema>;
+
+// Search the rooms a user can join. The query matches names and descriptions; rooms
+// without a gold cost count as costing 0. "activity" sorts by the latest message, falling
+// back to when the room was created.
+export const discoverRoomsInputSchema = z.object({
+  query: z.string().trim().max(100).optional(),
+  room_type: z.enum(['public', 'private', 'premium']).optional(),
+  min_gold_cost: z.number().int().nonnegative().optional(),
+  max_gold_cost: z.number().int().nonnegative().optional(),
+  has_free_slots: z.boolean().optional(),
+  sort: z.enum(['activity', 'members', 'newest']).optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+  offset: z.number().int().nonnegative().optional()
+});
+
+export type DiscoverRoomsInput = z.infer<typeof discoverRoomsInputSchema>;
+
 // Input schemas for sending messages
 export const sendMessageInputSchema = z.object({
   room_id: z.number(),
   content: z.string().min(1),
   message_type: z.enum(['text', 'image', 'file']).optional(),
-  reply_to_id: z.number().optional()
+  reply_to_id: z.number().optional(),
+  // Uploads from uploadAttachment to attach to this message
+  attachment_ids: z.array(z.number()).max(10).optional()
 });
 
 export type SendMessageInput = z.infer<typeof sendMessageInputSchema>;
 
+// Input schemas for scheduled messages; send_at must be in the future
+export const scheduleMessageInputSchema = z.object({
+  room_id: z.number(),
+  content: z.string().min(1),
+  send_at: z.coerce.date()
+});
+
+export type ScheduleMessageInput = z.infer<typeof scheduleMessageInputSchema>;
+
+export const cancelScheduledMessageInputSchema = z.object({
+  scheduled_message_id: z.number()
+});
+
+export type CancelScheduledMessageInput = z.infer<typeof cancelScheduledMessageInputSchema>;
+
+// Without a room, scheduled messages from every room are listed
+export const getMyScheduledMessagesInputSchema = z.object({
+  room_id: z.number().optional()
+});
+
+export type GetMyScheduledMessagesInput = z.infer<typeof getMyScheduledMessagesInputSchema>;
+
+// Input schemas for editing and deleting messages
+export const editMessageInputSchema = z.object({
+  message_id: z.number(),
+  content: z.string().min(1)
+});
+
+export type EditMessageInput = z.infer<typeof editMessageInputSchema>;
+
+export const deleteMessageInputSchema = z.object({
+  message_id: z.number()
+});
+
+export type DeleteMessageInput = z.infer<typeof deleteMessageInputSchema>;
+
+// Input schema for adding or removing an emoji reaction
+export const reactionInputSchema = z.object({
+  message_id: z.number(),
+  emoji: z.string().trim().min(1).max(32)
+});
+
+export type ReactionInput = z.infer<typeof reactionInputSchema>;
+
+// Input schemas for pinning messages (room moderators and admins only)
+export const pinMessageInputSchema = z.object({
+  message_id: z.number()
+});
+
+export type PinMessageInput = z.infer<typeof pinMessageInputSchema>;
+
+export const getPinnedMessagesInputSchema = z.object({
+  room_id: z.number()
+});
+
+export type GetPinnedMessagesInput = z.infer<typeof getPinnedMessagesInputSchema>;
+
 // Input schemas for joining rooms
 export const joinRoomInputSchema = z.object({
-  room_id: z.number()
+  room_id: z.number(),
+  // Private rooms need an invite: either one addressed to the user or this code
+  invite_code: z.string().trim().min(1).optional()
 });
 
 export type JoinRoomInput = z.infer<typeof joinRoomInputSchema>;
 
+// Leave a room; owners must transfer ownership first
+export const leaveRoomInputSchema = z.object({
+  room_id: z.number()
+});
+
+export type LeaveRoomInput = z.infer<typeof leaveRoomInputSchema>;
+
+// Hand a room over to another participant, who becomes an admin
+export const transferRoomOwnershipInputSchema = z.object({
+  room_id: z.number(),
+  new_owner_id: z.number()
+});
+
+export type TransferRoomOwnershipInput = z.infer<typeof transferRoomOwnershipInputSchema>;
+
+export const getRoomParticipantsInputSchema = z.object({
+  room_id: z.number()
+});
+
+export type GetRoomParticipantsInput = z.infer<typeof getRoomParticipantsInputSchema>;
+
+// Room admins move other participants between roles
+export const setParticipantRoleInputSchema = z.object({
+  room_id: z.number(),
+  user_id: z.number(),
+  participant_role: z.enum(['member', 'moderator', 'admin'])
+});
+
+export type SetParticipantRoleInput = z.infer<typeof setParticipantRoleInputSchema>;
+
+// Moderation inputs; user_id is the participant (or, for bans, any user) being acted on
+export const kickParticipantInputSchema = z.object({
+  room_id: z.number(),
+  user_id: z.number()
+});
+
+export type KickParticipantInput = z.infer<typeof kickParticipantInputSchema>;
+
+export const banUserInputSchema = z.object({
+  room_id: z.number(),
+  user_id: z.number(),
+  reason: z.string().trim().max(500).optional(),
+  // Without a duration the ban lasts until lifted
+  duration_minutes: z.number().int().positive().max(60 * 24 * 365).optional()
+});
+
+export type BanUserInput = z.infer<typeof banUserInputSchema>;
+
+export const unbanUserInputSchema = z.object({
+  room_id: z.number(),
+  user_id: z.number()
+});
+
+export type UnbanUserInput = z.infer<typeof unbanUserInputSchema>;
+
+export const muteParticipantInputSchema = z.object({
+  room_id: z.number(),
+  user_id: z.number(),
+  // Without a duration the mute lasts until lifted
+  duration_minutes: z.number().int().positive().max(60 * 24 * 365).optional()
+});
+
+export type MuteParticipantInput = z.infer<typeof muteParticipantInputSchema>;
+
+export const unmuteParticipantInputSchema = z.object({
+  room_id: z.number(),
+  user_id: z.number()
+});
+
+export type UnmuteParticipantInput = z.infer<typeof unmuteParticipantInputSchema>;
+
+// Create an invite for one user (by username), or a shareable code when no invitee is given
+export const createInviteInputSchema = z.object({
+  room_id: z.number(),
+  invitee_username: z.string().trim().min(1).optional(),
+  max_uses: z.number().int().min(1).max(1000).optional(),
+  expires_in_hours: z.number().int().min(1).max(24 * 30).optional()
+});
+
+export type CreateInviteInput = z.infer<typeof createInviteInputSchema>;
+
+// Accept an invite code, joining the room it belongs to
+export const acceptInviteInputSchema = z.object({
+  code: z.string().trim().min(1)
+});
+
+export type AcceptInviteInput = z.infer<typeof acceptInviteInputSchema>;
+
+export const revokeInviteInputSchema = z.object({
+  invite_id: z.number()
+});
+
+export type RevokeInviteInput = z.infer<typeof revokeInviteInputSchema>;
+
+export const getRoomInvitesInputSchema = z.object({
+  room_id: z.number()
+});
+
+export type GetRoomInvitesInput = z.infer<typeof getRoomInvitesInputSchema>;
+
+// Open (finding or creating) the direct conversation with another user
+export const openDirectConversationInputSchema = z.object({
+  user_id: z.number()
+});
+
+export type OpenDirectConversationInput = z.infer<typeof openDirectConversationInputSchema>;
+
+// Mark a room read up to a message; without a message id, up to the newest message
+export const markRoomReadInputSchema = z.object({
+  room_id: z.number(),
+  message_id: z.number().optional()
+});
+
+export type MarkRoomReadInput = z.infer<typeof markRoomReadInputSchema>;
+
+// Cursor pagination over message ids. Without a cursor the newest page is returned;
+// "before" pages towards older messages and "after" towards newer ones.
+export const messagePageInputSchema = z.object({
+  limit: z.number().int().min(1).max(100).optional(),
+  before: z.number().optional(),
+  after: z.number().optional()
+});
+
+export type MessagePageInput = z.infer<typeof messagePageInputSchema>;
+
+// The current user's mentions, newest first; "before" pages towards older mentions
+export const getMyMentionsInputSchema = z.object({
+  limit: z.number().int().min(1).max(50).optional(),
+  before: z.number().optional(),
+  unread_only: z.boolean().optional()
+});
+
+export type GetMyMentionsInput = z.infer<typeof getMyMentionsInputSchema>;
+
+// Full-text search over the messages of every room the caller can read, newest first.
+// The query accepts web search syntax ("quoted phrases", -excluded, or); "before" pages
+// towards older results.
+export const searchMessagesInputSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  room_id: z.number().optional(),
+  author_id: z.number().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+  before: z.number().optional()
+});
+
+export type SearchMessagesInput = z.infer<typeof searchMessagesInputSchema>;
+
+export const getRoomMessagesInputSchema = messagePageInputSchema.extend({
+  roomId: z.number()
+});
+
+export type GetRoomMessagesInput = z.infer<typeof getRoomMessagesInputSchema>;
+
+// Input schema for subscribing to a room's realtime events
+export const roomEventSubscriptionInputSchema = z.object({
+  roomId: z.number()
+});
+
+export type RoomEventSubscriptionInput = z.infer<typeof roomEventSubscriptionInputSchema>;
+
+// Input schema for presence heartbeats; session_id identifies one open client (e.g. a browser tab)
+export const roomPresenceInputSchema = z.object({
+  room_id: z.number(),
+  session_id: z.string().min(1).max(100)
+});
+
+export type RoomPresenceInput = z.infer<typeof roomPresenceInputSchema>;
+
+// Input schema for typing indicators; clients resend is_typing: true while the user keeps typing
+export const setTypingInputSchema = z.object({
+  room_id: z.number(),
+  is_typing: z.boolean()
+});
+
+export type SetTypingInput = z.infer<typeof setTypingInputSchema>;
+
 // Input schemas for updating user profile
 export const updateUserProfileInputSchema = z.object({
   display_name: z.string().nullable().optional(),
@@ -215,6 +833,31 @@ export const updateSiteSettingInputSchema = z.object({
 
 export type UpdateSiteSettingInput = z.infer<typeof updateSiteSettingInputSchema>;
 
+// Input schemas for room category management (admin only)
+export const createRoomCategoryInputSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  description: z.string().nullable().optional(),
+  position: z.number().int().optional()
+});
+
+export type CreateRoomCategoryInput = z.infer<typeof createRoomCategoryInputSchema>;
+
+export const updateRoomCategoryInputSchema = z.object({
+  category_id: z.number(),
+  name: z.string().trim().min(1).max(50).optional(),
+  description: z.string().nullable().optional(),
+  position: z.number().int().optional()
+});
+
+export type UpdateRoomCategoryInput = z.infer<typeof updateRoomCategoryInputSchema>;
+
+// Rooms in a deleted category become uncategorised
+export const deleteRoomCategoryInputSchema = z.object({
+  category_id: z.number()
+});
+
+export type DeleteRoomCategoryInput = z.infer<typeof deleteRoomCategoryInputSchema>;
+
 // Input schemas for gold transactions
 export const purchaseGoldInputSchema = z.object({
   amount: z.number().int().positive(),
@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+import { getSessionSecret } from '../auth/session';
+
+// Download links stay valid this long; clients get fresh ones whenever they reload messages
+const DOWNLOAD_URL_TTL_MS = 24 * 60 * 60 * 1000;
+
+const signDownload = (attachmentId: number, expires: number): string => {
+  return crypto.createHmac('sha256', getSessionSecret())
+    .update(`attachment:${attachmentId}:${expires}`)
+    .digest('base64url');
+};
+
+// Path (relative to the API root) that downloads an attachment without a session header,
+// so it can be used directly in <img src> and download links
+export const createDownloadPath = (attachmentId: number, now: number = Date.now()): string => {
+  const expires = now + DOWNLOAD_URL_TTL_MS;
+  return `/attachments/${attachmentId}?expires=${expires}&signature=${signDownload(attachmentId, expires)}`;
+};
+
+export const verifyDownloadSignature = (attachmentId: number, expires: number, signature: string): boolean => {
+  if (!Number.isFinite(expires) || expires < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signDownload(attachmentId, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,23 @@
+import { createLocalDiskStorage } from './local_disk';
+
+// Where attachment bytes live. Drivers only see opaque keys; everything else about an
+// attachment (name, type, owner) is stored in the attachments table.
+export interface StorageDriver {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Pick the driver configured by STORAGE_DRIVER. Only "local" (the default) exists today;
+// an S3-compatible driver can be added here without touching callers.
+export const getStorageDriver = (): StorageDriver => {
+  const driver = process.env['STORAGE_DRIVER'] || 'local';
+
+  switch (driver) {
+    case 'local':
+      return createLocalDiskStorage(process.env['UPLOAD_DIR'] || 'uploads');
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+};
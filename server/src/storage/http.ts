@@ -0,0 +1,44 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { downloadAttachment } from '../handlers/download_attachment';
+
+const DOWNLOAD_ROUTE = /^\/attachments\/(\d+)$/;
+
+// Serve GET /attachments/:id?expires=...&signature=... (the links built by createDownloadPath).
+// Resolves to false for any other request so it can be passed on to tRPC.
+export const handleAttachmentDownload = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+  if (req.method !== 'GET' || !req.url) {
+    return false;
+  }
+
+  const url = new URL(req.url, 'http://localhost');
+  const match = DOWNLOAD_ROUTE.exec(url.pathname);
+  if (!match) {
+    return false;
+  }
+
+  try {
+    const { attachment, data } = await downloadAttachment(
+      Number(match[1]),
+      Number(url.searchParams.get('expires')),
+      url.searchParams.get('signature') ?? ''
+    );
+
+    // Only images are shown inline; everything else, including scriptable SVG, is downloaded
+    const inline = attachment.mime_type.startsWith('image/') && attachment.mime_type !== 'image/svg+xml';
+
+    res.writeHead(200, {
+      'Content-Type': attachment.mime_type,
+      'Content-Length': data.byteLength,
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=3600'
+    });
+    res.end(data);
+  } catch (error) {
+    const forbidden = error instanceof Error && error.message.startsWith('Invalid or expired');
+    res.writeHead(forbidden ? 403 : 404, { 'Content-Type': 'text/plain' });
+    res.end(forbidden ? 'Forbidden' : 'Not found');
+  }
+
+  return true;
+};
@@ -0,0 +1,39 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { type StorageDriver } from './driver';
+
+// Stores each object as a file below rootDir, using the key as its relative path
+export const createLocalDiskStorage = (rootDir: string): StorageDriver => {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(resolveKey(key)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+};
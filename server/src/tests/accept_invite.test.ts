@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, roomInvitesTable } from '../db/schema';
+import { acceptInvite } from '../handlers/accept_invite';
+import { and, eq } from 'drizzle-orm';
+
+describe('acceptInvite', () => {
+  let ownerId: number;
+  let memberId: number;
+  let guestId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'guest', email: 'guest@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    memberId = users[1].id;
+    guestId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Secret',
+        room_type: 'private',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should join the room the code belongs to', async () => {
+    await db.insert(roomInvitesTable)
+      .values({ room_id: roomId, created_by: ownerId, code: 'welcome', max_uses: 3 })
+      .execute();
+
+    const result = await acceptInvite({ code: 'welcome' }, guestId);
+
+    expect(result.room_id).toEqual(roomId);
+    expect(result.user_id).toEqual(guestId);
+    expect(result.participant_role).toEqual('member');
+
+    const [invite] = await db.select().from(roomInvitesTable).execute();
+    expect(invite.use_count).toEqual(1);
+  });
+
+  it('should accept the code of an invite addressed to the user', async () => {
+    await db.insert(roomInvitesTable)
+      .values({ room_id: roomId, created_by: ownerId, code: 'for-guest', invitee_id: guestId, max_uses: 1 })
+      .execute();
+
+    await acceptInvite({ code: 'for-guest' }, guestId);
+
+    const participants = await db.select()
+      .from(roomParticipantsTable)
+      .where(and(
+        eq(roomParticipantsTable.room_id, roomId),
+        eq(roomParticipantsTable.user_id, guestId)
+      ))
+      .execute();
+    expect(participants).toHaveLength(1);
+  });
+
+  it('should reject codes addressed to someone else', async () => {
+    await db.insert(roomInvitesTable)
+      .values({ room_id: roomId, created_by: ownerId, code: 'for-member', invitee_id: memberId, max_uses: 1 })
+      .execute();
+
+    await expect(acceptInvite({ code: 'for-member' }, guestId)).rejects.toThrow(/not found or no longer valid/i);
+  });
+
+  it('should reject unknown, expired, revoked and used up codes', async () => {
+    await db.insert(roomInvitesTable)
+      .values([
+        { room_id: roomId, created_by: ownerId, code: 'expired', expires_at: new Date(Date.now() - 1000) },
+        { room_id: roomId, created_by: ownerId, code: 'revoked', revoked_at: new Date() },
+        { room_id: roomId, created_by: ownerId, code: 'used', max_uses: 1, use_count: 1 }
+      ])
+      .execute();
+
+    for (const code of ['unknown', 'expired', 'revoked', 'used']) {
+      await expect(acceptInvite({ code }, guestId)).rejects.toThrow(/not found or no longer valid/i);
+    }
+  });
+
+  it('should not use up the code when the user is already a participant', async () => {
+    await db.insert(roomInvitesTable)
+      .values({ room_id: roomId, created_by: ownerId, code: 'welcome', max_uses: 1 })
+      .execute();
+
+    await expect(acceptInvite({ code: 'welcome' }, memberId)).rejects.toThrow(/already a participant/i);
+
+    const [invite] = await db.select().from(roomInvitesTable).execute();
+    expect(invite.use_count).toEqual(0);
+  });
+});
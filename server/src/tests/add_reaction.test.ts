@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable, messageReactionsTable } from '../db/schema';
+import { addReaction } from '../handlers/add_reaction';
+import { listenToRoom } from '../realtime/room_events';
+import { eq } from 'drizzle-orm';
+
+describe('addReaction', () => {
+  let memberId: number;
+  let otherMemberId: number;
+  let outsiderId: number;
+  let roomId: number;
+  let messageId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'other', email: 'other@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [memberId, otherMemberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: memberId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: memberId, participant_role: 'admin' },
+        { room_id: roomId, user_id: otherMemberId, participant_role: 'member' }
+      ])
+      .execute();
+
+    const message = await db.insert(messagesTable)
+      .values({
+        room_id: roomId,
+        user_id: memberId,
+        content: 'React to me'
+      })
+      .returning()
+      .execute();
+    messageId = message[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should add a reaction and return the aggregated counts', async () => {
+    await addReaction({ message_id: messageId, emoji: '👍' }, memberId);
+    const result = await addReaction({ message_id: messageId, emoji: '👍' }, otherMemberId);
+
+    expect(result).toEqual([{ emoji: '👍', count: 2, user_ids: [memberId, otherMemberId] }]);
+
+    const saved = await db.select()
+      .from(messageReactionsTable)
+      .where(eq(messageReactionsTable.message_id, messageId))
+      .execute();
+
+    expect(saved).toHaveLength(2);
+  });
+
+  it('should group different emoji separately', async () => {
+    await addReaction({ message_id: messageId, emoji: '👍' }, memberId);
+    const result = await addReaction({ message_id: messageId, emoji: '🎉' }, memberId);
+
+    expect(result).toEqual([
+      { emoji: '👍', count: 1, user_ids: [memberId] },
+      { emoji: '🎉', count: 1, user_ids: [memberId] }
+    ]);
+  });
+
+  it('should ignore duplicate reactions from the same user', async () => {
+    await addReaction({ message_id: messageId, emoji: '👍' }, memberId);
+    const result = await addReaction({ message_id: messageId, emoji: '👍' }, memberId);
+
+    expect(result).toEqual([{ emoji: '👍', count: 1, user_ids: [memberId] }]);
+  });
+
+  it('should publish the new counts to room subscribers', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    await addReaction({ message_id: messageId, emoji: '❤️' }, otherMemberId);
+
+    const event = await pending;
+    expect(event.value).toEqual({
+      type: 'reactions.changed',
+      room_id: roomId,
+      message_id: messageId,
+      reactions: [{ emoji: '❤️', count: 1, user_ids: [otherMemberId] }]
+    });
+
+    controller.abort();
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(addReaction({ message_id: messageId, emoji: '👍' }, outsiderId))
+      .rejects.toThrow(/not a participant/i);
+  });
+
+  it('should reject reactions from muted participants', async () => {
+    await db.update(roomParticipantsTable)
+      .set({ is_muted: true, muted_until: null })
+      .where(eq(roomParticipantsTable.user_id, otherMemberId))
+      .execute();
+
+    await expect(addReaction({ message_id: messageId, emoji: '👍' }, otherMemberId))
+      .rejects.toThrow(/muted in this room/i);
+
+    const reactions = await db.select().from(messageReactionsTable).execute();
+    expect(reactions).toHaveLength(0);
+  });
+
+  it('should reject reactions to deleted messages', async () => {
+    await db.update(messagesTable)
+      .set({ is_deleted: true })
+      .where(eq(messagesTable.id, messageId))
+      .execute();
+
+    await expect(addReaction({ message_id: messageId, emoji: '👍' }, memberId))
+      .rejects.toThrow(/not found or deleted/i);
+  });
+
+  it('should reject reactions in archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(addReaction({ message_id: messageId, emoji: '👍' }, memberId))
+      .rejects.toThrow(/archived and read-only/i);
+  });
+});
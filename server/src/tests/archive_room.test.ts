@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { archiveRoom } from '../handlers/archive_room';
+import { eq } from 'drizzle-orm';
+
+describe('archiveRoom', () => {
+  let ownerId: number;
+  let memberId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id, display_name: 'Olive' },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    memberId = users[1].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should deactivate the room and keep its participants', async () => {
+    const result = await archiveRoom({ room_id: roomId }, ownerId);
+
+    expect(result.is_active).toBe(false);
+
+    const [room] = await db.select().from(roomsTable).where(eq(roomsTable.id, roomId)).execute();
+    expect(room.is_active).toBe(false);
+
+    const participants = await db.select().from(roomParticipantsTable).execute();
+    expect(participants).toHaveLength(2);
+  });
+
+  it('should post a system message', async () => {
+    await archiveRoom({ room_id: roomId }, ownerId);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].message_type).toEqual('system');
+    expect(messages[0].content).toEqual('Olive archived the room');
+  });
+
+  it('should leave already archived rooms unchanged', async () => {
+    await archiveRoom({ room_id: roomId }, ownerId);
+    const result = await archiveRoom({ room_id: roomId }, ownerId);
+
+    expect(result.is_active).toBe(false);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(1);
+  });
+
+  it('should reject participants who do not manage the room', async () => {
+    await expect(archiveRoom({ room_id: roomId }, memberId))
+      .rejects.toThrow(/only the room owner or room admins/i);
+
+    const [room] = await db.select().from(roomsTable).where(eq(roomsTable.id, roomId)).execute();
+    expect(room.is_active).toBe(true);
+  });
+});
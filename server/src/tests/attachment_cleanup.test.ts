@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, messagesTable, attachmentsTable } from '../db/schema';
+import { deleteAbandonedUploads } from '../scheduler/attachment_cleanup';
+import { getStorageDriver } from '../storage/driver';
+
+describe('abandoned upload cleanup', () => {
+  let userId: number;
+  let roomId: number;
+  let messageId: number;
+  let uploadDir: string;
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const upload = async (storageKey: string, createdAt: Date, sentWith: number | null = null) => {
+    await getStorageDriver().put(storageKey, new TextEncoder().encode('bytes'), 'text/plain');
+    await db.insert(attachmentsTable)
+      .values({
+        room_id: roomId,
+        uploader_id: userId,
+        message_id: sentWith,
+        file_name: 'notes.txt',
+        mime_type: 'text/plain',
+        size_bytes: 5,
+        storage_key: storageKey,
+        created_at: createdAt
+      })
+      .execute();
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    uploadDir = await mkdtemp(path.join(os.tmpdir(), 'chat-uploads-'));
+    process.env['UPLOAD_DIR'] = uploadDir;
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id })
+      .returning()
+      .execute();
+    userId = user[0].id;
+
+    const room = await db.insert(roomsTable)
+      .values({ name: 'Room', room_type: 'public', owner_id: userId })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    const message = await db.insert(messagesTable)
+      .values({ room_id: roomId, user_id: userId, content: 'See attached' })
+      .returning()
+      .execute();
+    messageId = message[0].id;
+  });
+
+  afterEach(async () => {
+    delete process.env['UPLOAD_DIR'];
+    await rm(uploadDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should delete uploads left unsent for more than a day with their bytes', async () => {
+    await upload(`${roomId}/abandoned`, daysAgo(2));
+
+    const removed = await deleteAbandonedUploads();
+
+    expect(removed).toEqual(1);
+    const rows = await db.select().from(attachmentsTable).execute();
+    expect(rows).toHaveLength(0);
+    expect(await getStorageDriver().get(`${roomId}/abandoned`)).toBeNull();
+  });
+
+  it('should keep recent and sent uploads', async () => {
+    await upload(`${roomId}/recent`, new Date());
+    await upload(`${roomId}/sent`, daysAgo(2), messageId);
+
+    const removed = await deleteAbandonedUploads();
+
+    expect(removed).toEqual(0);
+    const rows = await db.select().from(attachmentsTable).execute();
+    expect(rows.map(row => row.storage_key).sort()).toEqual([`${roomId}/recent`, `${roomId}/sent`]);
+    expect(await getStorageDriver().get(`${roomId}/sent`)).not.toBeNull();
+  });
+});
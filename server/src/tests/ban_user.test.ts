@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, roomBansTable, messagesTable } from '../db/schema';
+import { banUser } from '../handlers/ban_user';
+import { and, eq } from 'drizzle-orm';
+
+describe('banUser', () => {
+  let ownerId: number;
+  let adminId: number;
+  let moderatorId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values(['owner', 'admin', 'moderator', 'member', 'outsider'].map(username => ({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role_id: role[0].id
+      })))
+      .returning()
+      .execute();
+    [ownerId, adminId, moderatorId, memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should ban and remove the participant', async () => {
+    const result = await banUser({ room_id: roomId, user_id: memberId, reason: 'Spam' }, moderatorId);
+
+    expect(result.room_id).toEqual(roomId);
+    expect(result.user_id).toEqual(memberId);
+    expect(result.banned_by).toEqual(moderatorId);
+    expect(result.reason).toEqual('Spam');
+    expect(result.expires_at).toBeNull();
+
+    const participants = await db.select()
+      .from(roomParticipantsTable)
+      .where(and(
+        eq(roomParticipantsTable.room_id, roomId),
+        eq(roomParticipantsTable.user_id, memberId)
+      ))
+      .execute();
+    expect(participants).toHaveLength(0);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].message_type).toEqual('system');
+    expect(messages[0].content).toEqual('member was banned by moderator: Spam');
+  });
+
+  it('should set an expiry from the duration', async () => {
+    const before = Date.now();
+    const result = await banUser({ room_id: roomId, user_id: memberId, duration_minutes: 120 }, moderatorId);
+
+    expect(result.expires_at!.getTime()).toBeGreaterThanOrEqual(before + 120 * 60 * 1000);
+
+    const [message] = await db.select().from(messagesTable).execute();
+    expect(message.content).toEqual('member was banned by moderator for 2 hours');
+  });
+
+  it('should ban users who are not participants', async () => {
+    const result = await banUser({ room_id: roomId, user_id: outsiderId }, moderatorId);
+
+    expect(result.user_id).toEqual(outsiderId);
+  });
+
+  it('should replace an earlier ban', async () => {
+    await banUser({ room_id: roomId, user_id: memberId, duration_minutes: 10 }, moderatorId);
+    const result = await banUser({ room_id: roomId, user_id: memberId, reason: 'Again' }, adminId);
+
+    expect(result.expires_at).toBeNull();
+    expect(result.banned_by).toEqual(adminId);
+
+    const bans = await db.select().from(roomBansTable).execute();
+    expect(bans).toHaveLength(1);
+    expect(bans[0].reason).toEqual('Again');
+  });
+
+  it('should reject banning equal or higher roles', async () => {
+    await expect(banUser({ room_id: roomId, user_id: adminId }, moderatorId)).rejects.toThrow(/equal or higher role/i);
+    await expect(banUser({ room_id: roomId, user_id: ownerId }, adminId)).rejects.toThrow(/equal or higher role/i);
+
+    const bans = await db.select().from(roomBansTable).execute();
+    expect(bans).toHaveLength(0);
+  });
+
+  it('should reject members and unknown users', async () => {
+    await expect(banUser({ room_id: roomId, user_id: outsiderId }, memberId)).rejects.toThrow(/only room moderators and admins/i);
+    await expect(banUser({ room_id: roomId, user_id: 99999 }, moderatorId)).rejects.toThrow(/user not found/i);
+  });
+
+  it('should reject banning in archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(banUser({ room_id: roomId, user_id: memberId }, moderatorId))
+      .rejects.toThrow(/archived and read-only/i);
+
+    const bans = await db.select().from(roomBansTable).execute();
+    expect(bans).toHaveLength(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, scheduledMessagesTable } from '../db/schema';
+import { cancelScheduledMessage } from '../handlers/cancel_scheduled_message';
+import { eq } from 'drizzle-orm';
+
+describe('cancelScheduledMessage', () => {
+  let authorId: number;
+  let otherUserId: number;
+  let scheduledMessageId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'other', email: 'other@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [authorId, otherUserId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: authorId
+      })
+      .returning()
+      .execute();
+
+    const scheduled = await db.insert(scheduledMessagesTable)
+      .values({
+        room_id: room[0].id,
+        user_id: authorId,
+        content: 'Later',
+        send_at: new Date(Date.now() + 60_000)
+      })
+      .returning()
+      .execute();
+    scheduledMessageId = scheduled[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should cancel a pending message', async () => {
+    const result = await cancelScheduledMessage({ scheduled_message_id: scheduledMessageId }, authorId);
+
+    expect(result.status).toEqual('cancelled');
+
+    const saved = await db.select().from(scheduledMessagesTable).execute();
+    expect(saved[0].status).toEqual('cancelled');
+  });
+
+  it('should not let other users cancel the message', async () => {
+    await expect(cancelScheduledMessage({ scheduled_message_id: scheduledMessageId }, otherUserId))
+      .rejects.toThrow(/scheduled message not found/i);
+
+    const saved = await db.select().from(scheduledMessagesTable).execute();
+    expect(saved[0].status).toEqual('pending');
+  });
+
+  it('should reject messages that were already sent', async () => {
+    await db.update(scheduledMessagesTable)
+      .set({ status: 'sent' })
+      .where(eq(scheduledMessagesTable.id, scheduledMessageId))
+      .execute();
+
+    await expect(cancelScheduledMessage({ scheduled_message_id: scheduledMessageId }, authorId))
+      .rejects.toThrow(/still waiting to be sent/i);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, roomInvitesTable } from '../db/schema';
+import { createInvite } from '../handlers/create_invite';
+
+describe('createInvite', () => {
+  let ownerId: number;
+  let memberId: number;
+  let guestId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'guest', email: 'guest@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    memberId = users[1].id;
+    guestId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Secret',
+        room_type: 'private',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should create a shareable code with limits', async () => {
+    const before = Date.now();
+    const result = await createInvite({ room_id: roomId, max_uses: 5, expires_in_hours: 24 }, ownerId);
+
+    expect(result.room_id).toEqual(roomId);
+    expect(result.created_by).toEqual(ownerId);
+    expect(result.invitee_id).toBeNull();
+    expect(result.code).toMatch(/^[\w-]{12}$/);
+    expect(result.max_uses).toEqual(5);
+    expect(result.use_count).toEqual(0);
+    expect(result.revoked_at).toBeNull();
+    expect(result.expires_at!.getTime()).toBeGreaterThanOrEqual(before + 24 * 60 * 60 * 1000);
+
+    const rows = await db.select().from(roomInvitesTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should create unlimited codes without expiry by default', async () => {
+    const result = await createInvite({ room_id: roomId }, ownerId);
+
+    expect(result.max_uses).toBeNull();
+    expect(result.expires_at).toBeNull();
+  });
+
+  it('should address invites by username and limit them to one use', async () => {
+    const result = await createInvite({ room_id: roomId, invitee_username: 'Guest', max_uses: 10 }, ownerId);
+
+    expect(result.invitee_id).toEqual(guestId);
+    expect(result.max_uses).toEqual(1);
+  });
+
+  it('should generate a different code each time', async () => {
+    const first = await createInvite({ room_id: roomId }, ownerId);
+    const second = await createInvite({ room_id: roomId }, ownerId);
+
+    expect(first.code).not.toEqual(second.code);
+  });
+
+  it('should reject participants who are not moderators', async () => {
+    await expect(createInvite({ room_id: roomId }, memberId)).rejects.toThrow(/only room moderators and admins/i);
+    await expect(createInvite({ room_id: roomId }, guestId)).rejects.toThrow(/only room moderators and admins/i);
+  });
+
+  it('should reject inviting unknown users or existing participants', async () => {
+    await expect(createInvite({ room_id: roomId, invitee_username: 'nobody' }, ownerId)).rejects.toThrow(/user not found/i);
+    await expect(createInvite({ room_id: roomId, invitee_username: 'member' }, ownerId)).rejects.toThrow(/already a participant/i);
+  });
+
+  it('should reject inactive rooms and direct conversations', async () => {
+    await expect(createInvite({ room_id: 99999 }, ownerId)).rejects.toThrow(/room not found/i);
+
+    const direct = await db.insert(roomsTable)
+      .values({ name: 'owner & member', room_type: 'private', owner_id: ownerId, is_direct: true, direct_key: `${ownerId}:${memberId}` })
+      .returning()
+      .execute();
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: direct[0].id, user_id: ownerId, participant_role: 'admin' })
+      .execute();
+
+    await expect(createInvite({ room_id: direct[0].id }, ownerId)).rejects.toThrow(/direct conversations cannot have invites/i);
+  });
+});
@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { rolesTable, usersTable, roomsTable, roomParticipantsTable, goldTransactionsTable } from '../db/schema';
-import { type CreateRoomInput } from '../schema';
+import { rolesTable, usersTable, roomsTable, roomParticipantsTable, goldTransactionsTable, roomCategoriesTable } from '../db/schema';
+import { type CreateRoomInput, createRoomInputSchema } from '../schema';
 import { createRoom } from '../handlers/create_room';
 import { eq } from 'drizzle-orm';
 
@@ -235,4 +235,38 @@ describe('createRoom', () => {
 
     expect(updatedUser[0].gold_credits).toEqual(500); // Unchanged
   });
+
+  it('should file the room under a category with tags', async () => {
+    const category = await db.insert(roomCategoriesTable)
+      .values({ name: 'Gaming' })
+      .returning()
+      .execute();
+
+    const result = await createRoom({ ...testRoomInput, category_id: category[0].id, tags: ['rpg', 'coop'] }, testUserId);
+
+    expect(result.category_id).toEqual(category[0].id);
+    expect(result.tags).toEqual(['rpg', 'coop']);
+  });
+
+  it('should create uncategorised rooms without tags by default', async () => {
+    const result = await createRoom(testRoomInput, testUserId);
+
+    expect(result.category_id).toBeNull();
+    expect(result.tags).toEqual([]);
+  });
+
+  it('should throw error for unknown categories', async () => {
+    await expect(createRoom({ ...testRoomInput, category_id: 99999 }, testUserId))
+      .rejects.toThrow(/room category not found/i);
+
+    const rooms = await db.select().from(roomsTable).execute();
+    expect(rooms).toHaveLength(0);
+  });
+
+  it('should normalise tags in the input schema', () => {
+    const input = createRoomInputSchema.parse({ ...testRoomInput, tags: [' RPG ', 'rpg', 'Co-op'] });
+
+    expect(input.tags).toEqual(['rpg', 'co-op']);
+    expect(() => createRoomInputSchema.parse({ ...testRoomInput, tags: ['two words'] })).toThrow();
+  });
 });
\ No newline at end of file
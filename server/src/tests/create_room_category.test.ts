@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { roomCategoriesTable } from '../db/schema';
+import { createRoomCategory } from '../handlers/create_room_category';
+
+describe('createRoomCategory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a category', async () => {
+    const result = await createRoomCategory({ name: 'Gaming', description: 'Games of all kinds', position: 3 });
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Gaming');
+    expect(result.description).toEqual('Games of all kinds');
+    expect(result.position).toEqual(3);
+
+    const categories = await db.select().from(roomCategoriesTable).execute();
+    expect(categories).toHaveLength(1);
+  });
+
+  it('should default to no description and position 0', async () => {
+    const result = await createRoomCategory({ name: 'Gaming' });
+
+    expect(result.description).toBeNull();
+    expect(result.position).toEqual(0);
+  });
+
+  it('should reject names already in use regardless of case', async () => {
+    await createRoomCategory({ name: 'Gaming' });
+
+    await expect(createRoomCategory({ name: 'gaming' }))
+      .rejects.toThrow(/already exists/i);
+  });
+});
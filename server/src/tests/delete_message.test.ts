@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { deleteMessage } from '../handlers/delete_message';
+import { listenToRoom } from '../realtime/room_events';
+import { eq } from 'drizzle-orm';
+
+describe('deleteMessage', () => {
+  let authorId: number;
+  let moderatorId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+  let messageId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'moderator', email: 'moderator@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [authorId, moderatorId, memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: moderatorId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: authorId, participant_role: 'member' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+
+    const message = await db.insert(messagesTable)
+      .values({
+        room_id: roomId,
+        user_id: authorId,
+        content: 'Delete me'
+      })
+      .returning()
+      .execute();
+    messageId = message[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should soft delete the author\'s own message', async () => {
+    const result = await deleteMessage({ message_id: messageId }, authorId);
+
+    expect(result.success).toBe(true);
+
+    const saved = await db.select()
+      .from(messagesTable)
+      .where(eq(messagesTable.id, messageId))
+      .execute();
+
+    // The row and its content are kept for moderation
+    expect(saved).toHaveLength(1);
+    expect(saved[0].is_deleted).toBe(true);
+    expect(saved[0].content).toEqual('Delete me');
+  });
+
+  it('should let room moderators delete other users\' messages', async () => {
+    const result = await deleteMessage({ message_id: messageId }, moderatorId);
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should publish the deletion to room subscribers', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    await deleteMessage({ message_id: messageId }, authorId);
+
+    const event = await pending;
+    expect(event.value).toEqual({ type: 'message.deleted', room_id: roomId, message_id: messageId });
+
+    controller.abort();
+  });
+
+  it('should reject regular members deleting other users\' messages', async () => {
+    await expect(deleteMessage({ message_id: messageId }, memberId))
+      .rejects.toThrow(/only the author or a room moderator/i);
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(deleteMessage({ message_id: messageId }, outsiderId))
+      .rejects.toThrow(/not a participant/i);
+  });
+
+  it('should reject messages that are already deleted', async () => {
+    await deleteMessage({ message_id: messageId }, authorId);
+
+    await expect(deleteMessage({ message_id: messageId }, authorId))
+      .rejects.toThrow(/not found or deleted/i);
+  });
+
+  it('should reject deletions in archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(deleteMessage({ message_id: messageId }, authorId))
+      .rejects.toThrow(/archived and read-only/i);
+  });
+});
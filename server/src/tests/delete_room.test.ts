@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  rolesTable,
+  roomsTable,
+  roomParticipantsTable,
+  roomInvitesTable,
+  roomBansTable,
+  messagesTable,
+  messageRevisionsTable,
+  messageReactionsTable,
+  messageMentionsTable,
+  roomPinsTable,
+  scheduledMessagesTable,
+  attachmentsTable
+} from '../db/schema';
+import { deleteRoom } from '../handlers/delete_room';
+
+describe('deleteRoom', () => {
+  let ownerId: number;
+  let memberId: number;
+  let roomId: number;
+  let otherRoomId: number;
+  let uploadDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    uploadDir = await mkdtemp(path.join(os.tmpdir(), 'chat-uploads-'));
+    process.env['UPLOAD_DIR'] = uploadDir;
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    memberId = users[1].id;
+
+    const rooms = await db.insert(roomsTable)
+      .values([
+        { name: 'Room', room_type: 'public', owner_id: ownerId },
+        { name: 'Other', room_type: 'public', owner_id: ownerId }
+      ])
+      .returning()
+      .execute();
+    roomId = rooms[0].id;
+    otherRoomId = rooms[1].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' },
+        { room_id: otherRoomId, user_id: ownerId, participant_role: 'admin' }
+      ])
+      .execute();
+  });
+
+  afterEach(async () => {
+    delete process.env['UPLOAD_DIR'];
+    await rm(uploadDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should delete the room with all of its content', async () => {
+    const messages = await db.insert(messagesTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, content: 'Hello @member' },
+        { room_id: otherRoomId, user_id: ownerId, content: 'Elsewhere' }
+      ])
+      .returning()
+      .execute();
+    const messageId = messages[0].id;
+
+    await db.insert(messageRevisionsTable).values({ message_id: messageId, content: 'Hi', edited_by: ownerId }).execute();
+    await db.insert(messageReactionsTable).values({ message_id: messageId, user_id: memberId, emoji: '👍' }).execute();
+    await db.insert(messageMentionsTable).values({ message_id: messageId, room_id: roomId, mentioned_user_id: memberId }).execute();
+    await db.insert(roomInvitesTable).values({ room_id: roomId, created_by: ownerId, code: 'invite-code' }).execute();
+    await db.insert(roomBansTable).values({ room_id: roomId, user_id: memberId, banned_by: ownerId }).execute();
+    await db.insert(roomPinsTable).values({ room_id: roomId, message_id: messageId, pinned_by: ownerId }).execute();
+    await db.insert(scheduledMessagesTable).values({ room_id: roomId, user_id: memberId, content: 'Later', send_at: new Date(Date.now() + 60_000) }).execute();
+
+    const result = await deleteRoom({ room_id: roomId }, ownerId);
+
+    expect(result.success).toBe(true);
+
+    const rooms = await db.select().from(roomsTable).execute();
+    expect(rooms.map(room => room.id)).toEqual([otherRoomId]);
+
+    const remainingMessages = await db.select().from(messagesTable).execute();
+    expect(remainingMessages).toHaveLength(1);
+    expect(remainingMessages[0].room_id).toEqual(otherRoomId);
+
+    const participants = await db.select().from(roomParticipantsTable).execute();
+    expect(participants).toHaveLength(1);
+    expect(participants[0].room_id).toEqual(otherRoomId);
+
+    expect(await db.select().from(messageRevisionsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(messageReactionsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(messageMentionsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(roomInvitesTable).execute()).toHaveLength(0);
+    expect(await db.select().from(roomBansTable).execute()).toHaveLength(0);
+    expect(await db.select().from(roomPinsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(scheduledMessagesTable).execute()).toHaveLength(0);
+  });
+
+  it('should delete stored attachment files', async () => {
+    await writeFile(path.join(uploadDir, 'room-file'), 'contents');
+    await writeFile(path.join(uploadDir, 'other-file'), 'contents');
+    await db.insert(attachmentsTable)
+      .values([
+        { room_id: roomId, uploader_id: ownerId, file_name: 'a.txt', mime_type: 'text/plain', size_bytes: 8, storage_key: 'room-file' },
+        { room_id: otherRoomId, uploader_id: ownerId, file_name: 'b.txt', mime_type: 'text/plain', size_bytes: 8, storage_key: 'other-file' }
+      ])
+      .execute();
+
+    await deleteRoom({ room_id: roomId }, ownerId);
+
+    const attachments = await db.select().from(attachmentsTable).execute();
+    expect(attachments.map(attachment => attachment.storage_key)).toEqual(['other-file']);
+    expect(await readdir(uploadDir)).toEqual(['other-file']);
+  });
+
+  it('should reject participants who do not manage the room', async () => {
+    await expect(deleteRoom({ room_id: roomId }, memberId))
+      .rejects.toThrow(/only the room owner or room admins/i);
+
+    const rooms = await db.select().from(roomsTable).execute();
+    expect(rooms).toHaveLength(2);
+  });
+
+  it('should throw for unknown rooms', async () => {
+    await expect(deleteRoom({ room_id: 99999 }, ownerId))
+      .rejects.toThrow(/room not found/i);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomCategoriesTable } from '../db/schema';
+import { deleteRoomCategory } from '../handlers/delete_room_category';
+
+describe('deleteRoomCategory', () => {
+  let categoryId: number;
+  let otherCategoryId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id })
+      .returning()
+      .execute();
+
+    const categories = await db.insert(roomCategoriesTable)
+      .values([{ name: 'Gaming' }, { name: 'Music' }])
+      .returning()
+      .execute();
+    categoryId = categories[0].id;
+    otherCategoryId = categories[1].id;
+
+    await db.insert(roomsTable)
+      .values([
+        { name: 'RPG', room_type: 'public', owner_id: user[0].id, category_id: categoryId },
+        { name: 'Jazz', room_type: 'public', owner_id: user[0].id, category_id: otherCategoryId }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should delete the category and leave its rooms uncategorised', async () => {
+    const result = await deleteRoomCategory({ category_id: categoryId });
+
+    expect(result.success).toBe(true);
+
+    const categories = await db.select().from(roomCategoriesTable).execute();
+    expect(categories.map(category => category.id)).toEqual([otherCategoryId]);
+
+    const rooms = await db.select().from(roomsTable).execute();
+    const categoryOf = new Map(rooms.map(room => [room.name, room.category_id]));
+    expect(categoryOf.get('RPG')).toBeNull();
+    expect(categoryOf.get('Jazz')).toEqual(otherCategoryId);
+  });
+
+  it('should throw for unknown categories', async () => {
+    await expect(deleteRoomCategory({ category_id: 99999 }))
+      .rejects.toThrow(/room category not found/i);
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, roomInvitesTable, messagesTable } from '../db/schema';
+import { discoverRooms } from '../handlers/discover_rooms';
+import { eq } from 'drizzle-orm';
+
+describe('discoverRooms', () => {
+  let userId: number;
+  let otherUserId: number;
+  let thirdUserId: number;
+  let generalId: number;
+  let gamingId: number;
+  let loungeId: number;
+  let studyId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'user', email: 'user@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'other', email: 'other@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'third', email: 'third@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    otherUserId = users[1].id;
+    thirdUserId = users[2].id;
+
+    const rooms = await db.insert(roomsTable)
+      .values([
+        { name: 'General', description: 'Talk about anything', room_type: 'public', owner_id: otherUserId, created_at: new Date('2024-01-01') },
+        { name: 'Gaming', description: 'Video games and board games', room_type: 'public', owner_id: otherUserId, max_participants: 2, created_at: new Date('2024-02-01') },
+        { name: 'Lounge', description: 'Premium talk', room_type: 'premium', gold_cost: 50, owner_id: otherUserId, created_at: new Date('2024-03-01') },
+        { name: 'Study', description: 'Private study group', room_type: 'private', owner_id: otherUserId, created_at: new Date('2024-04-01') },
+        { name: 'Archived', room_type: 'public', owner_id: otherUserId, is_active: false },
+        { name: 'Direct', room_type: 'private', owner_id: otherUserId, is_direct: true }
+      ])
+      .returning()
+      .execute();
+    [generalId, gamingId, loungeId, studyId] = rooms.map(room => room.id);
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: generalId, user_id: otherUserId, participant_role: 'admin' },
+        { room_id: gamingId, user_id: otherUserId, participant_role: 'admin' },
+        { room_id: gamingId, user_id: thirdUserId, participant_role: 'member' },
+        { room_id: loungeId, user_id: otherUserId, participant_role: 'admin' },
+        { room_id: loungeId, user_id: thirdUserId, participant_role: 'member' },
+        { room_id: loungeId, user_id: userId, participant_role: 'member' },
+        { room_id: studyId, user_id: otherUserId, participant_role: 'admin' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const namesOf = (page: { rooms: { name: string }[] }) => page.rooms.map(room => room.name);
+
+  it('should list the active rooms the user can join with participant counts', async () => {
+    const result = await discoverRooms({ sort: 'newest' }, userId);
+
+    expect(namesOf(result)).toEqual(['Lounge', 'Gaming', 'General']);
+    expect(result.total).toEqual(3);
+    expect(result.rooms.map(room => room.participant_count)).toEqual([3, 2, 1]);
+  });
+
+  it('should include the user\'s read state for rooms they joined', async () => {
+    const result = await discoverRooms({}, userId);
+
+    const lounge = result.rooms.find(room => room.id === loungeId)!;
+    expect(lounge.participant_role).toEqual('member');
+    const general = result.rooms.find(room => room.id === generalId)!;
+    expect(general.participant_role).toBeNull();
+    expect(general.unread_count).toEqual(0);
+  });
+
+  it('should include private rooms the user belongs to or is invited to', async () => {
+    await db.insert(roomInvitesTable)
+      .values({ room_id: studyId, created_by: otherUserId, invitee_id: userId, code: 'personal', max_uses: 1 })
+      .execute();
+
+    const invited = await discoverRooms({ room_type: 'private' }, userId);
+    expect(namesOf(invited)).toEqual(['Study']);
+
+    const member = await discoverRooms({ room_type: 'private' }, otherUserId);
+    expect(namesOf(member)).toEqual(['Study']);
+
+    const outsider = await discoverRooms({ room_type: 'private' }, thirdUserId);
+    expect(outsider.rooms).toHaveLength(0);
+  });
+
+  it('should only show public rooms to visitors', async () => {
+    const result = await discoverRooms({ sort: 'newest' });
+
+    expect(namesOf(result)).toEqual(['Gaming', 'General']);
+    expect(result.rooms.every(room => room.participant_role === null)).toBe(true);
+  });
+
+  it('should search names and descriptions case-insensitively', async () => {
+    expect(namesOf(await discoverRooms({ query: 'gaming' }, userId))).toEqual(['Gaming']);
+    expect(namesOf(await discoverRooms({ query: 'BOARD' }, userId))).toEqual(['Gaming']);
+    expect(namesOf(await discoverRooms({ query: 'talk', sort: 'newest' }, userId))).toEqual(['Lounge', 'General']);
+  });
+
+  it('should match LIKE wildcards in the query literally', async () => {
+    await db.insert(roomsTable)
+      .values([
+        { name: '100% Fun', room_type: 'public', owner_id: otherUserId },
+        { name: 'snake_case', room_type: 'public', owner_id: otherUserId },
+        { name: 'Back\\slash', room_type: 'public', owner_id: otherUserId }
+      ])
+      .execute();
+
+    expect(namesOf(await discoverRooms({ query: '%' }, userId))).toEqual(['100% Fun']);
+    expect(namesOf(await discoverRooms({ query: '_' }, userId))).toEqual(['snake_case']);
+    expect(namesOf(await discoverRooms({ query: '\\' }, userId))).toEqual(['Back\\slash']);
+  });
+
+  it('should filter by room type', async () => {
+    const result = await discoverRooms({ room_type: 'premium' }, userId);
+
+    expect(namesOf(result)).toEqual(['Lounge']);
+  });
+
+  it('should filter by gold cost, counting free rooms as costing nothing', async () => {
+    expect(namesOf(await discoverRooms({ min_gold_cost: 10 }, userId))).toEqual(['Lounge']);
+    expect(namesOf(await discoverRooms({ max_gold_cost: 0, sort: 'newest' }, userId))).toEqual(['Gaming', 'General']);
+    expect(await discoverRooms({ min_gold_cost: 10, max_gold_cost: 40 }, userId)).toEqual({ rooms: [], total: 0 });
+  });
+
+  it('should filter rooms with free slots', async () => {
+    const result = await discoverRooms({ has_free_slots: true, sort: 'newest' }, userId);
+
+    // Gaming is full with 2 of 2 participants
+    expect(namesOf(result)).toEqual(['Lounge', 'General']);
+  });
+
+  it('should sort by member count', async () => {
+    const result = await discoverRooms({ sort: 'members' }, userId);
+
+    expect(namesOf(result)).toEqual(['Lounge', 'Gaming', 'General']);
+  });
+
+  it('should sort by the latest activity by default', async () => {
+    await db.insert(messagesTable)
+      .values([
+        { room_id: gamingId, user_id: otherUserId, content: 'Older', created_at: new Date('2024-05-01') },
+        { room_id: generalId, user_id: otherUserId, content: 'Newest', created_at: new Date('2024-06-01') }
+      ])
+      .execute();
+
+    const result = await discoverRooms({}, userId);
+
+    expect(namesOf(result)).toEqual(['General', 'Gaming', 'Lounge']);
+    expect(result.rooms[0].last_message_at).toEqual(new Date('2024-06-01'));
+    expect(result.rooms[2].last_message_at).toBeNull();
+  });
+
+  it('should ignore deleted messages when ranking activity', async () => {
+    await db.insert(messagesTable)
+      .values({ room_id: generalId, user_id: otherUserId, content: 'Removed', created_at: new Date('2024-06-01'), is_deleted: true })
+      .execute();
+
+    const result = await discoverRooms({}, userId);
+
+    expect(result.rooms.find(room => room.id === generalId)!.last_message_at).toBeNull();
+  });
+
+  it('should page through the results', async () => {
+    const first = await discoverRooms({ sort: 'newest', limit: 2 }, userId);
+    const second = await discoverRooms({ sort: 'newest', limit: 2, offset: 2 }, userId);
+
+    expect(namesOf(first)).toEqual(['Lounge', 'Gaming']);
+    expect(namesOf(second)).toEqual(['General']);
+    expect(first.total).toEqual(3);
+    expect(second.total).toEqual(3);
+  });
+
+  it('should leave out archived rooms even for their participants', async () => {
+    await db.update(roomsTable).set({ is_active: false }).where(eq(roomsTable.id, loungeId)).execute();
+
+    const result = await discoverRooms({}, userId);
+
+    expect(result.rooms.map(room => room.id)).not.toContain(loungeId);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, attachmentsTable } from '../db/schema';
+import { downloadAttachment } from '../handlers/download_attachment';
+import { createDownloadPath } from '../storage/download_urls';
+import { getStorageDriver } from '../storage/driver';
+
+// Split a download path into the arguments downloadAttachment takes
+const parseDownloadPath = (downloadPath: string) => {
+  const url = new URL(downloadPath, 'http://localhost');
+  return {
+    expires: Number(url.searchParams.get('expires')),
+    signature: url.searchParams.get('signature') ?? ''
+  };
+};
+
+describe('downloadAttachment', () => {
+  let attachmentId: number;
+  let uploadDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    uploadDir = await mkdtemp(path.join(os.tmpdir(), 'chat-uploads-'));
+    process.env['UPLOAD_DIR'] = uploadDir;
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id })
+      .returning()
+      .execute();
+
+    const room = await db.insert(roomsTable)
+      .values({ name: 'Room', room_type: 'public', owner_id: user[0].id })
+      .returning()
+      .execute();
+
+    await getStorageDriver().put('room/file-1', new TextEncoder().encode('file contents'), 'text/plain');
+
+    const attachment = await db.insert(attachmentsTable)
+      .values({
+        room_id: room[0].id,
+        uploader_id: user[0].id,
+        file_name: 'notes.txt',
+        mime_type: 'text/plain',
+        size_bytes: 13,
+        storage_key: 'room/file-1'
+      })
+      .returning()
+      .execute();
+    attachmentId = attachment[0].id;
+  });
+
+  afterEach(async () => {
+    delete process.env['UPLOAD_DIR'];
+    await rm(uploadDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should return the attachment and its bytes for a signed link', async () => {
+    const { expires, signature } = parseDownloadPath(createDownloadPath(attachmentId));
+
+    const result = await downloadAttachment(attachmentId, expires, signature);
+
+    expect(result.attachment.file_name).toEqual('notes.txt');
+    expect(new TextDecoder().decode(result.data)).toEqual('file contents');
+  });
+
+  it('should reject links signed for another attachment', async () => {
+    const { expires, signature } = parseDownloadPath(createDownloadPath(attachmentId + 1));
+
+    await expect(downloadAttachment(attachmentId, expires, signature))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject expired links', async () => {
+    const { expires, signature } = parseDownloadPath(createDownloadPath(attachmentId, Date.now() - 2 * 24 * 60 * 60 * 1000));
+
+    await expect(downloadAttachment(attachmentId, expires, signature))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should report attachments whose file is gone', async () => {
+    await getStorageDriver().delete('room/file-1');
+    const { expires, signature } = parseDownloadPath(createDownloadPath(attachmentId));
+
+    await expect(downloadAttachment(attachmentId, expires, signature))
+      .rejects.toThrow(/attachment not found/i);
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable, messageRevisionsTable } from '../db/schema';
+import { editMessage } from '../handlers/edit_message';
+import { listenToRoom } from '../realtime/room_events';
+import { eq } from 'drizzle-orm';
+
+describe('editMessage', () => {
+  let authorId: number;
+  let moderatorId: number;
+  let roomId: number;
+  let messageId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'moderator', email: 'moderator@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    authorId = users[0].id;
+    moderatorId = users[1].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: moderatorId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: authorId, participant_role: 'member' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' }
+      ])
+      .execute();
+
+    const message = await db.insert(messagesTable)
+      .values({
+        room_id: roomId,
+        user_id: authorId,
+        content: 'Original content'
+      })
+      .returning()
+      .execute();
+    messageId = message[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update the content and mark the message as edited', async () => {
+    const result = await editMessage({ message_id: messageId, content: 'Edited content' }, authorId);
+
+    expect(result.id).toEqual(messageId);
+    expect(result.content).toEqual('Edited content');
+    expect(result.is_edited).toBe(true);
+    expect(result.author.username).toEqual('author');
+
+    const saved = await db.select()
+      .from(messagesTable)
+      .where(eq(messagesTable.id, messageId))
+      .execute();
+
+    expect(saved[0].content).toEqual('Edited content');
+    expect(saved[0].is_edited).toBe(true);
+  });
+
+  it('should store the previous content as a revision', async () => {
+    await editMessage({ message_id: messageId, content: 'Second' }, authorId);
+    await editMessage({ message_id: messageId, content: 'Third' }, authorId);
+
+    const revisions = await db.select()
+      .from(messageRevisionsTable)
+      .where(eq(messageRevisionsTable.message_id, messageId))
+      .orderBy(messageRevisionsTable.id)
+      .execute();
+
+    expect(revisions.map(revision => revision.content)).toEqual(['Original content', 'Second']);
+    expect(revisions[0].edited_by).toEqual(authorId);
+  });
+
+  it('should publish the updated message to room subscribers', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    const result = await editMessage({ message_id: messageId, content: 'Edited content' }, authorId);
+
+    const event = await pending;
+    expect(event.value).toEqual({ type: 'message.updated', message: result });
+
+    controller.abort();
+  });
+
+  it('should reject edits by anyone but the author', async () => {
+    await expect(editMessage({ message_id: messageId, content: 'Hijacked' }, moderatorId))
+      .rejects.toThrow(/only the author/i);
+
+    const revisions = await db.select().from(messageRevisionsTable).execute();
+    expect(revisions).toHaveLength(0);
+  });
+
+  it('should reject edits to deleted messages', async () => {
+    await db.update(messagesTable)
+      .set({ is_deleted: true })
+      .where(eq(messagesTable.id, messageId))
+      .execute();
+
+    await expect(editMessage({ message_id: messageId, content: 'Too late' }, authorId))
+      .rejects.toThrow(/not found or deleted/i);
+  });
+
+  it('should reject edits from authors who left the room', async () => {
+    await db.delete(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.user_id, authorId))
+      .execute();
+
+    await expect(editMessage({ message_id: messageId, content: 'Edited' }, authorId))
+      .rejects.toThrow(/not a participant/i);
+  });
+
+  it('should reject edits from muted authors until the mute ends', async () => {
+    const mute = (mutedUntil: Date | null) => db.update(roomParticipantsTable)
+      .set({ is_muted: true, muted_until: mutedUntil })
+      .where(eq(roomParticipantsTable.user_id, authorId))
+      .execute();
+
+    await mute(new Date(Date.now() + 60_000));
+    await expect(editMessage({ message_id: messageId, content: 'Muted' }, authorId))
+      .rejects.toThrow(/muted in this room/i);
+
+    await mute(new Date(Date.now() - 1000));
+    const result = await editMessage({ message_id: messageId, content: 'Mute expired' }, authorId);
+    expect(result.content).toEqual('Mute expired');
+  });
+
+  it('should reject edits in archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(editMessage({ message_id: messageId, content: 'Edited' }, authorId))
+      .rejects.toThrow(/archived and read-only/i);
+
+    const revisions = await db.select().from(messageRevisionsTable).execute();
+    expect(revisions).toHaveLength(0);
+  });
+});
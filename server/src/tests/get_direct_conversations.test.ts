@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { getDirectConversations } from '../handlers/get_direct_conversations';
+import { eq } from 'drizzle-orm';
+
+describe('getDirectConversations', () => {
+  let aliceId: number;
+  let bobId: number;
+  let carolId: number;
+
+  const createDirectRoom = async (userId: number, otherUserId: number) => {
+    const [room] = await db.insert(roomsTable)
+      .values({
+        name: 'direct',
+        room_type: 'private',
+        max_participants: 2,
+        owner_id: userId,
+        is_direct: true,
+        direct_key: `${Math.min(userId, otherUserId)}:${Math.max(userId, otherUserId)}`
+      })
+      .returning()
+      .execute();
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: room.id, user_id: userId },
+        { room_id: room.id, user_id: otherUserId }
+      ])
+      .execute();
+    return room;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'bob', email: 'bob@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'carol', email: 'carol@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    carolId = users[2].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should list the caller\'s conversations with the other participant', async () => {
+    const withBob = await createDirectRoom(aliceId, bobId);
+    const withCarol = await createDirectRoom(carolId, aliceId);
+    await createDirectRoom(bobId, carolId);
+
+    await db.insert(messagesTable)
+      .values({ room_id: withCarol.id, user_id: carolId, content: 'hello' })
+      .execute();
+
+    const result = await getDirectConversations(aliceId);
+
+    expect(result.map(conversation => conversation.room.id)).toEqual([withCarol.id, withBob.id]);
+    expect(result.map(conversation => conversation.other_user.username)).toEqual(['carol', 'bob']);
+    expect(result[0].room.unread_count).toEqual(1);
+    expect(result[1].room.unread_count).toEqual(0);
+  });
+
+  it('should leave out named rooms and inactive conversations', async () => {
+    const inactive = await createDirectRoom(aliceId, bobId);
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, inactive.id))
+      .execute();
+
+    const [named] = await db.insert(roomsTable)
+      .values({ name: 'Named', room_type: 'private', owner_id: aliceId })
+      .returning()
+      .execute();
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: named.id, user_id: aliceId, participant_role: 'admin' })
+      .execute();
+
+    const result = await getDirectConversations(aliceId);
+    expect(result).toHaveLength(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable, messageRevisionsTable } from '../db/schema';
+import { getMessageRevisions } from '../handlers/get_message_revisions';
+import { eq } from 'drizzle-orm';
+
+describe('getMessageRevisions', () => {
+  let authorId: number;
+  let moderatorId: number;
+  let adminId: number;
+  let messageId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'moderator', email: 'moderator@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'admin', email: 'admin@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [authorId, moderatorId, adminId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: adminId
+      })
+      .returning()
+      .execute();
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: room[0].id, user_id: authorId, participant_role: 'member' },
+        { room_id: room[0].id, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: room[0].id, user_id: adminId, participant_role: 'admin' }
+      ])
+      .execute();
+
+    const message = await db.insert(messagesTable)
+      .values({
+        room_id: room[0].id,
+        user_id: authorId,
+        content: 'Third version',
+        is_edited: true
+      })
+      .returning()
+      .execute();
+    messageId = message[0].id;
+
+    await db.insert(messageRevisionsTable)
+      .values([
+        { message_id: messageId, content: 'First version', edited_by: authorId, created_at: new Date(Date.now() - 2000) },
+        { message_id: messageId, content: 'Second version', edited_by: authorId, created_at: new Date(Date.now() - 1000) }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should return revisions oldest first for moderators', async () => {
+    const result = await getMessageRevisions(messageId, moderatorId);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].content).toEqual('First version');
+    expect(result[1].content).toEqual('Second version');
+    expect(result[0].edited_by).toEqual(authorId);
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should allow room admins', async () => {
+    const result = await getMessageRevisions(messageId, adminId);
+
+    expect(result).toHaveLength(2);
+  });
+
+  it('should include history of deleted messages', async () => {
+    await db.update(messagesTable)
+      .set({ is_deleted: true })
+      .where(eq(messagesTable.id, messageId))
+      .execute();
+
+    const result = await getMessageRevisions(messageId, moderatorId);
+
+    expect(result).toHaveLength(2);
+  });
+
+  it('should reject regular members, including the author', async () => {
+    await expect(getMessageRevisions(messageId, authorId))
+      .rejects.toThrow(/only room moderators/i);
+  });
+
+  it('should reject unknown messages', async () => {
+    await expect(getMessageRevisions(999999, moderatorId))
+      .rejects.toThrow(/message not found/i);
+  });
+});
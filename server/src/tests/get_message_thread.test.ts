@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { getMessageThread } from '../handlers/get_message_thread';
+import { eq } from 'drizzle-orm';
+
+describe('getMessageThread', () => {
+  let memberId: number;
+  let outsiderId: number;
+  let publicRoomId: number;
+  let privateRoomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    memberId = users[0].id;
+    outsiderId = users[1].id;
+
+    const rooms = await db.insert(roomsTable)
+      .values([
+        { name: 'Public', room_type: 'public', owner_id: memberId },
+        { name: 'Private', room_type: 'private', owner_id: memberId }
+      ])
+      .returning()
+      .execute();
+    publicRoomId = rooms[0].id;
+    privateRoomId = rooms[1].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: publicRoomId, user_id: memberId, participant_role: 'admin' },
+        { room_id: privateRoomId, user_id: memberId, participant_role: 'admin' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const createMessage = async (roomId: number, content: string, replyToId: number | null = null) => {
+    const result = await db.insert(messagesTable)
+      .values({
+        room_id: roomId,
+        user_id: memberId,
+        content,
+        reply_to_id: replyToId
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should return the root message with its replies oldest first', async () => {
+    const root = await createMessage(publicRoomId, 'Root');
+    await createMessage(publicRoomId, 'First reply', root.id);
+    await createMessage(publicRoomId, 'Second reply', root.id);
+    await createMessage(publicRoomId, 'Unrelated');
+
+    const result = await getMessageThread(root.id, memberId);
+
+    expect(result.root.id).toEqual(root.id);
+    expect(result.root.author.username).toEqual('member');
+    expect(result.root.reply_count).toEqual(2);
+    expect(result.replies.map(reply => reply.content)).toEqual(['First reply', 'Second reply']);
+    expect(result.replies[0].reply_to_id).toEqual(root.id);
+    expect(result.reply_count).toEqual(2);
+  });
+
+  it('should leave out deleted replies', async () => {
+    const root = await createMessage(publicRoomId, 'Root');
+    const reply = await createMessage(publicRoomId, 'Deleted reply', root.id);
+    await createMessage(publicRoomId, 'Kept reply', root.id);
+
+    await db.update(messagesTable)
+      .set({ is_deleted: true })
+      .where(eq(messagesTable.id, reply.id))
+      .execute();
+
+    const result = await getMessageThread(root.id, memberId);
+
+    expect(result.replies.map(r => r.content)).toEqual(['Kept reply']);
+    expect(result.reply_count).toEqual(1);
+    expect(result.root.reply_count).toEqual(1);
+  });
+
+  it('should let anyone read threads in public rooms', async () => {
+    const root = await createMessage(publicRoomId, 'Root');
+
+    const result = await getMessageThread(root.id, outsiderId);
+
+    expect(result.root.id).toEqual(root.id);
+    expect(result.replies).toHaveLength(0);
+  });
+
+  it('should deny threads in private rooms to non-participants', async () => {
+    const root = await createMessage(privateRoomId, 'Secret');
+
+    await expect(getMessageThread(root.id, outsiderId))
+      .rejects.toThrow(/access denied/i);
+  });
+
+  it('should reject deleted root messages', async () => {
+    const root = await createMessage(publicRoomId, 'Root');
+    await db.update(messagesTable)
+      .set({ is_deleted: true })
+      .where(eq(messagesTable.id, root.id))
+      .execute();
+
+    await expect(getMessageThread(root.id, memberId))
+      .rejects.toThrow(/not found or deleted/i);
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable, messageMentionsTable } from '../db/schema';
+import { getMyMentions } from '../handlers/get_my_mentions';
+import { and, eq } from 'drizzle-orm';
+
+describe('getMyMentions', () => {
+  let mentionedId: number;
+  let authorId: number;
+  let roomId: number;
+  let privateRoomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'mentioned', email: 'mentioned@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'author', email: 'author@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    mentionedId = users[0].id;
+    authorId = users[1].id;
+
+    const rooms = await db.insert(roomsTable)
+      .values([
+        { name: 'Lobby', room_type: 'public', owner_id: authorId },
+        { name: 'Secret', room_type: 'private', owner_id: authorId }
+      ])
+      .returning()
+      .execute();
+    roomId = rooms[0].id;
+    privateRoomId = rooms[1].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: mentionedId, participant_role: 'member' },
+        { room_id: roomId, user_id: authorId, participant_role: 'admin' },
+        { room_id: privateRoomId, user_id: authorId, participant_role: 'admin' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const mention = async (targetRoomId: number, content: string) => {
+    const message = await db.insert(messagesTable)
+      .values({ room_id: targetRoomId, user_id: authorId, content })
+      .returning()
+      .execute();
+    await db.insert(messageMentionsTable)
+      .values({ message_id: message[0].id, room_id: targetRoomId, mentioned_user_id: mentionedId })
+      .execute();
+    return message[0];
+  };
+
+  it('should return mentions newest first with their messages', async () => {
+    const first = await mention(roomId, 'hi @mentioned');
+    const second = await mention(roomId, '@mentioned again');
+
+    const result = await getMyMentions({}, mentionedId);
+
+    expect(result.map(item => item.message.id)).toEqual([second.id, first.id]);
+    expect(result[0].room_name).toEqual('Lobby');
+    expect(result[0].message.author.username).toEqual('author');
+    expect(result[0].message.mentioned_user_ids).toEqual([mentionedId]);
+    expect(result[0].is_read).toBe(false);
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should treat mentions up to the read position as read', async () => {
+    const first = await mention(roomId, 'hi @mentioned');
+    await mention(roomId, '@mentioned again');
+
+    await db.update(roomParticipantsTable)
+      .set({ last_read_message_id: first.id })
+      .where(and(
+        eq(roomParticipantsTable.room_id, roomId),
+        eq(roomParticipantsTable.user_id, mentionedId)
+      ))
+      .execute();
+
+    const all = await getMyMentions({}, mentionedId);
+    expect(all.map(item => item.is_read)).toEqual([false, true]);
+
+    const unread = await getMyMentions({ unread_only: true }, mentionedId);
+    expect(unread).toHaveLength(1);
+    expect(unread[0].is_read).toBe(false);
+  });
+
+  it('should page with a cursor', async () => {
+    await mention(roomId, 'one @mentioned');
+    await mention(roomId, 'two @mentioned');
+    await mention(roomId, 'three @mentioned');
+
+    const page = await getMyMentions({ limit: 2 }, mentionedId);
+    expect(page.map(item => item.message.content)).toEqual(['three @mentioned', 'two @mentioned']);
+
+    const next = await getMyMentions({ limit: 2, before: page[1].id }, mentionedId);
+    expect(next.map(item => item.message.content)).toEqual(['one @mentioned']);
+  });
+
+  it('should skip deleted messages and private rooms the user cannot read', async () => {
+    const deleted = await mention(roomId, 'deleted @mentioned');
+    await db.update(messagesTable)
+      .set({ is_deleted: true })
+      .where(eq(messagesTable.id, deleted.id))
+      .execute();
+    await mention(privateRoomId, 'secret @mentioned');
+
+    const result = await getMyMentions({}, mentionedId);
+    expect(result).toHaveLength(0);
+  });
+});
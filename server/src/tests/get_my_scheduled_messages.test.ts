@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, scheduledMessagesTable } from '../db/schema';
+import { getMyScheduledMessages } from '../handlers/get_my_scheduled_messages';
+
+describe('getMyScheduledMessages', () => {
+  let userId: number;
+  let otherUserId: number;
+  let roomId: number;
+  let otherRoomId: number;
+
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60_000);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'user', email: 'user@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'other', email: 'other@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [userId, otherUserId] = users.map(user => user.id);
+
+    const rooms = await db.insert(roomsTable)
+      .values([
+        { name: 'Room', room_type: 'public', owner_id: userId },
+        { name: 'Other', room_type: 'public', owner_id: userId }
+      ])
+      .returning()
+      .execute();
+    [roomId, otherRoomId] = rooms.map(room => room.id);
+
+    await db.insert(scheduledMessagesTable)
+      .values([
+        { room_id: roomId, user_id: userId, content: 'Second', send_at: inMinutes(20) },
+        { room_id: roomId, user_id: userId, content: 'First', send_at: inMinutes(10) },
+        { room_id: otherRoomId, user_id: userId, content: 'Elsewhere', send_at: inMinutes(15) },
+        { room_id: roomId, user_id: userId, content: 'Refused', send_at: inMinutes(-5), status: 'failed', failure_reason: 'You are muted in this room' },
+        { room_id: roomId, user_id: userId, content: 'Delivered', send_at: inMinutes(-10), status: 'sent' },
+        { room_id: roomId, user_id: userId, content: 'Dropped', send_at: inMinutes(30), status: 'cancelled' },
+        { room_id: roomId, user_id: otherUserId, content: 'Not mine', send_at: inMinutes(5) }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list the user\'s waiting and failed messages, soonest first', async () => {
+    const result = await getMyScheduledMessages({}, userId);
+
+    expect(result.map(message => message.content)).toEqual(['Refused', 'First', 'Elsewhere', 'Second']);
+    expect(result[0].failure_reason).toEqual('You are muted in this room');
+  });
+
+  it('should filter by room', async () => {
+    const result = await getMyScheduledMessages({ room_id: otherRoomId }, userId);
+
+    expect(result.map(message => message.content)).toEqual(['Elsewhere']);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable, roomPinsTable } from '../db/schema';
+import { getPinnedMessages } from '../handlers/get_pinned_messages';
+import { eq } from 'drizzle-orm';
+
+describe('getPinnedMessages', () => {
+  let moderatorId: number;
+  let outsiderId: number;
+  let roomId: number;
+  let messageIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'moderator', email: 'moderator@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [moderatorId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: moderatorId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: roomId, user_id: moderatorId, participant_role: 'moderator' })
+      .execute();
+
+    const messages = await db.insert(messagesTable)
+      .values([
+        { room_id: roomId, user_id: moderatorId, content: 'First pin' },
+        { room_id: roomId, user_id: moderatorId, content: 'Second pin' },
+        { room_id: roomId, user_id: moderatorId, content: 'Not pinned' }
+      ])
+      .returning()
+      .execute();
+    messageIds = messages.map(message => message.id);
+
+    await db.insert(roomPinsTable)
+      .values([
+        { room_id: roomId, message_id: messageIds[0], pinned_by: moderatorId },
+        { room_id: roomId, message_id: messageIds[1], pinned_by: moderatorId }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should return the pinned messages, most recently pinned first', async () => {
+    const result = await getPinnedMessages({ room_id: roomId }, moderatorId);
+
+    expect(result.map(pin => pin.message.content)).toEqual(['Second pin', 'First pin']);
+    expect(result[0].message.author.username).toEqual('moderator');
+    expect(result[0].pinned_by.id).toEqual(moderatorId);
+  });
+
+  it('should hide pins of deleted messages', async () => {
+    await db.update(messagesTable)
+      .set({ is_deleted: true })
+      .where(eq(messagesTable.id, messageIds[1]))
+      .execute();
+
+    const result = await getPinnedMessages({ room_id: roomId }, moderatorId);
+
+    expect(result.map(pin => pin.message.id)).toEqual([messageIds[0]]);
+  });
+
+  it('should let anyone read the pins of public rooms', async () => {
+    const result = await getPinnedMessages({ room_id: roomId }, outsiderId);
+
+    expect(result).toHaveLength(2);
+  });
+
+  it('should reject non-members of private rooms', async () => {
+    await db.update(roomsTable)
+      .set({ room_type: 'private' })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(getPinnedMessages({ room_id: roomId }, outsiderId))
+      .rejects.toThrow(/not a member of this private room/i);
+  });
+});
@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { roomCategoriesTable } from '../db/schema';
+import { getRoomCategories } from '../handlers/get_room_categories';
+
+describe('getRoomCategories', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return categories by position, then name', async () => {
+    await db.insert(roomCategoriesTable)
+      .values([
+        { name: 'Off-topic', position: 2 },
+        { name: 'Gaming', position: 1 },
+        { name: 'Announcements', position: 0 },
+        { name: 'Art', position: 1 }
+      ])
+      .execute();
+
+    const result = await getRoomCategories();
+
+    expect(result.map(category => category.name)).toEqual(['Announcements', 'Art', 'Gaming', 'Off-topic']);
+  });
+
+  it('should return an empty list without categories', async () => {
+    expect(await getRoomCategories()).toEqual([]);
+  });
+});
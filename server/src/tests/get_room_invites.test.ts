@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, roomInvitesTable } from '../db/schema';
+import { getRoomInvites } from '../handlers/get_room_invites';
+
+describe('getRoomInvites', () => {
+  let ownerId: number;
+  let memberId: number;
+  let guestId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'guest', email: 'guest@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    memberId = users[1].id;
+    guestId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Secret',
+        room_type: 'private',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list usable invites newest first', async () => {
+    await db.insert(roomInvitesTable)
+      .values([
+        { room_id: roomId, created_by: ownerId, code: 'older' },
+        { room_id: roomId, created_by: ownerId, code: 'personal', invitee_id: guestId, max_uses: 1 },
+        { room_id: roomId, created_by: ownerId, code: 'expired', expires_at: new Date(Date.now() - 1000) },
+        { room_id: roomId, created_by: ownerId, code: 'revoked', revoked_at: new Date() },
+        { room_id: roomId, created_by: ownerId, code: 'used', max_uses: 2, use_count: 2 }
+      ])
+      .execute();
+
+    const result = await getRoomInvites(roomId, ownerId);
+
+    expect(result.map(invite => invite.code)).toEqual(['personal', 'older']);
+    expect(result[0].invitee).toEqual({ id: guestId, username: 'guest', display_name: null, avatar_url: null });
+    expect(result[1].invitee).toBeNull();
+  });
+
+  it('should reject participants who are not moderators', async () => {
+    await expect(getRoomInvites(roomId, memberId)).rejects.toThrow(/only room moderators and admins/i);
+    await expect(getRoomInvites(roomId, guestId)).rejects.toThrow(/only room moderators and admins/i);
+  });
+});
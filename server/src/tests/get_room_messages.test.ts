@@ -1,8 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, rolesTable, roomsTable, messagesTable, roomParticipantsTable } from '../db/schema';
+import { usersTable, rolesTable, roomsTable, messagesTable, roomParticipantsTable, messageReactionsTable } from '../db/schema';
 import { getRoomMessages } from '../handlers/get_room_messages';
+import { eq } from 'drizzle-orm';
 
 describe('getRoomMessages', () => {
   beforeEach(createDB);
@@ -144,6 +145,88 @@ describe('getRoomMessages', () => {
       .rejects.toThrow(/Room not found/i);
   });
 
+  it('should embed the author profile and room role', async () => {
+    await db.update(usersTable)
+      .set({ display_name: 'Test User', avatar_url: 'https://example.com/avatar.png' })
+      .where(eq(usersTable.id, testUser.id))
+      .execute();
+
+    await db.insert(messagesTable)
+      .values({
+        room_id: privateRoom.id,
+        user_id: testUser.id,
+        content: 'Hello from the admin'
+      })
+      .execute();
+
+    const result = await getRoomMessages(privateRoom.id, testUser.id);
+
+    expect(result[0].author).toEqual({
+      id: testUser.id,
+      username: 'testuser',
+      display_name: 'Test User',
+      avatar_url: 'https://example.com/avatar.png',
+      participant_role: 'admin'
+    });
+  });
+
+  it('should report no room role for authors who are not participants', async () => {
+    await db.insert(messagesTable)
+      .values({
+        room_id: publicRoom.id,
+        user_id: otherUser.id,
+        content: 'Passing through'
+      })
+      .execute();
+
+    const result = await getRoomMessages(publicRoom.id, testUser.id);
+
+    expect(result[0].author.username).toEqual('otheruser');
+    expect(result[0].author.participant_role).toBeNull();
+  });
+
+  it('should count replies on each message', async () => {
+    const root = await db.insert(messagesTable)
+      .values({ room_id: publicRoom.id, user_id: testUser.id, content: 'Question' })
+      .returning()
+      .execute();
+
+    await db.insert(messagesTable)
+      .values([
+        { room_id: publicRoom.id, user_id: otherUser.id, content: 'Answer', reply_to_id: root[0].id },
+        { room_id: publicRoom.id, user_id: otherUser.id, content: 'Removed answer', reply_to_id: root[0].id, is_deleted: true }
+      ])
+      .execute();
+
+    const result = await getRoomMessages(publicRoom.id, testUser.id);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].reply_count).toEqual(1);
+    expect(result[1].reply_count).toEqual(0);
+  });
+
+  it('should aggregate reactions on each message', async () => {
+    const message = await db.insert(messagesTable)
+      .values({ room_id: publicRoom.id, user_id: testUser.id, content: 'Nice' })
+      .returning()
+      .execute();
+
+    await db.insert(messageReactionsTable)
+      .values([
+        { message_id: message[0].id, user_id: testUser.id, emoji: '👍' },
+        { message_id: message[0].id, user_id: otherUser.id, emoji: '👍' },
+        { message_id: message[0].id, user_id: otherUser.id, emoji: '😂' }
+      ])
+      .execute();
+
+    const result = await getRoomMessages(publicRoom.id, testUser.id);
+
+    expect(result[0].reactions).toEqual([
+      { emoji: '👍', count: 2, user_ids: [testUser.id, otherUser.id] },
+      { emoji: '😂', count: 1, user_ids: [otherUser.id] }
+    ]);
+  });
+
   it('should exclude deleted messages', async () => {
     // Create messages (one deleted)
     await db.insert(messagesTable)
@@ -172,8 +255,7 @@ describe('getRoomMessages', () => {
     expect(result[0].is_deleted).toBe(false);
   });
 
-  it('should apply pagination correctly', async () => {
-    // Create multiple messages
+  it('should return the newest page by default', async () => {
     const messageValues = [];
     for (let i = 1; i <= 5; i++) {
       messageValues.push({
@@ -187,16 +269,59 @@ describe('getRoomMessages', () => {
       .values(messageValues)
       .execute();
 
-    // Test limit
-    const limitedResult = await getRoomMessages(publicRoom.id, testUser.id, 3, 0);
-    expect(limitedResult).toHaveLength(3);
+    const result = await getRoomMessages(publicRoom.id, testUser.id, { limit: 3 });
 
-    // Test offset
-    const offsetResult = await getRoomMessages(publicRoom.id, testUser.id, 2, 2);
-    expect(offsetResult).toHaveLength(2);
+    expect(result.map(msg => msg.content)).toEqual(['Message 3', 'Message 4', 'Message 5']);
+  });
+
+  it('should page with before and after cursors', async () => {
+    const messageValues = [];
+    for (let i = 1; i <= 5; i++) {
+      messageValues.push({
+        room_id: publicRoom.id,
+        user_id: testUser.id,
+        content: `Message ${i}`,
+        message_type: 'text' as const
+      });
+    }
+    const inserted = await db.insert(messagesTable)
+      .values(messageValues)
+      .returning()
+      .execute();
+
+    // Older page: the messages right before the cursor, still oldest first
+    const older = await getRoomMessages(publicRoom.id, testUser.id, { limit: 2, before: inserted[3].id });
+    expect(older.map(msg => msg.content)).toEqual(['Message 2', 'Message 3']);
+
+    // Newer page: the messages right after the cursor
+    const newer = await getRoomMessages(publicRoom.id, testUser.id, { limit: 2, after: inserted[0].id });
+    expect(newer.map(msg => msg.content)).toEqual(['Message 2', 'Message 3']);
+
+    // Both cursors bound a range
+    const between = await getRoomMessages(publicRoom.id, testUser.id, { before: inserted[4].id, after: inserted[1].id });
+    expect(between.map(msg => msg.content)).toEqual(['Message 3', 'Message 4']);
+
+    // Paging past the oldest message yields an empty page
+    const none = await getRoomMessages(publicRoom.id, testUser.id, { before: inserted[0].id });
+    expect(none).toHaveLength(0);
+  });
+
+  it('should not shift pages when new messages arrive', async () => {
+    const inserted = await db.insert(messagesTable)
+      .values([
+        { room_id: publicRoom.id, user_id: testUser.id, content: 'First' },
+        { room_id: publicRoom.id, user_id: testUser.id, content: 'Second' },
+        { room_id: publicRoom.id, user_id: testUser.id, content: 'Third' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(messagesTable)
+      .values({ room_id: publicRoom.id, user_id: testUser.id, content: 'Arrived later' })
+      .execute();
 
-    // Verify we get different messages with offset
-    expect(limitedResult[0].content).not.toEqual(offsetResult[0].content);
+    const older = await getRoomMessages(publicRoom.id, testUser.id, { limit: 2, before: inserted[2].id });
+    expect(older.map(msg => msg.content)).toEqual(['First', 'Second']);
   });
 
   it('should return messages in chronological order', async () => {
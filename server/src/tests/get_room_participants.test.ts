@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable } from '../db/schema';
+import { getRoomParticipants } from '../handlers/get_room_participants';
+import { and, eq } from 'drizzle-orm';
+
+describe('getRoomParticipants', () => {
+  let ownerId: number;
+  let adminId: number;
+  let moderatorId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values(['owner', 'admin', 'moderator', 'member', 'outsider'].map(username => ({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role_id: role[0].id
+      })))
+      .returning()
+      .execute();
+    [ownerId, adminId, moderatorId, memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list participants with profiles, grouped by role', async () => {
+    const result = await getRoomParticipants(roomId, memberId);
+
+    expect(result.map(member => member.user.username)).toEqual(['admin', 'owner', 'moderator', 'member']);
+    expect(result.map(member => member.participant_role)).toEqual(['admin', 'admin', 'moderator', 'member']);
+    expect(result[1].is_owner).toBe(true);
+    expect(result[0].is_owner).toBe(false);
+    expect(result[3].user).toEqual({ id: memberId, username: 'member', display_name: null, avatar_url: null });
+    expect(result[3].joined_at).toBeInstanceOf(Date);
+  });
+
+  it('should report active mutes only', async () => {
+    const mute = (userId: number, mutedUntil: Date | null) => db.update(roomParticipantsTable)
+      .set({ is_muted: true, muted_until: mutedUntil })
+      .where(and(
+        eq(roomParticipantsTable.room_id, roomId),
+        eq(roomParticipantsTable.user_id, userId)
+      ))
+      .execute();
+    const mutedUntil = new Date(Date.now() + 60_000);
+    await mute(memberId, mutedUntil);
+    await mute(moderatorId, new Date(Date.now() - 1000));
+
+    const result = await getRoomParticipants(roomId, ownerId);
+
+    const member = result.find(entry => entry.user.id === memberId)!;
+    expect(member.is_muted).toBe(true);
+    expect(member.muted_until).toEqual(mutedUntil);
+
+    const moderator = result.find(entry => entry.user.id === moderatorId)!;
+    expect(moderator.is_muted).toBe(false);
+    expect(moderator.muted_until).toBeNull();
+  });
+
+  it('should let anyone list a public room', async () => {
+    const result = await getRoomParticipants(roomId, outsiderId);
+    expect(result).toHaveLength(4);
+  });
+
+  it('should hide private rooms from non-participants', async () => {
+    await db.update(roomsTable).set({ room_type: 'private' }).where(eq(roomsTable.id, roomId)).execute();
+
+    await expect(getRoomParticipants(roomId, outsiderId)).rejects.toThrow(/access denied/i);
+    const result = await getRoomParticipants(roomId, memberId);
+    expect(result).toHaveLength(4);
+  });
+
+  it('should reject unknown rooms', async () => {
+    await expect(getRoomParticipants(99999, memberId)).rejects.toThrow(/room not found/i);
+  });
+});
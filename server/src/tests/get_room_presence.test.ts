@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable } from '../db/schema';
+import { getRoomPresence } from '../handlers/get_room_presence';
+import { clearPresence, touchPresence } from '../realtime/presence';
+
+describe('getRoomPresence', () => {
+  let aliceId: number;
+  let bobId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    clearPresence();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com', password_hash: 'hashed_password', role_id: role[0].id, display_name: 'Alice' },
+        { username: 'bob', email: 'bob@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    outsiderId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: aliceId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: aliceId, participant_role: 'admin' },
+        { room_id: roomId, user_id: bobId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should return nobody when no session is active', async () => {
+    const result = await getRoomPresence(roomId, aliceId);
+
+    expect(result.room_id).toEqual(roomId);
+    expect(result.online_count).toEqual(0);
+    expect(result.users).toEqual([]);
+  });
+
+  it('should return online users with their profiles', async () => {
+    touchPresence(roomId, aliceId, 'alice-tab');
+    touchPresence(roomId, bobId, 'bob-tab');
+
+    const result = await getRoomPresence(roomId, aliceId);
+
+    expect(result.online_count).toEqual(2);
+    expect(result.users).toEqual([
+      { id: aliceId, username: 'alice', display_name: 'Alice', avatar_url: null },
+      { id: bobId, username: 'bob', display_name: null, avatar_url: null }
+    ]);
+  });
+
+  it('should count a user with several sessions once', async () => {
+    touchPresence(roomId, bobId, 'bob-tab-1');
+    touchPresence(roomId, bobId, 'bob-tab-2');
+
+    const result = await getRoomPresence(roomId, aliceId);
+
+    expect(result.online_count).toEqual(1);
+    expect(result.users[0].id).toEqual(bobId);
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(getRoomPresence(roomId, outsiderId)).rejects.toThrow(/not a participant/i);
+  });
+});
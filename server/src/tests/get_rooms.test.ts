@@ -1,9 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { roomsTable, usersTable, rolesTable, roomParticipantsTable } from '../db/schema';
+import { roomsTable, usersTable, rolesTable, roomParticipantsTable, messagesTable, messageMentionsTable, roomInvitesTable, roomCategoriesTable } from '../db/schema';
 import { getRooms } from '../handlers/get_rooms';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 
 describe('getRooms', () => {
   beforeEach(createDB);
@@ -140,6 +140,37 @@ describe('getRooms', () => {
     expect(roomIds).toContain(privateRoom.id);
   });
 
+  it('should include private rooms the user has a pending invite to', async () => {
+    const { user1, user2, privateRoom } = await createTestData();
+
+    await db.insert(roomInvitesTable)
+      .values({ room_id: privateRoom.id, created_by: user2.id, invitee_id: user1.id, code: 'personal', max_uses: 1 })
+      .execute();
+
+    const result = await getRooms(user1.id);
+
+    const room = result.find(r => r.id === privateRoom.id);
+    expect(room).toBeDefined();
+    // Not joined yet, so there is no read state
+    expect(room!.last_read_message_id).toBeNull();
+    expect(room!.unread_count).toEqual(0);
+  });
+
+  it('should not list private rooms for revoked or used invites', async () => {
+    const { user1, user2, privateRoom } = await createTestData();
+
+    await db.insert(roomInvitesTable)
+      .values([
+        { room_id: privateRoom.id, created_by: user2.id, invitee_id: user1.id, code: 'revoked', revoked_at: new Date() },
+        { room_id: privateRoom.id, created_by: user2.id, invitee_id: user1.id, code: 'used', max_uses: 1, use_count: 1 }
+      ])
+      .execute();
+
+    const result = await getRooms(user1.id);
+
+    expect(result.map(r => r.id)).not.toContain(privateRoom.id);
+  });
+
   it('should exclude inactive rooms', async () => {
     const { user1, inactiveRoom } = await createTestData();
 
@@ -154,6 +185,31 @@ describe('getRooms', () => {
     });
   });
 
+  it('should keep listing archived rooms for their participants', async () => {
+    const { user1, user2, inactiveRoom } = await createTestData();
+
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: inactiveRoom.id, user_id: user2.id, participant_role: 'member' })
+      .execute();
+
+    const participantRooms = await getRooms(user2.id);
+    const archived = participantRooms.find(r => r.id === inactiveRoom.id);
+    expect(archived).toBeDefined();
+    expect(archived!.is_active).toBe(false);
+
+    const otherRooms = await getRooms(user1.id);
+    expect(otherRooms.map(r => r.id)).not.toContain(inactiveRoom.id);
+  });
+
+  it('should report the user\'s role in joined rooms only', async () => {
+    const { user2, publicRoom, privateRoom } = await createTestData();
+
+    const result = await getRooms(user2.id);
+
+    expect(result.find(r => r.id === privateRoom.id)!.participant_role).toEqual('member');
+    expect(result.find(r => r.id === publicRoom.id)!.participant_role).toBeNull();
+  });
+
   it('should handle user with no room participations', async () => {
     const { user1, publicRoom, premiumRoom, privateRoom } = await createTestData();
 
@@ -189,6 +245,23 @@ describe('getRooms', () => {
     expect(room.updated_at).toBeInstanceOf(Date);
   });
 
+  it('should include each room\'s category and tags', async () => {
+    const { publicRoom } = await createTestData();
+    const category = await db.insert(roomCategoriesTable)
+      .values({ name: 'General' })
+      .returning()
+      .execute();
+    await db.update(roomsTable)
+      .set({ category_id: category[0].id, tags: ['welcome', 'chat'] })
+      .where(eq(roomsTable.id, publicRoom.id))
+      .execute();
+
+    const result = await getRooms();
+
+    expect(result[0].category_id).toEqual(category[0].id);
+    expect(result[0].tags).toEqual(['welcome', 'chat']);
+  });
+
   it('should verify rooms are saved correctly in database', async () => {
     const { publicRoom } = await createTestData();
 
@@ -222,4 +295,123 @@ describe('getRooms', () => {
     expect(roomTypes).toContain('public');
     expect(roomTypes).toContain('premium');
   });
-});
\ No newline at end of file
+
+  it('should count unread messages from others after the read position', async () => {
+    const { user1, user2, privateRoom } = await createTestData();
+
+    const messages = await db.insert(messagesTable)
+      .values([
+        { room_id: privateRoom.id, user_id: user1.id, content: 'first' },
+        { room_id: privateRoom.id, user_id: user1.id, content: 'second' },
+        { room_id: privateRoom.id, user_id: user2.id, content: 'own reply' },
+        { room_id: privateRoom.id, user_id: user1.id, content: 'deleted', is_deleted: true },
+        { room_id: privateRoom.id, user_id: user1.id, content: 'third' }
+      ])
+      .returning()
+      .execute();
+
+    await db.update(roomParticipantsTable)
+      .set({ last_read_message_id: messages[0].id })
+      .where(and(
+        eq(roomParticipantsTable.room_id, privateRoom.id),
+        eq(roomParticipantsTable.user_id, user2.id)
+      ))
+      .execute();
+
+    const result = await getRooms(user2.id);
+    const room = result.find(r => r.id === privateRoom.id);
+
+    // "second" and "third"; own and deleted messages never count
+    expect(room?.last_read_message_id).toEqual(messages[0].id);
+    expect(room?.unread_count).toEqual(2);
+  });
+
+  it('should count messages since joining before the first read', async () => {
+    const { user1, user2, privateRoom } = await createTestData();
+
+    await db.insert(messagesTable)
+      .values({ room_id: privateRoom.id, user_id: user1.id, content: 'before joining', created_at: new Date(Date.now() - 60_000) })
+      .execute();
+    await db.insert(messagesTable)
+      .values({ room_id: privateRoom.id, user_id: user1.id, content: 'after joining' })
+      .execute();
+
+    const result = await getRooms(user2.id);
+    const room = result.find(r => r.id === privateRoom.id);
+
+    expect(room?.last_read_message_id).toBeNull();
+    expect(room?.unread_count).toEqual(1);
+  });
+
+  it('should report no unread messages in rooms the user has not joined', async () => {
+    const { user1, user2, publicRoom } = await createTestData();
+
+    await db.insert(messagesTable)
+      .values({ room_id: publicRoom.id, user_id: user1.id, content: 'hello' })
+      .execute();
+
+    const result = await getRooms(user2.id);
+    const room = result.find(r => r.id === publicRoom.id);
+
+    expect(room?.last_read_message_id).toBeNull();
+    expect(room?.unread_count).toEqual(0);
+  });
+
+  it('should count unread mentions of the user', async () => {
+    const { user1, user2, privateRoom } = await createTestData();
+
+    const messages = await db.insert(messagesTable)
+      .values([
+        { room_id: privateRoom.id, user_id: user1.id, content: 'read @testuser2' },
+        { room_id: privateRoom.id, user_id: user1.id, content: 'unread @testuser2' },
+        { room_id: privateRoom.id, user_id: user1.id, content: 'no mention' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(messageMentionsTable)
+      .values([
+        { message_id: messages[0].id, room_id: privateRoom.id, mentioned_user_id: user2.id },
+        { message_id: messages[1].id, room_id: privateRoom.id, mentioned_user_id: user2.id }
+      ])
+      .execute();
+
+    await db.update(roomParticipantsTable)
+      .set({ last_read_message_id: messages[0].id })
+      .where(and(
+        eq(roomParticipantsTable.room_id, privateRoom.id),
+        eq(roomParticipantsTable.user_id, user2.id)
+      ))
+      .execute();
+
+    const result = await getRooms(user2.id);
+    const room = result.find(r => r.id === privateRoom.id);
+
+    expect(room?.unread_count).toEqual(2);
+    expect(room?.unread_mention_count).toEqual(1);
+  });
+
+  it('should leave direct conversations out of the listing', async () => {
+    const { user1, user2 } = await createTestData();
+
+    const [direct] = await db.insert(roomsTable)
+      .values({
+        name: 'testuser1 & testuser2',
+        room_type: 'private',
+        owner_id: user1.id,
+        is_direct: true,
+        direct_key: `${user1.id}:${user2.id}`
+      })
+      .returning()
+      .execute();
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: direct.id, user_id: user1.id },
+        { room_id: direct.id, user_id: user2.id }
+      ])
+      .execute();
+
+    const result = await getRooms(user1.id);
+    expect(result.map(r => r.id)).not.toContain(direct.id);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable } from '../db/schema';
+import { heartbeatPresence } from '../handlers/heartbeat_presence';
+import { clearPresence, getOnlineUserIds, sweepExpiredPresence, PRESENCE_TIMEOUT_MS } from '../realtime/presence';
+import { listenToRoom } from '../realtime/room_events';
+import { eq } from 'drizzle-orm';
+
+describe('heartbeatPresence', () => {
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    clearPresence();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    memberId = users[0].id;
+    outsiderId = users[1].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: memberId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values({
+        room_id: roomId,
+        user_id: memberId,
+        participant_role: 'member'
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should mark the user online and update last_seen_at', async () => {
+    const result = await heartbeatPresence({ room_id: roomId, session_id: 'tab-1' }, memberId);
+
+    expect(result.user_id).toEqual(memberId);
+    expect(result.last_seen_at).toBeInstanceOf(Date);
+    expect(getOnlineUserIds(roomId)).toEqual([memberId]);
+
+    const participants = await db.select()
+      .from(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.id, result.id))
+      .execute();
+
+    expect(participants[0].last_seen_at).toBeInstanceOf(Date);
+  });
+
+  it('should publish a presence change when the user comes online', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    await heartbeatPresence({ room_id: roomId, session_id: 'tab-1' }, memberId);
+
+    const event = await pending;
+    expect(event.value).toEqual({
+      type: 'presence.changed',
+      room_id: roomId,
+      online_user_ids: [memberId]
+    });
+
+    controller.abort();
+  });
+
+  it('should expire sessions that stop sending heartbeats', async () => {
+    await heartbeatPresence({ room_id: roomId, session_id: 'tab-1' }, memberId);
+
+    expect(sweepExpiredPresence(Date.now())).toEqual([]);
+    expect(getOnlineUserIds(roomId)).toEqual([memberId]);
+
+    const changedRooms = sweepExpiredPresence(Date.now() + PRESENCE_TIMEOUT_MS + 1000);
+    expect(changedRooms).toEqual([roomId]);
+    expect(getOnlineUserIds(roomId)).toEqual([]);
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(heartbeatPresence({ room_id: roomId, session_id: 'tab-1' }, outsiderId))
+      .rejects.toThrow(/not a participant/i);
+
+    expect(getOnlineUserIds(roomId)).toEqual([]);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { rolesTable, usersTable, roomsTable, roomParticipantsTable, goldTransactionsTable } from '../db/schema';
+import { rolesTable, usersTable, roomsTable, roomParticipantsTable, goldTransactionsTable, roomInvitesTable, roomBansTable } from '../db/schema';
 import { type JoinRoomInput } from '../schema';
 import { joinRoom } from '../handlers/join_room';
 import { eq, and, count } from 'drizzle-orm';
@@ -170,6 +170,32 @@ describe('joinRoom', () => {
     await expect(joinRoom(input, user.id)).rejects.toThrow(/insufficient gold credits/i);
   });
 
+  it('should charge once when the same user joins twice at the same time', async () => {
+    const role = await createTestRole();
+    const owner = await createTestOwner(role.id);
+    const user = await createTestUser(role.id, 100);
+    const room = await createTestRoom(owner.id, 'premium', 50);
+
+    const results = await Promise.allSettled([
+      joinRoom({ room_id: room.id }, user.id),
+      joinRoom({ room_id: room.id }, user.id)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const updatedUser = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+    expect(updatedUser[0].gold_credits).toEqual(50);
+
+    const transactions = await db.select()
+      .from(goldTransactionsTable)
+      .where(eq(goldTransactionsTable.user_id, user.id))
+      .execute();
+    expect(transactions).toHaveLength(1);
+  });
+
   it('should reject joining room at maximum capacity', async () => {
     const role = await createTestRole();
     const owner = await createTestOwner(role.id);
@@ -224,6 +250,103 @@ describe('joinRoom', () => {
     await expect(joinRoom(input, user.id)).rejects.toThrow(/room is not active/i);
   });
 
+  it('should reject joining a direct conversation', async () => {
+    const role = await createTestRole();
+    const owner = await createTestOwner(role.id);
+    const user = await createTestUser(role.id);
+    const room = await createTestRoom(owner.id, 'private');
+
+    await db.update(roomsTable)
+      .set({ is_direct: true, direct_key: `${owner.id}:${owner.id + 1000}` })
+      .where(eq(roomsTable.id, room.id))
+      .execute();
+
+    await expect(joinRoom({ room_id: room.id }, user.id)).rejects.toThrow(/direct conversations cannot be joined/i);
+  });
+
+  it('should reject joining a private room without an invite', async () => {
+    const role = await createTestRole();
+    const owner = await createTestOwner(role.id);
+    const user = await createTestUser(role.id);
+    const room = await createTestRoom(owner.id, 'private');
+
+    await expect(joinRoom({ room_id: room.id }, user.id)).rejects.toThrow(/invite is required/i);
+    await expect(joinRoom({ room_id: room.id, invite_code: 'unknown' }, user.id)).rejects.toThrow(/invite is required/i);
+  });
+
+  it('should join a private room with an invite addressed to the user', async () => {
+    const role = await createTestRole();
+    const owner = await createTestOwner(role.id);
+    const user = await createTestUser(role.id);
+    const room = await createTestRoom(owner.id, 'private');
+
+    const [invite] = await db.insert(roomInvitesTable)
+      .values({ room_id: room.id, created_by: owner.id, invitee_id: user.id, code: 'personal', max_uses: 1 })
+      .returning()
+      .execute();
+
+    const result = await joinRoom({ room_id: room.id }, user.id);
+    expect(result.room_id).toEqual(room.id);
+
+    const [updated] = await db.select().from(roomInvitesTable).where(eq(roomInvitesTable.id, invite.id)).execute();
+    expect(updated.use_count).toEqual(1);
+  });
+
+  it('should join a private room with an invite code until its uses run out', async () => {
+    const role = await createTestRole();
+    const owner = await createTestOwner(role.id);
+    const first = await createTestUser(role.id, 0, 'first');
+    const second = await createTestUser(role.id, 0, 'second');
+    const room = await createTestRoom(owner.id, 'private');
+
+    await db.insert(roomInvitesTable)
+      .values({ room_id: room.id, created_by: owner.id, code: 'shared', max_uses: 1 })
+      .execute();
+
+    await joinRoom({ room_id: room.id, invite_code: 'shared' }, first.id);
+    await expect(joinRoom({ room_id: room.id, invite_code: 'shared' }, second.id)).rejects.toThrow(/invite is required/i);
+  });
+
+  it('should not accept expired, revoked or other users\' invites', async () => {
+    const role = await createTestRole();
+    const owner = await createTestOwner(role.id);
+    const user = await createTestUser(role.id, 0, 'user');
+    const other = await createTestUser(role.id, 0, 'other');
+    const room = await createTestRoom(owner.id, 'private');
+
+    await db.insert(roomInvitesTable)
+      .values([
+        { room_id: room.id, created_by: owner.id, code: 'expired', expires_at: new Date(Date.now() - 1000) },
+        { room_id: room.id, created_by: owner.id, code: 'revoked', revoked_at: new Date() },
+        { room_id: room.id, created_by: owner.id, code: 'addressed', invitee_id: other.id, max_uses: 1 }
+      ])
+      .execute();
+
+    for (const code of ['expired', 'revoked', 'addressed']) {
+      await expect(joinRoom({ room_id: room.id, invite_code: code }, user.id)).rejects.toThrow(/invite is required/i);
+    }
+  });
+
+  it('should reject banned users until the ban expires', async () => {
+    const role = await createTestRole();
+    const owner = await createTestOwner(role.id);
+    const user = await createTestUser(role.id);
+    const room = await createTestRoom(owner.id, 'public');
+
+    await db.insert(roomBansTable)
+      .values({ room_id: room.id, user_id: user.id, banned_by: owner.id })
+      .execute();
+    await expect(joinRoom({ room_id: room.id }, user.id)).rejects.toThrow(/banned from this room$/i);
+
+    const expiresAt = new Date(Date.now() + 60_000);
+    await db.update(roomBansTable).set({ expires_at: expiresAt }).execute();
+    await expect(joinRoom({ room_id: room.id }, user.id)).rejects.toThrow(/banned from this room until/i);
+
+    await db.update(roomBansTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+    const result = await joinRoom({ room_id: room.id }, user.id);
+    expect(result.user_id).toEqual(user.id);
+  });
+
   it('should reject user already in room', async () => {
     const role = await createTestRole();
     const owner = await createTestOwner(role.id);
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { kickParticipant } from '../handlers/kick_participant';
+import { and, eq } from 'drizzle-orm';
+
+describe('kickParticipant', () => {
+  let ownerId: number;
+  let adminId: number;
+  let moderatorId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values(['owner', 'admin', 'moderator', 'member', 'outsider'].map(username => ({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role_id: role[0].id
+      })))
+      .returning()
+      .execute();
+    [ownerId, adminId, moderatorId, memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const isParticipant = async (userId: number) => {
+    const rows = await db.select()
+      .from(roomParticipantsTable)
+      .where(and(
+        eq(roomParticipantsTable.room_id, roomId),
+        eq(roomParticipantsTable.user_id, userId)
+      ))
+      .execute();
+    return rows.length > 0;
+  };
+
+  it('should remove the participant and post a system message', async () => {
+    const result = await kickParticipant({ room_id: roomId, user_id: memberId }, moderatorId);
+
+    expect(result.success).toBe(true);
+    expect(await isParticipant(memberId)).toBe(false);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].message_type).toEqual('system');
+    expect(messages[0].user_id).toEqual(moderatorId);
+    expect(messages[0].content).toEqual('member was removed from the room by moderator');
+  });
+
+  it('should let admins remove moderators and the owner remove admins', async () => {
+    await kickParticipant({ room_id: roomId, user_id: moderatorId }, adminId);
+    await kickParticipant({ room_id: roomId, user_id: adminId }, ownerId);
+
+    expect(await isParticipant(moderatorId)).toBe(false);
+    expect(await isParticipant(adminId)).toBe(false);
+  });
+
+  it('should reject acting on equal or higher roles', async () => {
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: roomId, user_id: outsiderId, participant_role: 'moderator' })
+      .execute();
+
+    await expect(kickParticipant({ room_id: roomId, user_id: outsiderId }, moderatorId)).rejects.toThrow(/equal or higher role/i);
+    await expect(kickParticipant({ room_id: roomId, user_id: adminId }, moderatorId)).rejects.toThrow(/equal or higher role/i);
+    await expect(kickParticipant({ room_id: roomId, user_id: ownerId }, adminId)).rejects.toThrow(/equal or higher role/i);
+    expect(await isParticipant(ownerId)).toBe(true);
+  });
+
+  it('should reject members and non-participants as moderators', async () => {
+    await expect(kickParticipant({ room_id: roomId, user_id: moderatorId }, memberId)).rejects.toThrow(/only room moderators and admins/i);
+    await expect(kickParticipant({ room_id: roomId, user_id: memberId }, outsiderId)).rejects.toThrow(/only room moderators and admins/i);
+  });
+
+  it('should reject kicking yourself or non-participants', async () => {
+    await expect(kickParticipant({ room_id: roomId, user_id: moderatorId }, moderatorId)).rejects.toThrow(/cannot moderate yourself/i);
+    await expect(kickParticipant({ room_id: roomId, user_id: outsiderId }, moderatorId)).rejects.toThrow(/not a participant/i);
+  });
+
+  it('should reject kicking in archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(kickParticipant({ room_id: roomId, user_id: memberId }, moderatorId))
+      .rejects.toThrow(/archived and read-only/i);
+
+    const participants = await db.select().from(roomParticipantsTable).execute();
+    expect(participants.map(participant => participant.user_id)).toContain(memberId);
+  });
+});
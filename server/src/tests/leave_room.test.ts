@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { leaveRoom } from '../handlers/leave_room';
+import { and, eq } from 'drizzle-orm';
+
+describe('leaveRoom', () => {
+  let ownerId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id, display_name: 'Olive' },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    memberId = users[1].id;
+    outsiderId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should remove the participant and post a system message', async () => {
+    const result = await leaveRoom({ room_id: roomId }, memberId);
+
+    expect(result.success).toBe(true);
+
+    const participants = await db.select()
+      .from(roomParticipantsTable)
+      .where(and(
+        eq(roomParticipantsTable.room_id, roomId),
+        eq(roomParticipantsTable.user_id, memberId)
+      ))
+      .execute();
+    expect(participants).toHaveLength(0);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].message_type).toEqual('system');
+    expect(messages[0].user_id).toEqual(memberId);
+    expect(messages[0].content).toEqual('member left the room');
+  });
+
+  it('should keep the owner from leaving', async () => {
+    await expect(leaveRoom({ room_id: roomId }, ownerId)).rejects.toThrow(/must transfer ownership/i);
+
+    const participants = await db.select().from(roomParticipantsTable).execute();
+    expect(participants).toHaveLength(2);
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(leaveRoom({ room_id: roomId }, outsiderId)).rejects.toThrow(/not a participant/i);
+  });
+
+  it('should reject unknown rooms and direct conversations', async () => {
+    await expect(leaveRoom({ room_id: 99999 }, memberId)).rejects.toThrow(/room not found/i);
+
+    const direct = await db.insert(roomsTable)
+      .values({ name: 'owner & member', room_type: 'private', owner_id: ownerId, is_direct: true, direct_key: `${ownerId}:${memberId}` })
+      .returning()
+      .execute();
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: direct[0].id, user_id: memberId, participant_role: 'member' })
+      .execute();
+
+    await expect(leaveRoom({ room_id: direct[0].id }, memberId)).rejects.toThrow(/direct conversations cannot be left/i);
+  });
+
+  it('should reject leaving archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(leaveRoom({ room_id: roomId }, memberId)).rejects.toThrow(/archived and read-only/i);
+
+    const participants = await db.select().from(roomParticipantsTable).execute();
+    expect(participants.map(participant => participant.user_id)).toContain(memberId);
+  });
+});
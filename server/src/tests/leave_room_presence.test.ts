@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { clearPresence, getOnlineUserIds, touchPresence } from '../realtime/presence';
+import { listenToRoom } from '../realtime/room_events';
+import { leaveRoomPresence } from '../handlers/leave_room_presence';
+
+// Presence lives in memory only, so these tests need no database rows
+describe('leaveRoomPresence', () => {
+  const roomId = 1;
+  const aliceId = 10;
+  const bobId = 20;
+
+  beforeEach(clearPresence);
+  afterEach(clearPresence);
+
+  it('should take the user offline when their last session leaves', async () => {
+    touchPresence(roomId, aliceId, 'alice-tab');
+
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    const result = await leaveRoomPresence({ room_id: roomId, session_id: 'alice-tab' }, aliceId);
+
+    expect(result.success).toBe(true);
+    expect(getOnlineUserIds(roomId)).toEqual([]);
+
+    const event = await pending;
+    expect(event.value).toEqual({ type: 'presence.changed', room_id: roomId, online_user_ids: [] });
+
+    controller.abort();
+  });
+
+  it('should keep the user online while another session remains', async () => {
+    touchPresence(roomId, aliceId, 'alice-tab-1');
+    touchPresence(roomId, aliceId, 'alice-tab-2');
+
+    await leaveRoomPresence({ room_id: roomId, session_id: 'alice-tab-1' }, aliceId);
+
+    expect(getOnlineUserIds(roomId)).toEqual([aliceId]);
+  });
+
+  it('should not end sessions belonging to another user', async () => {
+    touchPresence(roomId, bobId, 'bob-tab');
+
+    await leaveRoomPresence({ room_id: roomId, session_id: 'bob-tab' }, aliceId);
+
+    expect(getOnlineUserIds(roomId)).toEqual([bobId]);
+  });
+});
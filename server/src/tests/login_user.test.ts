@@ -4,10 +4,12 @@ import { db } from '../db';
 import { usersTable, rolesTable } from '../db/schema';
 import { type LoginUserInput } from '../schema';
 import { loginUser } from '../handlers/login_user';
+import { verifySessionToken } from '../auth/session';
+import { verifyPassword } from '../auth/password';
 import { eq } from 'drizzle-orm';
 import crypto from 'crypto';
 
-// Helper function to hash passwords
+// Helper function to produce legacy "<salt>:<scrypt hex>" password hashes
 const hashPassword = (password: string): string => {
   const salt = crypto.randomBytes(16).toString('hex');
   const hash = crypto.scryptSync(password, salt, 64).toString('hex');
@@ -59,19 +61,174 @@ describe('loginUser', () => {
     const result = await loginUser(input);
 
     // Verify user data
-    expect(result.id).toEqual(user.id);
-    expect(result.email).toEqual('test@example.com');
-    expect(result.username).toEqual('testuser');
-    expect(result.display_name).toEqual('Test User');
-    expect(result.gold_credits).toEqual(100);
-    expect(result.role_id).toEqual(role.id);
-    expect(result.language).toEqual('en');
-    expect(result.theme).toEqual('dark');
-    expect(result.is_active).toEqual(true);
-    expect(result.is_verified).toEqual(true);
-    expect(result.last_login_at).toBeInstanceOf(Date);
-    expect(result.created_at).toBeInstanceOf(Date);
-    expect(result.updated_at).toBeInstanceOf(Date);
+    expect(result.user.id).toEqual(user.id);
+    expect(result.user.email).toEqual('test@example.com');
+    expect(result.user.username).toEqual('testuser');
+    expect(result.user.display_name).toEqual('Test User');
+    expect(result.user.gold_credits).toEqual(100);
+    expect(result.user.role_id).toEqual(role.id);
+    expect(result.user.language).toEqual('en');
+    expect(result.user.theme).toEqual('dark');
+    expect(result.user.is_active).toEqual(true);
+    expect(result.user.is_verified).toEqual(true);
+    expect(result.user.last_login_at).toBeInstanceOf(Date);
+    expect(result.user.created_at).toBeInstanceOf(Date);
+    expect(result.user.updated_at).toBeInstanceOf(Date);
+  });
+
+  it('should issue a session token for the user', async () => {
+    const roleResult = await db.insert(rolesTable)
+      .values({
+        name: 'User',
+        permissions: ['read'],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'testuser',
+        email: 'test@example.com',
+        password_hash: hashPassword('password123'),
+        role_id: roleResult[0].id
+      })
+      .returning()
+      .execute();
+
+    const result = await loginUser({
+      email: 'test@example.com',
+      password: 'password123'
+    });
+
+    expect(typeof result.token).toBe('string');
+    expect(result.expires_at).toBeInstanceOf(Date);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(verifySessionToken(result.token)).toEqual(userResult[0].id);
+
+    // Tampered tokens must not resolve to a user
+    expect(verifySessionToken(result.token + 'x')).toBeNull();
+  });
+
+  it('should login a user whose password was hashed with Bun', async () => {
+    const roleResult = await db.insert(rolesTable)
+      .values({
+        name: 'User',
+        permissions: ['read'],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const bunHash = await Bun.password.hash('password123');
+    await db.insert(usersTable)
+      .values({
+        username: 'bunuser',
+        email: 'bun@example.com',
+        password_hash: bunHash,
+        role_id: roleResult[0].id
+      })
+      .execute();
+
+    const result = await loginUser({
+      email: 'bun@example.com',
+      password: 'password123'
+    });
+
+    expect(result.user.email).toEqual('bun@example.com');
+    expect(result.user).not.toHaveProperty('password_hash');
+
+    // Current-format hashes are left untouched
+    const [stored] = await db.select().from(usersTable).where(eq(usersTable.email, 'bun@example.com')).execute();
+    expect(stored.password_hash).toEqual(bunHash);
+
+    await expect(loginUser({
+      email: 'bun@example.com',
+      password: 'wrong_password'
+    })).rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should upgrade a legacy scrypt hash on successful login', async () => {
+    const roleResult = await db.insert(rolesTable)
+      .values({
+        name: 'User',
+        permissions: ['read'],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const legacyHash = hashPassword('password123');
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'legacyuser',
+        email: 'legacy@example.com',
+        password_hash: legacyHash,
+        role_id: roleResult[0].id
+      })
+      .returning()
+      .execute();
+
+    await loginUser({
+      email: 'legacy@example.com',
+      password: 'password123'
+    });
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userResult[0].id))
+      .execute();
+
+    expect(users[0].password_hash).not.toEqual(legacyHash);
+    expect(users[0].password_hash.startsWith('$argon2')).toBe(true);
+    expect(await verifyPassword('password123', users[0].password_hash)).toBe(true);
+
+    // The upgraded hash keeps working for later logins
+    const secondLogin = await loginUser({
+      email: 'legacy@example.com',
+      password: 'password123'
+    });
+    expect(secondLogin.user.id).toEqual(userResult[0].id);
+
+    const afterSecondLogin = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userResult[0].id))
+      .execute();
+    expect(afterSecondLogin[0].password_hash).toEqual(users[0].password_hash);
+  });
+
+  it('should not upgrade a legacy hash when the password is wrong', async () => {
+    const roleResult = await db.insert(rolesTable)
+      .values({
+        name: 'User',
+        permissions: ['read'],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const legacyHash = hashPassword('password123');
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'legacyuser',
+        email: 'legacy@example.com',
+        password_hash: legacyHash,
+        role_id: roleResult[0].id
+      })
+      .returning()
+      .execute();
+
+    await expect(loginUser({
+      email: 'legacy@example.com',
+      password: 'wrong_password'
+    })).rejects.toThrow(/invalid email or password/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userResult[0].id))
+      .execute();
+
+    expect(users[0].password_hash).toEqual(legacyHash);
   });
 
   it('should update last_login_at timestamp', async () => {
@@ -117,7 +274,7 @@ describe('loginUser', () => {
     const result = await loginUser(input);
 
     // Verify last_login_at was updated
-    expect(result.last_login_at).toBeInstanceOf(Date);
+    expect(result.user.last_login_at).toBeInstanceOf(Date);
 
     // Verify the timestamp was actually saved to database
     const updatedUsers = await db.select()
@@ -258,10 +415,10 @@ describe('loginUser', () => {
     const result = await loginUser(input);
 
     // Verify nullable fields are handled correctly
-    expect(result.display_name).toBeNull();
-    expect(result.avatar_url).toBeNull();
-    expect(result.is_verified).toEqual(false);
-    expect(result.gold_credits).toEqual(0);
-    expect(result.last_login_at).toBeInstanceOf(Date);
+    expect(result.user.display_name).toBeNull();
+    expect(result.user.avatar_url).toBeNull();
+    expect(result.user.is_verified).toEqual(false);
+    expect(result.user.gold_credits).toEqual(0);
+    expect(result.user.last_login_at).toBeInstanceOf(Date);
   });
 });
\ No newline at end of file
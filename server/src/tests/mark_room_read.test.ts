@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { markRoomRead } from '../handlers/mark_room_read';
+import { eq } from 'drizzle-orm';
+
+describe('markRoomRead', () => {
+  let readerId: number;
+  let authorId: number;
+  let outsiderId: number;
+  let roomId: number;
+  let otherRoomId: number;
+  let messageIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'reader', email: 'reader@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'author', email: 'author@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    readerId = users[0].id;
+    authorId = users[1].id;
+    outsiderId = users[2].id;
+
+    const rooms = await db.insert(roomsTable)
+      .values([
+        { name: 'Room', room_type: 'public', owner_id: authorId },
+        { name: 'Other Room', room_type: 'public', owner_id: authorId }
+      ])
+      .returning()
+      .execute();
+    roomId = rooms[0].id;
+    otherRoomId = rooms[1].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: readerId, participant_role: 'member' },
+        { room_id: roomId, user_id: authorId, participant_role: 'admin' }
+      ])
+      .execute();
+
+    const messages = await db.insert(messagesTable)
+      .values([
+        { room_id: roomId, user_id: authorId, content: 'one' },
+        { room_id: roomId, user_id: authorId, content: 'two' },
+        { room_id: roomId, user_id: authorId, content: 'three' }
+      ])
+      .returning()
+      .execute();
+    messageIds = messages.map(message => message.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should store the read position and return the remaining unread count', async () => {
+    const result = await markRoomRead({ room_id: roomId, message_id: messageIds[0] }, readerId);
+
+    expect(result.room_id).toEqual(roomId);
+    expect(result.last_read_message_id).toEqual(messageIds[0]);
+    expect(result.unread_count).toEqual(2);
+    expect(result.unread_mention_count).toEqual(0);
+
+    const participants = await db.select()
+      .from(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.user_id, readerId))
+      .execute();
+    expect(participants[0].last_read_message_id).toEqual(messageIds[0]);
+    expect(participants[0].last_seen_at).toBeInstanceOf(Date);
+  });
+
+  it('should mark the newest message read when no message is given', async () => {
+    const result = await markRoomRead({ room_id: roomId }, readerId);
+
+    expect(result.last_read_message_id).toEqual(messageIds[2]);
+    expect(result.unread_count).toEqual(0);
+  });
+
+  it('should never move the read position backwards', async () => {
+    await markRoomRead({ room_id: roomId, message_id: messageIds[2] }, readerId);
+    const result = await markRoomRead({ room_id: roomId, message_id: messageIds[0] }, readerId);
+
+    expect(result.last_read_message_id).toEqual(messageIds[2]);
+    expect(result.unread_count).toEqual(0);
+  });
+
+  it('should leave the position empty in a room without messages', async () => {
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: otherRoomId, user_id: readerId, participant_role: 'member' })
+      .execute();
+
+    const result = await markRoomRead({ room_id: otherRoomId }, readerId);
+
+    expect(result.last_read_message_id).toBeNull();
+    expect(result.unread_count).toEqual(0);
+  });
+
+  it('should reject messages from another room', async () => {
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: otherRoomId, user_id: readerId, participant_role: 'member' })
+      .execute();
+
+    await expect(markRoomRead({ room_id: otherRoomId, message_id: messageIds[0] }, readerId))
+      .rejects.toThrow(/not found in this room/i);
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(markRoomRead({ room_id: roomId }, outsiderId))
+      .rejects.toThrow(/not a participant/i);
+  });
+});
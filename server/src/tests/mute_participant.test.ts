@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { muteParticipant } from '../handlers/mute_participant';
+import { eq } from 'drizzle-orm';
+
+describe('muteParticipant', () => {
+  let ownerId: number;
+  let adminId: number;
+  let moderatorId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values(['owner', 'admin', 'moderator', 'member', 'outsider'].map(username => ({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role_id: role[0].id
+      })))
+      .returning()
+      .execute();
+    [ownerId, adminId, moderatorId, memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should mute the participant until unmuted', async () => {
+    const result = await muteParticipant({ room_id: roomId, user_id: memberId }, moderatorId);
+
+    expect(result.user_id).toEqual(memberId);
+    expect(result.is_muted).toBe(true);
+    expect(result.muted_until).toBeNull();
+
+    const [message] = await db.select().from(messagesTable).execute();
+    expect(message.message_type).toEqual('system');
+    expect(message.content).toEqual('member was muted by moderator');
+  });
+
+  it('should mute for a duration', async () => {
+    const before = Date.now();
+    const result = await muteParticipant({ room_id: roomId, user_id: memberId, duration_minutes: 30 }, moderatorId);
+
+    expect(result.muted_until!.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+
+    const [message] = await db.select().from(messagesTable).execute();
+    expect(message.content).toEqual('member was muted by moderator for 30 minutes');
+  });
+
+  it('should reject muting equal or higher roles', async () => {
+    await expect(muteParticipant({ room_id: roomId, user_id: adminId }, moderatorId)).rejects.toThrow(/equal or higher role/i);
+  });
+
+  it('should reject members and non-participants', async () => {
+    await expect(muteParticipant({ room_id: roomId, user_id: moderatorId }, memberId)).rejects.toThrow(/only room moderators and admins/i);
+    await expect(muteParticipant({ room_id: roomId, user_id: outsiderId }, moderatorId)).rejects.toThrow(/not a participant/i);
+  });
+
+  it('should reject muting in archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(muteParticipant({ room_id: roomId, user_id: memberId }, moderatorId))
+      .rejects.toThrow(/archived and read-only/i);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { onRoomEvent } from '../handlers/on_room_event';
+import { kickParticipant } from '../handlers/kick_participant';
+import { deleteRoom } from '../handlers/delete_room';
+import { publishRoomEvent } from '../realtime/room_events';
+
+// Gives the subscription time to check membership and attach its listener
+const waitForListener = () => new Promise(resolve => setTimeout(resolve, 100));
+
+describe('onRoomEvent', () => {
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+  let otherRoomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    memberId = users[0].id;
+    outsiderId = users[1].id;
+
+    const rooms = await db.insert(roomsTable)
+      .values([
+        { name: 'Room', room_type: 'public', owner_id: memberId },
+        { name: 'Other Room', room_type: 'public', owner_id: memberId }
+      ])
+      .returning()
+      .execute();
+    roomId = rooms[0].id;
+    otherRoomId = rooms[1].id;
+
+    await db.insert(roomParticipantsTable)
+      .values({
+        room_id: roomId,
+        user_id: memberId,
+        participant_role: 'member'
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const createMessage = async (targetRoomId: number, content: string) => {
+    const result = await db.insert(messagesTable)
+      .values({
+        room_id: targetRoomId,
+        user_id: memberId,
+        content
+      })
+      .returning()
+      .execute();
+
+    // Events carry the author alongside the message
+    return {
+      ...result[0],
+      author: { id: memberId, username: 'member', display_name: null, avatar_url: null, participant_role: 'member' as const },
+      reply_count: 0,
+      reactions: [],
+      attachments: [],
+      mentioned_user_ids: []
+    };
+  };
+
+  it('should deliver events published to the room', async () => {
+    const controller = new AbortController();
+    const subscription = onRoomEvent(roomId, memberId, controller.signal);
+
+    const pending = subscription.next();
+    await waitForListener();
+
+    const message = await createMessage(roomId, 'Hello');
+    publishRoomEvent(roomId, { type: 'message.created', message });
+
+    const result = await pending;
+    expect(result.done).toBe(false);
+    expect(result.value).toEqual({ type: 'message.created', message });
+
+    controller.abort();
+  });
+
+  it('should not deliver events from other rooms', async () => {
+    const controller = new AbortController();
+    const subscription = onRoomEvent(roomId, memberId, controller.signal);
+
+    const pending = subscription.next();
+    await waitForListener();
+
+    publishRoomEvent(otherRoomId, { type: 'message.deleted', room_id: otherRoomId, message_id: 1 });
+    publishRoomEvent(roomId, { type: 'message.deleted', room_id: roomId, message_id: 2 });
+
+    const result = await pending;
+    expect(result.value).toEqual({ type: 'message.deleted', room_id: roomId, message_id: 2 });
+
+    controller.abort();
+  });
+
+  it('should finish when the signal aborts', async () => {
+    const controller = new AbortController();
+    const subscription = onRoomEvent(roomId, memberId, controller.signal);
+
+    const pending = subscription.next();
+    await waitForListener();
+    controller.abort();
+
+    const result = await pending;
+    expect(result.done).toBe(true);
+  });
+
+  it('should end the subscription of a participant who is kicked', async () => {
+    // The member owns the shared room, so they are kicked from one the outsider owns
+    const moderatedRoom = await db.insert(roomsTable)
+      .values({ name: 'Moderated Room', room_type: 'public', owner_id: outsiderId })
+      .returning()
+      .execute();
+    const moderatedRoomId = moderatedRoom[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: moderatedRoomId, user_id: outsiderId, participant_role: 'admin' },
+        { room_id: moderatedRoomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+
+    const controller = new AbortController();
+    const subscription = onRoomEvent(moderatedRoomId, memberId, controller.signal);
+
+    const pending = subscription.next();
+    await waitForListener();
+
+    await kickParticipant({ room_id: moderatedRoomId, user_id: memberId }, outsiderId);
+
+    const removed = await pending;
+    expect(removed.value).toEqual({ type: 'participant.removed', room_id: moderatedRoomId, user_id: memberId });
+
+    // Neither the kick's system message nor anything published later reaches them
+    publishRoomEvent(moderatedRoomId, { type: 'message.deleted', room_id: moderatedRoomId, message_id: 1 });
+    const next = await subscription.next();
+    expect(next.done).toBe(true);
+
+    controller.abort();
+  });
+
+  it('should end the subscription when the room is deleted', async () => {
+    const subscription = onRoomEvent(roomId, memberId);
+
+    const pending = subscription.next();
+    await waitForListener();
+
+    await deleteRoom({ room_id: roomId }, memberId);
+
+    const deleted = await pending;
+    expect(deleted.value).toEqual({ type: 'room.deleted', room_id: roomId });
+
+    const next = await subscription.next();
+    expect(next.done).toBe(true);
+  });
+
+  it('should reject users who are not participants', async () => {
+    const subscription = onRoomEvent(roomId, outsiderId);
+
+    await expect(subscription.next()).rejects.toThrow(/not a participant/i);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable } from '../db/schema';
+import { onRoomPresence } from '../handlers/on_room_presence';
+import { clearPresence, touchPresence, publishPresenceChange } from '../realtime/presence';
+
+// Lets the subscription settle before the next change is published
+const waitForListener = () => new Promise(resolve => setTimeout(resolve, 100));
+
+describe('onRoomPresence', () => {
+  let aliceId: number;
+  let bobId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    clearPresence();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'bob', email: 'bob@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    outsiderId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: aliceId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: aliceId, participant_role: 'admin' },
+        { room_id: roomId, user_id: bobId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should start with the current presence snapshot', async () => {
+    touchPresence(roomId, aliceId, 'alice-tab');
+
+    const controller = new AbortController();
+    const subscription = onRoomPresence(roomId, aliceId, controller.signal);
+
+    const first = await subscription.next();
+    expect(first.value).toEqual({
+      room_id: roomId,
+      online_count: 1,
+      users: [{ id: aliceId, username: 'alice', display_name: null, avatar_url: null }]
+    });
+
+    controller.abort();
+  });
+
+  it('should push a new snapshot when presence changes', async () => {
+    const controller = new AbortController();
+    const subscription = onRoomPresence(roomId, aliceId, controller.signal);
+
+    const first = await subscription.next();
+    expect(first.value?.online_count).toEqual(0);
+
+    const pending = subscription.next();
+    await waitForListener();
+
+    touchPresence(roomId, bobId, 'bob-tab');
+    publishPresenceChange(roomId);
+
+    const second = await pending;
+    expect(second.value?.online_count).toEqual(1);
+    expect(second.value?.users[0].username).toEqual('bob');
+
+    controller.abort();
+  });
+
+  it('should not miss changes made right after the first snapshot', async () => {
+    const controller = new AbortController();
+    const subscription = onRoomPresence(roomId, aliceId, controller.signal);
+
+    const first = await subscription.next();
+    expect(first.value?.online_count).toEqual(0);
+
+    // No time for the subscription to catch up before the change is published
+    touchPresence(roomId, bobId, 'bob-tab');
+    publishPresenceChange(roomId);
+
+    const second = await subscription.next();
+    expect(second.value?.online_count).toEqual(1);
+
+    controller.abort();
+  });
+
+  it('should reject users who are not participants', async () => {
+    const subscription = onRoomPresence(roomId, outsiderId);
+
+    await expect(subscription.next()).rejects.toThrow(/not a participant/i);
+  });
+});
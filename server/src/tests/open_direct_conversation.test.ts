@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { openDirectConversation } from '../handlers/open_direct_conversation';
+import { and, eq } from 'drizzle-orm';
+
+describe('openDirectConversation', () => {
+  let aliceId: number;
+  let bobId: number;
+  let inactiveId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com', password_hash: 'hashed_password', role_id: role[0].id, display_name: 'Alice' },
+        { username: 'bob', email: 'bob@example.com', password_hash: 'hashed_password', role_id: role[0].id, display_name: 'Bob' },
+        { username: 'gone', email: 'gone@example.com', password_hash: 'hashed_password', role_id: role[0].id, is_active: false }
+      ])
+      .returning()
+      .execute();
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    inactiveId = users[2].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a private two-person room', async () => {
+    const result = await openDirectConversation({ user_id: bobId }, aliceId);
+
+    expect(result.room.is_direct).toBe(true);
+    expect(result.room.room_type).toEqual('private');
+    expect(result.room.max_participants).toEqual(2);
+    expect(result.room.unread_count).toEqual(0);
+    expect(result.other_user).toEqual({ id: bobId, username: 'bob', display_name: 'Bob', avatar_url: null });
+
+    const participants = await db.select()
+      .from(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.room_id, result.room.id))
+      .execute();
+    expect(participants.map(participant => participant.user_id).sort()).toEqual([aliceId, bobId].sort());
+  });
+
+  it('should reuse the same room from either side', async () => {
+    const first = await openDirectConversation({ user_id: bobId }, aliceId);
+    const again = await openDirectConversation({ user_id: bobId }, aliceId);
+    const reverse = await openDirectConversation({ user_id: aliceId }, bobId);
+
+    expect(again.room.id).toEqual(first.room.id);
+    expect(reverse.room.id).toEqual(first.room.id);
+    expect(reverse.other_user.id).toEqual(aliceId);
+
+    const rooms = await db.select().from(roomsTable).execute();
+    expect(rooms).toHaveLength(1);
+  });
+
+  it('should agree on one room when opened concurrently', async () => {
+    const results = await Promise.all([
+      openDirectConversation({ user_id: bobId }, aliceId),
+      openDirectConversation({ user_id: aliceId }, bobId)
+    ]);
+
+    expect(results[0].room.id).toEqual(results[1].room.id);
+    const participants = await db.select().from(roomParticipantsTable).execute();
+    expect(participants).toHaveLength(2);
+  });
+
+  it('should report unread messages from the other user', async () => {
+    const conversation = await openDirectConversation({ user_id: bobId }, aliceId);
+    await db.insert(messagesTable)
+      .values({ room_id: conversation.room.id, user_id: bobId, content: 'hi alice' })
+      .execute();
+
+    const result = await openDirectConversation({ user_id: bobId }, aliceId);
+    expect(result.room.unread_count).toEqual(1);
+  });
+
+  it('should restore a missing participant', async () => {
+    const conversation = await openDirectConversation({ user_id: bobId }, aliceId);
+    await db.delete(roomParticipantsTable)
+      .where(and(
+        eq(roomParticipantsTable.room_id, conversation.room.id),
+        eq(roomParticipantsTable.user_id, bobId)
+      ))
+      .execute();
+
+    await openDirectConversation({ user_id: bobId }, aliceId);
+
+    const participants = await db.select()
+      .from(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.room_id, conversation.room.id))
+      .execute();
+    expect(participants).toHaveLength(2);
+  });
+
+  it('should restore a missing participant only once when opened concurrently', async () => {
+    const conversation = await openDirectConversation({ user_id: bobId }, aliceId);
+    await db.delete(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.user_id, bobId))
+      .execute();
+
+    await Promise.all([
+      openDirectConversation({ user_id: bobId }, aliceId),
+      openDirectConversation({ user_id: aliceId }, bobId),
+      openDirectConversation({ user_id: bobId }, aliceId)
+    ]);
+
+    const participants = await db.select()
+      .from(roomParticipantsTable)
+      .where(eq(roomParticipantsTable.room_id, conversation.room.id))
+      .execute();
+    expect(participants.map(participant => participant.user_id).sort()).toEqual([aliceId, bobId].sort());
+  });
+
+  it('should reject conversations with yourself', async () => {
+    await expect(openDirectConversation({ user_id: aliceId }, aliceId)).rejects.toThrow(/yourself/i);
+  });
+
+  it('should reject unknown and inactive users', async () => {
+    await expect(openDirectConversation({ user_id: 99999 }, aliceId)).rejects.toThrow(/user not found/i);
+    await expect(openDirectConversation({ user_id: inactiveId }, aliceId)).rejects.toThrow(/user not found/i);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable } from '../db/schema';
+import { seedDefaultRoles } from '../db/seed';
+import { getUserPermissions, ALL_PERMISSIONS } from '../auth/permissions';
+import { eq } from 'drizzle-orm';
+
+describe('seedDefaultRoles', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create the admin and member roles', async () => {
+    await seedDefaultRoles();
+
+    const roles = await db.select().from(rolesTable).execute();
+    const admin = roles.find(role => role.name === 'admin');
+    const member = roles.find(role => role.name === 'member');
+
+    expect(roles).toHaveLength(2);
+    expect(admin?.permissions).toEqual(ALL_PERMISSIONS);
+    expect(admin?.is_default).toBe(false);
+    expect(member?.permissions).toEqual([]);
+    expect(member?.is_default).toBe(true);
+  });
+
+  it('should be idempotent', async () => {
+    await seedDefaultRoles();
+    await seedDefaultRoles();
+
+    const roles = await db.select().from(rolesTable).execute();
+    expect(roles).toHaveLength(2);
+  });
+
+  it('should add missing catalogue permissions to an existing admin role', async () => {
+    // An admin role seeded before room categories existed
+    await db.insert(rolesTable)
+      .values({
+        name: 'admin',
+        permissions: ['users:read', 'custom:extra'],
+        is_default: false
+      })
+      .execute();
+
+    await seedDefaultRoles();
+
+    const [admin] = await db.select()
+      .from(rolesTable)
+      .where(eq(rolesTable.name, 'admin'))
+      .execute();
+
+    expect(admin.permissions).toContain('room_categories:manage');
+    expect([...admin.permissions].sort()).toEqual([...ALL_PERMISSIONS, 'custom:extra'].sort());
+  });
+
+  it('should keep an existing default role as the default', async () => {
+    await db.insert(rolesTable)
+      .values({
+        name: 'user',
+        permissions: [],
+        is_default: true
+      })
+      .execute();
+
+    await seedDefaultRoles();
+
+    const defaults = await db.select()
+      .from(rolesTable)
+      .where(eq(rolesTable.is_default, true))
+      .execute();
+
+    expect(defaults).toHaveLength(1);
+    expect(defaults[0].name).toEqual('user');
+  });
+});
+
+describe('getUserPermissions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the permissions of the user role', async () => {
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'moderators',
+        permissions: ['users:read', 'settings:manage'],
+        is_default: false
+      })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({
+        username: 'moderator',
+        email: 'moderator@example.com',
+        password_hash: 'hashed_password',
+        role_id: role[0].id
+      })
+      .returning()
+      .execute();
+
+    const permissions = await getUserPermissions(user[0].id);
+    expect(permissions).toEqual(['users:read', 'settings:manage']);
+  });
+
+  it('should return no permissions for an unknown user', async () => {
+    const permissions = await getUserPermissions(999);
+    expect(permissions).toEqual([]);
+  });
+});
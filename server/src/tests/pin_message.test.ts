@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable, roomPinsTable } from '../db/schema';
+import { pinMessage } from '../handlers/pin_message';
+import { listenToRoom } from '../realtime/room_events';
+import { eq } from 'drizzle-orm';
+
+describe('pinMessage', () => {
+  let moderatorId: number;
+  let memberId: number;
+  let roomId: number;
+  let messageId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'moderator', email: 'moderator@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [moderatorId, memberId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: moderatorId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+
+    const message = await db.insert(messagesTable)
+      .values({
+        room_id: roomId,
+        user_id: memberId,
+        content: 'Read the rules first'
+      })
+      .returning()
+      .execute();
+    messageId = message[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should pin the message and return the room\'s pins', async () => {
+    const result = await pinMessage({ message_id: messageId }, moderatorId);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].room_id).toEqual(roomId);
+    expect(result[0].message.id).toEqual(messageId);
+    expect(result[0].message.content).toEqual('Read the rules first');
+    expect(result[0].pinned_by.username).toEqual('moderator');
+    expect(result[0].pinned_at).toBeInstanceOf(Date);
+
+    const pins = await db.select().from(roomPinsTable).execute();
+    expect(pins).toHaveLength(1);
+    expect(pins[0].pinned_by).toEqual(moderatorId);
+  });
+
+  it('should treat pinning twice as a no-op', async () => {
+    await pinMessage({ message_id: messageId }, moderatorId);
+    const result = await pinMessage({ message_id: messageId }, moderatorId);
+
+    expect(result).toHaveLength(1);
+    expect(await db.select().from(roomPinsTable).execute()).toHaveLength(1);
+  });
+
+  it('should publish the pinned message ids to room subscribers', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    await pinMessage({ message_id: messageId }, moderatorId);
+
+    const event = await pending;
+    expect(event.value).toEqual({
+      type: 'pins.changed',
+      room_id: roomId,
+      pinned_message_ids: [messageId]
+    });
+
+    controller.abort();
+  });
+
+  it('should reject participants who are not moderators', async () => {
+    await expect(pinMessage({ message_id: messageId }, memberId))
+      .rejects.toThrow(/only room moderators can pin/i);
+
+    expect(await db.select().from(roomPinsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject deleted messages', async () => {
+    await db.update(messagesTable)
+      .set({ is_deleted: true })
+      .where(eq(messagesTable.id, messageId))
+      .execute();
+
+    await expect(pinMessage({ message_id: messageId }, moderatorId))
+      .rejects.toThrow(/not found or deleted/i);
+  });
+
+  it('should reject pinning in archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(pinMessage({ message_id: messageId }, moderatorId))
+      .rejects.toThrow(/archived and read-only/i);
+  });
+});
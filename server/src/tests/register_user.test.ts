@@ -5,6 +5,7 @@ import { usersTable, rolesTable } from '../db/schema';
 import { type RegisterUserInput } from '../schema';
 import { registerUser } from '../handlers/register_user';
 import { eq } from 'drizzle-orm';
+import { verifyPassword } from '../auth/password';
 
 // Test input with all fields
 const testInput: RegisterUserInput = {
@@ -60,10 +61,8 @@ describe('registerUser', () => {
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
 
-    // Verify password is hashed (not plain text)
-    expect(result.password_hash).toBeDefined();
-    expect(result.password_hash).not.toEqual('securepassword123');
-    expect(result.password_hash.length).toBeGreaterThan(10);
+    // The hash is stored but never returned
+    expect(result).not.toHaveProperty('password_hash');
   });
 
   it('should register a user with minimal input and apply defaults', async () => {
@@ -115,22 +114,59 @@ describe('registerUser', () => {
     expect(savedUser.created_at).toBeInstanceOf(Date);
   });
 
+  const getStoredHash = async (userId: number) => {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    return users[0].password_hash;
+  };
+
   it('should hash the password properly', async () => {
     const result = await registerUser(testInput);
+    const passwordHash = await getStoredHash(result.id);
 
     // Verify password was hashed
-    expect(result.password_hash).toBeDefined();
-    expect(result.password_hash).not.toEqual(testInput.password);
+    expect(passwordHash).toBeDefined();
+    expect(passwordHash).not.toEqual(testInput.password);
+    expect(passwordHash.length).toBeGreaterThan(10);
 
     // Verify the password can be verified with Bun's password utility
-    const isValid = await Bun.password.verify(testInput.password, result.password_hash);
+    const isValid = await Bun.password.verify(testInput.password, passwordHash);
     expect(isValid).toBe(true);
 
     // Verify wrong password fails
-    const isWrongValid = await Bun.password.verify('wrongpassword', result.password_hash);
+    const isWrongValid = await Bun.password.verify('wrongpassword', passwordHash);
     expect(isWrongValid).toBe(false);
   });
 
+  it('should store a hash the shared password module can verify', async () => {
+    const result = await registerUser(testInput);
+    const passwordHash = await getStoredHash(result.id);
+
+    // Login verifies through the same module, so the formats must agree
+    expect(await verifyPassword(testInput.password, passwordHash)).toBe(true);
+    expect(await verifyPassword('wrongpassword', passwordHash)).toBe(false);
+  });
+
+  it('should give the first account the admin role when it exists', async () => {
+    const adminRole = await db.insert(rolesTable)
+      .values({
+        name: 'admin',
+        permissions: ['roles:manage'],
+        is_default: false
+      })
+      .returning()
+      .execute();
+
+    const first = await registerUser(testInput);
+    expect(first.role_id).toEqual(adminRole[0].id);
+
+    // Later accounts get the default role
+    const second = await registerUser(minimalInput);
+    expect(second.role_id).not.toEqual(adminRole[0].id);
+  });
+
   it('should throw error when no default role exists', async () => {
     // Remove the default role
     await db.delete(rolesTable).execute();
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, roomInvitesTable } from '../db/schema';
+import { revokeInvite } from '../handlers/revoke_invite';
+
+describe('revokeInvite', () => {
+  let ownerId: number;
+  let memberId: number;
+  let guestId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'guest', email: 'guest@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    memberId = users[1].id;
+    guestId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Secret',
+        room_type: 'private',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const insertInvite = async (createdBy: number) => {
+    const result = await db.insert(roomInvitesTable)
+      .values({ room_id: roomId, created_by: createdBy, code: `code-${createdBy}` })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should mark the invite revoked', async () => {
+    const invite = await insertInvite(ownerId);
+
+    const result = await revokeInvite({ invite_id: invite.id }, ownerId);
+
+    expect(result.id).toEqual(invite.id);
+    expect(result.revoked_at).toBeInstanceOf(Date);
+
+    const [row] = await db.select().from(roomInvitesTable).execute();
+    expect(row.revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should let the creator revoke after losing moderator rights', async () => {
+    const invite = await insertInvite(memberId);
+
+    const result = await revokeInvite({ invite_id: invite.id }, memberId);
+    expect(result.revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should keep the first revocation time', async () => {
+    const invite = await insertInvite(ownerId);
+
+    const first = await revokeInvite({ invite_id: invite.id }, ownerId);
+    const second = await revokeInvite({ invite_id: invite.id }, ownerId);
+
+    expect(second.revoked_at).toEqual(first.revoked_at);
+  });
+
+  it('should reject other users', async () => {
+    const invite = await insertInvite(ownerId);
+
+    await expect(revokeInvite({ invite_id: invite.id }, memberId)).rejects.toThrow(/only the invite creator or room moderators/i);
+    await expect(revokeInvite({ invite_id: invite.id }, guestId)).rejects.toThrow(/only the invite creator or room moderators/i);
+  });
+
+  it('should reject unknown invites', async () => {
+    await expect(revokeInvite({ invite_id: 99999 }, ownerId)).rejects.toThrow(/invite not found/i);
+  });
+});
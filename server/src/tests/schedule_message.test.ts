@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, scheduledMessagesTable } from '../db/schema';
+import { scheduleMessage } from '../handlers/schedule_message';
+import { scheduleMessageInputSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+describe('scheduleMessage', () => {
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60_000);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: memberId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: roomId, user_id: memberId, participant_role: 'member' })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should save the message as pending', async () => {
+    const sendAt = inMinutes(30);
+    const result = await scheduleMessage({ room_id: roomId, content: 'Good morning!', send_at: sendAt }, memberId);
+
+    expect(result.room_id).toEqual(roomId);
+    expect(result.user_id).toEqual(memberId);
+    expect(result.content).toEqual('Good morning!');
+    expect(result.send_at).toEqual(sendAt);
+    expect(result.status).toEqual('pending');
+    expect(result.message_id).toBeNull();
+
+    const saved = await db.select().from(scheduledMessagesTable).execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should accept ISO timestamps in the input schema', () => {
+    const sendAt = inMinutes(30);
+    const input = scheduleMessageInputSchema.parse({ room_id: roomId, content: 'Hi', send_at: sendAt.toISOString() });
+
+    expect(input.send_at).toEqual(sendAt);
+  });
+
+  it('should reject times in the past', async () => {
+    await expect(scheduleMessage({ room_id: roomId, content: 'Too late', send_at: inMinutes(-1) }, memberId))
+      .rejects.toThrow(/must be in the future/i);
+  });
+
+  it('should reject times too far ahead', async () => {
+    await expect(scheduleMessage({ room_id: roomId, content: 'Next year', send_at: inMinutes(60 * 24 * 365) }, memberId))
+      .rejects.toThrow(/at most 30 days ahead/i);
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(scheduleMessage({ room_id: roomId, content: 'Hi', send_at: inMinutes(5) }, outsiderId))
+      .rejects.toThrow(/not a participant/i);
+
+    expect(await db.select().from(scheduledMessagesTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(scheduleMessage({ room_id: roomId, content: 'Hi', send_at: inMinutes(5) }, memberId))
+      .rejects.toThrow(/archived and read-only/i);
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable, scheduledMessagesTable } from '../db/schema';
+import { deliverDueScheduledMessages, requeueInterruptedDeliveries } from '../scheduler/scheduled_messages';
+import { listenToRoom } from '../realtime/room_events';
+import { eq } from 'drizzle-orm';
+
+describe('scheduled message delivery', () => {
+  let authorId: number;
+  let roomId: number;
+
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60_000);
+
+  const schedule = async (content: string, sendAt: Date) => {
+    const result = await db.insert(scheduledMessagesTable)
+      .values({ room_id: roomId, user_id: authorId, content, send_at: sendAt })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  const getScheduled = async (id: number) => {
+    const result = await db.select()
+      .from(scheduledMessagesTable)
+      .where(eq(scheduledMessagesTable.id, id))
+      .execute();
+    return result[0];
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({ username: 'author', email: 'author@example.com', password_hash: 'hashed_password', role_id: role[0].id })
+      .returning()
+      .execute();
+    authorId = user[0].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: authorId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: roomId, user_id: authorId, participant_role: 'member' })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should send due messages and leave later ones waiting', async () => {
+    const due = await schedule('Due now', inMinutes(-1));
+    const later = await schedule('Later', inMinutes(10));
+
+    const handled = await deliverDueScheduledMessages();
+
+    expect(handled).toEqual(1);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].content).toEqual('Due now');
+    expect(messages[0].user_id).toEqual(authorId);
+
+    const sent = await getScheduled(due.id);
+    expect(sent.status).toEqual('sent');
+    expect(sent.message_id).toEqual(messages[0].id);
+    expect((await getScheduled(later.id)).status).toEqual('pending');
+  });
+
+  it('should publish delivered messages to room subscribers', async () => {
+    await schedule('Hello from the past', inMinutes(-1));
+
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    await deliverDueScheduledMessages();
+
+    const event = await pending;
+    expect(event.value?.type).toEqual('message.created');
+
+    controller.abort();
+  });
+
+  it('should mark messages of muted authors as failed', async () => {
+    const scheduled = await schedule('Muted', inMinutes(-1));
+    await db.update(roomParticipantsTable)
+      .set({ is_muted: true })
+      .where(eq(roomParticipantsTable.user_id, authorId))
+      .execute();
+
+    await deliverDueScheduledMessages();
+
+    const failed = await getScheduled(scheduled.id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.failure_reason).toMatch(/muted/i);
+    expect(await db.select().from(messagesTable).execute()).toHaveLength(0);
+  });
+
+  it('should mark messages of authors who left the room as failed', async () => {
+    const scheduled = await schedule('Gone', inMinutes(-1));
+    await db.delete(roomParticipantsTable).execute();
+
+    await deliverDueScheduledMessages();
+
+    const failed = await getScheduled(scheduled.id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.failure_reason).toMatch(/not a participant/i);
+  });
+
+  it('should mark messages for archived rooms as failed', async () => {
+    const scheduled = await schedule('Archived', inMinutes(-1));
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await deliverDueScheduledMessages();
+
+    expect((await getScheduled(scheduled.id)).status).toEqual('failed');
+  });
+
+  it('should skip cancelled messages', async () => {
+    const scheduled = await schedule('Cancelled', inMinutes(-1));
+    await db.update(scheduledMessagesTable)
+      .set({ status: 'cancelled' })
+      .where(eq(scheduledMessagesTable.id, scheduled.id))
+      .execute();
+
+    expect(await deliverDueScheduledMessages()).toEqual(0);
+    expect(await db.select().from(messagesTable).execute()).toHaveLength(0);
+  });
+
+  it('should deliver each message once', async () => {
+    await schedule('Once', inMinutes(-1));
+
+    await deliverDueScheduledMessages();
+    await deliverDueScheduledMessages();
+
+    expect(await db.select().from(messagesTable).execute()).toHaveLength(1);
+  });
+
+  it('should retry deliveries interrupted by a restart', async () => {
+    const scheduled = await schedule('Interrupted', inMinutes(-1));
+    await db.update(scheduledMessagesTable)
+      .set({ status: 'sending' })
+      .where(eq(scheduledMessagesTable.id, scheduled.id))
+      .execute();
+
+    expect(await requeueInterruptedDeliveries()).toEqual(1);
+    await deliverDueScheduledMessages();
+
+    expect((await getScheduled(scheduled.id)).status).toEqual('sent');
+  });
+});
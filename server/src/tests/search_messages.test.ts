@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { searchMessages } from '../handlers/search_messages';
+
+describe('searchMessages', () => {
+  let searcherId: number;
+  let authorId: number;
+  let publicRoomId: number;
+  let privateRoomId: number;
+  let joinedPrivateRoomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'searcher', email: 'searcher@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'author', email: 'author@example.com', password_hash: 'hashed_password', role_id: role[0].id, display_name: 'Author' }
+      ])
+      .returning()
+      .execute();
+    searcherId = users[0].id;
+    authorId = users[1].id;
+
+    const rooms = await db.insert(roomsTable)
+      .values([
+        { name: 'Public', room_type: 'public', owner_id: authorId },
+        { name: 'Secret', room_type: 'private', owner_id: authorId },
+        { name: 'Team', room_type: 'private', owner_id: authorId }
+      ])
+      .returning()
+      .execute();
+    publicRoomId = rooms[0].id;
+    privateRoomId = rooms[1].id;
+    joinedPrivateRoomId = rooms[2].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: publicRoomId, user_id: authorId, participant_role: 'admin' },
+        { room_id: privateRoomId, user_id: authorId, participant_role: 'admin' },
+        { room_id: joinedPrivateRoomId, user_id: authorId, participant_role: 'admin' },
+        { room_id: joinedPrivateRoomId, user_id: searcherId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const postMessage = async (roomId: number, userId: number, content: string, createdAt?: Date) => {
+    const result = await db.insert(messagesTable)
+      .values({ room_id: roomId, user_id: userId, content, created_at: createdAt })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should find matching messages with stemming and highlight the matches', async () => {
+    const match = await postMessage(publicRoomId, authorId, 'We are deploying the release tonight');
+    await postMessage(publicRoomId, authorId, 'Unrelated chatter');
+
+    const results = await searchMessages({ query: 'deploy' }, searcherId);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].message.id).toEqual(match.id);
+    expect(results[0].message.author.display_name).toEqual('Author');
+    expect(results[0].room_name).toEqual('Public');
+    expect(results[0].snippet).toEqual([
+      { text: 'We are ', highlighted: false },
+      { text: 'deploying', highlighted: true },
+      { text: ' the release tonight', highlighted: false }
+    ]);
+  });
+
+  it('should only search private rooms the caller participates in', async () => {
+    await postMessage(publicRoomId, authorId, 'budget in public');
+    await postMessage(privateRoomId, authorId, 'budget in secret');
+    await postMessage(joinedPrivateRoomId, authorId, 'budget in team');
+
+    const results = await searchMessages({ query: 'budget' }, searcherId);
+
+    expect(results.map(result => result.room_name).sort()).toEqual(['Public', 'Team']);
+  });
+
+  it('should reject a room filter for a private room the caller cannot read', async () => {
+    await expect(searchMessages({ query: 'budget', room_id: privateRoomId }, searcherId))
+      .rejects.toThrow(/access denied/i);
+  });
+
+  it('should filter by room, author and date range', async () => {
+    const now = Date.now();
+    await postMessage(publicRoomId, authorId, 'launch plan', new Date(now - 3 * 86_400_000));
+    const recent = await postMessage(publicRoomId, authorId, 'launch checklist', new Date(now - 3_600_000));
+    const own = await postMessage(publicRoomId, searcherId, 'launch question');
+    await postMessage(joinedPrivateRoomId, authorId, 'launch notes');
+
+    const inRoom = await searchMessages({ query: 'launch', room_id: publicRoomId }, searcherId);
+    expect(inRoom).toHaveLength(3);
+
+    const byAuthor = await searchMessages({ query: 'launch', author_id: searcherId }, searcherId);
+    expect(byAuthor.map(result => result.message.id)).toEqual([own.id]);
+
+    const inRange = await searchMessages({
+      query: 'launch',
+      room_id: publicRoomId,
+      author_id: authorId,
+      from: new Date(now - 86_400_000),
+      to: new Date(now)
+    }, searcherId);
+    expect(inRange.map(result => result.message.id)).toEqual([recent.id]);
+  });
+
+  it('should skip deleted messages', async () => {
+    await db.insert(messagesTable)
+      .values({ room_id: publicRoomId, user_id: authorId, content: 'removed secret', is_deleted: true })
+      .execute();
+
+    const results = await searchMessages({ query: 'secret' }, searcherId);
+    expect(results).toHaveLength(0);
+  });
+
+  it('should return the newest matches first and page with a cursor', async () => {
+    const first = await postMessage(publicRoomId, authorId, 'standup one');
+    const second = await postMessage(publicRoomId, authorId, 'standup two');
+    const third = await postMessage(publicRoomId, authorId, 'standup three');
+
+    const page = await searchMessages({ query: 'standup', limit: 2 }, searcherId);
+    expect(page.map(result => result.message.id)).toEqual([third.id, second.id]);
+
+    const next = await searchMessages({ query: 'standup', limit: 2, before: second.id }, searcherId);
+    expect(next.map(result => result.message.id)).toEqual([first.id]);
+  });
+
+  it('should not expose the search document', async () => {
+    await postMessage(publicRoomId, authorId, 'hidden column check');
+
+    const results = await searchMessages({ query: 'column' }, searcherId);
+    expect(results[0].message).not.toHaveProperty('search_vector');
+  });
+});
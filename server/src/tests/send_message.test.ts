@@ -6,10 +6,14 @@ import {
   rolesTable, 
   roomsTable, 
   messagesTable, 
-  roomParticipantsTable 
+  roomParticipantsTable,
+  attachmentsTable,
+  messageMentionsTable
 } from '../db/schema';
 import { type SendMessageInput } from '../schema';
 import { sendMessage } from '../handlers/send_message';
+import { listenToRoom } from '../realtime/room_events';
+import { startTyping, getTypingUserIds, clearTyping } from '../realtime/typing';
 import { eq, and } from 'drizzle-orm';
 
 describe('sendMessage', () => {
@@ -87,6 +91,100 @@ describe('sendMessage', () => {
     expect(result.reply_to_id).toBeNull();
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
+    expect(result.author).toEqual({
+      id: testUserId,
+      username: 'testuser',
+      display_name: 'Test User',
+      avatar_url: null,
+      participant_role: 'member'
+    });
+  });
+
+  it('should publish the new message to room subscribers', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(testRoomId, controller.signal);
+    const pending = events.next();
+
+    const result = await sendMessage({
+      room_id: testRoomId,
+      content: 'Realtime hello'
+    }, testUserId);
+
+    const event = await pending;
+    expect(event.value).toEqual({ type: 'message.created', message: result });
+
+    controller.abort();
+  });
+
+  it('should end the author\'s typing indicator', async () => {
+    startTyping(testRoomId, testUserId);
+
+    await sendMessage({
+      room_id: testRoomId,
+      content: 'Done typing'
+    }, testUserId);
+
+    expect(getTypingUserIds(testRoomId)).toEqual([]);
+    clearTyping();
+  });
+
+  it('should link uploaded attachments to the message', async () => {
+    const upload = await db.insert(attachmentsTable)
+      .values({
+        room_id: testRoomId,
+        uploader_id: testUserId,
+        file_name: 'photo.png',
+        mime_type: 'image/png',
+        size_bytes: 10,
+        storage_key: `${testRoomId}/photo`
+      })
+      .returning()
+      .execute();
+
+    const result = await sendMessage({
+      room_id: testRoomId,
+      content: 'photo.png',
+      message_type: 'image',
+      attachment_ids: [upload[0].id]
+    }, testUserId);
+
+    expect(result.attachments).toHaveLength(1);
+    expect(result.attachments[0].id).toEqual(upload[0].id);
+    expect(result.attachments[0].message_id).toEqual(result.id);
+    expect(result.attachments[0].download_path).toContain(`/attachments/${upload[0].id}?`);
+
+    // An attachment can only be sent once
+    await expect(sendMessage({
+      room_id: testRoomId,
+      content: 'again',
+      attachment_ids: [upload[0].id]
+    }, testUserId)).rejects.toThrow(/attachment not found or already sent/i);
+  });
+
+  it('should give an attachment to only one of two messages sent together', async () => {
+    const upload = await db.insert(attachmentsTable)
+      .values({
+        room_id: testRoomId,
+        uploader_id: testUserId,
+        file_name: 'photo.png',
+        mime_type: 'image/png',
+        size_bytes: 10,
+        storage_key: `${testRoomId}/photo`
+      })
+      .returning()
+      .execute();
+
+    const results = await Promise.allSettled([
+      sendMessage({ room_id: testRoomId, content: 'first', attachment_ids: [upload[0].id] }, testUserId),
+      sendMessage({ room_id: testRoomId, content: 'second', attachment_ids: [upload[0].id] }, testUserId)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+
+    // The rejected message is not left behind without its attachment
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(1);
   });
 
   it('should save message to database', async () => {
@@ -163,6 +261,20 @@ describe('sendMessage', () => {
     expect(participation[0].last_seen_at!.getTime()).toBeGreaterThanOrEqual(beforeTime.getTime());
   });
 
+  it('should mark the room read up to the sent message', async () => {
+    const result = await sendMessage({ room_id: testRoomId, content: 'Read marker' }, testUserId);
+
+    const participation = await db.select()
+      .from(roomParticipantsTable)
+      .where(and(
+        eq(roomParticipantsTable.room_id, testRoomId),
+        eq(roomParticipantsTable.user_id, testUserId)
+      ))
+      .execute();
+
+    expect(participation[0].last_read_message_id).toEqual(result.id);
+  });
+
   it('should reject message for non-existent room', async () => {
     const input: SendMessageInput = {
       room_id: 99999,
@@ -191,6 +303,30 @@ describe('sendMessage', () => {
       .toThrow(/room not found or inactive/i);
   });
 
+  it('should reject messages from muted participants until the mute ends', async () => {
+    const mute = (mutedUntil: Date | null) => db.update(roomParticipantsTable)
+      .set({ is_muted: true, muted_until: mutedUntil })
+      .where(and(
+        eq(roomParticipantsTable.room_id, testRoomId),
+        eq(roomParticipantsTable.user_id, testUserId)
+      ))
+      .execute();
+
+    await mute(null);
+    await expect(sendMessage({ room_id: testRoomId, content: 'Muted' }, testUserId))
+      .rejects
+      .toThrow(/muted in this room/i);
+
+    await mute(new Date(Date.now() + 60_000));
+    await expect(sendMessage({ room_id: testRoomId, content: 'Still muted' }, testUserId))
+      .rejects
+      .toThrow(/muted in this room/i);
+
+    await mute(new Date(Date.now() - 1000));
+    const result = await sendMessage({ room_id: testRoomId, content: 'Mute expired' }, testUserId);
+    expect(result.content).toEqual('Mute expired');
+  });
+
   it('should reject message from non-participant', async () => {
     // Create another user who is not a participant
     const nonParticipantResult = await db.insert(usersTable)
@@ -309,4 +445,53 @@ describe('sendMessage', () => {
     const fileResult = await sendMessage(fileInput, testUserId);
     expect(fileResult.message_type).toEqual('file');
   });
-});
\ No newline at end of file
+
+  it('should record mentions of room participants only', async () => {
+    const others = await db.insert(usersTable)
+      .values([
+        { username: 'Alice', email: 'alice@example.com', password_hash: 'hashed_password', role_id: testRoleId },
+        { username: 'bob.smith', email: 'bob@example.com', password_hash: 'hashed_password', role_id: testRoleId },
+        { username: 'carol', email: 'carol@example.com', password_hash: 'hashed_password', role_id: testRoleId }
+      ])
+      .returning()
+      .execute();
+    const [alice, bob] = others;
+
+    // Alice and Bob are in the room, Carol is not
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: testRoomId, user_id: alice.id, participant_role: 'member' },
+        { room_id: testRoomId, user_id: bob.id, participant_role: 'member' }
+      ])
+      .execute();
+
+    const result = await sendMessage({
+      room_id: testRoomId,
+      content: 'Hey @alice and @bob.smith. Also @carol, @testuser, @nobody and mail@alice.example'
+    }, testUserId);
+
+    expect(result.mentioned_user_ids.sort()).toEqual([alice.id, bob.id].sort());
+
+    const mentions = await db.select()
+      .from(messageMentionsTable)
+      .where(eq(messageMentionsTable.message_id, result.id))
+      .execute();
+
+    expect(mentions).toHaveLength(2);
+    expect(mentions.every(mention => mention.room_id === testRoomId)).toBe(true);
+  });
+
+  it('should record each mentioned user once', async () => {
+    const other = await db.insert(usersTable)
+      .values({ username: 'alice', email: 'alice@example.com', password_hash: 'hashed_password', role_id: testRoleId })
+      .returning()
+      .execute();
+    await db.insert(roomParticipantsTable)
+      .values({ room_id: testRoomId, user_id: other[0].id, participant_role: 'member' })
+      .execute();
+
+    const result = await sendMessage({ room_id: testRoomId, content: '@alice @Alice @alice!' }, testUserId);
+
+    expect(result.mentioned_user_ids).toEqual([other[0].id]);
+  });
+});
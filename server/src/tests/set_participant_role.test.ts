@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { setParticipantRole } from '../handlers/set_participant_role';
+import { and, eq } from 'drizzle-orm';
+
+describe('setParticipantRole', () => {
+  let ownerId: number;
+  let adminId: number;
+  let moderatorId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values(['owner', 'admin', 'moderator', 'member', 'outsider'].map(username => ({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role_id: role[0].id
+      })))
+      .returning()
+      .execute();
+    [ownerId, adminId, moderatorId, memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const roleOf = async (userId: number) => {
+    const [participant] = await db.select()
+      .from(roomParticipantsTable)
+      .where(and(
+        eq(roomParticipantsTable.room_id, roomId),
+        eq(roomParticipantsTable.user_id, userId)
+      ))
+      .execute();
+    return participant.participant_role;
+  };
+
+  it('should promote a member and post a system message', async () => {
+    const result = await setParticipantRole({ room_id: roomId, user_id: memberId, participant_role: 'moderator' }, adminId);
+
+    expect(result.user_id).toEqual(memberId);
+    expect(result.participant_role).toEqual('moderator');
+    expect(await roleOf(memberId)).toEqual('moderator');
+
+    const [message] = await db.select().from(messagesTable).execute();
+    expect(message.message_type).toEqual('system');
+    expect(message.content).toEqual('admin made member a moderator');
+  });
+
+  it('should let admins promote to admin and demote moderators', async () => {
+    await setParticipantRole({ room_id: roomId, user_id: memberId, participant_role: 'admin' }, adminId);
+    await setParticipantRole({ room_id: roomId, user_id: moderatorId, participant_role: 'member' }, adminId);
+
+    expect(await roleOf(memberId)).toEqual('admin');
+    expect(await roleOf(moderatorId)).toEqual('member');
+  });
+
+  it('should only let the owner change another admin', async () => {
+    await expect(setParticipantRole({ room_id: roomId, user_id: ownerId, participant_role: 'member' }, adminId))
+      .rejects.toThrow(/equal or higher role/i);
+
+    await setParticipantRole({ room_id: roomId, user_id: adminId, participant_role: 'moderator' }, ownerId);
+    expect(await roleOf(adminId)).toEqual('moderator');
+    expect(await roleOf(ownerId)).toEqual('admin');
+  });
+
+  it('should leave unchanged roles alone', async () => {
+    const result = await setParticipantRole({ room_id: roomId, user_id: memberId, participant_role: 'member' }, adminId);
+
+    expect(result.participant_role).toEqual('member');
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(0);
+  });
+
+  it('should reject moderators, members and non-participants', async () => {
+    await expect(setParticipantRole({ room_id: roomId, user_id: memberId, participant_role: 'moderator' }, moderatorId))
+      .rejects.toThrow(/only room admins/i);
+    await expect(setParticipantRole({ room_id: roomId, user_id: memberId, participant_role: 'moderator' }, outsiderId))
+      .rejects.toThrow(/only room admins/i);
+    await expect(setParticipantRole({ room_id: roomId, user_id: outsiderId, participant_role: 'moderator' }, adminId))
+      .rejects.toThrow(/not a participant/i);
+  });
+
+  it('should reject changing your own role', async () => {
+    await expect(setParticipantRole({ room_id: roomId, user_id: adminId, participant_role: 'member' }, adminId))
+      .rejects.toThrow(/cannot moderate yourself/i);
+  });
+
+  it('should reject role changes in archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(setParticipantRole({ room_id: roomId, user_id: memberId, participant_role: 'moderator' }, adminId))
+      .rejects.toThrow(/archived and read-only/i);
+
+    expect(await roleOf(memberId)).toEqual('member');
+  });
+});
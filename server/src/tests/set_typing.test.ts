@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { setTyping } from '../handlers/set_typing';
+import { clearTyping, getTypingUserIds, startTyping } from '../realtime/typing';
+import { listenToRoom } from '../realtime/room_events';
+import { eq } from 'drizzle-orm';
+
+describe('setTyping', () => {
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    clearTyping();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id, display_name: 'Member' },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    memberId = users[0].id;
+    outsiderId = users[1].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: memberId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values({
+        room_id: roomId,
+        user_id: memberId,
+        participant_role: 'member'
+      })
+      .execute();
+  });
+
+  afterEach(async () => {
+    clearTyping();
+    await resetDB();
+  });
+
+  it('should broadcast when a participant starts typing', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    const result = await setTyping({ room_id: roomId, is_typing: true }, memberId);
+
+    expect(result.success).toBe(true);
+    expect(getTypingUserIds(roomId)).toEqual([memberId]);
+
+    const event = await pending;
+    expect(event.value).toEqual({
+      type: 'typing.changed',
+      room_id: roomId,
+      typing_users: [{ id: memberId, username: 'member', display_name: 'Member', avatar_url: null }]
+    });
+
+    controller.abort();
+  });
+
+  it('should not rebroadcast while the user keeps typing', async () => {
+    await setTyping({ room_id: roomId, is_typing: true }, memberId);
+
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    // Refreshing the typing state is silent; only stopping produces the next event
+    await setTyping({ room_id: roomId, is_typing: true }, memberId);
+    await setTyping({ room_id: roomId, is_typing: false }, memberId);
+
+    const event = await pending;
+    expect(event.value).toEqual({ type: 'typing.changed', room_id: roomId, typing_users: [] });
+    expect(getTypingUserIds(roomId)).toEqual([]);
+
+    controller.abort();
+  });
+
+  it('should expire typing state that is not refreshed', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    // Short timeout so the test does not wait the full TYPING_TIMEOUT_MS
+    startTyping(roomId, memberId, 20);
+    expect(getTypingUserIds(roomId)).toEqual([memberId]);
+
+    const event = await pending;
+    expect(event.value).toEqual({ type: 'typing.changed', room_id: roomId, typing_users: [] });
+    expect(getTypingUserIds(roomId)).toEqual([]);
+
+    controller.abort();
+  });
+
+  it('should never store typing state as messages', async () => {
+    await setTyping({ room_id: roomId, is_typing: true }, memberId);
+
+    const messages = await db.select()
+      .from(messagesTable)
+      .where(eq(messagesTable.room_id, roomId))
+      .execute();
+
+    expect(messages).toHaveLength(0);
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(setTyping({ room_id: roomId, is_typing: true }, outsiderId))
+      .rejects.toThrow(/not a participant/i);
+
+    expect(getTypingUserIds(roomId)).toEqual([]);
+  });
+
+  it('should not let muted participants start typing', async () => {
+    await setTyping({ room_id: roomId, is_typing: true }, memberId);
+
+    await db.update(roomParticipantsTable)
+      .set({ is_muted: true, muted_until: new Date(Date.now() + 60_000) })
+      .where(eq(roomParticipantsTable.user_id, memberId))
+      .execute();
+
+    await expect(setTyping({ room_id: roomId, is_typing: true }, memberId))
+      .rejects.toThrow(/muted in this room/i);
+
+    // Stopping is still allowed so the indicator clears
+    await setTyping({ room_id: roomId, is_typing: false }, memberId);
+    expect(getTypingUserIds(roomId)).toEqual([]);
+  });
+
+  it('should reject inactive rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(setTyping({ room_id: roomId, is_typing: true }, memberId))
+      .rejects.toThrow(/not found or inactive/i);
+  });
+});
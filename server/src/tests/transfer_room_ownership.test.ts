@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { transferRoomOwnership } from '../handlers/transfer_room_ownership';
+import { eq } from 'drizzle-orm';
+
+describe('transferRoomOwnership', () => {
+  let ownerId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id, display_name: 'Olive' },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    memberId = users[1].id;
+    outsiderId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should make the participant the owner and an admin', async () => {
+    const result = await transferRoomOwnership({ room_id: roomId, new_owner_id: memberId }, ownerId);
+
+    expect(result.id).toEqual(roomId);
+    expect(result.owner_id).toEqual(memberId);
+
+    const [room] = await db.select().from(roomsTable).where(eq(roomsTable.id, roomId)).execute();
+    expect(room.owner_id).toEqual(memberId);
+
+    const participants = await db.select().from(roomParticipantsTable).execute();
+    const roles = new Map(participants.map(participant => [participant.user_id, participant.participant_role]));
+    expect(roles.get(memberId)).toEqual('admin');
+    // The previous owner keeps their role
+    expect(roles.get(ownerId)).toEqual('admin');
+  });
+
+  it('should post a system message naming both users', async () => {
+    await transferRoomOwnership({ room_id: roomId, new_owner_id: memberId }, ownerId);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].message_type).toEqual('system');
+    expect(messages[0].content).toEqual('Olive transferred ownership to member');
+  });
+
+  it('should only let the owner transfer', async () => {
+    await expect(transferRoomOwnership({ room_id: roomId, new_owner_id: memberId }, memberId))
+      .rejects.toThrow(/only the room owner/i);
+  });
+
+  it('should require the new owner to be another participant', async () => {
+    await expect(transferRoomOwnership({ room_id: roomId, new_owner_id: outsiderId }, ownerId))
+      .rejects.toThrow(/must be a participant/i);
+    await expect(transferRoomOwnership({ room_id: roomId, new_owner_id: ownerId }, ownerId))
+      .rejects.toThrow(/already own/i);
+
+    const [room] = await db.select().from(roomsTable).where(eq(roomsTable.id, roomId)).execute();
+    expect(room.owner_id).toEqual(ownerId);
+  });
+
+  it('should reject unknown rooms', async () => {
+    await expect(transferRoomOwnership({ room_id: 99999, new_owner_id: memberId }, ownerId))
+      .rejects.toThrow(/room not found/i);
+  });
+
+  it('should reject transfers of archived rooms', async () => {
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(transferRoomOwnership({ room_id: roomId, new_owner_id: memberId }, ownerId))
+      .rejects.toThrow(/archived and read-only/i);
+
+    const [room] = await db.select().from(roomsTable).where(eq(roomsTable.id, roomId)).execute();
+    expect(room.owner_id).toEqual(ownerId);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, roomBansTable, messagesTable } from '../db/schema';
+import { unbanUser } from '../handlers/unban_user';
+import { eq } from 'drizzle-orm';
+
+describe('unbanUser', () => {
+  let ownerId: number;
+  let adminId: number;
+  let moderatorId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values(['owner', 'admin', 'moderator', 'member', 'outsider'].map(username => ({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role_id: role[0].id
+      })))
+      .returning()
+      .execute();
+    [ownerId, adminId, moderatorId, memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should lift the ban and post a system message', async () => {
+    await db.insert(roomBansTable)
+      .values({ room_id: roomId, user_id: outsiderId, banned_by: moderatorId })
+      .execute();
+
+    const result = await unbanUser({ room_id: roomId, user_id: outsiderId }, adminId);
+
+    expect(result.success).toBe(true);
+    const bans = await db.select().from(roomBansTable).execute();
+    expect(bans).toHaveLength(0);
+
+    const [message] = await db.select().from(messagesTable).execute();
+    expect(message.content).toEqual('outsider was unbanned by admin');
+  });
+
+  it('should reject users who are not banned', async () => {
+    await expect(unbanUser({ room_id: roomId, user_id: outsiderId }, moderatorId)).rejects.toThrow(/not banned/i);
+  });
+
+  it('should reject members', async () => {
+    await db.insert(roomBansTable)
+      .values({ room_id: roomId, user_id: outsiderId, banned_by: moderatorId })
+      .execute();
+
+    await expect(unbanUser({ room_id: roomId, user_id: outsiderId }, memberId)).rejects.toThrow(/only room moderators and admins/i);
+  });
+
+  it('should reject unbanning in archived rooms', async () => {
+    await db.insert(roomBansTable)
+      .values({ room_id: roomId, user_id: outsiderId, banned_by: moderatorId })
+      .execute();
+
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(unbanUser({ room_id: roomId, user_id: outsiderId }, adminId))
+      .rejects.toThrow(/archived and read-only/i);
+
+    const bans = await db.select().from(roomBansTable).execute();
+    expect(bans).toHaveLength(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable } from '../db/schema';
+import { unmuteParticipant } from '../handlers/unmute_participant';
+import { and, eq } from 'drizzle-orm';
+
+describe('unmuteParticipant', () => {
+  let ownerId: number;
+  let adminId: number;
+  let moderatorId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values(['owner', 'admin', 'moderator', 'member', 'outsider'].map(username => ({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role_id: role[0].id
+      })))
+      .returning()
+      .execute();
+    [ownerId, adminId, moderatorId, memberId, outsiderId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const muteMember = async (mutedUntil: Date | null) => {
+    await db.update(roomParticipantsTable)
+      .set({ is_muted: true, muted_until: mutedUntil })
+      .where(and(
+        eq(roomParticipantsTable.room_id, roomId),
+        eq(roomParticipantsTable.user_id, memberId)
+      ))
+      .execute();
+  };
+
+  it('should lift the mute and post a system message', async () => {
+    await muteMember(null);
+
+    const result = await unmuteParticipant({ room_id: roomId, user_id: memberId }, moderatorId);
+
+    expect(result.is_muted).toBe(false);
+    expect(result.muted_until).toBeNull();
+
+    const [message] = await db.select().from(messagesTable).execute();
+    expect(message.content).toEqual('member was unmuted by moderator');
+  });
+
+  it('should reject participants who are not muted', async () => {
+    await expect(unmuteParticipant({ room_id: roomId, user_id: memberId }, moderatorId)).rejects.toThrow(/not muted/i);
+
+    await muteMember(new Date(Date.now() - 1000));
+    await expect(unmuteParticipant({ room_id: roomId, user_id: memberId }, moderatorId)).rejects.toThrow(/not muted/i);
+  });
+
+  it('should reject members', async () => {
+    await muteMember(null);
+
+    await expect(unmuteParticipant({ room_id: roomId, user_id: memberId }, outsiderId)).rejects.toThrow(/only room moderators and admins/i);
+  });
+
+  it('should reject unmuting in archived rooms', async () => {
+    await muteMember(null);
+
+    await db.update(roomsTable)
+      .set({ is_active: false })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    await expect(unmuteParticipant({ room_id: roomId, user_id: memberId }, moderatorId))
+      .rejects.toThrow(/archived and read-only/i);
+
+    const messages = await db.select().from(messagesTable).execute();
+    expect(messages).toHaveLength(0);
+  });
+});
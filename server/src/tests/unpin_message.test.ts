@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, messagesTable, roomPinsTable } from '../db/schema';
+import { unpinMessage } from '../handlers/unpin_message';
+import { listenToRoom } from '../realtime/room_events';
+
+describe('unpinMessage', () => {
+  let adminId: number;
+  let memberId: number;
+  let roomId: number;
+  let messageIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'admin', email: 'admin@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    [adminId, memberId] = users.map(user => user.id);
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: adminId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: memberId, participant_role: 'member' }
+      ])
+      .execute();
+
+    const messages = await db.insert(messagesTable)
+      .values([
+        { room_id: roomId, user_id: adminId, content: 'Rules' },
+        { room_id: roomId, user_id: adminId, content: 'Schedule' }
+      ])
+      .returning()
+      .execute();
+    messageIds = messages.map(message => message.id);
+
+    await db.insert(roomPinsTable)
+      .values(messageIds.map(message_id => ({ room_id: roomId, message_id, pinned_by: adminId })))
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should unpin the message and return the remaining pins', async () => {
+    const result = await unpinMessage({ message_id: messageIds[0] }, adminId);
+
+    expect(result.map(pin => pin.message.id)).toEqual([messageIds[1]]);
+
+    const pins = await db.select().from(roomPinsTable).execute();
+    expect(pins.map(pin => pin.message_id)).toEqual([messageIds[1]]);
+  });
+
+  it('should publish the remaining pinned message ids to room subscribers', async () => {
+    const controller = new AbortController();
+    const events = listenToRoom(roomId, controller.signal);
+    const pending = events.next();
+
+    await unpinMessage({ message_id: messageIds[1] }, adminId);
+
+    const event = await pending;
+    expect(event.value).toEqual({
+      type: 'pins.changed',
+      room_id: roomId,
+      pinned_message_ids: [messageIds[0]]
+    });
+
+    controller.abort();
+  });
+
+  it('should reject participants who are not moderators', async () => {
+    await expect(unpinMessage({ message_id: messageIds[0] }, memberId))
+      .rejects.toThrow(/only room moderators can unpin/i);
+
+    expect(await db.select().from(roomPinsTable).execute()).toHaveLength(2);
+  });
+
+  it('should throw for messages that are not pinned', async () => {
+    await unpinMessage({ message_id: messageIds[0] }, adminId);
+
+    await expect(unpinMessage({ message_id: messageIds[0] }, adminId))
+      .rejects.toThrow(/not pinned/i);
+  });
+});
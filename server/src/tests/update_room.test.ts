@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, roomCategoriesTable } from '../db/schema';
+import { updateRoom } from '../handlers/update_room';
+import { eq } from 'drizzle-orm';
+
+describe('updateRoom', () => {
+  let ownerId: number;
+  let adminId: number;
+  let moderatorId: number;
+  let roomId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'admin', email: 'admin@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'moderator', email: 'moderator@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    adminId = users[1].id;
+    moderatorId = users[2].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        description: 'A room',
+        room_type: 'public',
+        owner_id: ownerId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values([
+        { room_id: roomId, user_id: ownerId, participant_role: 'admin' },
+        { room_id: roomId, user_id: adminId, participant_role: 'admin' },
+        { room_id: roomId, user_id: moderatorId, participant_role: 'moderator' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should update the given settings and keep the rest', async () => {
+    const result = await updateRoom({ room_id: roomId, name: 'Renamed', max_participants: 10 }, ownerId);
+
+    expect(result.name).toEqual('Renamed');
+    expect(result.description).toEqual('A room');
+    expect(result.max_participants).toEqual(10);
+
+    const [room] = await db.select().from(roomsTable).where(eq(roomsTable.id, roomId)).execute();
+    expect(room.name).toEqual('Renamed');
+    expect(room.max_participants).toEqual(10);
+    expect(room.updated_at > room.created_at).toBe(true);
+  });
+
+  it('should let room admins update the room', async () => {
+    const result = await updateRoom({ room_id: roomId, description: 'Updated' }, adminId);
+
+    expect(result.description).toEqual('Updated');
+  });
+
+  it('should clear the description and participant limit when given null', async () => {
+    await updateRoom({ room_id: roomId, max_participants: 5 }, ownerId);
+    const result = await updateRoom({ room_id: roomId, description: null, max_participants: null }, ownerId);
+
+    expect(result.description).toBeNull();
+    expect(result.max_participants).toBeNull();
+  });
+
+  it('should set a gold cost when making the room premium', async () => {
+    const result = await updateRoom({ room_id: roomId, room_type: 'premium', gold_cost: 25 }, ownerId);
+
+    expect(result.room_type).toEqual('premium');
+    expect(result.gold_cost).toEqual(25);
+  });
+
+  it('should clear the gold cost when the room stops being premium', async () => {
+    await updateRoom({ room_id: roomId, room_type: 'premium', gold_cost: 25 }, ownerId);
+    const result = await updateRoom({ room_id: roomId, room_type: 'private' }, ownerId);
+
+    expect(result.room_type).toEqual('private');
+    expect(result.gold_cost).toBeNull();
+  });
+
+  it('should change the category and tags', async () => {
+    const category = await db.insert(roomCategoriesTable)
+      .values({ name: 'Gaming' })
+      .returning()
+      .execute();
+
+    const result = await updateRoom({ room_id: roomId, category_id: category[0].id, tags: ['rpg'] }, ownerId);
+    expect(result.category_id).toEqual(category[0].id);
+    expect(result.tags).toEqual(['rpg']);
+
+    const cleared = await updateRoom({ room_id: roomId, category_id: null, tags: [] }, ownerId);
+    expect(cleared.category_id).toBeNull();
+    expect(cleared.tags).toEqual([]);
+  });
+
+  it('should reject unknown categories', async () => {
+    await expect(updateRoom({ room_id: roomId, category_id: 99999 }, ownerId))
+      .rejects.toThrow(/room category not found/i);
+  });
+
+  it('should reject a gold cost for rooms that are not premium', async () => {
+    await expect(updateRoom({ room_id: roomId, gold_cost: 10 }, ownerId))
+      .rejects.toThrow(/only premium rooms can have a gold cost/i);
+  });
+
+  it('should reject premium rooms without a positive gold cost', async () => {
+    await expect(updateRoom({ room_id: roomId, room_type: 'premium' }, ownerId))
+      .rejects.toThrow(/positive gold cost/i);
+    await expect(updateRoom({ room_id: roomId, room_type: 'premium', gold_cost: 0 }, ownerId))
+      .rejects.toThrow(/positive gold cost/i);
+
+    // Clearing the cost of a room that is already premium is rejected too
+    await updateRoom({ room_id: roomId, room_type: 'premium', gold_cost: 25 }, ownerId);
+    await expect(updateRoom({ room_id: roomId, gold_cost: null }, ownerId))
+      .rejects.toThrow(/positive gold cost/i);
+  });
+
+  it('should let free premium rooms change settings other than the price', async () => {
+    await db.update(roomsTable)
+      .set({ room_type: 'premium', gold_cost: 0 })
+      .where(eq(roomsTable.id, roomId))
+      .execute();
+
+    const result = await updateRoom({ room_id: roomId, name: 'Renamed' }, ownerId);
+    expect(result.name).toEqual('Renamed');
+    expect(result.gold_cost).toEqual(0);
+
+    await expect(updateRoom({ room_id: roomId, room_type: 'premium' }, ownerId))
+      .rejects.toThrow(/positive gold cost/i);
+  });
+
+  it('should reject a participant limit below the current participant count', async () => {
+    await expect(updateRoom({ room_id: roomId, max_participants: 2 }, ownerId))
+      .rejects.toThrow(/room already has 3 participants/i);
+  });
+
+  it('should reject moderators', async () => {
+    await expect(updateRoom({ room_id: roomId, name: 'Renamed' }, moderatorId))
+      .rejects.toThrow(/only the room owner or room admins/i);
+  });
+
+  it('should reject archived rooms', async () => {
+    await db.update(roomsTable).set({ is_active: false }).where(eq(roomsTable.id, roomId)).execute();
+
+    await expect(updateRoom({ room_id: roomId, name: 'Renamed' }, ownerId))
+      .rejects.toThrow(/archived and read-only/i);
+  });
+
+  it('should reject direct conversations', async () => {
+    const direct = await db.insert(roomsTable)
+      .values({ name: 'Direct', room_type: 'private', owner_id: ownerId, is_direct: true })
+      .returning()
+      .execute();
+
+    await expect(updateRoom({ room_id: direct[0].id, name: 'Renamed' }, ownerId))
+      .rejects.toThrow(/direct conversations cannot be managed/i);
+  });
+
+  it('should throw for unknown rooms', async () => {
+    await expect(updateRoom({ room_id: 99999, name: 'Renamed' }, ownerId))
+      .rejects.toThrow(/room not found/i);
+  });
+});
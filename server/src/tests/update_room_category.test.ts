@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { roomCategoriesTable } from '../db/schema';
+import { updateRoomCategory } from '../handlers/update_room_category';
+
+describe('updateRoomCategory', () => {
+  let categoryId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const categories = await db.insert(roomCategoriesTable)
+      .values([
+        { name: 'Gaming', description: 'Games', position: 1 },
+        { name: 'Music', position: 2 }
+      ])
+      .returning()
+      .execute();
+    categoryId = categories[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update the given fields and keep the rest', async () => {
+    const result = await updateRoomCategory({ category_id: categoryId, name: 'Video games' });
+
+    expect(result.name).toEqual('Video games');
+    expect(result.description).toEqual('Games');
+    expect(result.position).toEqual(1);
+  });
+
+  it('should clear the description and move the category', async () => {
+    const result = await updateRoomCategory({ category_id: categoryId, description: null, position: 5 });
+
+    expect(result.description).toBeNull();
+    expect(result.position).toEqual(5);
+  });
+
+  it('should allow changing the case of its own name', async () => {
+    const result = await updateRoomCategory({ category_id: categoryId, name: 'GAMING' });
+
+    expect(result.name).toEqual('GAMING');
+  });
+
+  it('should reject names used by another category', async () => {
+    await expect(updateRoomCategory({ category_id: categoryId, name: 'music' }))
+      .rejects.toThrow(/already exists/i);
+  });
+
+  it('should throw for unknown categories', async () => {
+    await expect(updateRoomCategory({ category_id: 99999, name: 'Other' }))
+      .rejects.toThrow(/room category not found/i);
+  });
+});
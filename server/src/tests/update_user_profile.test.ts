@@ -72,6 +72,7 @@ describe('updateUserProfile', () => {
     expect(result.email).toBe('test@example.com');
     expect(result.gold_credits).toBe(100);
     expect(result.is_active).toBe(true);
+    expect(result).not.toHaveProperty('password_hash');
   });
 
   it('should update only provided fields', async () => {
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, roomsTable, roomParticipantsTable, attachmentsTable, siteSettingsTable } from '../db/schema';
+import { uploadAttachment } from '../handlers/upload_attachment';
+import { getAttachmentLimits, MAX_UPLOAD_REQUEST_BYTES, MULTIPART_OVERHEAD_BYTES } from '../lib/attachments';
+
+describe('uploadAttachment', () => {
+  let memberId: number;
+  let outsiderId: number;
+  let roomId: number;
+  let uploadDir: string;
+
+  const buildForm = (contents: string, fileName: string, mimeType: string) => {
+    const formData = new FormData();
+    formData.set('room_id', String(roomId));
+    formData.set('file', new Blob([contents], { type: mimeType }), fileName);
+    return formData;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    uploadDir = await mkdtemp(path.join(os.tmpdir(), 'chat-uploads-'));
+    process.env['UPLOAD_DIR'] = uploadDir;
+
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'member', email: 'member@example.com', password_hash: 'hashed_password', role_id: role[0].id },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hashed_password', role_id: role[0].id }
+      ])
+      .returning()
+      .execute();
+    memberId = users[0].id;
+    outsiderId = users[1].id;
+
+    const room = await db.insert(roomsTable)
+      .values({
+        name: 'Room',
+        room_type: 'public',
+        owner_id: memberId
+      })
+      .returning()
+      .execute();
+    roomId = room[0].id;
+
+    await db.insert(roomParticipantsTable)
+      .values({
+        room_id: roomId,
+        user_id: memberId,
+        participant_role: 'admin'
+      })
+      .execute();
+  });
+
+  afterEach(async () => {
+    delete process.env['UPLOAD_DIR'];
+    await rm(uploadDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should store the file and return an unsent attachment', async () => {
+    const result = await uploadAttachment(buildForm('fake png bytes', 'photo.png', 'image/png'), memberId);
+
+    expect(result.id).toBeDefined();
+    expect(result.message_id).toBeNull();
+    expect(result.room_id).toEqual(roomId);
+    expect(result.uploader_id).toEqual(memberId);
+    expect(result.file_name).toEqual('photo.png');
+    expect(result.mime_type).toEqual('image/png');
+    expect(result.size_bytes).toEqual(14);
+    expect(result.download_path).toMatch(new RegExp(`^/attachments/${result.id}\\?expires=\\d+&signature=`));
+    expect(result).not.toHaveProperty('storage_key');
+
+    const rows = await db.select().from(attachmentsTable).execute();
+    expect(rows).toHaveLength(1);
+
+    const stored = await readFile(path.join(uploadDir, rows[0].storage_key), 'utf8');
+    expect(stored).toEqual('fake png bytes');
+  });
+
+  it('should enforce the size limit from site settings', async () => {
+    await db.insert(siteSettingsTable)
+      .values({
+        setting_key: 'max_attachment_size_bytes',
+        setting_value: '4',
+        setting_type: 'number'
+      })
+      .execute();
+
+    await expect(uploadAttachment(buildForm('too large', 'notes.txt', 'text/plain'), memberId))
+      .rejects.toThrow(/maximum size of 4 bytes/i);
+
+    const rows = await db.select().from(attachmentsTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should cap the size limit below the proxy request limit', async () => {
+    await db.insert(siteSettingsTable)
+      .values({
+        setting_key: 'max_attachment_size_bytes',
+        setting_value: String(1024 * 1024 * 1024),
+        setting_type: 'number'
+      })
+      .execute();
+
+    const limits = await getAttachmentLimits();
+
+    expect(limits.max_size_bytes).toEqual(MAX_UPLOAD_REQUEST_BYTES - MULTIPART_OVERHEAD_BYTES);
+  });
+
+  it('should enforce the allowed types from site settings', async () => {
+    await db.insert(siteSettingsTable)
+      .values({
+        setting_key: 'allowed_attachment_types',
+        setting_value: JSON.stringify(['application/pdf']),
+        setting_type: 'json'
+      })
+      .execute();
+
+    await expect(uploadAttachment(buildForm('bytes', 'photo.png', 'image/png'), memberId))
+      .rejects.toThrow(/image\/png is not allowed/i);
+
+    const result = await uploadAttachment(buildForm('%PDF', 'doc.pdf', 'application/pdf'), memberId);
+    expect(result.mime_type).toEqual('application/pdf');
+  });
+
+  it('should match types without their parameters', async () => {
+    const result = await uploadAttachment(buildForm('hello', 'notes.txt', 'text/plain;charset=utf-8'), memberId);
+    expect(result.mime_type).toEqual('text/plain');
+  });
+
+  it('should reject types outside the default allow list', async () => {
+    await expect(uploadAttachment(buildForm('<html></html>', 'page.html', 'text/html'), memberId))
+      .rejects.toThrow(/not allowed/i);
+  });
+
+  it('should reject users who are not participants', async () => {
+    await expect(uploadAttachment(buildForm('bytes', 'photo.png', 'image/png'), outsiderId))
+      .rejects.toThrow(/not a participant/i);
+  });
+
+  it('should reject requests without a file', async () => {
+    const formData = new FormData();
+    formData.set('room_id', String(roomId));
+
+    await expect(uploadAttachment(formData, memberId))
+      .rejects.toThrow(/no file uploaded/i);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable } from '../db/schema';
+import { toCurrentUser } from '../lib/users';
+import { getSessionUser, createSessionToken } from '../auth/session';
+
+describe('toCurrentUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should leave the password hash out of the session user', async () => {
+    const role = await db.insert(rolesTable)
+      .values({
+        name: 'member',
+        permissions: [],
+        is_default: true
+      })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({
+        username: 'member',
+        email: 'member@example.com',
+        password_hash: 'hashed_password',
+        role_id: role[0].id,
+        display_name: 'Member'
+      })
+      .returning()
+      .execute();
+
+    const sessionUser = await getSessionUser(createSessionToken(user[0].id).token);
+    const result = toCurrentUser(sessionUser!);
+
+    expect(result).not.toHaveProperty('password_hash');
+    expect(result.id).toEqual(user[0].id);
+    expect(result.username).toEqual('member');
+    expect(result.email).toEqual('member@example.com');
+    expect(result.display_name).toEqual('Member');
+  });
+});
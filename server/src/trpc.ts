@@ -0,0 +1,58 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { type CreateWSSContextFnOptions } from '@trpc/server/adapters/ws';
+import superjson from 'superjson';
+import { getSessionUser, parseAuthorizationHeader } from './auth/session';
+import { getUserPermissions, type Permission } from './auth/permissions';
+import { getAttachmentLimits, MULTIPART_OVERHEAD_BYTES } from './lib/attachments';
+
+// Resolve the caller from the session token sent with each request.
+// HTTP clients send it as a bearer header, WebSocket clients as the "token" connection param.
+export const createContext = async ({ req, info }: CreateHTTPContextOptions | CreateWSSContextFnOptions) => {
+  const token = parseAuthorizationHeader(req.headers.authorization) ?? info.connectionParams?.['token'] ?? null;
+  const user = await getSessionUser(token);
+  // Declared request body size, so uploads can be refused before their body is read
+  const contentLength = req.headers['content-length'] !== undefined ? Number(req.headers['content-length']) : null;
+  return { user, contentLength };
+};
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const publicProcedure = t.procedure;
+
+// Procedures that require a logged-in user; ctx.user is non-null inside them
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { user: ctx.user } });
+});
+
+// Procedures that additionally require the caller's role to grant a catalogued permission
+export const requirePermission = (permission: Permission) => protectedProcedure.use(async ({ ctx, next }) => {
+  const permissions = await getUserPermissions(ctx.user.id);
+  if (!permissions.includes(permission)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Missing permission: ${permission}` });
+  }
+  return next({ ctx: { permissions } });
+});
+
+// File uploads: the declared body size is checked against the attachment limit before the
+// multipart body is parsed, so oversized files are refused without being read into memory
+export const uploadProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (ctx.contentLength === null || !Number.isFinite(ctx.contentLength)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Uploads must declare their Content-Length' });
+  }
+
+  const limits = await getAttachmentLimits();
+  if (ctx.contentLength > limits.max_size_bytes + MULTIPART_OVERHEAD_BYTES) {
+    throw new TRPCError({ code: 'PAYLOAD_TOO_LARGE', message: `File exceeds the maximum size of ${limits.max_size_bytes} bytes` });
+  }
+
+  return next();
+});